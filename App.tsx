@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth0 } from '@auth0/auth0-react';
 import Header from './components/Header';
 import LiveCoachingHUD from './components/LiveCoachingHUD';
@@ -8,17 +8,69 @@ import WorkoutBuilder from './components/WorkoutBuilder';
 import ActiveWorkoutSession from './components/ActiveWorkoutSession';
 import AISuggestionModal from './components/AISuggestionModal';
 import SolanaWalletPanel from './components/SolanaWalletPanel';
-import { analyzeForm } from './services/geminiService';
-import { AnalysisFeedback, ExerciseType, FrameData, WorkoutRoutine, SetLog, WorkoutHistoryEntry, UserAccount } from './types';
+import SettingsPanel from './components/SettingsPanel';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import AdminReviewPanel from './components/AdminReviewPanel';
+import WorkoutAnchorStatus from './components/WorkoutAnchorStatus';
+import { AiProviderSettings, analyzeForm, configureAiProvider } from './services/aiProvider';
+import { buildLocalAnalysisFeedback, mergeFormViolations } from './services/formRules';
+import { computeVelocityLoss, getTotalTimeUnderTension } from './services/repMetrics';
+import { calculateWorkoutPoints } from './services/workoutPoints';
+import { verifySession } from './services/sessionVerification';
+import { formatSchemaIssues, SchemaIssue } from './services/schemaMigrations';
+import { createMemoryBackend } from './services/storageBackends';
+import {
+  AppSettings,
+  createStorageRepository,
+  DEFAULT_APP_SETTINGS,
+  getStorageRepository,
+  StorageRepository,
+} from './services/storageRepository';
+import { applyRemoteRecords, createSyncSession, mergePublicAccounts, RemoteChanges, SyncSession } from './services/syncClient';
+import {
+  anchorWorkout,
+  claimRewards,
+  createApiClient,
+  fetchLeaderboard,
+  fetchReviewQueue,
+  fetchRewardClaims,
+  fetchRewardStatus,
+  fetchSyncProfile,
+  getSyncBaseUrl,
+  resolveSyncAccessToken,
+  submitSessionReview,
+} from './services/apiClient';
+import { buildLeaderboard } from './services/leaderboard';
+import { getClusterConfig, getConnection } from './services/solanaService';
+import { CLUSTER_LABELS } from './services/solanaCluster';
+import { verifyWorkoutAnchor } from './services/workoutAnchor';
+import {
+  AnalysisFeedback,
+  ExerciseType,
+  FrameData,
+  LeaderboardQuery,
+  LeaderboardResponse,
+  LiveSetSummary,
+  WorkoutRoutine,
+  SetLog,
+  SessionVerification,
+  WorkoutHistoryEntry,
+  WorkoutAnchorCheck,
+  UserAccount,
+  SyncCollection,
+} from './types';
+
+const SYNC_INTERVAL_MS = 60_000;
+const SYNC_DEBOUNCE_MS = 2_000;
 
 const App: React.FC = () => {
-  const { user, isAuthenticated, isLoading, loginWithRedirect, logout } = useAuth0();
-  const [accounts, setAccounts] = useState<UserAccount[]>(() => {
-    const saved = localStorage.getItem('gymform_accounts');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [currentUserId, setCurrentUserId] = useState<string | null>(() => localStorage.getItem('gymform_current_user'));
-  const [dataLoaded, setDataLoaded] = useState(false);
+  const { user, isAuthenticated, isLoading, loginWithRedirect, logout, getAccessTokenSilently } = useAuth0();
+  const [repository, setRepository] = useState<StorageRepository | null>(null);
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  // The user whose routines/history are in state; saves wait until it matches currentUserId.
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const dataLoaded = !!currentUserId && loadedUserId === currentUserId;
 
   // User data
   const [routines, setRoutines] = useState<WorkoutRoutine[]>([]);
@@ -32,7 +84,18 @@ const App: React.FC = () => {
   const [feedback, setFeedback] = useState<AnalysisFeedback | null>(null);
   const [isAnalyzingReport, setIsAnalyzingReport] = useState(false);
   const [isWalletView, setIsWalletView] = useState(false);
+  const [isSettingsView, setIsSettingsView] = useState(false);
+  const [isReviewView, setIsReviewView] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const velocityLossThreshold = settings.velocityLossThreshold;
   const [error, setError] = useState<string | null>(null);
+  const syncSessionRef = useRef<SyncSession | null>(null);
+  const scheduleSyncRef = useRef<() => void>(() => {});
+  // Finished workouts to anchor on-chain once they are in state (UserAccount.anchorWorkouts).
+  const pendingAnchorIdsRef = useRef(new Set<string>());
+  const latestDataRef = useRef({ accounts, routines, workoutHistory });
+  latestDataRef.current = { accounts, routines, workoutHistory };
   const sortedRoutines = [...routines].sort((a, b) => (b.lastPerformedAt ?? 0) - (a.lastPerformedAt ?? 0));
   const mySplitRoutines = sortedRoutines
     .filter(r => !!r.splitGroupId)
@@ -52,72 +115,221 @@ const App: React.FC = () => {
     ? routines.find(r => r.id === editingRoutineId) || null
     : null;
   const currentUser = currentUserId ? accounts.find(a => a.id === currentUserId) || null : null;
-  const leaderboard = [...accounts]
-    .map(account => ({
-      ...account,
-      points: account.points ?? 0,
-      workoutsCompleted: account.workoutsCompleted ?? 0,
-      totalSetsCompleted: account.totalSetsCompleted ?? 0,
-      bestFormScore: account.bestFormScore ?? 0,
-    }))
-    .sort((a, b) => {
-      if ((b.points ?? 0) !== (a.points ?? 0)) return (b.points ?? 0) - (a.points ?? 0);
-      return (b.workoutsCompleted ?? 0) - (a.workoutsCompleted ?? 0);
-    });
-  const currentUserRank = currentUser
-    ? leaderboard.findIndex(account => account.id === currentUser.id) + 1
-    : null;
+  const reportSchemaIssues = (issues: SchemaIssue[]) => {
+    if (issues.length === 0) return;
+    console.warn("Saved data failed validation:", issues);
+    setError(formatSchemaIssues(issues));
+  };
+
+  const reportSaveError = (what: string) => (err: unknown) => {
+    console.error(`Failed to save ${what}:`, err);
+    setError(`Could not save your ${what}. Check browser storage permissions.`);
+  };
+
+  const queueSync = (collection: SyncCollection, records: Array<{ id: string }>) => {
+    const session = syncSessionRef.current;
+    if (!session) return;
+    session
+      .recordLocalChanges(collection, records)
+      .then(() => scheduleSyncRef.current())
+      .catch(reportSaveError('sync queue'));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSavedData = async () => {
+      let repo: StorageRepository;
+      try {
+        repo = await getStorageRepository();
+        const [savedAccounts, savedUserId, savedSettings] = await Promise.all([
+          repo.loadAccounts(),
+          repo.loadCurrentUserId(),
+          repo.loadSettings(),
+        ]);
+        if (cancelled) return;
+        setAccounts(savedAccounts.records);
+        reportSchemaIssues(savedAccounts.issues);
+        setCurrentUserId(savedUserId);
+        setSettings(savedSettings);
+        configureAiProvider(savedSettings.aiProvider);
+      } catch (err) {
+        console.error("Failed to load saved data:", err);
+        if (cancelled) return;
+        // Keep the app usable for this session rather than blocking on storage.
+        repo = createStorageRepository(createMemoryBackend());
+        setError("Saved data could not be loaded. Changes won't persist after this session.");
+      }
+      setRepository(repo);
+    };
+
+    loadSavedData();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem('gymform_accounts', JSON.stringify(accounts));
-  }, [accounts]);
+    if (!repository) return;
+    repository.saveAccounts(accounts).catch(reportSaveError('accounts'));
+    queueSync('accounts', accounts);
+  }, [repository, accounts]);
 
   useEffect(() => {
-    if (currentUserId) localStorage.setItem('gymform_current_user', currentUserId);
-    else localStorage.removeItem('gymform_current_user');
-  }, [currentUserId]);
+    if (!repository) return;
+    repository.saveCurrentUserId(currentUserId).catch(reportSaveError('session'));
+  }, [repository, currentUserId]);
 
   useEffect(() => {
-    if (!currentUserId) {
+    if (!repository || !currentUserId) {
       setRoutines([]);
       setWorkoutHistory([]);
-      setDataLoaded(false);
+      setLoadedUserId(null);
       return;
     }
 
-    const savedRoutines = localStorage.getItem(`gymform_routines_${currentUserId}`);
-    const savedHistory = localStorage.getItem(`gymform_history_${currentUserId}`);
-    setRoutines(savedRoutines ? JSON.parse(savedRoutines) : []);
-    setWorkoutHistory(savedHistory ? JSON.parse(savedHistory) : []);
-    setDataLoaded(true);
-  }, [currentUserId]);
+    let cancelled = false;
+    Promise.all([repository.loadRoutines(currentUserId), repository.loadHistory(currentUserId)])
+      .then(([savedRoutines, savedHistory]) => {
+        if (cancelled) return;
+        setRoutines(savedRoutines.records);
+        setWorkoutHistory(savedHistory.records);
+        reportSchemaIssues([...savedRoutines.issues, ...savedHistory.issues]);
+        setLoadedUserId(currentUserId);
+      })
+      .catch(err => {
+        console.error("Failed to load workout data:", err);
+        if (!cancelled) setError('Could not load your routines and history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, currentUserId]);
 
   useEffect(() => {
-    if (!currentUserId || !dataLoaded) return;
-    localStorage.setItem(`gymform_routines_${currentUserId}`, JSON.stringify(routines));
-  }, [routines, currentUserId, dataLoaded]);
+    if (!repository || !currentUserId || !dataLoaded) return;
+    repository.saveRoutines(currentUserId, routines).catch(reportSaveError('routines'));
+    queueSync('routines', routines);
+  }, [repository, routines, currentUserId, dataLoaded]);
 
   useEffect(() => {
-    if (!currentUserId || !dataLoaded) return;
-    localStorage.setItem(`gymform_history_${currentUserId}`, JSON.stringify(workoutHistory));
-  }, [workoutHistory, currentUserId, dataLoaded]);
+    if (!repository || !currentUserId || !dataLoaded) return;
+    repository.saveHistory(currentUserId, workoutHistory).catch(reportSaveError('workout history'));
+    queueSync('history', workoutHistory);
+  }, [repository, workoutHistory, currentUserId, dataLoaded]);
+
+  const applyRemoteChanges = (remote: RemoteChanges) => {
+    setAccounts(prev => applyRemoteRecords(prev, remote.accounts));
+    setRoutines(prev => applyRemoteRecords(prev, remote.routines));
+    setWorkoutHistory(prev => applyRemoteRecords(prev, remote.history));
+  };
+
+  // Optional server sync (VITE_SYNC_URL). Local storage stays the source of truth for the UI; changes
+  // are queued while offline and pushed/pulled in the background.
+  useEffect(() => {
+    const baseUrl = getSyncBaseUrl();
+    if (!repository || !currentUserId || !dataLoaded || !baseUrl) return;
+
+    let cancelled = false;
+    let debounceTimer: number | undefined;
+    const userId = currentUserId;
+
+    const runSync = async () => {
+      const session = syncSessionRef.current;
+      if (!session || cancelled || !navigator.onLine) return;
+      try {
+        const remote = await session.synchronize();
+        if (cancelled) return;
+        applyRemoteChanges(remote);
+        const publicAccounts = await session.listPublicAccounts();
+        if (!cancelled) setAccounts(prev => mergePublicAccounts(prev, publicAccounts, userId));
+      } catch (err) {
+        console.warn(`Sync failed; ${session.getPendingCount()} change(s) stay queued:`, err);
+      }
+    };
+
+    scheduleSyncRef.current = () => {
+      window.clearTimeout(debounceTimer);
+      debounceTimer = window.setTimeout(runSync, SYNC_DEBOUNCE_MS);
+    };
+
+    repository
+      .loadSyncState(userId)
+      .then(async initialState => {
+        if (cancelled) return;
+        const session = createSyncSession({
+          api: createApiClient({ baseUrl, getAccessToken: () => resolveSyncAccessToken(userId, getAccessTokenSilently) }),
+          userId,
+          initialState,
+          saveState: state => repository.saveSyncState(userId, state),
+        });
+        syncSessionRef.current = session;
+        // Catch up on anything changed before the session existed, then do the first round trip.
+        const { accounts: latestAccounts, routines: latestRoutines, workoutHistory: latestHistory } = latestDataRef.current;
+        await session.recordLocalChanges('accounts', latestAccounts);
+        await session.recordLocalChanges('routines', latestRoutines);
+        await session.recordLocalChanges('history', latestHistory);
+        await runSync();
+      })
+      .catch(err => console.error("Failed to start sync:", err));
+
+    const interval = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      cancelled = true;
+      syncSessionRef.current = null;
+      scheduleSyncRef.current = () => {};
+      window.clearTimeout(debounceTimer);
+      window.clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [repository, currentUserId, dataLoaded, getAccessTokenSilently]);
+
+  // Admins (SYNC_ADMIN_USER_IDS on the server) get the flagged-session review view.
+  useEffect(() => {
+    setIsAdmin(false);
+    const api = getSyncApi();
+    if (!api) return;
+    let cancelled = false;
+    fetchSyncProfile(api)
+      .then(profile => {
+        if (!cancelled) setIsAdmin(profile.isAdmin);
+      })
+      .catch(err => console.warn("Could not load sync profile:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId, getAccessTokenSilently]);
+
+  const updateSettings = async (updates: Partial<AppSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    await repository?.saveSettings(next);
+  };
+
+  const handleSaveAiProviderSettings = async (aiProvider: AiProviderSettings) => {
+    await updateSettings({ aiProvider });
+    configureAiProvider(aiProvider);
+  };
 
   // Sync Auth0 user with local accounts
   useEffect(() => {
+    // Wait for saved accounts so an existing user isn't re-created as a fresh account.
+    if (!repository) return;
     if (isAuthenticated && user && user.sub) {
       const userId = user.sub;
       const userEmail = user.email;
 
       const existingAccount = accounts.find(a => 
-        a.id === userId || (userEmail && (a as any).email === userEmail)
+        a.id === userId || (userEmail && a.email === userEmail)
       );
 
       if (existingAccount) {
         if (currentUserId !== existingAccount.id) {
           setCurrentUserId(existingAccount.id);
         }
-        if (userEmail && !(existingAccount as any).email) {
-          setAccounts(prev => prev.map(a => a.id === existingAccount.id ? { ...a, email: userEmail } : a) as UserAccount[]);
+        if (userEmail && !existingAccount.email) {
+          setAccounts(prev => prev.map(a => a.id === existingAccount.id ? { ...a, email: userEmail } : a));
         }
       } else {
         setAccounts(prev => [...prev, {
@@ -130,11 +342,11 @@ const App: React.FC = () => {
           workoutsCompleted: 0,
           totalSetsCompleted: 0,
           bestFormScore: 0,
-        } as any as UserAccount]);
+        }]);
         setCurrentUserId(userId);
       }
     }
-  }, [isAuthenticated, user, currentUserId, accounts]);
+  }, [repository, isAuthenticated, user, currentUserId, accounts]);
 
   const handleLogout = () => {
     logout({ logoutParams: { returnTo: window.location.origin } });
@@ -148,6 +360,8 @@ const App: React.FC = () => {
     setFeedback(null);
     setIsAnalyzingReport(false);
     setIsWalletView(false);
+    setIsSettingsView(false);
+    setIsReviewView(false);
     setError(null);
   };
 
@@ -160,35 +374,46 @@ const App: React.FC = () => {
     );
   };
 
-  const awardWorkoutPoints = (workout: WorkoutRoutine) => {
-    const sets = workout.exercises.flatMap(ex => ex.sets);
-    const totalSets = sets.length;
+  const awardWorkoutPoints = (workout: WorkoutRoutine, verification: SessionVerification) => {
+    const { totalSets, bestFormScore: bestFormInSession } = calculateWorkoutPoints(workout.exercises);
     if (totalSets === 0) return;
-
-    const formScores = sets
-      .filter(set => typeof set.formScore === 'number')
-      .map(set => set.formScore as number);
-
-    const highFormBonus = formScores.reduce((acc, score) => {
-      if (score >= 90) return acc + 20;
-      if (score >= 80) return acc + 12;
-      if (score >= 70) return acc + 6;
-      return acc;
-    }, 0);
-
-    const consistencyBonus = totalSets >= 10 ? 20 : totalSets >= 6 ? 10 : 0;
-    const pointsEarned = 25 + totalSets * 5 + highFormBonus + consistencyBonus;
-    const bestFormInSession = formScores.length ? Math.max(...formScores) : undefined;
+    // Flagged or rejected sessions still count as workouts, but their points wait for an admin review.
+    const pointsEarned = verification.awardedPoints;
 
     updateCurrentUserStats(account => ({
       ...account,
       points: (account.points ?? 0) + pointsEarned,
+      // Local estimate until the wallet panel fetches the server's verified figure.
+      pendingSolanaRewards: (account.pendingSolanaRewards ?? 0) + pointsEarned,
       workoutsCompleted: (account.workoutsCompleted ?? 0) + 1,
       totalSetsCompleted: (account.totalSetsCompleted ?? 0) + totalSets,
       bestFormScore: Math.max(account.bestFormScore ?? 0, bestFormInSession ?? 0),
     }));
   };
 
+  // Client for the optional sync server, or null when the app runs local-only.
+  const getSyncApi = () => {
+    const baseUrl = getSyncBaseUrl();
+    if (!baseUrl || !currentUserId) return null;
+    const userId = currentUserId;
+    return createApiClient({ baseUrl, getAccessToken: () => resolveSyncAccessToken(userId, getAccessTokenSilently) });
+  };
+
+  const loadLeaderboard = (query: LeaderboardQuery): Promise<LeaderboardResponse> => {
+    const api = getSyncApi();
+    if (api) return fetchLeaderboard(api, query);
+    // Local-only: rank the accounts on this device. Only the signed-in user's history is known here.
+    return Promise.resolve().then(() =>
+      buildLeaderboard({
+        accounts,
+        historyByUser: currentUserId ? { [currentUserId]: workoutHistory } : {},
+        query,
+        viewerId: currentUserId ?? undefined,
+        now: Date.now(),
+      })
+    );
+  };
+
   const handleCreateRoutine = (newRoutine: WorkoutRoutine | WorkoutRoutine[]) => {
     const toAdd = Array.isArray(newRoutine) ? newRoutine : [newRoutine];
     setRoutines(prev => {
@@ -242,6 +467,39 @@ const App: React.FC = () => {
     setWorkoutHistory([]);
   };
 
+  // The server anchors its synced copy, so the entry is pushed first and the anchored copy pulled back.
+  const anchorHistoryEntry = async (entryId: string) => {
+    const api = getSyncApi();
+    const session = syncSessionRef.current;
+    if (!api || !session) throw new Error('Anchoring workouts needs the sync server (set VITE_SYNC_URL).');
+    await session.recordLocalChanges('history', latestDataRef.current.workoutHistory);
+    applyRemoteChanges(await session.synchronize());
+    await anchorWorkout(api, entryId);
+    applyRemoteChanges(await session.synchronize());
+  };
+
+  const verifyHistoryAnchor = async (entry: WorkoutHistoryEntry): Promise<WorkoutAnchorCheck> => {
+    const cluster = getClusterConfig();
+    if (entry.anchor && entry.anchor.cluster !== cluster.name) {
+      return {
+        status: 'not_found',
+        message: `Anchored on ${CLUSTER_LABELS[entry.anchor.cluster]}, but this app is set to ${CLUSTER_LABELS[cluster.name]}.`,
+      };
+    }
+    // With a sync server, also check the memo came from its treasury rather than anyone's wallet.
+    const api = getSyncApi();
+    const treasuryAddress = api ? (await fetchRewardStatus(api).catch(() => null))?.treasuryAddress : undefined;
+    return verifyWorkoutAnchor(entry, getConnection(), treasuryAddress);
+  };
+
+  useEffect(() => {
+    const ready = workoutHistory.filter(entry => pendingAnchorIdsRef.current.has(entry.id));
+    ready.forEach(entry => {
+      pendingAnchorIdsRef.current.delete(entry.id);
+      anchorHistoryEntry(entry.id).catch(err => console.warn(`Could not anchor workout ${entry.id}; it can be anchored from its history card:`, err));
+    });
+  }, [workoutHistory]);
+
   const startWorkoutSession = (routine: WorkoutRoutine) => {
     // Start each session with fresh sets while preserving routine template metadata.
     setActiveWorkout({
@@ -296,7 +554,7 @@ const App: React.FC = () => {
     setActiveWorkout(updated);
   };
 
-  const handleSessionComplete = async (frames: FrameData[]) => {
+  const handleSessionComplete = async (frames: FrameData[], summary: LiveSetSummary) => {
     const context = isCoachingActive;
     setIsCoachingActive(null);
     if (frames.length === 0 || !context) return;
@@ -309,17 +567,32 @@ const App: React.FC = () => {
         ? frames.filter((_, i) => i % Math.floor(frames.length / 12) === 0).slice(0, 12)
         : frames;
         
-      const result = await analyzeForm(sampled, context.type);
+      let result: AnalysisFeedback;
+      try {
+        result = mergeFormViolations(await analyzeForm(sampled, context.type), summary.formViolations);
+      } catch (analysisError) {
+        // Without counted reps the local rules have nothing to report, so surface the Gemini failure.
+        if (summary.reps.length === 0) throw analysisError;
+        console.error(analysisError);
+        result = buildLocalAnalysisFeedback(context.type, summary.formViolations, summary.reps.length);
+        setError('AI analysis unavailable. Showing on-device form checks instead.');
+      }
       setFeedback(result);
 
       // Auto-log the set if in active session
       if (activeWorkout) {
         handleLogSet(context.exId, {
           id: crypto.randomUUID(),
-          reps: 0, // AI could estimate this, for now we let user edit or manual entry
+          reps: summary.reps.length, // Counted on-device from pose landmarks; user can still edit
+          poseVerifiedReps: summary.reps.length,
           weight: 0,
           formScore: result.score,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          repMetrics: summary.repMetrics.length > 0 ? summary.repMetrics : undefined,
+          timeUnderTensionMs: summary.repMetrics.length > 0 ? getTotalTimeUnderTension(summary.repMetrics) : undefined,
+          velocityLossPercent: computeVelocityLoss(summary.repMetrics) ?? undefined,
+          autoStopped: summary.autoStopped || undefined,
+          coachEvents: summary.coachEvents?.length ? summary.coachEvents : undefined,
         });
       }
     } catch (err) {
@@ -345,21 +618,27 @@ const App: React.FC = () => {
         sets: [...ex.sets],
       })),
     };
+    const verification = verifySession(historyEntry, workoutHistory);
+    historyEntry.verification = verification;
 
+    if (currentUser?.anchorWorkouts && getSyncBaseUrl()) pendingAnchorIdsRef.current.add(historyEntry.id);
     setWorkoutHistory(prev => [historyEntry, ...prev]);
     setRoutines(prev =>
       prev.map(r => (r.id === activeWorkout.id ? { ...r, lastPerformedAt: performedAt } : r))
     );
-    awardWorkoutPoints(activeWorkout);
+    awardWorkoutPoints(activeWorkout, verification);
+    if (verification.status !== 'verified') {
+      setError(`This session was ${verification.status} by the plausibility check, so its ${verification.points} points are held for review. See Workout History for the reasons.`);
+    }
     setActiveWorkout(null);
   };
 
-  if (isLoading) {
+  if (isLoading || !repository) {
     return (
       <div className="min-h-screen bg-zinc-950 text-zinc-100 flex items-center justify-center">
         <div className="animate-pulse flex flex-col items-center">
           <div className="h-4 w-4 bg-indigo-500 rounded-full mb-2"></div>
-          <p className="text-xs font-black uppercase tracking-widest text-zinc-500">Loading Auth0...</p>
+          <p className="text-xs font-black uppercase tracking-widest text-zinc-500">{isLoading ? 'Loading Auth0...' : 'Loading saved data...'}</p>
         </div>
       </div>
     );
@@ -404,6 +683,8 @@ const App: React.FC = () => {
     );
   }
 
+  const syncApi = getSyncApi();
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-100 font-sans selection:bg-indigo-500/30 flex flex-col">
       <Header 
@@ -412,14 +693,38 @@ const App: React.FC = () => {
         onLogout={handleLogout} 
         onOpenWallet={() => {
             setIsWalletView(true);
+            setIsSettingsView(false);
+            setIsReviewView(false);
+            setIsBuilding(false);
+            setEditingSplitGroupId(null);
+            setEditingRoutineId(null);
+            setIsSuggesting(false);
+            setActiveWorkout(null);
+        }}
+        onOpenSettings={() => {
+            setIsSettingsView(true);
+            setIsWalletView(false);
+            setIsReviewView(false);
             setIsBuilding(false);
             setEditingSplitGroupId(null);
             setEditingRoutineId(null);
             setIsSuggesting(false);
             setActiveWorkout(null);
         }}
+        onOpenReview={isAdmin && syncApi ? () => {
+            setIsReviewView(true);
+            setIsWalletView(false);
+            setIsSettingsView(false);
+            setIsBuilding(false);
+            setEditingSplitGroupId(null);
+            setEditingRoutineId(null);
+            setIsSuggesting(false);
+            setActiveWorkout(null);
+        } : undefined}
         onLogoClick={() => {
             setIsWalletView(false);
+            setIsSettingsView(false);
+            setIsReviewView(false);
             setIsBuilding(false);
             setEditingSplitGroupId(null);
             setEditingRoutineId(null);
@@ -437,8 +742,29 @@ const App: React.FC = () => {
             <SolanaWalletPanel 
                 currentUser={currentUser} 
                 onUpdateUser={(updates) => updateCurrentUserStats(a => ({ ...a, ...updates }))} 
+                loadRewardStatus={syncApi ? () => fetchRewardStatus(syncApi) : null}
+                loadClaims={syncApi ? () => fetchRewardClaims(syncApi) : null}
+                claimRewards={syncApi ? (recipient, idempotencyKey) => claimRewards(syncApi, recipient, idempotencyKey) : null}
                 onClose={() => setIsWalletView(false)}
             />
+        ) : isReviewView && syncApi ? (
+            <AdminReviewPanel
+                loadQueue={filter => fetchReviewQueue(syncApi, filter)}
+                submitReview={(session, decision, note) => submitSessionReview(syncApi, session.userId, session.entry.id, decision, note)}
+                onClose={() => setIsReviewView(false)}
+            />
+        ) : isSettingsView ? (
+            <SettingsPanel
+                aiProviderSettings={settings.aiProvider}
+                onSaveAiProviderSettings={handleSaveAiProviderSettings}
+                profile={{
+                  bodyweightKg: currentUser.bodyweightKg,
+                  experienceLevel: currentUser.experienceLevel,
+                  ttsSettings: currentUser.ttsSettings,
+                }}
+                onSaveProfile={profile => updateCurrentUserStats(account => ({ ...account, ...profile }))}
+                onClose={() => setIsSettingsView(false)}
+            />
         ) : (
         <div className="space-y-8">
           
@@ -482,41 +808,12 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-xs font-black text-amber-300 uppercase tracking-[0.3em]">Global Leaderboard</h3>
-                  {currentUserRank && (
-                    <span className="text-[10px] font-black text-zinc-300 uppercase tracking-widest">
-                      Your Rank: #{currentUserRank}
-                    </span>
-                  )}
-                </div>
-                <div className="space-y-2">
-                  {leaderboard.slice(0, 8).map((account, index) => (
-                    <div
-                      key={account.id}
-                      className={`flex items-center justify-between rounded-xl px-3 py-2 border ${
-                        account.id === currentUser?.id
-                          ? 'bg-indigo-500/10 border-indigo-500/30'
-                          : 'bg-zinc-950 border-zinc-800'
-                      }`}
-                    >
-                      <div className="flex items-center gap-3">
-                        <span className="w-6 h-6 rounded-md bg-zinc-800 text-zinc-300 text-[10px] font-black flex items-center justify-center">
-                          {index + 1}
-                        </span>
-                        <span className="text-sm font-bold text-white">@{account.username}</span>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-emerald-300 text-xs font-black uppercase tracking-widest">{account.points} pts</p>
-                        <p className="text-zinc-500 text-[10px] uppercase tracking-widest">{account.workoutsCompleted} workouts</p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-
-
+              <LeaderboardPanel
+                currentUserId={currentUser.id}
+                loadLeaderboard={loadLeaderboard}
+                isServerBacked={!!getSyncBaseUrl()}
+                refreshKey={`${currentUser.points ?? 0}:${workoutHistory.length}:${accounts.length}`}
+              />
 
               {routines.length === 0 ? (
                 <div className="py-20 flex flex-col items-center justify-center border-2 border-dashed border-zinc-900 rounded-3xl bg-zinc-900/20">
@@ -647,6 +944,7 @@ const App: React.FC = () => {
                           const avgScore = avgScoreRaw.length
                             ? Math.round(avgScoreRaw.reduce((a, b) => a + b, 0) / avgScoreRaw.length)
                             : null;
+                          const verification = entry.verification;
 
                           return (
                             <div key={entry.id} className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 flex items-center justify-between">
@@ -669,9 +967,38 @@ const App: React.FC = () => {
                                     </div>
                                   ))}
                                 </div>
+                                {verification && verification.reasons.length > 0 && (
+                                  <ul className="mt-3 space-y-1">
+                                    {verification.reasons.map((reason, idx) => (
+                                      <li key={idx} className="text-zinc-400 text-[11px]">{reason.message}</li>
+                                    ))}
+                                    {verification.review?.note && (
+                                      <li className="text-zinc-300 text-[11px] italic">Reviewer: {verification.review.note}</li>
+                                    )}
+                                  </ul>
+                                )}
+                                <WorkoutAnchorStatus
+                                  entry={entry}
+                                  cluster={getClusterConfig()}
+                                  onAnchor={syncApi ? anchorHistoryEntry : undefined}
+                                  onVerify={verifyHistoryAnchor}
+                                />
                               </div>
                               <div className="text-right ml-4 self-start">
                                 <p className="text-zinc-300 text-xs font-bold uppercase tracking-widest">{totalSets} sets</p>
+                                {verification && (
+                                  <p className={`text-[10px] font-black uppercase tracking-widest ${
+                                    verification.awardedPoints > 0 || verification.status === 'verified'
+                                      ? 'text-emerald-400'
+                                      : verification.review ? 'text-rose-400' : 'text-amber-300'
+                                  }`}>
+                                    {verification.review
+                                      ? `${verification.review.decision} · ${verification.awardedPoints} pts`
+                                      : verification.status === 'verified'
+                                        ? `Verified · ${verification.awardedPoints} pts`
+                                        : `${verification.status} · ${verification.points} pts held`}
+                                  </p>
+                                )}
                                 {avgScore !== null && (
                                   <p className="text-emerald-400 text-xs font-bold uppercase tracking-widest">Avg AI Score: {avgScore}</p>
                                 )}
@@ -729,6 +1056,10 @@ const App: React.FC = () => {
               workoutHistory={workoutHistory}
               onLaunchCoach={(exId, type) => setIsCoachingActive({ exId, type })}
               onFinish={handleFinishWorkoutSession}
+              velocityLossThreshold={velocityLossThreshold}
+              onVelocityLossThresholdChange={threshold =>
+                updateSettings({ velocityLossThreshold: threshold }).catch(reportSaveError('settings'))
+              }
             />
           )}
 
@@ -763,6 +1094,7 @@ const App: React.FC = () => {
               <AnalysisResult 
                 feedback={feedback} 
                 onReset={() => setFeedback(null)} 
+                ttsSettings={currentUser?.ttsSettings}
               />
             </div>
           )}
@@ -777,6 +1109,8 @@ const App: React.FC = () => {
           onComplete={handleSessionComplete}
           onCancel={() => setIsCoachingActive(null)}
           onTtsError={(message) => setError(message)}
+          ttsSettings={currentUser?.ttsSettings}
+          velocityLossThreshold={velocityLossThreshold}
         />
       )}
 
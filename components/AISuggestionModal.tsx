@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { suggestWorkout } from '../services/geminiService';
-import { WorkoutRoutine } from '../types';
+import { suggestWorkout } from '../services/aiProvider';
+import { WorkoutRoutine, WorkoutSplitSuggestion } from '../types';
 
 interface AISuggestionModalProps {
   history: WorkoutRoutine[];
@@ -12,7 +12,7 @@ interface AISuggestionModalProps {
 const AISuggestionModal: React.FC<AISuggestionModalProps> = ({ history, onSave, onCancel }) => {
   const [goal, setGoal] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [suggestion, setSuggestion] = useState<{ routines: WorkoutRoutine[]; splitName: string; reasoning: string } | null>(null);
+  const [suggestion, setSuggestion] = useState<WorkoutSplitSuggestion | null>(null);
 
   const handleGenerate = async () => {
     if (!goal.trim()) return;
@@ -2,6 +2,8 @@
 import React, { useMemo, useState } from 'react';
 import { WorkoutRoutine, SetLog, ExerciseType, WorkoutHistoryEntry } from '../types';
 
+const VELOCITY_LOSS_OPTIONS: Array<number | null> = [null, 10, 20, 30, 40];
+
 interface ActiveWorkoutSessionProps {
   workout: WorkoutRoutine;
   onLogSet: (exerciseId: string, set: SetLog) => void;
@@ -10,6 +12,8 @@ interface ActiveWorkoutSessionProps {
   workoutHistory: WorkoutHistoryEntry[];
   onLaunchCoach: (exerciseId: string, type: ExerciseType) => void;
   onFinish: () => void;
+  velocityLossThreshold: number | null;
+  onVelocityLossThresholdChange: (threshold: number | null) => void;
 }
 
 const ActiveWorkoutSession: React.FC<ActiveWorkoutSessionProps> = ({
@@ -19,7 +23,9 @@ const ActiveWorkoutSession: React.FC<ActiveWorkoutSessionProps> = ({
   onDeleteSet,
   workoutHistory,
   onLaunchCoach,
-  onFinish
+  onFinish,
+  velocityLossThreshold,
+  onVelocityLossThresholdChange
 }) => {
   const [activeExerciseIdx, setActiveExerciseIdx] = useState(0);
   const [weight, setWeight] = useState(0);
@@ -135,6 +141,27 @@ const ActiveWorkoutSession: React.FC<ActiveWorkoutSessionProps> = ({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest ml-1">
+              AI Coach Auto-Stop (Velocity Loss)
+            </label>
+            <div className="flex gap-2">
+              {VELOCITY_LOSS_OPTIONS.map(option => (
+                <button
+                  key={option ?? 'off'}
+                  onClick={() => onVelocityLossThresholdChange(option)}
+                  className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all border ${
+                    velocityLossThreshold === option
+                      ? 'bg-indigo-600 border-indigo-500 text-white'
+                      : 'bg-zinc-950 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {option === null ? 'Off' : `${option}%`}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <button 
             onClick={handleAddSet}
             disabled={reps <= 0}
@@ -191,6 +218,61 @@ const ActiveWorkoutSession: React.FC<ActiveWorkoutSessionProps> = ({
                     </div>
 
                     <div className="flex items-center gap-2">
+                      {set.repMetrics && set.repMetrics.length > 0 && (
+                        <div
+                          className="flex items-end gap-0.5 h-5"
+                          title={set.repMetrics.map(m => `Rep ${m.rep}: ${m.meanConcentricVelocity.toFixed(2)}`).join('\n')}
+                        >
+                          {set.repMetrics.map(m => {
+                            const fastest = Math.max(...set.repMetrics!.map(r => r.meanConcentricVelocity), 0.001);
+                            return (
+                              <div
+                                key={m.rep}
+                                className="w-1 bg-indigo-400 rounded-sm"
+                                style={{ height: `${Math.max(15, (m.meanConcentricVelocity / fastest) * 100)}%` }}
+                              />
+                            );
+                          })}
+                        </div>
+                      )}
+                      {typeof set.velocityLossPercent === 'number' && (
+                        <div className={`flex items-center gap-2 px-2 py-1 rounded-md border ${
+                          velocityLossThreshold !== null && set.velocityLossPercent >= velocityLossThreshold
+                            ? 'bg-rose-500/10 border-rose-500/20'
+                            : 'bg-indigo-500/10 border-indigo-500/20'
+                        }`}>
+                          <span className={`font-bold text-[10px] ${
+                            velocityLossThreshold !== null && set.velocityLossPercent >= velocityLossThreshold
+                              ? 'text-rose-400'
+                              : 'text-indigo-300'
+                          }`}>
+                            VL: {set.velocityLossPercent}%
+                          </span>
+                        </div>
+                      )}
+                      {set.autoStopped && (
+                        <div
+                          className="flex items-center gap-2 bg-rose-500/10 px-2 py-1 rounded-md border border-rose-500/20"
+                          title="The live session ended this set when bar speed dropped past your velocity-loss limit."
+                        >
+                          <span className="text-rose-400 font-bold text-[10px]">Auto-stopped</span>
+                        </div>
+                      )}
+                      {set.coachEvents?.some(event => event.type === 'issue') && (
+                        <div
+                          className="flex items-center gap-2 bg-amber-500/10 px-2 py-1 rounded-md border border-amber-500/20"
+                          title={set.coachEvents.flatMap(event => (event.type === 'issue' ? [`${event.joint}: ${event.cue}`] : [])).join('\n')}
+                        >
+                          <span className="text-amber-300 font-bold text-[10px]">
+                            Coach: {set.coachEvents.filter(event => event.type === 'issue').length} issues
+                          </span>
+                        </div>
+                      )}
+                      {typeof set.timeUnderTensionMs === 'number' && (
+                        <div className="flex items-center gap-2 bg-zinc-800 px-2 py-1 rounded-md border border-zinc-700">
+                          <span className="text-zinc-300 font-bold text-[10px]">TUT: {(set.timeUnderTensionMs / 1000).toFixed(1)}s</span>
+                        </div>
+                      )}
                       {set.formScore && (
                         <div className="flex items-center gap-2 bg-emerald-500/10 px-2 py-1 rounded-md border border-emerald-500/20">
                            <span className="text-emerald-500 font-bold text-[10px]">AI Score: {set.formScore}</span>
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ReviewableSession, SessionReviewDecision } from '../types';
+
+interface AdminReviewPanelProps {
+  loadQueue: (filter: 'pending' | 'all') => Promise<ReviewableSession[]>;
+  submitReview: (session: ReviewableSession, decision: SessionReviewDecision, note: string) => Promise<ReviewableSession>;
+  onClose?: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  flagged: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+  rejected: 'bg-rose-500/10 text-rose-300 border-rose-500/30',
+};
+
+const sessionKey = (session: ReviewableSession) => `${session.userId}:${session.entry.id}`;
+
+const AdminReviewPanel: React.FC<AdminReviewPanelProps> = ({ loadQueue, submitReview, onClose }) => {
+  const [filter, setFilter] = useState<'pending' | 'all'>('pending');
+  const [sessions, setSessions] = useState<ReviewableSession[] | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [statusMsg, setStatusMsg] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSessions(null);
+    loadQueue(filter)
+      .then(result => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch(err => {
+        console.error("Failed to load review queue:", err);
+        if (!cancelled) {
+          setSessions([]);
+          setStatusMsg({ type: 'error', text: 'Could not load the review queue.' });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // loadQueue is recreated every render in App; only the filter should trigger a reload.
+  }, [filter]);
+
+  const handleReview = async (session: ReviewableSession, decision: SessionReviewDecision) => {
+    const key = sessionKey(session);
+    setBusyKey(key);
+    setStatusMsg(null);
+    try {
+      const reviewed = await submitReview(session, decision, notes[key] ?? '');
+      setSessions(prev =>
+        (prev ?? []).flatMap(item => {
+          if (sessionKey(item) !== key) return [item];
+          return filter === 'pending' ? [] : [reviewed];
+        })
+      );
+      setStatusMsg({ type: 'success', text: `Session ${decision} for @${session.username}.` });
+    } catch (err) {
+      console.error("Failed to submit review:", err);
+      setStatusMsg({ type: 'error', text: err instanceof Error ? err.message : 'Review failed.' });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 space-y-5 max-w-2xl mx-auto mt-10 shadow-2xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black text-amber-300 uppercase tracking-[0.3em]">Session Review</h3>
+        {onClose && (
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="flex bg-zinc-950 border border-zinc-800 rounded-lg p-0.5 w-fit">
+        {(['pending', 'all'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-colors ${
+              filter === option ? 'bg-amber-400/20 text-amber-300' : 'text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {option === 'pending' ? 'Needs Review' : 'All Flagged'}
+          </button>
+        ))}
+      </div>
+
+      {statusMsg && (
+        <p className={`text-xs font-bold ${statusMsg.type === 'success' ? 'text-emerald-300' : 'text-rose-300'}`}>{statusMsg.text}</p>
+      )}
+
+      {sessions === null && <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest">Loading...</p>}
+      {sessions?.length === 0 && (
+        <p className="text-zinc-600 text-xs font-bold uppercase tracking-widest text-center py-6">Nothing to review</p>
+      )}
+
+      <div className="space-y-3">
+        {sessions?.map(session => {
+          const key = sessionKey(session);
+          const { verification, entry } = session;
+          return (
+            <div key={key} className="bg-zinc-950 border border-zinc-800 rounded-xl p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-white font-bold">
+                    @{session.username} · {entry.routineName}
+                  </p>
+                  <p className="text-zinc-500 text-xs">{new Date(entry.performedAt).toLocaleString()}</p>
+                </div>
+                <div className="text-right space-y-1">
+                  <span className={`inline-block px-2 py-0.5 rounded-md border text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[verification.status] ?? ''}`}>
+                    {verification.status} · {verification.score}/100
+                  </span>
+                  <p className="text-zinc-400 text-[10px] font-bold uppercase tracking-widest">{verification.points} pts at stake</p>
+                </div>
+              </div>
+
+              <ul className="space-y-1">
+                {verification.reasons.map((reason, index) => (
+                  <li key={index} className="text-xs text-zinc-300">
+                    <span className="text-rose-300 font-bold">−{reason.penalty}</span> {reason.message}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap gap-1">
+                {entry.exercises.flatMap(ex =>
+                  ex.sets.map(set => (
+                    <span key={set.id} className="px-2 py-1 rounded-md bg-zinc-900 text-zinc-300 text-[10px] font-bold">
+                      {ex.type} {set.weight}kg x {set.reps}
+                      {set.poseVerifiedReps ? ' · camera' : ''}
+                    </span>
+                  ))
+                )}
+              </div>
+
+              {verification.review ? (
+                <p className="text-xs text-zinc-400">
+                  {verification.review.decision === 'approved' ? 'Approved' : 'Rejected'} {new Date(verification.review.reviewedAt).toLocaleDateString()}
+                  {verification.review.note ? ` — ${verification.review.note}` : ''}
+                </p>
+              ) : null}
+
+              <div className="flex items-center gap-2">
+                <input
+                  value={notes[key] ?? ''}
+                  onChange={e => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="Note for the user (optional)"
+                  className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-white text-xs focus:outline-none focus:border-amber-400"
+                />
+                <button
+                  onClick={() => handleReview(session, 'approved')}
+                  disabled={busyKey === key}
+                  className="px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest bg-emerald-600/20 text-emerald-300 hover:bg-emerald-600/30 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReview(session, 'rejected')}
+                  disabled={busyKey === key}
+                  className="px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest bg-rose-600/20 text-rose-300 hover:bg-rose-600/30 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AdminReviewPanel;
@@ -1,17 +1,22 @@
 
-import React, { useRef, useState } from 'react';
-import { AnalysisFeedback } from '../types';
-import { formatElevenLabsErrorForUi, synthesizeSpeech } from '../services/elevenLabsService';
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisFeedback, TtsSettings } from '../types';
+import { canSpeakText, createTtsSpeaker, formatTtsErrorForUi, normalizeTtsSettings, TtsSpeaker } from '../services/ttsProvider';
 
 interface AnalysisResultProps {
   feedback: AnalysisFeedback;
   onReset: () => void;
+  ttsSettings?: TtsSettings;
 }
 
-const AnalysisResult: React.FC<AnalysisResultProps> = ({ feedback, onReset }) => {
+const AnalysisResult: React.FC<AnalysisResultProps> = ({ feedback, onReset, ttsSettings }) => {
   const [isReading, setIsReading] = useState(false);
   const [readError, setReadError] = useState<string | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const speakerRef = useRef<TtsSpeaker | null>(null);
+  const readIdRef = useRef(0);
+
+  // Leaving the report stops the summary mid-sentence rather than talking over the next screen.
+  useEffect(() => () => speakerRef.current?.close(), []);
 
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-emerald-400';
@@ -21,48 +26,29 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ feedback, onReset }) =>
 
   const handleReadSummary = async () => {
     if (isReading) {
-      audioRef.current?.pause();
-      audioRef.current = null;
+      speakerRef.current?.stop();
       setIsReading(false);
       return;
     }
 
+    // Gemini's voice only exists inside a live session, so the summary falls back to ElevenLabs.
+    const settings = normalizeTtsSettings(ttsSettings);
+    if (!canSpeakText(settings.providerId)) settings.providerId = 'elevenlabs';
+    if (speakerRef.current?.id !== settings.providerId) {
+      speakerRef.current?.close();
+      speakerRef.current = createTtsSpeaker(settings);
+    }
+    const speaker = speakerRef.current;
+    const readId = ++readIdRef.current;
+
     setReadError(null);
     setIsReading(true);
     try {
-      const stream = synthesizeSpeech(feedback.overallSummary);
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of stream) {
-        chunks.push(chunk);
-      }
-
-      const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-      const bytes = new Uint8Array(totalLength);
-      let offset = 0;
-      for (const chunk of chunks) {
-        bytes.set(chunk, offset);
-        offset += chunk.length;
-      }
-
-      const blob = new Blob([bytes], { type: 'audio/mpeg' });
-      const url = URL.createObjectURL(blob);
-      const audio = new Audio(url);
-      audioRef.current = audio;
-      audio.onended = () => {
-        URL.revokeObjectURL(url);
-        setIsReading(false);
-        audioRef.current = null;
-      };
-      audio.onerror = () => {
-        URL.revokeObjectURL(url);
-        setReadError('Unable to play generated audio.');
-        setIsReading(false);
-        audioRef.current = null;
-      };
-      await audio.play();
+      await speaker.speak(feedback.overallSummary);
     } catch (error) {
-      setReadError(formatElevenLabsErrorForUi(error));
-      setIsReading(false);
+      setReadError(formatTtsErrorForUi(speaker.id, error));
+    } finally {
+      if (readIdRef.current === readId) setIsReading(false);
     }
   };
 
@@ -6,10 +6,13 @@ interface HeaderProps {
   currentPoints?: number;
   onLogout?: () => void;
   onOpenWallet?: () => void;
+  onOpenSettings?: () => void;
+  // Only passed for admins.
+  onOpenReview?: () => void;
   onLogoClick?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentUsername, currentPoints, onLogout, onOpenWallet, onLogoClick }) => {
+const Header: React.FC<HeaderProps> = ({ currentUsername, currentPoints, onLogout, onOpenWallet, onOpenSettings, onOpenReview, onLogoClick }) => {
   return (
     <header className="flex items-center justify-between px-6 py-4 bg-zinc-900 border-b border-zinc-800 sticky top-0 z-50">
       <div 
@@ -43,6 +46,27 @@ const Header: React.FC<HeaderProps> = ({ currentUsername, currentPoints, onLogou
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
               </svg>
             </button>
+            <button
+              onClick={onOpenSettings}
+              className="p-2 text-zinc-400 hover:text-indigo-300 hover:bg-indigo-500/10 rounded-full transition-all"
+              title="Settings"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+            {onOpenReview && (
+              <button
+                onClick={onOpenReview}
+                className="p-2 text-zinc-400 hover:text-amber-300 hover:bg-amber-500/10 rounded-full transition-all"
+                title="Review Flagged Sessions"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+              </button>
+            )}
             <span className="px-3 py-1 bg-indigo-500/10 text-indigo-300 rounded-full text-xs font-medium border border-indigo-500/30">
               @{currentUsername}
             </span>
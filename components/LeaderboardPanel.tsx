@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LeaderboardBoard, LeaderboardEntry, LeaderboardQuery, LeaderboardResponse, LeaderboardSeason } from '../types';
+import { LEADERBOARD_DIVISIONS } from '../services/leaderboard';
+import { EXERCISE_LIBRARY } from '../services/exerciseLibrary';
+
+interface LeaderboardPanelProps {
+  currentUserId: string;
+  loadLeaderboard: (query: LeaderboardQuery) => Promise<LeaderboardResponse>;
+  // False when only this device's accounts are known (no sync server configured).
+  isServerBacked: boolean;
+  // Changes whenever local points/history change so the board refetches.
+  refreshKey: string;
+}
+
+const SEASON_OPTIONS: Array<{ id: LeaderboardSeason; label: string }> = [
+  { id: 'weekly', label: 'Week' },
+  { id: 'monthly', label: 'Month' },
+  { id: 'all-time', label: 'All Time' },
+];
+
+const BOARD_OPTIONS: Array<{ id: LeaderboardBoard; label: string }> = [
+  { id: 'points', label: 'Points' },
+  { id: 'form', label: 'Best Form' },
+  { id: 'volume', label: 'Volume' },
+];
+
+const EXERCISE_OPTIONS = Array.from(new Set(Object.values(EXERCISE_LIBRARY).flat()));
+
+const formatValue = (board: LeaderboardBoard, value: number) => {
+  if (board === 'form') return `${value}/100`;
+  if (board === 'volume') return `${value.toLocaleString()} kg`;
+  return `${value} pts`;
+};
+
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ currentUserId, loadLeaderboard, isServerBacked, refreshKey }) => {
+  const [season, setSeason] = useState<LeaderboardSeason>('all-time');
+  const [showPreviousSeason, setShowPreviousSeason] = useState(false);
+  const [board, setBoard] = useState<LeaderboardBoard>('points');
+  const [exercise, setExercise] = useState('Squat');
+  const [division, setDivision] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<LeaderboardResponse | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const query = useMemo<LeaderboardQuery>(() => ({
+    board,
+    season,
+    seasonOffset: season !== 'all-time' && showPreviousSeason ? -1 : 0,
+    exercise: board === 'points' ? undefined : exercise,
+    division: division || undefined,
+    page,
+  }), [board, season, showPreviousSeason, exercise, division, page]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsFetching(true);
+    loadLeaderboard(query)
+      .then(response => {
+        if (cancelled) return;
+        setResult(response);
+        setLoadError(null);
+      })
+      .catch(err => {
+        console.error("Failed to load leaderboard:", err);
+        if (!cancelled) setLoadError('Leaderboard unavailable right now.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsFetching(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // loadLeaderboard is recreated every render in App; refreshKey is the signal that data changed.
+  }, [query, refreshKey]);
+
+  const resetPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  const renderRow = (entry: LeaderboardEntry) => (
+    <div
+      key={entry.userId}
+      className={`flex items-center justify-between rounded-xl px-3 py-2 border ${
+        entry.userId === currentUserId
+          ? 'bg-indigo-500/10 border-indigo-500/30'
+          : 'bg-zinc-950 border-zinc-800'
+      }`}
+    >
+      <div className="flex items-center gap-3">
+        <span className="w-6 h-6 rounded-md bg-zinc-800 text-zinc-300 text-[10px] font-black flex items-center justify-center">
+          {entry.rank}
+        </span>
+        <span className="text-sm font-bold text-white">@{entry.username}</span>
+      </div>
+      <div className="text-right">
+        <p className="text-emerald-300 text-xs font-black uppercase tracking-widest">{formatValue(result?.board ?? board, entry.value)}</p>
+        <p className="text-zinc-500 text-[10px] uppercase tracking-widest">{entry.workoutsCompleted} workouts</p>
+      </div>
+    </div>
+  );
+
+  const selectClass = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-zinc-300 focus:outline-none focus:border-indigo-500';
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black text-amber-300 uppercase tracking-[0.3em]">
+          {isServerBacked ? 'Global Leaderboard' : 'Device Leaderboard'}
+        </h3>
+        {result?.viewer && (
+          <span className="text-[10px] font-black text-zinc-300 uppercase tracking-widest">
+            Your Rank: #{result.viewer.entry.rank}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex bg-zinc-950 border border-zinc-800 rounded-lg p-0.5">
+          {SEASON_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => {
+                resetPage(setSeason)(option.id);
+                setShowPreviousSeason(false);
+              }}
+              className={`px-2.5 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-colors ${
+                season === option.id ? 'bg-amber-400/20 text-amber-300' : 'text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <select value={board} onChange={e => resetPage(setBoard)(e.target.value as LeaderboardBoard)} className={selectClass}>
+          {BOARD_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        {board !== 'points' && (
+          <select value={exercise} onChange={e => resetPage(setExercise)(e.target.value)} className={selectClass}>
+            {EXERCISE_OPTIONS.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        <select value={division} onChange={e => resetPage(setDivision)(e.target.value)} className={selectClass}>
+          <option value="">All Divisions</option>
+          {LEADERBOARD_DIVISIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {result && (
+        <div className="flex items-center justify-between text-[10px] uppercase tracking-widest text-zinc-500 font-black">
+          <span>{result.window.label}</span>
+          {season !== 'all-time' && (
+            <button
+              onClick={() => resetPage(setShowPreviousSeason)(!showPreviousSeason)}
+              className="text-zinc-400 hover:text-white transition-colors"
+            >
+              {showPreviousSeason ? 'Current Season' : 'Last Season'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {loadError && <p className="text-red-300 text-xs font-bold">{loadError}</p>}
+
+      <div className={`space-y-2 transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+        {result && result.entries.length === 0 && (
+          <p className="text-zinc-600 text-xs font-bold uppercase tracking-widest text-center py-4">No results yet</p>
+        )}
+        {result?.entries.map(renderRow)}
+
+        {result?.viewer && result.viewer.window.length > 0 && (
+          <>
+            <div className="text-center text-zinc-600 text-xs font-black">···</div>
+            {result.viewer.window.map(renderRow)}
+          </>
+        )}
+      </div>
+
+      {result && totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={result.page <= 1}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            Prev
+          </button>
+          <span className="text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            Page {result.page} / {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={result.page >= totalPages}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -1,39 +1,102 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { LiveServerMessage } from '@google/genai';
 import { PoseLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
-import { decodeBase64, decodeAudioData, createPcmBlob } from '../services/audioUtils';
-import { formatElevenLabsErrorForUi, synthesizeSpeech } from '../services/elevenLabsService';
-import { FrameData } from '../types';
+import { decodeBase64, decodeAudioData } from '../services/audioUtils';
+import { getAiProvider } from '../services/aiProvider';
+import { createLiveConnection, LiveConnection, LiveConnectionState } from '../services/liveConnection';
+import { createMicCapture, MicCapture } from '../services/micCapture';
+import { createSpeechCueQueue, SpeechCueQueue } from '../services/speechCueQueue';
+import { handleLiveCoachToolCall, JOINT_LANDMARKS } from '../services/liveCoachTools';
+import { createCueScheduler, createTranscriptCueBuffer, CueScheduler, ScheduledCue } from '../services/cueScheduler';
+import { getTtsCache } from '../services/ttsCache';
+import {
+  canSpeakText,
+  createTtsSpeaker,
+  formatTtsErrorForUi,
+  normalizeTtsSettings,
+  speakCueWithFallback,
+  TtsSpeaker,
+} from '../services/ttsProvider';
+import { createRepCounter, RepCounter } from '../services/repCounter';
+import { createFormChecker, FormChecker } from '../services/formRules';
+import { computeVelocityLoss, createRepMetricsTracker, RepMetricsTracker } from '../services/repMetrics';
+import { FormViolation, FrameData, LiveCoachEvent, LiveSetSummary, RepEvent, RepMetrics, RepPhase, TtsSettings } from '../types';
+
+// How long a joint the coach flagged stays highlighted on the skeleton.
+const ISSUE_HIGHLIGHT_MS = 2500;
+
+const describeCoachEvent = (event: LiveCoachEvent) => {
+  if (event.type === 'issue') return `${event.joint[0].toUpperCase()}${event.joint.slice(1)}: ${event.cue}`;
+  if (event.type === 'rep') return `Rep ${event.count}`;
+  return event.reason ? `Set complete: ${event.reason}` : 'Set complete';
+};
 
 interface LiveCoachingHUDProps {
   exercise: string;
-  onComplete: (frames: FrameData[]) => void;
+  onComplete: (frames: FrameData[], summary: LiveSetSummary) => void;
   onCancel: () => void;
   onTtsError?: (message: string) => void;
+  // The user's coach voice; Gemini's own voice when unset.
+  ttsSettings?: TtsSettings;
+  // Percentage velocity loss at which the set ends automatically; null disables auto-stop.
+  velocityLossThreshold?: number | null;
 }
 
-const DEFAULT_TTS_PROVIDER = 'gemini-native' as const;
-type TtsProvider = typeof DEFAULT_TTS_PROVIDER | 'gemini-native';
-
-const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete, onCancel, onTtsError }) => {
+const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({
+  exercise,
+  onComplete,
+  onCancel,
+  onTtsError,
+  ttsSettings,
+  velocityLossThreshold = null,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [isLive, setIsLive] = useState(false);
+  // Null when the provider has no live API and coaching is on-device only.
+  const [connectionState, setConnectionState] = useState<LiveConnectionState | null>(null);
   const [transcription, setTranscription] = useState("");
   const [status, setStatus] = useState("Initializing Vision...");
   const [capturedFrames, setCapturedFrames] = useState<FrameData[]>([]);
+  const [repCount, setRepCount] = useState(0);
+  const [repPhase, setRepPhase] = useState<RepPhase>('setup');
+  const [localFormAlert, setLocalFormAlert] = useState<FormViolation | null>(null);
+  const [repMetrics, setRepMetrics] = useState<RepMetrics[]>([]);
+  const [isAutoStopTriggered, setIsAutoStopTriggered] = useState(false);
+  // The latest events the coach reported through tool calls, newest last.
+  const [recentCoachEvents, setRecentCoachEvents] = useState<LiveCoachEvent[]>([]);
+  // Whether the mic is streaming to the coach, and whether the talk button is held in push-to-talk.
+  const [isMicOpen, setIsMicOpen] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isMicUnavailable, setIsMicUnavailable] = useState(false);
+  const micMode = normalizeTtsSettings(ttsSettings).micMode;
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
+  // Speaks cues in the user's chosen voice; starting a new cue cuts off the one still speaking.
+  const ttsSpeakerRef = useRef<TtsSpeaker | null>(null);
+  const speechQueueRef = useRef<SpeechCueQueue | null>(null);
+  const sessionRef = useRef<LiveConnection | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const connectionStateRef = useRef<LiveConnectionState | null>(null);
   const poseLandmarkerRef = useRef<PoseLandmarker | null>(null);
-  const ttsProviderRef = useRef<TtsProvider>(DEFAULT_TTS_PROVIDER);
-  const latestCueRef = useRef<string>('');
+  // Decides which cues are spoken and when, for voices that speak text.
+  const cueSchedulerRef = useRef<CueScheduler | null>(null);
+  const transcriptBufferRef = useRef(createTranscriptCueBuffer());
   const hasMissingKeyNotificationRef = useRef<boolean>(false);
   const isClosedRef = useRef<boolean>(false);
+  const repCounterRef = useRef<RepCounter | null>(null);
+  const repEventsRef = useRef<RepEvent[]>([]);
+  const formCheckerRef = useRef<FormChecker | null>(null);
+  const coachEventsRef = useRef<LiveCoachEvent[]>([]);
+  const highlightedIssueRef = useRef<{ event: Extract<LiveCoachEvent, { type: 'issue' }>; until: number } | null>(null);
+  const metricsTrackerRef = useRef<RepMetricsTracker | null>(null);
+  const repMetricsRef = useRef<RepMetrics[]>([]);
+  const velocityLossThresholdRef = useRef<number | null>(velocityLossThreshold);
+  velocityLossThresholdRef.current = velocityLossThreshold;
+  const velocityLoss = computeVelocityLoss(repMetrics);
 
   const drawOctopusFaceOverlay = (
     ctx: CanvasRenderingContext2D,
@@ -58,20 +121,70 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
     ctx.restore();
   };
 
+  const drawCoachIssueOverlay = (ctx: CanvasRenderingContext2D, landmarks: Array<{ x: number; y: number }>, now: number) => {
+    const highlight = highlightedIssueRef.current;
+    if (!highlight || highlight.until < now) return;
+
+    ctx.save();
+    ctx.strokeStyle = highlight.event.severity === 'safety' ? '#f43f5e' : '#f59e0b';
+    ctx.lineWidth = 4;
+    JOINT_LANDMARKS[highlight.event.joint].forEach(index => {
+      const landmark = landmarks[index];
+      if (!landmark) return;
+      ctx.beginPath();
+      ctx.arc(landmark.x * ctx.canvas.width, landmark.y * ctx.canvas.height, 18, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
+
   useEffect(() => {
     let stream: MediaStream | null = null;
     let frameInterval: number | null = null;
     let animationFrameId: number | null = null;
     let inputAudioContext: AudioContext | null = null;
     isClosedRef.current = false;
+    repCounterRef.current = createRepCounter(exercise);
+    repEventsRef.current = [];
+    coachEventsRef.current = [];
+    highlightedIssueRef.current = null;
+    setRecentCoachEvents([]);
+    formCheckerRef.current = createFormChecker(exercise);
+    metricsTrackerRef.current = createRepMetricsTracker(exercise);
+    repMetricsRef.current = [];
+    setRepCount(0);
+    setRepPhase('setup');
+    setLocalFormAlert(null);
+    setRepMetrics([]);
+    setIsAutoStopTriggered(false);
+    setIsMicOpen(false);
+    setIsTalking(false);
+    setIsMicUnavailable(false);
+    connectionStateRef.current = null;
+    setConnectionState(null);
+    // Shared by the browser voice and the last-resort fallback so their cues queue together.
+    speechQueueRef.current = createSpeechCueQueue();
+    const voiceSettings = normalizeTtsSettings(ttsSettings);
+    ttsSpeakerRef.current = createTtsSpeaker(voiceSettings, {
+      player: { getAudioContext: () => audioContextRef.current },
+      speechQueue: speechQueueRef.current,
+      cache: getTtsCache(),
+      exercise,
+    });
+    ttsSpeakerRef.current.prewarm(exercise).catch(err => console.warn('Failed to prewarm coaching cues:', err));
+    transcriptBufferRef.current.clear();
 
     const stopAudioAndSession = async () => {
       isClosedRef.current = true;
       if (sessionRef.current) sessionRef.current.close();
+      micCaptureRef.current?.close();
+      micCaptureRef.current = null;
+      ttsSpeakerRef.current?.close();
+      speechQueueRef.current?.clear();
       sourcesRef.current.forEach(s => s.stop());
       sourcesRef.current.clear();
       nextStartTimeRef.current = 0;
-      latestCueRef.current = '';
+      cueSchedulerRef.current?.clear();
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
         await audioContextRef.current.close().catch(() => undefined);
       }
@@ -107,22 +220,9 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
       }
     };
 
-    const decodeElevenLabsBuffer = async (audioBytes: ArrayBuffer) => {
-      const ctx = audioContextRef.current;
-      if (!ctx || isClosedRef.current) return null;
-
-      try {
-        return await ctx.decodeAudioData(audioBytes.slice(0));
-      } catch (error) {
-        throw new Error(
-          `Unable to decode ElevenLabs audio response: ${error instanceof Error ? error.message : 'Unknown decode error'}`
-        );
-      }
-    };
-
     const getCueTextFromMessage = (msg: LiveServerMessage) => {
-      // Read only what is shown on-screen in the "Live Cue" panel.
-      return msg.serverContent?.outputTranscription?.text?.trim() || '';
+      // Read only what is shown on-screen in the "Live Cue" panel. Untrimmed: it is a fragment of a sentence.
+      return msg.serverContent?.outputTranscription?.text || '';
     };
 
     const notifyTtsError = (message: string) => {
@@ -130,51 +230,93 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
       console.error(message);
     };
 
-    const speakWithDefaultProvider = async (cueText: string, fallbackAudioBase64?: string | null) => {
-      const provider = ttsProviderRef.current;
+    const playGeminiAudioChunks = async (chunks: string[] = []) => {
+      let played = false;
+      for (const chunk of chunks) played = (await playGeminiAudioChunk(chunk)) || played;
+      return played;
+    };
 
-      if (provider === 'gemini-native') {
-        await playGeminiAudioChunk(fallbackAudioBase64);
-        return;
+    const speakCue = async ({ text, priority, fallbackAudio }: ScheduledCue) => {
+      const speaker = ttsSpeakerRef.current;
+      const speechQueue = speechQueueRef.current;
+      if (!speaker || !speechQueue || isClosedRef.current) return;
+
+      const { voicedBy, error } = await speakCueWithFallback(
+        speaker,
+        { text, priority },
+        { playGeminiAudio: () => playGeminiAudioChunks(fallbackAudio), speechQueue }
+      );
+      if (isClosedRef.current || error === undefined) return;
+
+      const formattedError = formatTtsErrorForUi(speaker.id, error, voicedBy);
+      const isMissingKeyError = typeof error === 'object' && !!error && (error as any).code === 'missing_api_key';
+      if (!isMissingKeyError || !hasMissingKeyNotificationRef.current) {
+        notifyTtsError(formattedError);
+        if (isMissingKeyError) hasMissingKeyNotificationRef.current = true;
       }
+      if (voicedBy === 'none') {
+        setStatus('Audio fallback unavailable; cues are shown on screen...');
+      }
+    };
 
-      try {
-        const audioStream = await synthesizeSpeech(cueText);
-        if (isClosedRef.current) return;
+    cueSchedulerRef.current = createCueScheduler({ speak: speakCue, verbosity: voiceSettings.cueVerbosity });
 
-        const chunks: Uint8Array[] = [];
-        for await (const chunk of audioStream) {
-            if (isClosedRef.current) return;
-            chunks.push(chunk);
-        }
+    const recordCoachToolCall = (toolCall: NonNullable<LiveServerMessage['toolCall']>) => {
+      const coachRepCount = coachEventsRef.current.filter(event => event.type === 'rep').length;
+      const { events, responses } = handleLiveCoachToolCall(toolCall, { at: Date.now(), coachRepCount });
+      if (responses.length > 0) sessionRef.current?.sendToolResponse({ functionResponses: responses });
+      if (events.length === 0) return;
 
-        const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-        const audioBytes = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const chunk of chunks) {
-            audioBytes.set(chunk, offset);
-            offset += chunk.length;
-        }
+      coachEventsRef.current = [...coachEventsRef.current, ...events];
+      setRecentCoachEvents(coachEventsRef.current.slice(-3));
+      events.forEach(event => {
+        if (event.type === 'issue') highlightedIssueRef.current = { event, until: performance.now() + ISSUE_HIGHLIGHT_MS };
+      });
+    };
 
-        const decoded = await decodeElevenLabsBuffer(audioBytes.buffer);
-        if (isClosedRef.current) return;
-        if (!decoded) throw new Error('Audio context is not available.');
-        queueAudioBuffer(decoded);
-      } catch (error) {
-        const formattedError = formatElevenLabsErrorForUi(error);
-        const isMissingKeyError = typeof error === 'object' && !!error && (error as any).code === 'missing_api_key';
-        if (!isMissingKeyError || !hasMissingKeyNotificationRef.current) {
-          notifyTtsError(formattedError);
-          if (isMissingKeyError) hasMissingKeyNotificationRef.current = true;
-        }
+    const handleLiveMessage = async (msg: LiveServerMessage) => {
+      if (msg.toolCall) recordCoachToolCall(msg.toolCall);
 
-        const fallbackPlayed = await playGeminiAudioChunk(fallbackAudioBase64);
-        if (!fallbackPlayed) {
-          setStatus('Audio fallback unavailable; continuing coaching...');
-        }
+      if (msg.serverContent?.outputTranscription) {
+        setTranscription(prev => (prev + " " + msg.serverContent?.outputTranscription?.text).slice(-150));
+      }
+
+      const audioBase64 =
+        msg.serverContent?.modelTurn?.parts?.find((part: any) => !!part?.inlineData?.data)?.inlineData?.data;
+      const cueText = getCueTextFromMessage(msg);
+
+      if (ttsSpeakerRef.current?.id === 'gemini-native') {
+        // Gemini's own voice streams alongside the transcript, so it can't be held for a rep boundary.
+        if (audioBase64) await playGeminiAudioChunk(audioBase64);
+      } else {
+        const transcript = transcriptBufferRef.current;
+        const cues = transcript.push(cueText, audioBase64);
+        const rest = msg.serverContent?.turnComplete ? transcript.flush() : null;
+        [...cues, ...(rest ? [rest] : [])].forEach(cue =>
+          cueSchedulerRef.current?.submit(cue.text, { fallbackAudio: cue.fallbackAudio })
+        );
+      }
+
+      if (msg.serverContent?.interrupted) {
+        ttsSpeakerRef.current?.stop();
+        speechQueueRef.current?.clear();
+        sourcesRef.current.forEach(s => s.stop());
+        sourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+        cueSchedulerRef.current?.clear();
+        transcriptBufferRef.current.clear();
       }
     };
 
+    const handleConnectionStateChange = (state: LiveConnectionState) => {
+      connectionStateRef.current = state;
+      setConnectionState(state);
+      if (state === 'connecting') setStatus("Connecting to AI Coach...");
+      if (state === 'live') setStatus("Watching Form...");
+      // A turn cut off by the drop won't be completed by the resumed session.
+      if (state === 'reconnecting') transcriptBufferRef.current.clear();
+    };
+
     const initVision = async () => {
       try {
         const vision = await FilesetResolver.forVisionTasks(
@@ -195,10 +337,36 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
       }
     };
 
+    const startFrameCapture = () => {
+      frameInterval = window.setInterval(() => {
+        if (videoRef.current && canvasRef.current) {
+          const ctx = canvasRef.current.getContext('2d');
+          if (ctx) {
+            canvasRef.current.width = 320;
+            canvasRef.current.height = 240;
+            ctx.drawImage(videoRef.current, 0, 0, 320, 240);
+            const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.5);
+            const base64 = dataUrl.split(',')[1];
+
+            setCapturedFrames(prev => {
+              const newFrames = [...prev, { dataUrl, timestamp: Date.now() }];
+              if (newFrames.length > 15) return newFrames.slice(newFrames.length - 15);
+              return newFrames;
+            });
+
+            if (sessionRef.current && !isClosedRef.current) {
+              sessionRef.current.sendRealtimeInput({ media: { data: base64, mimeType: 'image/jpeg' } });
+            }
+          }
+        }
+      }, 400);
+    };
+
     const startSession = async () => {
       try {
-        setStatus("Connecting to AI Coach...");
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const provider = getAiProvider();
+        const connectLiveCoaching = provider.connectLiveCoaching;
+        setStatus(connectLiveCoaching ? "Connecting to AI Coach..." : "Starting Camera...");
 
         const waitForVideoReady = async (video: HTMLVideoElement) => {
           if (video.readyState >= 2) {
@@ -217,7 +385,7 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
         
         stream = await navigator.mediaDevices.getUserMedia({ 
           video: { facingMode: 'environment', width: 640, height: 480 },
-          audio: true 
+          audio: !!connectLiveCoaching
         });
 
         if (videoRef.current) {
@@ -225,8 +393,17 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
           await waitForVideoReady(videoRef.current);
         }
 
+        if (!connectLiveCoaching) {
+          // Providers without a realtime API still get frames for the post-set report and on-device rep/form tracking.
+          setStatus(`${provider.label}: on-device coaching only`);
+          startFrameCapture();
+          startTrackingLoop();
+          return;
+        }
+
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        // The mic runs at the device's rate; the capture worklet resamples to 16 kHz.
+        inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
         if (audioContextRef.current.state === 'suspended') {
           await audioContextRef.current.resume().catch(() => undefined);
         }
@@ -234,89 +411,39 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
           await inputAudioContext.resume().catch(() => undefined);
         }
 
-        const sessionPromise = ai.live.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-          callbacks: {
-            onopen: () => {
-              setIsLive(true);
-              setStatus("Watching Form...");
-              
-              const source = inputAudioContext.createMediaStreamSource(stream!);
-              const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-              scriptProcessor.onaudioprocess = (e) => {
-                if (!sessionRef.current || isClosedRef.current) return;
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmData = createPcmBlob(inputData);
-                sessionRef.current.sendRealtimeInput({ media: { data: pcmData, mimeType: 'audio/pcm;rate=16000' } });
-              };
-              source.connect(scriptProcessor);
-              scriptProcessor.connect(inputAudioContext.destination);
-
-              frameInterval = window.setInterval(() => {
-                if (videoRef.current && canvasRef.current) {
-                  const ctx = canvasRef.current.getContext('2d');
-                  if (ctx) {
-                    canvasRef.current.width = 320;
-                    canvasRef.current.height = 240;
-                    ctx.drawImage(videoRef.current, 0, 0, 320, 240);
-                    const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.5);
-                    const base64 = dataUrl.split(',')[1];
-                    
-                    setCapturedFrames(prev => {
-                      const newFrames = [...prev, { dataUrl, timestamp: Date.now() }];
-                      if (newFrames.length > 15) return newFrames.slice(newFrames.length - 15);
-                      return newFrames;
-                    });
-
-                    if (sessionRef.current && !isClosedRef.current) {
-                      sessionRef.current.sendRealtimeInput({ media: { data: base64, mimeType: 'image/jpeg' } });
-                    }
-                  }
-                }
-              }, 400);
-
-              startTrackingLoop();
-            },
-            onmessage: async (msg: LiveServerMessage) => {
-              if (msg.serverContent?.outputTranscription) {
-                setTranscription(prev => (prev + " " + msg.serverContent?.outputTranscription?.text).slice(-150));
-              }
-
-              const audioBase64 =
-                msg.serverContent?.modelTurn?.parts?.find((part: any) => !!part?.inlineData?.data)?.inlineData?.data;
-              const cueText = getCueTextFromMessage(msg);
-
-              if (cueText && cueText !== latestCueRef.current) {
-                latestCueRef.current = cueText;
-                await speakWithDefaultProvider(cueText, audioBase64);
-              } else if (audioBase64 && ttsProviderRef.current === 'gemini-native') {
-                await playGeminiAudioChunk(audioBase64);
-              }
-
-              if (msg.serverContent?.interrupted) {
-                sourcesRef.current.forEach(s => s.stop());
-                sourcesRef.current.clear();
-                nextStartTimeRef.current = 0;
-                latestCueRef.current = '';
-              }
-            },
-            onerror: (e) => console.error("Live Error:", e),
-            onclose: () => setIsLive(false)
-          },
-          config: {
-            responseModalities: [Modality.AUDIO],
-            systemInstruction: `You are a high-energy gym coach. Watch the user perform ${exercise} live. 
-            Provide IMMEDIATE, SHORT verbal cues. Focus on back position, depth, and safety. 
-            If it's a custom exercise you're not fully familiar with, offer general ergonomic and posture cues (straight back, controlled tempo).`,
-            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-            outputAudioTranscription: {}
-          }
-        });
+        if (isClosedRef.current) return;
 
-        sessionPromise.then(s => {
-          sessionRef.current = s;
+        // The mic and camera run for the whole set; while the connection is down it buffers the
+        // latest frames and drops audio, and on-device tracking keeps coaching.
+        const connection = createLiveConnection({
+          connect: (callbacks, resumeHandle) => connectLiveCoaching(exercise, callbacks, { resumeHandle }),
+          onMessage: handleLiveMessage,
+          onStateChange: handleConnectionStateChange,
         });
-        await sessionPromise;
+        sessionRef.current = connection;
+        handleConnectionStateChange(connection.getState());
+        startFrameCapture();
+        startTrackingLoop();
+
+        try {
+          const micCapture = await createMicCapture({
+            context: inputAudioContext,
+            stream,
+            mode: voiceSettings.micMode,
+            onAudio: pcm => connection.sendRealtimeInput({ media: { data: pcm, mimeType: 'audio/pcm;rate=16000' } }),
+            // Lets Gemini answer now instead of waiting for more audio after the lifter stops talking.
+            onAudioEnd: () => connection.sendRealtimeInput({ audioStreamEnd: true }),
+            onSpeechChange: active => {
+              if (voiceSettings.micMode === 'voice-activity') setIsMicOpen(active);
+            },
+          });
+          if (isClosedRef.current) micCapture.close();
+          else micCaptureRef.current = micCapture;
+        } catch (err) {
+          // The coach still sees the set; it just can't hear the lifter.
+          console.error('Failed to start microphone capture:', err);
+          setIsMicUnavailable(true);
+        }
       } catch (err) {
         console.error(err);
         setStatus("Error: Check permissions");
@@ -336,8 +463,9 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
             ctx.clearRect(0, 0, canvas.width, canvas.height);
 
             let result: any;
+            const frameTimestamp = performance.now();
             try {
-              result = poseLandmarkerRef.current.detectForVideo(video, performance.now());
+              result = poseLandmarkerRef.current.detectForVideo(video, frameTimestamp);
             } catch (error) {
               animationFrameId = requestAnimationFrame(render);
               return;
@@ -346,7 +474,43 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
             if (result.landmarks && result.landmarks.length > 0) {
               const landmarks = result.landmarks[0];
 
+              const repCounter = repCounterRef.current;
+              const formChecker = formCheckerRef.current;
+              metricsTrackerRef.current?.update(landmarks, frameTimestamp);
+              if (repCounter) {
+                const repEvent = repCounter.update(landmarks, frameTimestamp);
+                formChecker?.update(landmarks, repCounter.getState().phase);
+                if (repEvent) {
+                  repEventsRef.current = [...repEventsRef.current, repEvent];
+                  setRepCount(repEvent.count);
+
+                  const repViolations = formChecker?.completeRep(repEvent.count) ?? [];
+                  // Safety issues take precedence over form issues for the on-screen alert.
+                  const alert = repViolations.find(v => v.severity === 'safety') ?? repViolations[0] ?? null;
+                  setLocalFormAlert(alert);
+                  if (alert && canSpeakText(ttsSpeakerRef.current?.id ?? 'silent')) {
+                    cueSchedulerRef.current?.submit(alert.cue, { priority: alert.severity });
+                  } else if (alert && ttsSpeakerRef.current?.id === 'gemini-native' && connectionStateRef.current === 'reconnecting') {
+                    // Gemini's voice is gone until the session resumes; the on-device checks speak for it.
+                    speechQueueRef.current?.enqueue(alert.cue, alert.severity);
+                  }
+                  cueSchedulerRef.current?.onRepBoundary();
+
+                  if (metricsTrackerRef.current) {
+                    repMetricsRef.current = [...repMetricsRef.current, metricsTrackerRef.current.summarizeRep(repEvent)];
+                    setRepMetrics(repMetricsRef.current);
+                    const threshold = velocityLossThresholdRef.current;
+                    const loss = computeVelocityLoss(repMetricsRef.current);
+                    if (threshold !== null && loss !== null && loss >= threshold) {
+                      setIsAutoStopTriggered(true);
+                    }
+                  }
+                }
+                setRepPhase(repCounter.getState().phase);
+              }
+
               drawOctopusFaceOverlay(ctx, landmarks);
+              drawCoachIssueOverlay(ctx, landmarks, frameTimestamp);
               
               let minX = 1, minY = 1, maxX = 0, maxY = 0;
               landmarks.forEach(lm => {
@@ -413,25 +577,61 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
     };
   }, [exercise]);
 
+  useEffect(() => {
+    if (isAutoStopTriggered && !isClosedRef.current) handleFinish();
+  }, [isAutoStopTriggered]);
+
+  const setTalking = (talking: boolean) => {
+    setIsTalking(talking);
+    setIsMicOpen(talking);
+    micCaptureRef.current?.setTalking(talking);
+  };
+
+  // In push-to-talk, holding Space works like holding the Talk button.
+  useEffect(() => {
+    if (micMode !== 'push-to-talk') return;
+    const onKey = (event: KeyboardEvent) => {
+      if (event.code !== 'Space') return;
+      event.preventDefault();
+      if (!event.repeat) setTalking(event.type === 'keydown');
+    };
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+    };
+  }, [micMode]);
+
   const handleFinish = () => {
     isClosedRef.current = true;
+    ttsSpeakerRef.current?.stop();
+    speechQueueRef.current?.clear();
     sourcesRef.current.forEach(s => s.stop());
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
-    latestCueRef.current = '';
+    cueSchedulerRef.current?.clear();
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       audioContextRef.current.close().catch(() => undefined);
     }
     if (sessionRef.current) sessionRef.current.close();
-    onComplete(capturedFrames);
+    onComplete(capturedFrames, {
+      reps: repEventsRef.current,
+      formViolations: formCheckerRef.current?.getViolations() ?? [],
+      repMetrics: repMetricsRef.current,
+      autoStopped: isAutoStopTriggered,
+      coachEvents: coachEventsRef.current,
+    });
   };
 
   const handleCancel = () => {
     isClosedRef.current = true;
+    ttsSpeakerRef.current?.stop();
+    speechQueueRef.current?.clear();
     sourcesRef.current.forEach(s => s.stop());
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
-    latestCueRef.current = '';
+    cueSchedulerRef.current?.clear();
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       audioContextRef.current.close().catch(() => undefined);
     }
@@ -450,10 +650,44 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
           <div className="flex justify-between items-start">
             <div className="flex flex-col gap-2">
               <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 self-start">
-                <div className={`w-2.5 h-2.5 rounded-full ${isLive ? 'bg-red-500 animate-pulse' : 'bg-zinc-500'}`} />
+                <div className={`w-2.5 h-2.5 rounded-full ${
+                  connectionState === 'live' ? 'bg-red-500 animate-pulse'
+                    : connectionState === 'reconnecting' ? 'bg-amber-400 animate-pulse'
+                    : 'bg-zinc-500'
+                }`} />
                 <span className="text-white text-[10px] font-black tracking-widest uppercase">
-                  {isLive ? 'Live Coaching Active' : status}
+                  {connectionState === 'live' ? 'Live Coaching Active'
+                    : connectionState === 'reconnecting' ? 'Reconnecting… on-device coaching'
+                    : status}
                 </span>
+                {connectionState !== null && (
+                  <span className={`text-[10px] font-black tracking-widest uppercase ${
+                    isMicUnavailable ? 'text-rose-300' : isMicOpen ? 'text-emerald-300' : 'text-zinc-500'
+                  }`}>
+                    {isMicUnavailable ? 'Mic off' : 'Mic'}
+                  </span>
+                )}
+              </div>
+              <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-2xl border border-white/10 self-start">
+                <p className="text-indigo-300 text-[10px] font-black uppercase tracking-widest">Reps</p>
+                <p className="text-white text-3xl font-black leading-none">{repCount}</p>
+                <p className="text-zinc-400 text-[9px] font-bold uppercase tracking-widest mt-1">
+                  {repPhase === 'setup' ? 'Get into start position' : repPhase}
+                </p>
+                {repMetrics.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-white/10 space-y-0.5">
+                    <p className="text-zinc-300 text-[9px] font-bold uppercase tracking-widest">
+                      Tempo {(repMetrics[repMetrics.length - 1].eccentricMs / 1000).toFixed(1)}s / {(repMetrics[repMetrics.length - 1].concentricMs / 1000).toFixed(1)}s
+                    </p>
+                    {velocityLoss !== null && (
+                      <p className={`text-[9px] font-black uppercase tracking-widest ${
+                        velocityLossThreshold !== null && velocityLoss >= velocityLossThreshold * 0.75 ? 'text-rose-300' : 'text-emerald-300'
+                      }`}>
+                        Velocity Loss {velocityLoss}%{velocityLossThreshold !== null ? ` / ${velocityLossThreshold}%` : ''}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
             
@@ -468,6 +702,35 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
           </div>
 
           <div className="space-y-6 flex flex-col items-center">
+            {localFormAlert && (
+              <div className={`backdrop-blur-xl border p-3 rounded-2xl max-w-lg w-full ${
+                localFormAlert.severity === 'safety'
+                  ? 'bg-rose-500/20 border-rose-500/40'
+                  : 'bg-amber-500/20 border-amber-500/40'
+              }`}>
+                <p className={`text-[10px] font-black uppercase tracking-widest mb-1 ${
+                  localFormAlert.severity === 'safety' ? 'text-rose-300' : 'text-amber-300'
+                }`}>
+                  Form Check (Rep {localFormAlert.reps[localFormAlert.reps.length - 1]}):
+                </p>
+                <p className="text-white text-base font-bold leading-tight">{localFormAlert.cue}</p>
+              </div>
+            )}
+            {recentCoachEvents.length > 0 && (
+              <div className="bg-black/40 backdrop-blur-xl border border-white/10 px-4 py-2 rounded-2xl max-w-lg w-full">
+                <p className="text-indigo-300 text-[10px] font-black uppercase tracking-widest mb-1">Coach Log:</p>
+                {recentCoachEvents.map(event => (
+                  <p
+                    key={`${event.at}-${event.type}-${describeCoachEvent(event)}`}
+                    className={`text-xs font-bold ${
+                      event.type === 'issue' && event.severity === 'safety' ? 'text-rose-300' : 'text-zinc-200'
+                    }`}
+                  >
+                    {describeCoachEvent(event)}
+                  </p>
+                ))}
+              </div>
+            )}
             {transcription && (
               <div className="bg-black/40 backdrop-blur-xl border border-white/10 p-4 rounded-2xl max-w-lg w-full animate-in slide-in-from-bottom-2 duration-300">
                 <p className="text-indigo-300 text-[10px] font-black uppercase tracking-widest mb-1">Live Cue:</p>
@@ -477,7 +740,25 @@ const LiveCoachingHUD: React.FC<LiveCoachingHUDProps> = ({ exercise, onComplete,
               </div>
             )}
             
-            <div className="w-full flex justify-center pointer-events-auto pb-4">
+            <div className="w-full flex justify-center items-end gap-8 pointer-events-auto pb-4">
+              {micMode === 'push-to-talk' && connectionState !== null && (
+                <button
+                  onPointerDown={() => setTalking(true)}
+                  onPointerUp={() => setTalking(false)}
+                  onPointerLeave={() => isTalking && setTalking(false)}
+                  onPointerCancel={() => setTalking(false)}
+                  className="flex flex-col items-center gap-3 select-none touch-none"
+                >
+                  <div className={`w-16 h-16 rounded-full flex items-center justify-center border-4 shadow-2xl transition-all ${
+                    isTalking ? 'bg-emerald-500 border-emerald-800 scale-105' : 'bg-zinc-800 border-zinc-900'
+                  }`}>
+                    <div className={`w-4 h-7 rounded-full border-2 ${isTalking ? 'border-white bg-white' : 'border-zinc-300'}`} />
+                  </div>
+                  <span className="text-white text-[10px] font-black uppercase tracking-[0.3em] drop-shadow-lg">
+                    {isTalking ? 'Talking' : 'Hold to Talk'}
+                  </span>
+                </button>
+              )}
               <button 
                 onClick={handleFinish}
                 className="group flex flex-col items-center gap-3"
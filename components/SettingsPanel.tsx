@@ -0,0 +1,385 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AI_PROVIDER_OPTIONS,
+  AiProviderId,
+  AiProviderSettings,
+  DEFAULT_AI_PROVIDER_SETTINGS,
+  getDefaultModelForProvider,
+} from '../services/aiProvider';
+import {
+  canSpeakText,
+  createTtsSpeaker,
+  normalizeTtsSettings,
+  TEST_VOICE_PHRASE,
+  TTS_PROVIDER_OPTIONS,
+  TtsSpeaker,
+} from '../services/ttsProvider';
+import { getTtsCache, TtsCacheMetrics } from '../services/ttsCache';
+import { CueVerbosity, ExperienceLevel, MicMode, TtsSettings, UserAccount } from '../types';
+
+// Settings saved on the account itself, so they sync with it.
+type ProfileSettings = Pick<UserAccount, 'bodyweightKg' | 'experienceLevel' | 'ttsSettings'>;
+
+const CUE_VERBOSITY_OPTIONS: Array<{ id: CueVerbosity; label: string; description: string }> = [
+  { id: 'chatty', label: 'Chatty', description: 'Safety, form and encouragement.' },
+  { id: 'minimal', label: 'Minimal', description: 'Safety and form only, spaced further apart.' },
+];
+
+const MIC_MODE_OPTIONS: Array<{ id: MicMode; label: string; description: string }> = [
+  { id: 'voice-activity', label: 'Voice activity', description: 'The coach hears you whenever you talk.' },
+  { id: 'push-to-talk', label: 'Push to talk', description: 'Only while you hold Talk, for noisy gyms.' },
+];
+
+const EXPERIENCE_OPTIONS: Array<{ id: ExperienceLevel; label: string }> = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Intermediate' },
+  { id: 'advanced', label: 'Advanced' },
+];
+
+interface SettingsPanelProps {
+  aiProviderSettings?: AiProviderSettings;
+  onSaveAiProviderSettings: (settings: AiProviderSettings) => Promise<void>;
+  profile: ProfileSettings;
+  onSaveProfile: (profile: ProfileSettings) => void;
+  onClose?: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  aiProviderSettings,
+  onSaveAiProviderSettings,
+  profile,
+  onSaveProfile,
+  onClose,
+}) => {
+  const [aiSettings, setAiSettings] = useState<AiProviderSettings>(() => ({
+    ...DEFAULT_AI_PROVIDER_SETTINGS,
+    ...aiProviderSettings,
+  }));
+  const [bodyweight, setBodyweight] = useState(profile.bodyweightKg?.toString() ?? '');
+  const [experienceLevel, setExperienceLevel] = useState<ExperienceLevel | ''>(profile.experienceLevel ?? '');
+  const [ttsSettings, setTtsSettings] = useState<TtsSettings>(() => normalizeTtsSettings(profile.ttsSettings));
+  const [isTestingVoice, setIsTestingVoice] = useState(false);
+  const [statusMsg, setStatusMsg] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [cacheMetrics, setCacheMetrics] = useState<TtsCacheMetrics | null>(null);
+  const testSpeakerRef = useRef<TtsSpeaker | null>(null);
+
+  useEffect(() => () => testSpeakerRef.current?.close(), []);
+
+  const refreshCacheMetrics = () =>
+    getTtsCache()
+      .getMetrics()
+      .then(setCacheMetrics)
+      .catch(() => setCacheMetrics(null));
+
+  useEffect(() => {
+    if (ttsSettings.providerId === 'elevenlabs') refreshCacheMetrics();
+  }, [ttsSettings.providerId]);
+
+  const handleClearCache = async () => {
+    await getTtsCache().clear().catch(err => console.error('Failed to clear the TTS cache:', err));
+    await refreshCacheMetrics();
+  };
+
+  const updateTtsSettings = (updates: Partial<TtsSettings>) => {
+    testSpeakerRef.current?.close();
+    testSpeakerRef.current = null;
+    setTtsSettings(prev => ({ ...prev, ...updates }));
+    setStatusMsg(null);
+  };
+
+  // Speaks with the settings on screen, before they are saved.
+  const handleTestVoice = async () => {
+    const settings = normalizeTtsSettings(ttsSettings);
+    testSpeakerRef.current?.close();
+    const speaker = createTtsSpeaker(settings, { cache: getTtsCache() });
+    testSpeakerRef.current = speaker;
+    setIsTestingVoice(true);
+    setStatusMsg(null);
+    try {
+      await speaker.speak(TEST_VOICE_PHRASE);
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: `Voice test failed: ${err instanceof Error ? err.message : 'Unknown error.'}` });
+    } finally {
+      if (testSpeakerRef.current === speaker) setIsTestingVoice(false);
+      if (settings.providerId === 'elevenlabs') refreshCacheMetrics();
+    }
+  };
+
+  const selectProvider = (providerId: AiProviderId) => {
+    setAiSettings(prev =>
+      prev.providerId === providerId
+        ? prev
+        : { ...prev, providerId, model: getDefaultModelForProvider(providerId) }
+    );
+    setStatusMsg(null);
+  };
+
+  const handleSave = async () => {
+    const parsedBodyweight = bodyweight.trim() ? Number(bodyweight) : undefined;
+    if (parsedBodyweight !== undefined && (!Number.isFinite(parsedBodyweight) || parsedBodyweight <= 0)) {
+      setStatusMsg({ type: 'error', text: 'Bodyweight must be a positive number.' });
+      return;
+    }
+    onSaveProfile({
+      bodyweightKg: parsedBodyweight,
+      experienceLevel: experienceLevel || undefined,
+      ttsSettings: normalizeTtsSettings(ttsSettings),
+    });
+
+    try {
+      await onSaveAiProviderSettings({
+        ...aiSettings,
+        model: aiSettings.model.trim() || getDefaultModelForProvider(aiSettings.providerId),
+        baseUrl: aiSettings.baseUrl.trim(),
+        apiKey: aiSettings.apiKey.trim(),
+      });
+      setStatusMsg({ type: 'success', text: 'Settings saved.' });
+    } catch (err) {
+      console.error("Failed to save settings:", err);
+      setStatusMsg({ type: 'error', text: 'Could not save settings.' });
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 space-y-6 max-w-lg mx-auto mt-10 shadow-2xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black text-indigo-400 uppercase tracking-[0.3em]">Settings</h3>
+        {onClose && (
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">AI Provider</p>
+        <div className="space-y-2">
+          {AI_PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => selectProvider(option.id)}
+              className={`w-full text-left p-4 rounded-xl border transition-all ${
+                aiSettings.providerId === option.id
+                  ? 'bg-indigo-500/10 border-indigo-500/40'
+                  : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-white text-sm font-bold">{option.label}</p>
+              <p className="text-zinc-500 text-xs mt-1">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Model</label>
+        <input
+          value={aiSettings.model}
+          onChange={e => setAiSettings(prev => ({ ...prev, model: e.target.value }))}
+          placeholder={getDefaultModelForProvider(aiSettings.providerId)}
+          className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm font-mono focus:outline-none focus:border-indigo-500"
+        />
+      </div>
+
+      {aiSettings.providerId === 'openai-compatible' && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Endpoint Base URL</label>
+            <input
+              value={aiSettings.baseUrl}
+              onChange={e => setAiSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+              placeholder="http://localhost:11434/v1"
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm font-mono focus:outline-none focus:border-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">API Key (optional)</label>
+            <input
+              type="password"
+              value={aiSettings.apiKey}
+              onChange={e => setAiSettings(prev => ({ ...prev, apiKey: e.target.value }))}
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm font-mono focus:outline-none focus:border-indigo-500"
+            />
+          </div>
+          <p className="text-zinc-500 text-xs">
+            Live voice coaching needs Gemini. With a local model the coach runs on-device rep counting and form checks only.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">Coach Voice</p>
+        <div className="grid grid-cols-2 gap-2">
+          {TTS_PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => updateTtsSettings({ providerId: option.id })}
+              className={`text-left p-3 rounded-xl border transition-all ${
+                ttsSettings.providerId === option.id
+                  ? 'bg-indigo-500/10 border-indigo-500/40'
+                  : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-white text-sm font-bold">{option.label}</p>
+              <p className="text-zinc-500 text-xs mt-1">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Live cues</label>
+          <div className="grid grid-cols-2 gap-2">
+            {CUE_VERBOSITY_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => updateTtsSettings({ cueVerbosity: option.id })}
+                className={`text-left p-3 rounded-xl border transition-all ${
+                  ttsSettings.cueVerbosity === option.id
+                    ? 'bg-indigo-500/10 border-indigo-500/40'
+                    : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'
+                }`}
+              >
+                <p className="text-white text-sm font-bold">{option.label}</p>
+                <p className="text-zinc-500 text-xs mt-1">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Microphone</label>
+          <div className="grid grid-cols-2 gap-2">
+            {MIC_MODE_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => updateTtsSettings({ micMode: option.id })}
+                className={`text-left p-3 rounded-xl border transition-all ${
+                  ttsSettings.micMode === option.id
+                    ? 'bg-indigo-500/10 border-indigo-500/40'
+                    : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'
+                }`}
+              >
+                <p className="text-white text-sm font-bold">{option.label}</p>
+                <p className="text-zinc-500 text-xs mt-1">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {ttsSettings.providerId === 'elevenlabs' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Voice ID</label>
+              <input
+                value={ttsSettings.voiceId}
+                onChange={e => updateTtsSettings({ voiceId: e.target.value })}
+                placeholder="Default voice"
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm font-mono focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['stability', 'Stability'],
+                ['similarityBoost', 'Similarity'],
+              ] as const).map(([key, label]) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                    {label} · {ttsSettings[key].toFixed(2)}
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={ttsSettings[key]}
+                    onChange={e => updateTtsSettings({ [key]: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+            {cacheMetrics && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-zinc-500 text-xs">
+                  Cached cues: {cacheMetrics.entries} ({Math.round(cacheMetrics.bytes / 1024)} KB)
+                  {cacheMetrics.hitRate !== null && ` · ${Math.round(cacheMetrics.hitRate * 100)}% played from cache`}
+                </p>
+                <button
+                  onClick={handleClearCache}
+                  disabled={cacheMetrics.entries === 0}
+                  className="text-[10px] text-zinc-400 hover:underline uppercase font-bold disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {canSpeakText(ttsSettings.providerId) ? (
+          <button
+            onClick={handleTestVoice}
+            disabled={isTestingVoice}
+            className="text-[10px] text-indigo-300 hover:underline uppercase font-bold disabled:opacity-50"
+          >
+            {isTestingVoice ? 'Speaking...' : 'Test voice'}
+          </button>
+        ) : (
+          <p className="text-zinc-500 text-xs">
+            {ttsSettings.providerId === 'gemini-native'
+              ? "Gemini's voice can only be heard during live coaching."
+              : 'Cues are shown on screen only.'}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">Leaderboard Division</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Bodyweight (kg)</label>
+            <input
+              type="number"
+              min={0}
+              value={bodyweight}
+              onChange={e => setBodyweight(e.target.value)}
+              placeholder="Optional"
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm font-mono focus:outline-none focus:border-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500">Experience</label>
+            <select
+              value={experienceLevel}
+              onChange={e => setExperienceLevel(e.target.value as ExperienceLevel | '')}
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-sm focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">Not set</option>
+              {EXPERIENCE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <p className="text-zinc-500 text-xs">Only used to place you in a division. Your bodyweight is never shown to other users.</p>
+      </div>
+
+      {statusMsg && (
+        <div className={`p-3 rounded-xl text-xs font-bold ${
+          statusMsg.type === 'success' ? 'bg-emerald-500/10 text-emerald-300' : 'bg-red-500/10 text-red-300'
+        }`}>
+          {statusMsg.text}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black rounded-xl uppercase tracking-widest text-xs transition-all shadow-lg shadow-indigo-500/20"
+      >
+        Save Settings
+      </button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
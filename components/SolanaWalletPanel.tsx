@@ -1,20 +1,60 @@
 
-import React, { useState, useEffect } from 'react';
-import { UserAccount } from '../types';
-import { connectWallet, convertPointsToSol, distributeRevenue, getWalletBalance, POINTS_TO_SOL_RATE } from '../services/solanaService';
+import React, { useState, useEffect, useRef } from 'react';
+import { RewardClaim, RewardClaimResponse, RewardStatus, UserAccount } from '../types';
+import { getClusterConfig, getWalletBalance } from '../services/solanaService';
+import { CLUSTER_LABELS, getExplorerTxUrl } from '../services/solanaCluster';
+import { formatRewardAmount } from '../services/rewards';
+import { connectWallet, watchWallets, WalletOption, WalletSession } from '../services/walletAdapter';
+import { buildOwnershipMessage, checkOwnershipProof, toOwnershipProof, WALLET_PROOF_MAX_AGE_MS } from '../services/walletProof';
 
 interface SolanaWalletPanelProps {
   currentUser: UserAccount;
   onUpdateUser: (updatedFields: Partial<UserAccount>) => void;
+  // All null when no sync server is configured: claims are only paid out server-side.
+  loadRewardStatus: (() => Promise<RewardStatus>) | null;
+  loadClaims: (() => Promise<RewardClaim[]>) | null;
+  claimRewards: ((recipient: string, idempotencyKey: string) => Promise<RewardClaimResponse>) | null;
   onClose?: () => void;
 }
 
-const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUpdateUser, onClose }) => {
+const CLAIM_STATUS_STYLES: Record<RewardClaim['status'], string> = {
+  pending: 'bg-amber-500/10 text-amber-300',
+  confirmed: 'bg-emerald-500/10 text-emerald-300',
+  failed: 'bg-rose-500/10 text-rose-300',
+};
+
+const WALLET_INSTALL_LINKS = [
+  { name: 'Phantom', url: 'https://phantom.app/' },
+  { name: 'Solflare', url: 'https://solflare.com/' },
+  { name: 'Backpack', url: 'https://backpack.app/' },
+];
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({
+  currentUser,
+  onUpdateUser,
+  loadRewardStatus,
+  loadClaims,
+  claimRewards,
+  onClose,
+}) => {
   const [balance, setBalance] = useState<number | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [connectingWallet, setConnectingWallet] = useState<string | null>(null);
+  // Set when the connected wallet switches to an account other than the linked one.
+  const [switchedAddress, setSwitchedAddress] = useState<string | null>(null);
+  // Null while there is no linked address or its stored proof is still being checked.
+  const [isOwnershipVerified, setIsOwnershipVerified] = useState<boolean | null>(null);
   const [isClaiming, setIsClaiming] = useState(false);
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
   const [txSignature, setTxSignature] = useState<string | null>(null);
+  const [rewardStatus, setRewardStatus] = useState<RewardStatus | null>(null);
+  const [claims, setClaims] = useState<RewardClaim[] | null>(null);
+  const [checkingClaimId, setCheckingClaimId] = useState<string | null>(null);
+  // Kept until the server has answered, so retrying after a dropped request reuses the same key.
+  const claimKeyRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (currentUser.solanaWalletAddress) {
@@ -22,101 +62,238 @@ const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUp
     }
   }, [currentUser.solanaWalletAddress]);
 
+  useEffect(() => watchWallets(setWallets), []);
+
+  useEffect(() => {
+    const { solanaWalletAddress: address, solanaWalletProof: proof } = currentUser;
+    setIsOwnershipVerified(address && !proof ? false : null);
+    if (!address || !proof) return;
+    let cancelled = false;
+    checkOwnershipProof(proof, { address, accountId: currentUser.id }).then(problem => {
+      if (!cancelled) setIsOwnershipVerified(problem === null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser.id, currentUser.solanaWalletAddress, currentUser.solanaWalletProof]);
+
+  useEffect(() => {
+    if (!session) return;
+    return session.onAccountChange(address => {
+      if (address === null) {
+        setSession(null);
+        setSwitchedAddress(null);
+        setStatusMsg("Wallet disconnected. Your linked address stays saved for rewards.");
+        return;
+      }
+      setSwitchedAddress(address === currentUser.solanaWalletAddress ? null : address);
+    });
+  }, [session, currentUser.solanaWalletAddress]);
+
+  useEffect(() => {
+    if (!loadRewardStatus) return;
+    let cancelled = false;
+    loadRewardStatus()
+      .then(status => {
+        if (cancelled) return;
+        setRewardStatus(status);
+        if (status.pendingPoints !== currentUser.pendingSolanaRewards) {
+          onUpdateUser({ pendingSolanaRewards: status.pendingPoints });
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load reward status:", err);
+        if (!cancelled) setStatusMsg("Could not reach the rewards server.");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Load once per panel open; claims refresh the status from their own response.
+  }, []);
+
+  const refreshClaims = async () => {
+    if (!loadClaims) return;
+    try {
+      setClaims(await loadClaims());
+    } catch (err) {
+      console.error("Failed to load reward claims:", err);
+    }
+  };
+
+  useEffect(() => {
+    refreshClaims();
+  }, []);
+
+  const applyClaimResult = (result: RewardClaimResponse) => {
+    setRewardStatus(result.status);
+    onUpdateUser({ pendingSolanaRewards: result.status.pendingPoints });
+    setClaims(prev => [result.claim, ...(prev ?? []).filter(claim => claim.id !== result.claim.id)]);
+    if (result.claim.signature) setTxSignature(result.claim.signature);
+  };
+
+  // The server's figure is authoritative; the account field is a cached copy for offline display.
+  const cluster = getClusterConfig();
+  // Payouts go out on the server's cluster; balances and explorer links use the app's.
+  const isClusterMismatch = rewardStatus !== null && rewardStatus.cluster !== cluster.name;
+  const claimablePoints = rewardStatus?.claimablePoints ?? currentUser.pendingSolanaRewards ?? 0;
+  // Points earned but held back by the server's payout caps until the next period.
+  const cappedPoints = rewardStatus ? rewardStatus.pendingPoints - rewardStatus.claimablePoints : 0;
+
   const checkBalance = async (address: string) => {
     const bal = await getWalletBalance(address);
     setBalance(bal);
   };
 
-  const handleConnect = async () => {
-    setIsConnecting(true);
+  // The address is only saved once the wallet has signed a message naming it and this account.
+  const linkAddress = async (active: WalletSession, address: string) => {
+    const message = buildOwnershipMessage({
+      address,
+      accountId: currentUser.id,
+      domain: window.location.host,
+      nonce: crypto.randomUUID(),
+      issuedAt: Date.now(),
+    });
+    const proof = toOwnershipProof(address, active.walletName, await active.signMessage(new TextEncoder().encode(message)));
+    const problem = await checkOwnershipProof(proof, { address, accountId: currentUser.id, maxAgeMs: WALLET_PROOF_MAX_AGE_MS });
+    if (problem) throw new Error(problem);
+    onUpdateUser({ solanaWalletAddress: address, solanaWalletProof: proof });
+    setSwitchedAddress(null);
+  };
+
+  const handleConnect = async (walletName: string) => {
+    setConnectingWallet(walletName);
     setStatusMsg(null);
     try {
-      console.log("Attempting to connect wallet...");
-      const wallet = await connectWallet();
-      console.log("Wallet connection result:", wallet);
-      if (wallet) {
-        onUpdateUser({ solanaWalletAddress: wallet.publicKey });
-        setStatusMsg("Wallet connected!");
-      } else {
-        setStatusMsg("Connection rejected or failed. Check console popup.");
-      }
+      const active = await connectWallet(walletName);
+      setSession(active);
+      await linkAddress(active, active.address);
+      setStatusMsg(`Success! ${active.walletName} linked and verified.`);
     } catch (e: any) {
       console.error("Wallet connection error:", e);
-      setStatusMsg(`Error: ${e.message || "Unknown error"}`);
+      setStatusMsg(`Could not link wallet: ${e.message || "Unknown error"}`);
+    } finally {
+      setConnectingWallet(null);
+    }
+  };
+
+  const handleLinkSwitched = async () => {
+    if (!session || !switchedAddress) return;
+    setConnectingWallet(session.walletName);
+    try {
+      await linkAddress(session, switchedAddress);
+      setStatusMsg(`Success! Rewards now go to ${shortAddress(switchedAddress)}.`);
+    } catch (e: any) {
+      setStatusMsg(`Could not link wallet: ${e.message || "Unknown error"}`);
     } finally {
-      setIsConnecting(false);
+      setConnectingWallet(null);
     }
   };
 
+  const handleUnlink = () => {
+    session?.disconnect().catch(err => console.error("Wallet disconnect failed:", err));
+    setSession(null);
+    setSwitchedAddress(null);
+    setStatusMsg(null);
+    onUpdateUser({ solanaWalletAddress: undefined, solanaWalletProof: undefined });
+  };
+
   const handleClaim = async () => {
-    if (!currentUser.solanaWalletAddress) return;
-    
-    // Calculate pending points
-    // For this hackathon, let's assume all current points are "claimable" for simplicity
-    // or use a dedicated 'pendingSolanaRewards' field if managed.
-    // Let's use 'points' as the source of truth for now, and deduct them after claim? 
-    // Or just claim a fixed amount / pending amount.
-    // The previous code had `pendingSolanaRewards`. Let's allow converting ALL points.
-    
-    const pointsToConvert = currentUser.points || 0;
-    if (pointsToConvert <= 0) {
+    if (!currentUser.solanaWalletAddress || !claimRewards || !isOwnershipVerified) return;
+    if (claimablePoints <= 0) {
       setStatusMsg("No points to claim.");
       return;
     }
 
-    const solAmount = convertPointsToSol(pointsToConvert);
     setIsClaiming(true);
-    setStatusMsg(`Initiating claim for ${solAmount.toFixed(4)} SOL...`);
+    setStatusMsg(
+      rewardStatus
+        ? `Initiating claim for ${formatRewardAmount(rewardStatus.claimableAmount, rewardStatus.asset.symbol)}...`
+        : `Initiating claim for ${claimablePoints} points...`
+    );
     setTxSignature(null);
 
+    claimKeyRef.current ??= crypto.randomUUID();
     try {
-      const result = await distributeRevenue(currentUser.solanaWalletAddress, solAmount);
-      
-      if (result.success) {
-         setTxSignature(result.signature || null);
-         setStatusMsg(`Success! Claimed ${solAmount.toFixed(4)} SOL.`);
-         // Reset points/pending rewards after successful claim
-         onUpdateUser({ 
-             points: 0, 
-             pendingSolanaRewards: 0,
-             // accumulators might need adjustment depending on game logic, 
-             // but here we just reset available points to 0.
-         });
-         await checkBalance(currentUser.solanaWalletAddress);
-      } else {
-        setStatusMsg(`Claim failed: ${result.error}`);
+      const result = await claimRewards(currentUser.solanaWalletAddress, claimKeyRef.current);
+      claimKeyRef.current = null;
+      applyClaimResult(result);
+      setStatusMsg(
+        result.claim.status === 'confirmed'
+          ? `Success! Claimed ${formatRewardAmount(result.claim.amount, result.claim.symbol)}.`
+          : `Sent ${formatRewardAmount(result.claim.amount, result.claim.symbol)}, waiting for confirmation. Check again below in a moment.`
+      );
+      await checkBalance(currentUser.solanaWalletAddress);
+    } catch (e: any) {
+      // apiClient errors mean the server answered and recorded the outcome; anything else (a dropped
+      // connection) may have reached it, so the next attempt reuses the key instead of claiming again.
+      if (typeof e?.message === 'string' && e.message.startsWith('Request ')) {
+        claimKeyRef.current = null;
+        await refreshClaims();
+      }
+      setStatusMsg(`Claim failed: ${e.message}`);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  // Replaying a pending claim's key makes the server look it up again (and re-send it if still valid).
+  const handleCheckClaim = async (claim: RewardClaim) => {
+    if (!claimRewards) return;
+    setCheckingClaimId(claim.id);
+    try {
+      const result = await claimRewards(claim.recipient, claim.idempotencyKey);
+      applyClaimResult(result);
+      if (result.claim.status === 'confirmed') {
+        setStatusMsg(`Success! Claimed ${formatRewardAmount(result.claim.amount, result.claim.symbol)}.`);
       }
     } catch (e: any) {
-        setStatusMsg(`Error claiming: ${e.message}`);
+      setStatusMsg(`Claim failed: ${e.message}`);
+      await refreshClaims();
     } finally {
-        setIsClaiming(false);
+      setCheckingClaimId(null);
     }
   };
 
-  // Safe check for phantom
-  const hasPhantom = 'solana' in window && (window as any).solana.isPhantom;
-
-  if (!hasPhantom) {
-      return (
-          <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 text-center max-w-md mx-auto mt-20">
-               {onClose && (
-                  <div className="flex justify-end mb-4">
-                      <button onClick={onClose} className="text-zinc-500 hover:text-white">✕</button>
-                  </div>
-              )}
-              <p className="text-zinc-400 text-sm mb-4">Solana Wallet not found.</p>
-              <a href="https://phantom.app/" target="_blank" rel="noreferrer" className="text-indigo-400 font-bold hover:underline">Install Phantom Wallet</a>
-          </div>
-      )
-  }
+  const walletPicker = wallets.length > 0 ? (
+    <div className="space-y-2">
+      {wallets.map(wallet => (
+        <button
+          key={wallet.name}
+          onClick={() => handleConnect(wallet.name)}
+          disabled={connectingWallet !== null}
+          className="w-full flex items-center justify-center gap-3 px-6 py-3 bg-purple-600 hover:bg-purple-500 text-white font-black rounded-xl uppercase tracking-widest text-xs transition-all disabled:opacity-50 shadow-lg shadow-purple-500/20"
+        >
+          {wallet.icon && <img src={wallet.icon} alt="" className="w-5 h-5 rounded" />}
+          {connectingWallet === wallet.name ? 'Waiting for signature...' : `Connect ${wallet.name}`}
+        </button>
+      ))}
+      <p className="text-[10px] text-zinc-500">You'll be asked to sign a message proving you own the address. It costs nothing.</p>
+    </div>
+  ) : (
+    <div className="space-y-2">
+      <p className="text-zinc-400 text-sm">No Solana wallet found. Install one and reopen this panel:</p>
+      <div className="flex justify-center gap-4">
+        {WALLET_INSTALL_LINKS.map(link => (
+          <a key={link.name} href={link.url} target="_blank" rel="noreferrer" className="text-indigo-400 text-xs font-bold hover:underline">
+            {link.name}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
 
   return (
     <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 space-y-4 max-w-lg mx-auto mt-10 shadow-2xl">
       <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <h3 className="text-xs font-black text-purple-400 uppercase tracking-[0.3em]">Crypto Rewards</h3>
-            <div className="px-2 py-1 bg-purple-500/10 rounded-md border border-purple-500/20">
-                <span className="text-[10px] font-bold text-purple-300">DEVNET</span>
+            <div
+                title={cluster.rpcUrl}
+                className={`px-2 py-1 rounded-md border ${cluster.name === 'mainnet' ? 'bg-amber-500/10 border-amber-500/20' : 'bg-purple-500/10 border-purple-500/20'}`}
+            >
+                <span className={`text-[10px] font-bold uppercase ${cluster.name === 'mainnet' ? 'text-amber-300' : 'text-purple-300'}`}>
+                    {CLUSTER_LABELS[cluster.name]}
+                </span>
             </div>
           </div>
           {onClose && (
@@ -135,14 +312,8 @@ const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUp
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
               </svg>
           </div>
-          <p className="text-zinc-400 text-sm mb-6 max-w-xs mx-auto">Connect your Solana wallet to convert your hard-earned points into SOL (Devnet).</p>
-          <button
-            onClick={handleConnect}
-            disabled={isConnecting}
-            className="px-8 py-4 bg-purple-600 hover:bg-purple-500 text-white font-black rounded-xl uppercase tracking-widest text-xs transition-all disabled:opacity-50 shadow-lg shadow-purple-500/20"
-          >
-            {isConnecting ? 'Connecting...' : 'Connect Phantom Wallet'}
-          </button>
+          <p className="text-zinc-400 text-sm mb-6 max-w-xs mx-auto">Connect your Solana wallet to convert your hard-earned points into on-chain rewards ({CLUSTER_LABELS[cluster.name]}).</p>
+          <div className="max-w-xs mx-auto">{walletPicker}</div>
           {statusMsg && (
              <p className="mt-4 text-xs text-rose-400 font-bold">{statusMsg}</p>
           )}
@@ -150,30 +321,79 @@ const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUp
       ) : (
         <div className="space-y-4">
             <div className="bg-zinc-950 rounded-xl p-4 border border-zinc-800">
-                <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest mb-1">Connected Wallet</p>
+                <div className="flex items-center gap-2 mb-1">
+                    <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">Linked Wallet</p>
+                    {isOwnershipVerified === true && (
+                        <span className="px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-300 text-[9px] font-black uppercase tracking-widest">
+                            Verified{currentUser.solanaWalletProof ? ` · ${currentUser.solanaWalletProof.walletName}` : ''}
+                        </span>
+                    )}
+                    {isOwnershipVerified === false && (
+                        <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-300 text-[9px] font-black uppercase tracking-widest">Unverified</span>
+                    )}
+                </div>
                 <div className="flex items-center justify-between">
                     <p className="text-white font-mono text-xs truncate w-48">{currentUser.solanaWalletAddress}</p>
-                    <button onClick={() => {
-                        onUpdateUser({ solanaWalletAddress: undefined }); 
-                        setStatusMsg(null);
-                    }} className="text-[10px] text-rose-400 hover:underline uppercase font-bold">Disconnect</button>
+                    <button onClick={handleUnlink} className="text-[10px] text-rose-400 hover:underline uppercase font-bold">Disconnect</button>
                 </div>
                 {balance !== null && (
                     <p className="text-zinc-400 text-xs mt-2">Balance: <span className="text-white font-bold">{balance.toFixed(4)} SOL</span></p>
                 )}
+                {isOwnershipVerified === false && (
+                    <div className="mt-3 space-y-2">
+                        <p className="text-amber-300/80 text-[10px] font-bold">Sign a message with this wallet before claiming rewards to it.</p>
+                        {walletPicker}
+                    </div>
+                )}
+                {switchedAddress && (
+                    <div className="mt-3 flex items-center justify-between gap-2 bg-amber-500/10 rounded-lg p-2">
+                        <p className="text-amber-300 text-[10px] font-bold">
+                            {session?.walletName} switched to {shortAddress(switchedAddress)}. Rewards still go to the linked address.
+                        </p>
+                        <button
+                            onClick={handleLinkSwitched}
+                            disabled={connectingWallet !== null}
+                            className="shrink-0 text-[10px] text-amber-200 hover:underline uppercase font-bold disabled:opacity-50"
+                        >
+                            Link it
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className="bg-zinc-950 rounded-xl p-4 border border-zinc-800">
                 <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest mb-1">Available to Claim</p>
                 <div className="flex items-end gap-2">
-                    <span className="text-2xl font-black text-white">{currentUser.points || 0}</span>
+                    <span className="text-2xl font-black text-white">{claimablePoints}</span>
                     <span className="text-xs font-bold text-zinc-500 mb-1">PTS</span>
-                    <span className="text-zinc-600 mb-1">≈</span>
-                    <span className="text-xl font-black text-purple-400">{convertPointsToSol(currentUser.points || 0).toFixed(4)}</span>
-                    <span className="text-xs font-bold text-purple-500 mb-1">SOL</span>
+                    {rewardStatus && (
+                        <>
+                            <span className="text-zinc-600 mb-1">≈</span>
+                            <span className="text-xl font-black text-purple-400">
+                                {rewardStatus.claimableAmount.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                            </span>
+                            <span className="text-xs font-bold text-purple-500 mb-1">{rewardStatus.asset.symbol}</span>
+                        </>
+                    )}
                 </div>
+                {rewardStatus?.asset.kind === 'spl' && (
+                    <p className="text-zinc-500 text-[10px] mt-2 font-mono truncate">Token mint {rewardStatus.asset.mint}</p>
+                )}
+                {rewardStatus?.cap && cappedPoints > 0 && (
+                    <p className="text-amber-300/80 text-[10px] mt-2 font-bold">
+                        {cappedPoints} more PTS over the {rewardStatus.cap.period} payout cap, claimable from{' '}
+                        {new Date(rewardStatus.cap.resetsAt).toLocaleDateString()}.
+                    </p>
+                )}
             </div>
 
+            {isClusterMismatch && (
+                <p className="p-3 rounded-xl text-xs font-bold bg-amber-500/10 text-amber-300">
+                    Rewards are paid on {CLUSTER_LABELS[rewardStatus.cluster]}, but this app is set to {CLUSTER_LABELS[cluster.name]}, so
+                    balances and transaction links may not match.
+                </p>
+            )}
+
             {statusMsg && (
                 <div className={`p-3 rounded-xl text-xs font-bold ${statusMsg.includes('Success') ? 'bg-emerald-500/10 text-emerald-300' : 'bg-zinc-800 text-zinc-300'}`}>
                     {statusMsg}
@@ -182,7 +402,7 @@ const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUp
             
             {txSignature && (
                 <a 
-                    href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`} 
+                    href={getExplorerTxUrl(txSignature, cluster)}
                     target="_blank" 
                     rel="noreferrer"
                     className="block text-[10px] text-purple-400 hover:underline truncate bg-purple-500/10 p-2 rounded-lg"
@@ -194,14 +414,77 @@ const SolanaWalletPanel: React.FC<SolanaWalletPanelProps> = ({ currentUser, onUp
             <div className="pt-2">
                 <button
                     onClick={handleClaim}
-                    disabled={isClaiming || (currentUser.points || 0) <= 0}
+                    disabled={isClaiming || !claimRewards || !isOwnershipVerified || claimablePoints <= 0}
                     className="w-full py-4 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-black rounded-xl uppercase tracking-widest text-xs transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-purple-900/20"
                 >
                     {isClaiming ? 'Processing Transaction...' : 'Claim Rewards Now'}
                 </button>
+                {!claimRewards && (
+                    <p className="mt-2 text-[10px] text-zinc-500 text-center">Claiming needs the sync server (set VITE_SYNC_URL).</p>
+                )}
             </div>
+
+            {claims && claims.length > 0 && (
+                <div className="bg-zinc-950 rounded-xl p-4 border border-zinc-800 space-y-2">
+                    <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">Claim History</p>
+                    {claims.map(claim => (
+                        <div key={claim.id} className="flex items-center justify-between gap-3 text-xs">
+                            <div className="min-w-0">
+                                <p className="text-white font-bold">
+                                    {claim.points} PTS <span className="text-purple-400">· {formatRewardAmount(claim.amount, claim.symbol)}</span>
+                                </p>
+                                <p className="text-zinc-500 text-[10px] truncate">
+                                    {new Date(claim.createdAt).toLocaleString()}
+                                    {claim.error ? ` — ${claim.error}` : ''}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                {claim.signature && (
+                                    <a
+                                        href={getExplorerTxUrl(claim.signature, cluster)}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                        className="text-[10px] text-purple-400 hover:underline"
+                                    >
+                                        TX
+                                    </a>
+                                )}
+                                {claim.status === 'pending' && claimRewards && (
+                                    <button
+                                        onClick={() => handleCheckClaim(claim)}
+                                        disabled={checkingClaimId === claim.id}
+                                        className="text-[10px] text-amber-300 hover:underline uppercase font-bold disabled:opacity-50"
+                                    >
+                                        {checkingClaimId === claim.id ? 'Checking...' : 'Check again'}
+                                    </button>
+                                )}
+                                <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest ${CLAIM_STATUS_STYLES[claim.status]}`}>
+                                    {claim.status}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
       )}
+
+      {claimRewards && (
+        <label className="flex items-start gap-3 pt-2 border-t border-zinc-800 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={currentUser.anchorWorkouts ?? false}
+                onChange={e => onUpdateUser({ anchorWorkouts: e.target.checked })}
+                className="mt-0.5 accent-purple-500"
+            />
+            <span>
+                <span className="block text-xs font-bold text-white">Anchor finished workouts on-chain</span>
+                <span className="block text-[10px] text-zinc-500">
+                    The server writes a hash of each workout{isOwnershipVerified ? ' and your verified wallet' : ''} in a memo transaction, so it can be checked publicly from Workout History.
+                </span>
+            </span>
+        </label>
+      )}
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { WorkoutAnchorCheck, WorkoutHistoryEntry } from '../types';
+import { CLUSTER_LABELS, getExplorerTxUrl, resolveClusterConfig, SolanaClusterConfig } from '../services/solanaCluster';
+
+interface WorkoutAnchorStatusProps {
+  entry: WorkoutHistoryEntry;
+  // The app's cluster, used for explorer links when the anchor was made on the same one.
+  cluster: SolanaClusterConfig;
+  // Omitted when there is no sync server to anchor through.
+  onAnchor?: (entryId: string) => Promise<void>;
+  onVerify: (entry: WorkoutHistoryEntry) => Promise<WorkoutAnchorCheck>;
+}
+
+const CHECK_STYLES: Record<WorkoutAnchorCheck['status'], string> = {
+  match: 'text-emerald-300',
+  mismatch: 'text-rose-300',
+  not_found: 'text-amber-300',
+};
+
+const WorkoutAnchorStatus: React.FC<WorkoutAnchorStatusProps> = ({ entry, cluster, onAnchor, onVerify }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [check, setCheck] = useState<WorkoutAnchorCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { anchor } = entry;
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error("Workout anchor action failed:", err);
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!anchor) {
+    if (!onAnchor) return null;
+    return (
+      <div className="mt-2">
+        <button
+          onClick={() => run(() => onAnchor(entry.id))}
+          disabled={isBusy}
+          className="text-[10px] text-purple-300 hover:underline uppercase font-bold disabled:opacity-50"
+        >
+          {isBusy ? 'Anchoring...' : 'Anchor on-chain'}
+        </button>
+        {error && <p className="text-rose-300 text-[10px] mt-1">{error}</p>}
+      </div>
+    );
+  }
+
+  // Custom RPCs can't be linked without knowing their URL, so only the app's own cluster gets one there.
+  const explorerCluster = anchor.cluster === cluster.name ? cluster : anchor.cluster === 'custom' ? null : resolveClusterConfig({ cluster: anchor.cluster });
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-2 text-[10px]">
+        <span className="text-purple-300 font-black uppercase tracking-widest">Anchored · {CLUSTER_LABELS[anchor.cluster]}</span>
+        {explorerCluster ? (
+          <a
+            href={getExplorerTxUrl(anchor.signature, explorerCluster)}
+            target="_blank"
+            rel="noreferrer"
+            className="text-zinc-400 font-mono hover:underline"
+            title={anchor.signature}
+          >
+            {anchor.signature.slice(0, 8)}…
+          </a>
+        ) : (
+          <span className="text-zinc-400 font-mono" title={anchor.signature}>{anchor.signature.slice(0, 8)}…</span>
+        )}
+        <button
+          onClick={() => run(async () => setCheck(await onVerify(entry)))}
+          disabled={isBusy}
+          className="text-indigo-300 hover:underline uppercase font-bold disabled:opacity-50"
+        >
+          {isBusy ? 'Checking...' : 'Verify'}
+        </button>
+      </div>
+      {check && <p className={`text-[10px] font-bold ${CHECK_STYLES[check.status]}`}>{check.message}</p>}
+      {error && <p className="text-rose-300 text-[10px]">{error}</p>}
+    </div>
+  );
+};
+
+export default WorkoutAnchorStatus;
@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { WorkoutRoutine } from '../types';
+import { EXERCISE_LIBRARY } from '../services/exerciseLibrary';
 
 interface WorkoutBuilderProps {
   onSave: (workout: WorkoutRoutine | WorkoutRoutine[]) => void;
@@ -12,15 +13,6 @@ type BuildMode = 'single' | 'split';
 type DraftExercise = { id: string; type: string };
 type SplitDay = { id: string; name: string; exercises: DraftExercise[]; routineId?: string };
 
-const EXERCISE_LIBRARY: Record<string, string[]> = {
-  Legs: ['Squat', 'Deadlift', 'Leg Press', 'Lunge', 'Leg Curl', 'Leg Extension', 'Calf Raise', 'Romanian Deadlift'],
-  Chest: ['Bench Press', 'Incline Bench', 'Chest Fly', 'Push Up', 'Dips'],
-  Back: ['Barbell Row', 'Lat Pulldown', 'Pull Up', 'Face Pull', 'T-Bar Row', 'Deadlift'],
-  Shoulders: ['Overhead Press', 'Lateral Raise', 'Front Raise', 'Rear Delt Fly', 'Arnold Press'],
-  Arms: ['Bicep Curl', 'Tricep Extension', 'Hammer Curl', 'Skullcrusher', 'Preacher Curl'],
-  Core: ['Plank', 'Leg Raise', 'Russian Twist', 'Crunch', 'Hanging Leg Raise']
-};
-
 const createDay = (index: number, routineId?: string): SplitDay => ({
   id: crypto.randomUUID(),
   name: `Day ${index + 1}`,
@@ -15,7 +15,11 @@ root.render(
     <Auth0Provider
       domain={"dev-82qbe21jf3s4u5j1.us.auth0.com"}
       clientId={"WR4r2lb7H3dFzeZWAGGnYrXWm6RhvXmI"}
-      authorizationParams={{ redirect_uri: window.location.origin }}
+      authorizationParams={{
+        redirect_uri: window.location.origin,
+        // Needed for access tokens the sync server can verify; unset keeps the login-only setup.
+        ...(import.meta.env.VITE_AUTH0_AUDIENCE ? { audience: import.meta.env.VITE_AUTH0_AUDIENCE } : {}),
+      }}
     >
       <App />
     </Auth0Provider>
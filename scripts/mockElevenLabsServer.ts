@@ -0,0 +1,88 @@
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+// A local stand-in for ElevenLabs' multi-context TTS socket, shared by the scripts/test-tts-*.ts files.
+// Every flushed context gets two "audio" chunks holding its own text (so tests can tell cues apart),
+// then isFinal once the context is closed. Tests can hold replies, fail cues or drop connections to
+// push the app down its fallback chain.
+
+export interface MockElevenLabsServer {
+  baseUrl: string;
+  sockets: WebSocket[];
+  // Request paths, one per connection, e.g. to check the voice ID.
+  paths: string[];
+  // Every message clients sent, parsed.
+  received: any[];
+  /** Queues replies until release(), so tests can act while a cue is still generating. */
+  hold: () => void;
+  release: () => void;
+  /** Sends the oldest held reply and keeps holding the rest, e.g. to cut a cue off halfway. */
+  releaseOne: () => void;
+  /** Answers later cues with an API error instead of audio; null restores normal replies. */
+  failCues: (message: string | null) => void;
+  /** Cuts every open connection without a close frame, like a lost network. */
+  dropConnections: () => void;
+  close: () => Promise<void>;
+}
+
+export const startMockElevenLabsServer = async (): Promise<MockElevenLabsServer> => {
+  const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  const sockets: WebSocket[] = [];
+  const paths: string[] = [];
+  const received: any[] = [];
+  const held: Array<() => void> = [];
+  let hold = false;
+  let failure: string | null = null;
+
+  server.on('connection', (socket, request) => {
+    sockets.push(socket);
+    paths.push(request.url ?? '');
+    socket.on('message', raw => {
+      const message = JSON.parse(raw.toString());
+      received.push(message);
+      const contextId = message.context_id;
+      const reply = (payload: object) => {
+        const send = () => socket.readyState === WebSocket.OPEN && socket.send(JSON.stringify({ ...payload, contextId }));
+        if (hold) held.push(send);
+        else send();
+      };
+      if (message.flush && failure) {
+        reply({ error: failure });
+      } else if (message.flush) {
+        const words = message.text.trim().split(' ');
+        const half = Math.ceil(words.length / 2);
+        [words.slice(0, half), words.slice(half)]
+          .filter(part => part.length > 0)
+          .forEach(part => reply({ audio: Buffer.from(`${part.join(' ')}|`).toString('base64') }));
+      }
+      if (message.close_context && !failure) reply({ isFinal: true });
+    });
+  });
+
+  return {
+    baseUrl: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    sockets,
+    paths,
+    received,
+    hold: () => {
+      hold = true;
+    },
+    release: () => {
+      hold = false;
+      held.splice(0).forEach(send => send());
+    },
+    releaseOne: () => {
+      held.shift()?.();
+    },
+    failCues: message => {
+      failure = message;
+    },
+    dropConnections: () => sockets.forEach(socket => socket.terminate()),
+    close: () =>
+      new Promise<void>(resolve => {
+        server.clients.forEach(client => client.terminate());
+        server.close(() => resolve());
+      }),
+  };
+};
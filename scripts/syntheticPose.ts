@@ -0,0 +1,122 @@
+import { POSE_LANDMARKS } from '../services/poseUtils';
+import { PoseLandmark, RepPhase } from '../types';
+
+// Builds BlazePose landmark frames for the on-device analysis tests: a stick figure whose knee,
+// hip or elbow is set to a given angle. Image coordinates, so y grows downward.
+
+type LandmarkName = keyof typeof POSE_LANDMARKS;
+type Point = { x: number; y: number; z?: number };
+
+const LANDMARK_COUNT = 33;
+const SHIN = 0.2;
+const THIGH = 0.2;
+const TORSO = 0.3;
+const UPPER_ARM = 0.15;
+const FOREARM = 0.15;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Landmarks not listed are present but invisible, like an occluded joint. */
+export const pose = (points: Partial<Record<LandmarkName, Point>>): PoseLandmark[] => {
+  const landmarks: PoseLandmark[] = Array.from({ length: LANDMARK_COUNT }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }));
+  (Object.keys(points) as LandmarkName[]).forEach(name => {
+    landmarks[POSE_LANDMARKS[name]] = { z: 0, ...points[name]!, visibility: 1 };
+  });
+  return landmarks;
+};
+
+// Limb from `joint` whose angle with the segment `joint -> previous` is `angle` degrees.
+const bend = (joint: Point, previous: Point, angle: number, length: number, side: 1 | -1): Point => {
+  const base = Math.atan2(previous.y - joint.y, previous.x - joint.x);
+  const direction = base + side * radians(angle);
+  return { x: joint.x + length * Math.cos(direction), y: joint.y + length * Math.sin(direction) };
+};
+
+interface SquatOptions {
+  // Knee width as a share of ankle width; below 0.8 the knees have caved in.
+  kneeSpread?: number;
+}
+
+/** Front-on squat: both shins vertical, thighs folding out to the sides as the knees bend. */
+export const squatPose = (kneeAngle: number, { kneeSpread = 1 }: SquatOptions = {}) => {
+  const points: Partial<Record<LandmarkName, Point>> = {};
+  ([['LEFT', 0.4, -1], ['RIGHT', 0.6, 1]] as const).forEach(([side, ankleX, outward]) => {
+    const ankle = { x: ankleX, y: 0.9 };
+    const knee = { x: 0.5 + (ankleX - 0.5) * kneeSpread, y: 0.9 - SHIN };
+    const hip = bend(knee, { x: knee.x, y: ankle.y }, kneeAngle, THIGH, outward === 1 ? -1 : 1);
+    points[`${side}_ANKLE`] = ankle;
+    points[`${side}_KNEE`] = knee;
+    points[`${side}_HIP`] = hip;
+    points[`${side}_SHOULDER`] = { x: hip.x, y: hip.y - TORSO };
+  });
+  return pose(points);
+};
+
+interface HingeOptions {
+  // 'front' leans the torso towards the camera (depth) rather than across the image.
+  view?: 'side' | 'front';
+  // Share of the braced shoulder-to-hip distance left, e.g. 0.75 when the lower back rounds.
+  torsoScale?: number;
+}
+
+/** Straight-legged hip hinge; `hipAngle` 180 is standing tall. */
+export const hingePose = (hipAngle: number, { view = 'side', torsoScale = 1 }: HingeOptions = {}) => {
+  const lean = radians(180 - hipAngle);
+  const torso = TORSO * torsoScale;
+  const points: Partial<Record<LandmarkName, Point>> = {};
+  ([['LEFT', 0.45], ['RIGHT', 0.55]] as const).forEach(([side, x]) => {
+    const hip = { x, y: 0.5 };
+    points[`${side}_HIP`] = hip;
+    points[`${side}_KNEE`] = { x, y: hip.y + THIGH };
+    points[`${side}_ANKLE`] = { x, y: hip.y + THIGH + SHIN };
+    points[`${side}_SHOULDER`] = view === 'side'
+      ? { x: x + torso * Math.sin(lean), y: hip.y - torso * Math.cos(lean) }
+      : { x, y: hip.y - torso * Math.cos(lean), z: -torso * Math.sin(lean) };
+  });
+  return pose(points);
+};
+
+interface ArmOptions {
+  // How much lower the right wrist sits than the left, in image units.
+  wristDrop?: number;
+}
+
+/** Front-on upper body with both upper arms hanging straight down; `elbowAngle` 180 is locked out. */
+export const armsPose = (elbowAngle: number, { wristDrop = 0 }: ArmOptions = {}) => {
+  const points: Partial<Record<LandmarkName, Point>> = {};
+  ([['LEFT', 0.4, 1], ['RIGHT', 0.6, -1]] as const).forEach(([side, x, inward]) => {
+    const shoulder = { x, y: 0.3 };
+    const elbow = { x, y: shoulder.y + UPPER_ARM };
+    const wrist = bend(elbow, shoulder, elbowAngle, FOREARM, inward);
+    points[`${side}_SHOULDER`] = shoulder;
+    points[`${side}_ELBOW`] = elbow;
+    points[`${side}_WRIST`] = side === 'RIGHT' ? { ...wrist, y: wrist.y + wristDrop } : wrist;
+    points[`${side}_HIP`] = { x, y: shoulder.y + TORSO };
+  });
+  return pose(points);
+};
+
+/** Evenly spaced angles from `from` to `to`, both included. */
+export const sweep = (from: number, to: number, frames: number) =>
+  Array.from({ length: frames }, (_, i) => from + ((to - from) * i) / (frames - 1));
+
+export interface PoseFrame {
+  landmarks: PoseLandmark[];
+  phase: RepPhase;
+}
+
+/**
+ * Frames for reps of a movement as the rep counter would phase them: braced in the start
+ * position, out to `endAngle` and back.
+ */
+export const repFrames = (
+  build: (angle: number) => PoseLandmark[],
+  { startAngle, endAngle, outboundPhase, frames = 10 }: { startAngle: number; endAngle: number; outboundPhase: RepPhase; frames?: number }
+): PoseFrame[] => {
+  const returnPhase: RepPhase = outboundPhase === 'eccentric' ? 'concentric' : 'eccentric';
+  return [
+    ...Array.from({ length: 3 }, () => ({ landmarks: build(startAngle), phase: 'ready' as RepPhase })),
+    ...sweep(startAngle, endAngle, frames).map(angle => ({ landmarks: build(angle), phase: outboundPhase })),
+    ...sweep(endAngle, startAngle, frames).map(angle => ({ landmarks: build(angle), phase: returnPhase })),
+  ];
+};
@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { createFixtureGeminiClient, GeminiFixture } from '../services/fixtureGeminiClient';
+import { extractJsonFromText, getResponseText, normalizeAnalysisFeedback } from '../services/aiCommon';
+import { FrameData, WorkoutRoutine } from '../types';
+import { runTests, test } from './testHarness';
+
+// Replays recorded Gemini responses from fixtures/gemini through the real provider code.
+// Run with `npm test`.
+
+const fixturesDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/gemini');
+
+const loadFixture = (name: string): GeminiFixture =>
+  JSON.parse(fs.readFileSync(path.join(fixturesDir, `${name}.json`), 'utf8'));
+
+const replay = (...names: string[]) => {
+  const fake = createFixtureGeminiClient(names.map(loadFixture));
+  return { ...fake, provider: createGeminiProvider({ client: fake.client }) };
+};
+
+const makeFrames = (count: number): FrameData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    dataUrl: `data:image/jpeg;base64,ZnJhbWUt${i}`,
+    timestamp: 1_700_000_000_000 + i * 400,
+  }));
+
+const history: WorkoutRoutine[] = [
+  {
+    id: 'routine-1',
+    name: 'Leg Day',
+    exercises: [{ id: 'ex-1', type: 'Squat', sets: [{ id: 'set-1', reps: 5, weight: 100, formScore: 62, timestamp: 1 }] }],
+  },
+];
+
+test('extractJsonFromText returns bare objects untouched', () => {
+  assert.equal(extractJsonFromText('  {"a":1}  '), '{"a":1}');
+});
+
+test('extractJsonFromText unwraps fenced JSON', () => {
+  assert.equal(extractJsonFromText('Result:\n```json\n{"a":1}\n```\nThanks'), '{"a":1}');
+});
+
+test('extractJsonFromText slices the outermost braces out of prose', () => {
+  assert.equal(extractJsonFromText('Sure! {"a":{"b":2}} hope that helps'), '{"a":{"b":2}}');
+});
+
+test('getResponseText reads text, outputText, candidates and nested arrays', () => {
+  assert.equal(getResponseText({ text: 'plain' }), 'plain');
+  assert.equal(getResponseText({ text: '   ', outputText: 'fallback' }), 'fallback');
+  assert.equal(
+    getResponseText({ candidates: [{ content: { parts: [{ text: 'one' }, { inlineData: {} }, { text: 'two' }] } }] }),
+    'one two'
+  );
+  assert.equal(getResponseText([{}, { text: 'nested' }]), 'nested');
+  assert.equal(getResponseText({ parsed: { a: 1 } }), undefined);
+});
+
+test('normalizeAnalysisFeedback fills defaults for an empty payload', () => {
+  assert.deepEqual(normalizeAnalysisFeedback({}, 'Deadlift'), {
+    exerciseName: 'Deadlift',
+    score: 0,
+    pros: [],
+    cons: [],
+    suggestions: [],
+    safetyWarnings: [],
+    overallSummary: 'No summary provided.',
+  });
+});
+
+test('analyzeForm parses candidates payloads and downsamples frames', async () => {
+  const { provider, requests, remaining } = replay('analyze-candidates');
+  const feedback = await provider.analyzeForm(makeFrames(40), 'Squat');
+
+  assert.equal(feedback.exerciseName, 'Squat');
+  assert.equal(feedback.score, 78);
+  assert.deepEqual(feedback.safetyWarnings, ['Knee valgus under load']);
+  assert.equal(remaining(), 0);
+
+  const request = requests[0] as any;
+  assert.equal(request.model, DEFAULT_GEMINI_MODEL);
+  const parts = request.contents[0].parts;
+  assert.match(parts[0].text, /frames showing a Squat/);
+  const imageParts = parts.slice(1);
+  assert.ok(imageParts.length <= 15, `expected at most 15 frames, got ${imageParts.length}`);
+  assert.equal(imageParts[0].inlineData.data, 'ZnJhbWUt0');
+});
+
+test('analyzeForm handles fenced JSON surrounded by prose', async () => {
+  const { provider } = replay('analyze-fenced');
+  const feedback = await provider.analyzeForm(makeFrames(3), 'Squat');
+  assert.equal(feedback.score, 78);
+  assert.equal(feedback.cons.length, 1);
+});
+
+test('analyzeForm falls back to the parsed payload when there is no text', async () => {
+  const { provider } = replay('analyze-parsed-only');
+  const feedback = await provider.analyzeForm(makeFrames(3), 'Squat');
+  assert.equal(feedback.overallSummary, 'Solid squat with a knee tracking issue under fatigue.');
+});
+
+test('analyzeForm normalises alternate field names and clamps the score', async () => {
+  const { provider } = replay('analyze-alias-fields');
+  const feedback = await provider.analyzeForm(makeFrames(3), 'Bench');
+  assert.equal(feedback.exerciseName, 'Bench Press');
+  assert.equal(feedback.score, 100);
+  assert.deepEqual(feedback.pros, ['Tight upper back']);
+  assert.deepEqual(feedback.cons, ['Elbows flare early']);
+  assert.deepEqual(feedback.suggestions, ['Tuck elbows to ~45 degrees']);
+  assert.deepEqual(feedback.safetyWarnings, []);
+  assert.equal(feedback.overallSummary, 'Strong press, tidy up the elbow path.');
+});
+
+test('analyzeForm rejects malformed JSON', async () => {
+  const { provider } = replay('analyze-malformed');
+  await assert.rejects(provider.analyzeForm(makeFrames(3), 'Squat'), /malformed JSON/);
+});
+
+test('analyzeForm rejects responses without any text', async () => {
+  const { provider } = replay('analyze-empty');
+  await assert.rejects(provider.analyzeForm(makeFrames(3), 'Squat'), /No textual response/);
+});
+
+test('suggestWorkout builds routines for every day of a valid split', async () => {
+  const { provider, requests } = replay('split-valid');
+  const result = await provider.suggestWorkout('Get stronger', history);
+
+  assert.equal(result.splitName, 'Push Pull Legs');
+  assert.equal(result.routines.length, 3);
+  const groupIds = new Set(result.routines.map(r => r.splitGroupId));
+  assert.equal(groupIds.size, 1);
+  result.routines.forEach((routine, index) => {
+    assert.equal(routine.dayIndex, index);
+    assert.equal(routine.generatedByAI, true);
+    assert.equal(routine.splitName, 'Push Pull Legs');
+    routine.exercises.forEach(ex => assert.deepEqual(ex.sets, []));
+  });
+  assert.deepEqual(result.routines[2].exercises.map(ex => ex.type), ['Squat', 'Romanian Deadlift', 'Leg Press', 'Calf Raise']);
+
+  const prompt = (requests[0] as any).contents as string;
+  assert.match(prompt, /"Get stronger"/);
+  assert.match(prompt, /"formScore":62/);
+});
+
+test('suggestWorkout drops empty days and fills missing names', async () => {
+  const { provider } = replay('split-output-text-fenced');
+  const result = await provider.suggestWorkout('Anything', []);
+
+  assert.equal(result.splitName, 'AI Split');
+  assert.deepEqual(result.routines.map(r => r.name), ['Day 1', 'Upper']);
+  assert.deepEqual(result.routines[0].exercises.map(ex => ex.type), ['Squat', 'Exercise']);
+  assert.equal(result.reasoning, 'Structured for your goal and training history.');
+});
+
+test('suggestWorkout rejects splits without days', async () => {
+  const { provider } = replay('split-no-days');
+  await assert.rejects(provider.suggestWorkout('Anything', []), /Invalid split format/);
+});
+
+test('suggestWorkout rejects splits where every day is empty', async () => {
+  const { provider } = replay('split-no-valid-days');
+  await assert.rejects(provider.suggestWorkout('Anything', []), /no valid training days/);
+});
+
+test('suggestWorkout rejects malformed JSON', async () => {
+  const { provider } = replay('split-malformed');
+  await assert.rejects(provider.suggestWorkout('Anything', []), /malformed JSON/);
+});
+
+test('fixture replay fails loudly once recordings run out', async () => {
+  const { provider } = replay();
+  await assert.rejects(provider.suggestWorkout('Anything', []), /Fixture replay exhausted/);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
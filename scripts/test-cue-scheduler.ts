@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { classifyCue, createCueScheduler, createTranscriptCueBuffer, CueSchedulerProfile, ScheduledCue } from '../services/cueScheduler';
+import { CueVerbosity } from '../types';
+import { runTests, test } from './testHarness';
+
+// Feeds coaching cues and rep boundaries through the live cue scheduler with a fake voice that
+// speaks until the test finishes each cue. Timings are shortened to tens of milliseconds. Run with
+// `npm test`.
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createFakeVoice = (verbosity: CueVerbosity = 'chatty', profile: Partial<CueSchedulerProfile> = {}) => {
+  const spoken: string[] = [];
+  const finishers: Array<() => void> = [];
+  const scheduler = createCueScheduler({
+    verbosity,
+    profile: { minGapMs: 0, maxHoldMs: 1000, staleAfterMs: 5000, ...profile },
+    speak: (cue: ScheduledCue) =>
+      new Promise<void>(resolve => {
+        spoken.push(`${cue.priority}: ${cue.text}`);
+        finishers.push(resolve);
+      }),
+  });
+  // Ends the cue being spoken, or one cut off earlier, and lets the scheduler move on.
+  const finish = async () => {
+    finishers.shift()?.();
+    await wait(0);
+  };
+  return { scheduler, spoken, finish };
+};
+
+test('cues are classified by their wording', () => {
+  assert.equal(classifyCue('Stop, your back is rounding.'), 'safety');
+  assert.equal(classifyCue("Careful, you're rounding your lower back"), 'safety');
+  assert.equal(classifyCue('Rack it.'), 'safety');
+  assert.equal(classifyCue('Knees out and sit deeper.'), 'form');
+  assert.equal(classifyCue('Nice rep, keep it up!'), 'encouragement');
+  assert.equal(classifyCue('Last rep, drive through your heels.'), 'encouragement');
+});
+
+test('form cues wait for a rep boundary and a safety warning cuts in at once', async () => {
+  const { scheduler, spoken, finish } = createFakeVoice();
+
+  assert.equal(scheduler.submit('Knees out.'), 'queued');
+  assert.equal(scheduler.submit('Nice pace!'), 'queued');
+  assert.deepEqual(spoken, []);
+
+  scheduler.onRepBoundary();
+  assert.deepEqual(spoken, ['form: Knees out.']);
+  assert.equal(scheduler.submit('Stop, your back is rounding.'), 'speaking');
+  assert.deepEqual(spoken, ['form: Knees out.', 'safety: Stop, your back is rounding.']);
+
+  // Nothing talks over the warning, not even at a rep boundary.
+  await finish();
+  scheduler.onRepBoundary();
+  assert.equal(spoken.length, 2);
+  await finish();
+  assert.deepEqual(spoken.slice(2), ['encouragement: Nice pace!']);
+
+  // One waiting cue per boundary, most important first.
+  await finish();
+  scheduler.submit('Great depth!');
+  scheduler.submit('Chest up.');
+  scheduler.onRepBoundary();
+  await finish();
+  assert.deepEqual(spoken.slice(3), ['form: Chest up.']);
+  scheduler.onRepBoundary();
+  assert.deepEqual(spoken.slice(4), ['encouragement: Great depth!']);
+});
+
+test('repeats inside the window are dropped and minimal skips encouragement', async () => {
+  const chatty = createFakeVoice('chatty', { repeatWindowMs: 40 });
+  chatty.scheduler.submit('Chest up.');
+  assert.equal(chatty.scheduler.submit('chest up'), 'suppressed');
+  chatty.scheduler.onRepBoundary();
+  await chatty.finish();
+  assert.equal(chatty.scheduler.submit('Chest   up.'), 'suppressed');
+  await wait(60);
+  assert.equal(chatty.scheduler.submit('Chest up.'), 'queued');
+
+  const minimal = createFakeVoice('minimal');
+  assert.equal(minimal.scheduler.submit('Nice rep, keep it up!'), 'suppressed');
+  assert.equal(minimal.scheduler.submit('Sit deeper.'), 'queued');
+  assert.equal(minimal.scheduler.submit('Unsafe, rack it!'), 'speaking');
+  // Warnings can come back sooner than tips, but never while the same one is still being spoken.
+  assert.equal(minimal.scheduler.submit('Unsafe, rack it!'), 'suppressed');
+  assert.deepEqual(minimal.spoken, ['safety: Unsafe, rack it!']);
+});
+
+test('cues are spaced out, spoken anyway without reps and dropped once stale', async () => {
+  const { scheduler, spoken, finish } = createFakeVoice('chatty', { minGapMs: 100, maxHoldMs: 30, staleAfterMs: 150 });
+
+  // No rep boundary comes, e.g. during setup: the cue goes out after maxHoldMs.
+  scheduler.submit('Brace your core.');
+  await wait(50);
+  assert.deepEqual(spoken, ['form: Brace your core.']);
+  await finish();
+
+  // The next one waits out the gap after the last tip even at a boundary.
+  scheduler.submit('Control the descent.');
+  scheduler.onRepBoundary();
+  assert.equal(spoken.length, 1);
+  await wait(130);
+  assert.deepEqual(spoken.slice(1), ['form: Control the descent.']);
+
+  // A cue still waiting when the speaker is busy too long is about a rep long gone.
+  scheduler.submit('Knees out.');
+  await wait(200);
+  await finish();
+  scheduler.onRepBoundary();
+  assert.equal(spoken.length, 2);
+
+  // Clearing also forgets the boundary just passed and stops the hold timer.
+  scheduler.clear();
+  assert.equal(scheduler.submit('Sit deeper.'), 'queued');
+  scheduler.clear();
+  await wait(50);
+  assert.equal(spoken.length, 2);
+});
+
+test('transcript fragments are joined into whole cues with their audio', () => {
+  const transcript = createTranscriptCueBuffer();
+  assert.deepEqual(transcript.push('Chest', 'a1'), []);
+  assert.deepEqual(transcript.push(' up. Knees', 'a2'), [{ text: 'Chest up.', fallbackAudio: ['a1', 'a2'] }]);
+  assert.deepEqual(transcript.push(' out! Good', null), [{ text: 'Knees out!', fallbackAudio: [] }]);
+  assert.deepEqual(transcript.flush(), { text: 'Good', fallbackAudio: [] });
+  assert.equal(transcript.flush(), null);
+
+  transcript.push('Sit', 'a3');
+  transcript.clear();
+  assert.deepEqual(transcript.push(' deeper.'), [{ text: 'deeper.', fallbackAudio: [] }]);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
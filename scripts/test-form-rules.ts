@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { createFormChecker, getFormRules } from '../services/formRules';
+import { FormViolation } from '../types';
+import { armsPose, hingePose, PoseFrame, repFrames, squatPose } from './syntheticPose';
+import { runTests, test } from './testHarness';
+
+// Feeds synthetic landmark sequences, phased the way the rep counter would phase them, through the
+// on-device form rules and checks which reps each rule flags. Run with `npm test`.
+
+// Runs each rep's frames through a fresh checker and returns the rule ids flagged per rep.
+const check = (exercise: string, reps: PoseFrame[][], before: PoseFrame[] = []) => {
+  const checker = createFormChecker(exercise);
+  before.forEach(frame => checker.update(frame.landmarks, frame.phase));
+  const flagged = reps.map((frames, index) => {
+    frames.forEach(frame => checker.update(frame.landmarks, frame.phase));
+    return checker.completeRep(index + 1).map(violation => violation.ruleId);
+  });
+  return { flagged, violations: checker.getViolations() };
+};
+
+const squat = (endAngle: number, kneeSpread?: number) =>
+  repFrames(angle => squatPose(angle, { kneeSpread }), { startAngle: 175, endAngle, outboundPhase: 'eccentric' });
+
+const deadlift = (view: 'side' | 'front', torsoScale = 1) =>
+  repFrames(
+    // The back rounds progressively on the way down.
+    angle => hingePose(angle, { view, torsoScale: 1 - ((1 - torsoScale) * (175 - angle)) / 75 }),
+    { startAngle: 175, endAngle: 100, outboundPhase: 'eccentric' }
+  );
+
+const bench = (wristDrop = 0) =>
+  repFrames(angle => armsPose(angle, { wristDrop }), { startAngle: 170, endAngle: 80, outboundPhase: 'eccentric' });
+
+test('exercise names pick their rules by whole words', () => {
+  const ruleIds = (exercise: string) => getFormRules(exercise).map(rule => rule.id);
+  assert.deepEqual(ruleIds('Narrow-grip Bench Press'), ['bar-path-symmetry']);
+  assert.deepEqual(ruleIds('Seated Cable Rows'), ['lumbar-rounding']);
+  assert.deepEqual(ruleIds('Leg Press'), ['knee-valgus']);
+  assert.deepEqual(ruleIds('Face Pull'), []);
+});
+
+test('a squat above parallel is flagged and one below parallel is not', () => {
+  const { flagged, violations } = check('Back Squat', [squat(70), squat(110), squat(70)]);
+  assert.deepEqual(flagged, [[], ['squat-depth'], []]);
+  assert.deepEqual(violations.map(violation => [violation.ruleId, violation.reps]), [['squat-depth', [2]]]);
+});
+
+test('caving knees are flagged as a safety issue, but not while walking the bar out', () => {
+  const { flagged, violations } = check('Goblet Squat', [squat(70), squat(70, 0.6)]);
+  assert.deepEqual(flagged, [[], ['knee-valgus']]);
+  assert.equal(violations[0].severity, 'safety');
+
+  // Knees knocked together during set-up, before the lifter has settled in the start position.
+  const walkOut: PoseFrame[] = [100, 120, 130].map(angle => ({ landmarks: squatPose(angle, { kneeSpread: 0.5 }), phase: 'setup' }));
+  assert.deepEqual(check('Goblet Squat', [squat(70)], walkOut).flagged, [[]]);
+});
+
+test('a rounding lower back is flagged against the braced start position', () => {
+  assert.deepEqual(check('Conventional Deadlift', [deadlift('side'), deadlift('side', 0.75)]).flagged, [[], ['lumbar-rounding']]);
+  assert.deepEqual(check('Conventional Deadlift', [deadlift('front', 0.75)]).flagged, [['lumbar-rounding']]);
+});
+
+test('a clean front-view hinge is not flagged, even after a tall set-up frame', () => {
+  assert.deepEqual(check('Romanian Deadlift', [deadlift('front'), deadlift('front')]).flagged, [[], []]);
+
+  // Stepping towards the camera makes the torso look longer than it is once braced.
+  const stepIn: PoseFrame[] = [{ landmarks: hingePose(175, { torsoScale: 1.3 }), phase: 'setup' }];
+  assert.deepEqual(check('Romanian Deadlift', [deadlift('front')], stepIn).flagged, [[]]);
+
+  // Rest frames between reps don't count towards the next rep.
+  const resting: PoseFrame[] = [{ landmarks: hingePose(120, { torsoScale: 0.6 }), phase: 'ready' }];
+  assert.deepEqual(check('Romanian Deadlift', [deadlift('front'), [...resting, ...deadlift('front')]]).flagged, [[], []]);
+});
+
+test('an uneven press is flagged and an even one is not', () => {
+  const { flagged, violations } = check('Bench Press', [bench(), bench(0.05), bench(0.01)]);
+  assert.deepEqual(flagged, [[], ['bar-path-symmetry'], []]);
+  assert.deepEqual(violations.map((violation: FormViolation) => violation.severity), ['form']);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
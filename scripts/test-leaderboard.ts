@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { buildLeaderboard, getSeasonWindow, LeaderboardAccount } from '../services/leaderboard';
+import { LeaderboardQuery, WorkoutHistoryEntry } from '../types';
+import { runTests, test } from './testHarness';
+
+// Ranks hand-built accounts and history through the shared leaderboard module. Run with `npm test`.
+
+// Wednesday 2026-03-11 12:00 UTC.
+const NOW = Date.UTC(2026, 2, 11, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+const account = (id: string, extra: Partial<LeaderboardAccount> = {}): LeaderboardAccount => ({
+  id,
+  username: id,
+  ...extra,
+});
+
+const workout = (
+  id: string,
+  performedAt: number,
+  type: string,
+  sets: Array<{ reps: number; weight: number; formScore?: number }>
+): WorkoutHistoryEntry => ({
+  id,
+  routineId: 'r1',
+  routineName: 'Session',
+  performedAt,
+  exercises: [{ id: `${id}-ex`, type, sets: sets.map((set, index) => ({ id: `${id}-${index}`, timestamp: performedAt - (sets.length - index) * 60_000, poseVerifiedReps: set.reps, ...set })) }],
+});
+
+const build = (
+  accounts: LeaderboardAccount[],
+  historyByUser: Record<string, WorkoutHistoryEntry[]>,
+  query: LeaderboardQuery,
+  viewerId?: string
+) => buildLeaderboard({ accounts, historyByUser, query, viewerId, now: NOW });
+
+test('weekly seasons start Monday UTC and monthly seasons on the 1st', () => {
+  const week = getSeasonWindow('weekly', NOW);
+  assert.equal(week.startsAt, Date.UTC(2026, 2, 9));
+  assert.equal(week.endsAt, Date.UTC(2026, 2, 16));
+  assert.equal(week.label, 'Week of 2026-03-09');
+
+  const lastWeek = getSeasonWindow('weekly', NOW, -1);
+  assert.equal(lastWeek.startsAt, Date.UTC(2026, 2, 2));
+
+  // Month offsets roll over year boundaries.
+  const january = getSeasonWindow('monthly', Date.UTC(2026, 0, 15), -1);
+  assert.equal(january.startsAt, Date.UTC(2025, 11, 1));
+  assert.equal(january.endsAt, Date.UTC(2026, 0, 1));
+  assert.equal(january.label, 'December 2025');
+
+  assert.deepEqual(getSeasonWindow('all-time', NOW), { season: 'all-time', label: 'All time', startsAt: null, endsAt: null });
+});
+
+test('seasonal points only count workouts inside the window', () => {
+  const history = {
+    a: [workout('a1', NOW - DAY, 'Squat', [{ reps: 5, weight: 100 }])],
+    // Last week: outside the current season, inside the previous one.
+    b: [workout('b1', NOW - 7 * DAY, 'Squat', [{ reps: 5, weight: 100 }, { reps: 5, weight: 100 }])],
+  };
+  const accounts = [account('a'), account('b')];
+
+  const current = build(accounts, history, { board: 'points', season: 'weekly' });
+  assert.deepEqual(current.entries.map(e => [e.userId, e.value, e.workoutsCompleted]), [['a', 30, 1]]);
+
+  const previous = build(accounts, history, { board: 'points', season: 'weekly', seasonOffset: -1 });
+  assert.deepEqual(previous.entries.map(e => [e.userId, e.value]), [['b', 35]]);
+
+  // All-time points add up every verified workout and list everyone. The points a client wrote on
+  // its own account record don't count.
+  const withClaim = [...accounts, { ...account('c'), points: 99_999 } as LeaderboardAccount];
+  const allTime = build(withClaim, history, { board: 'points', season: 'all-time' });
+  assert.deepEqual(allTime.entries.map(e => [e.userId, e.value, e.workoutsCompleted]), [['b', 35, 1], ['a', 30, 1], ['c', 0, 0]]);
+});
+
+test('form and volume boards are per exercise and accept loosely written names', () => {
+  const history = {
+    a: [
+      workout('a1', NOW - DAY, 'squat', [{ reps: 5, weight: 100, formScore: 82 }, { reps: 5, weight: 100, formScore: 91 }]),
+      workout('a2', NOW - 2 * DAY, 'Bench Press', [{ reps: 5, weight: 200, formScore: 99 }]),
+    ],
+    b: [workout('b1', NOW - DAY, 'Squat', [{ reps: 10, weight: 120, formScore: 88 }])],
+  };
+  const accounts = [account('a'), account('b')];
+
+  const form = build(accounts, history, { board: 'form', season: 'monthly', exercise: 'SQUAT' });
+  assert.equal(form.exercise, 'Squat');
+  assert.deepEqual(form.entries.map(e => [e.userId, e.value]), [['a', 91], ['b', 88]]);
+
+  const volume = build(accounts, history, { board: 'volume', season: 'monthly', exercise: 'Squat' });
+  assert.deepEqual(volume.entries.map(e => [e.userId, e.value]), [['b', 1200], ['a', 1000]]);
+
+  assert.throws(() => build(accounts, history, { board: 'form', season: 'monthly' }), /needs an exercise/);
+});
+
+test('divisions filter by bodyweight band and experience level', () => {
+  const accounts = [
+    account('light', { bodyweightKg: 58 }),
+    account('mid', { bodyweightKg: 75, experienceLevel: 'advanced' }),
+    account('unknown'),
+  ];
+
+  const bodyweight = build(accounts, {}, { board: 'points', season: 'all-time', division: 'bw-75-90' });
+  assert.deepEqual(bodyweight.entries.map(e => e.userId), ['mid']);
+  assert.equal(bodyweight.division, 'bw-75-90');
+
+  const experience = build(accounts, {}, { board: 'points', season: 'all-time', division: 'exp-advanced' });
+  assert.deepEqual(experience.entries.map(e => e.userId), ['mid']);
+
+  assert.throws(() => build(accounts, {}, { board: 'points', season: 'all-time', division: 'heavyweight' }), /Unknown division/);
+});
+
+test('ties share a rank and the viewer gets a window when off the page', () => {
+  // One single-set workout (30 points) a day: a=150, b=120, c=60, d=90, e=60, f=30, g=0.
+  const workouts: Record<string, number> = { a: 5, b: 4, c: 2, d: 3, e: 2, f: 1, g: 0 };
+  const accounts = Object.keys(workouts).map(id => account(id));
+  const history = Object.fromEntries(
+    Object.entries(workouts).map(([id, count]) => [
+      id,
+      Array.from({ length: count }, (_, day) => workout(`${id}${day}`, NOW - (day + 1) * DAY, 'Squat', [{ reps: 5, weight: 100 }])),
+    ])
+  );
+
+  const firstPage = build(accounts, history, { board: 'points', season: 'all-time', pageSize: 3 }, 'f');
+  assert.deepEqual(firstPage.entries.map(e => [e.userId, e.rank]), [['a', 1], ['b', 2], ['d', 3]]);
+  assert.equal(firstPage.total, 7);
+  assert.equal(firstPage.viewer?.entry.rank, 6);
+  assert.deepEqual(firstPage.viewer?.window.map(e => [e.userId, e.rank]), [['c', 4], ['e', 4], ['f', 6], ['g', 7]]);
+
+  const secondPage = build(accounts, history, { board: 'points', season: 'all-time', pageSize: 3, page: 2 }, 'f');
+  assert.deepEqual(secondPage.entries.map(e => [e.userId, e.rank]), [['c', 4], ['e', 4], ['f', 6]]);
+  assert.deepEqual(secondPage.viewer?.window, []);
+
+  // Out-of-range pages clamp to the last page.
+  assert.equal(build(accounts, history, { board: 'points', season: 'all-time', pageSize: 3, page: 99 }).page, 3);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import type { LiveConnectParameters, Tool } from '@google/genai';
+import { createGeminiProvider, GeminiClient } from '../services/geminiService';
+import { handleLiveCoachToolCall, JOINT_LANDMARKS, parseLiveCoachToolCall } from '../services/liveCoachTools';
+import { runTests, test } from './testHarness';
+
+// Checks the live session is configured with the coach's function declarations and that tool calls
+// become structured events, with a response for every call. Run with `npm test`.
+
+test('the live session declares reportIssue, countRep and setComplete', async () => {
+  let params: LiveConnectParameters | null = null;
+  const client = {
+    models: {},
+    live: {
+      connect: async (connectParams: LiveConnectParameters) => {
+        params = connectParams;
+        return { sendRealtimeInput: () => undefined, sendToolResponse: () => undefined, close: () => undefined };
+      },
+    },
+  } as unknown as GeminiClient;
+
+  await createGeminiProvider({ client }).connectLiveCoaching!('Squat', { onmessage: () => undefined });
+  const config = params!.config!;
+  const names = (config.tools as Tool[]).flatMap(tool => tool.functionDeclarations ?? []).map(declaration => declaration.name);
+  assert.deepEqual(names, ['reportIssue', 'countRep', 'setComplete']);
+  assert.match(String(config.systemInstruction), /Squat[\s\S]*call reportIssue/);
+});
+
+test('tool calls become issue, rep and set-complete events', () => {
+  const { events, responses } = handleLiveCoachToolCall(
+    {
+      functionCalls: [
+        { id: 'c1', name: 'countRep', args: {} },
+        { id: 'c2', name: 'reportIssue', args: { joint: 'Knees', severity: 'form', cue: ' Knees out ' } },
+        { id: 'c3', name: 'countRep' },
+        { id: 'c4', name: 'setComplete', args: { reason: 'racked the bar' } },
+      ],
+    },
+    { at: 1000, coachRepCount: 4 }
+  );
+
+  assert.deepEqual(events, [
+    { type: 'rep', at: 1000, count: 5 },
+    { type: 'issue', at: 1000, joint: 'knees', severity: 'form', cue: 'Knees out' },
+    { type: 'rep', at: 1000, count: 6 },
+    { type: 'set-complete', at: 1000, reason: 'racked the bar' },
+  ]);
+  assert.deepEqual(responses.map(response => [response.id, response.name, response.response]), [
+    ['c1', 'countRep', { output: 'ok' }],
+    ['c2', 'reportIssue', { output: 'ok' }],
+    ['c3', 'countRep', { output: 'ok' }],
+    ['c4', 'setComplete', { output: 'ok' }],
+  ]);
+  assert.ok(responses.every(response => response.scheduling === 'SILENT'));
+  assert.deepEqual(JOINT_LANDMARKS.knees, [25, 26]);
+});
+
+test('invalid or unknown calls are answered with an error and produce no event', () => {
+  const invalid = [
+    { name: 'reportIssue', args: { joint: 'spleen', severity: 'form', cue: 'Brace' } },
+    { name: 'reportIssue', args: { joint: 'back', severity: 'critical', cue: 'Brace' } },
+    { name: 'reportIssue', args: { joint: 'back', severity: 'safety', cue: '   ' } },
+    { name: 'startSet', args: {} },
+  ];
+  const errors = invalid.map(call => parseLiveCoachToolCall(call, 0, 0));
+  assert.ok(errors.every(result => 'error' in result));
+  assert.match((errors[0] as { error: string }).error, /joint must be one of neck/);
+  assert.match((errors[3] as { error: string }).error, /Unknown function startSet/);
+
+  const { events, responses } = handleLiveCoachToolCall({ functionCalls: [{ id: 'x', ...invalid[0] }] }, { at: 0, coachRepCount: 0 });
+  assert.deepEqual(events, []);
+  assert.equal(responses.length, 1);
+  assert.ok('error' in responses[0].response!);
+
+  assert.deepEqual(parseLiveCoachToolCall({ name: 'setComplete' }, 5, 0), { event: { type: 'set-complete', at: 5 } });
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import type { LiveCallbacks, LiveConnectParameters, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { createGeminiProvider, GeminiClient } from '../services/geminiService';
+import { createLiveConnection, LiveConnectionState } from '../services/liveConnection';
+import { runTests, test } from './testHarness';
+
+// Drops and refuses fake live sockets under a live connection and checks it resumes the session
+// from the latest handle, buffers camera frames while reconnecting and reports its state. Backoff
+// is shortened to milliseconds. Run with `npm test`.
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const frame = (data: string): LiveSendRealtimeInputParameters => ({ media: { data, mimeType: 'image/jpeg' } });
+const audio: LiveSendRealtimeInputParameters = { media: { data: 'pcm', mimeType: 'audio/pcm;rate=16000' } };
+
+const createFakeLive = () => {
+  const attempts: Array<{ resumeHandle?: string; callbacks: LiveCallbacks; sent: string[]; closed: boolean }> = [];
+  let refuseNext = 0;
+  const connect = async (callbacks: LiveCallbacks, resumeHandle?: string) => {
+    const attempt = { resumeHandle, callbacks, sent: [] as string[], closed: false };
+    attempts.push(attempt);
+    if (refuseNext > 0) {
+      refuseNext -= 1;
+      throw new Error('connection refused');
+    }
+    return {
+      sendRealtimeInput: (input: LiveSendRealtimeInputParameters) =>
+        attempt.sent.push(String((input.media as { data?: string }).data)),
+      sendToolResponse: () => undefined,
+      close: () => {
+        attempt.closed = true;
+      },
+    };
+  };
+  const last = () => attempts[attempts.length - 1];
+  return {
+    attempts,
+    connect,
+    last,
+    refuse: (count: number) => {
+      refuseNext = count;
+    },
+    drop: () => last().callbacks.onclose?.({} as CloseEvent),
+    resumable: (newHandle: string) =>
+      last().callbacks.onmessage({ sessionResumptionUpdate: { newHandle, resumable: true } } as LiveServerMessage),
+  };
+};
+
+test('the live session asks Gemini for resumption handles and resumes from one', async () => {
+  const configs: LiveConnectParameters['config'][] = [];
+  const client = {
+    models: {},
+    live: {
+      connect: async (params: LiveConnectParameters) => {
+        configs.push(params.config);
+        return { sendRealtimeInput: () => undefined, sendToolResponse: () => undefined, close: () => undefined };
+      },
+    },
+  } as unknown as GeminiClient;
+
+  const provider = createGeminiProvider({ client });
+  await provider.connectLiveCoaching!('Squat', { onmessage: () => undefined });
+  await provider.connectLiveCoaching!('Squat', { onmessage: () => undefined }, { resumeHandle: 'h1' });
+  assert.deepEqual(configs.map(config => config?.sessionResumption), [{ handle: undefined }, { handle: 'h1' }]);
+});
+
+test('a dropped socket reconnects with the latest resumable handle', async () => {
+  const live = createFakeLive();
+  const states: LiveConnectionState[] = [];
+  const messages: LiveServerMessage[] = [];
+  const connection = createLiveConnection({
+    connect: live.connect,
+    onMessage: message => messages.push(message),
+    onStateChange: state => states.push(state),
+    reconnectDelaysMs: [5],
+  });
+  assert.equal(connection.getState(), 'connecting');
+  await wait(0);
+  assert.equal(connection.getState(), 'live');
+
+  live.resumable('h1');
+  live.last().callbacks.onmessage({ sessionResumptionUpdate: { newHandle: 'h2', resumable: false } } as LiveServerMessage);
+  assert.equal(messages.length, 2);
+  live.drop();
+  assert.equal(connection.getState(), 'reconnecting');
+  await wait(20);
+  assert.equal(connection.getState(), 'live');
+  assert.deepEqual(live.attempts.map(attempt => attempt.resumeHandle), [undefined, 'h1']);
+
+  // Late messages from the dropped socket are ignored.
+  live.attempts[0].callbacks.onmessage({} as LiveServerMessage);
+  assert.equal(messages.length, 2);
+  assert.deepEqual(states, ['live', 'reconnecting', 'live']);
+  connection.close();
+});
+
+test('frames are buffered while reconnecting and audio is dropped', async () => {
+  const live = createFakeLive();
+  const connection = createLiveConnection({ connect: live.connect, onMessage: () => undefined, reconnectDelaysMs: [5], maxBufferedFrames: 2 });
+
+  // Frames sent before the first connect goes through wait for it too.
+  connection.sendRealtimeInput(frame('f0'));
+  await wait(0);
+  assert.deepEqual(live.last().sent, ['f0']);
+
+  live.drop();
+  connection.sendRealtimeInput(frame('f1'));
+  connection.sendRealtimeInput(audio);
+  connection.sendRealtimeInput(frame('f2'));
+  connection.sendRealtimeInput(frame('f3'));
+  await wait(20);
+  assert.deepEqual(live.last().sent, ['f2', 'f3']);
+  connection.sendRealtimeInput(audio);
+  assert.deepEqual(live.last().sent, ['f2', 'f3', 'pcm']);
+  connection.close();
+});
+
+test('refused connects back off, a stale handle is dropped and close stops retrying', async () => {
+  const live = createFakeLive();
+  const states: LiveConnectionState[] = [];
+  const connection = createLiveConnection({
+    connect: live.connect,
+    onMessage: () => undefined,
+    onStateChange: state => states.push(state),
+    reconnectDelaysMs: [5, 15],
+  });
+  await wait(0);
+  live.resumable('h1');
+
+  // The server no longer knows h1, so after one refusal the next attempt starts a fresh session.
+  live.refuse(2);
+  live.drop();
+  await wait(10);
+  assert.equal(live.attempts.length, 2);
+  await wait(30);
+  assert.deepEqual(live.attempts.map(attempt => attempt.resumeHandle), [undefined, 'h1', undefined, undefined]);
+  assert.equal(connection.getState(), 'live');
+
+  connection.close();
+  assert.equal(live.last().closed, true);
+  assert.equal(connection.getState(), 'closed');
+  live.drop();
+  connection.sendRealtimeInput(frame('late'));
+  await wait(30);
+  assert.equal(live.attempts.length, 4);
+  assert.deepEqual(live.last().sent, []);
+  assert.deepEqual(states, ['live', 'reconnecting', 'live', 'closed']);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
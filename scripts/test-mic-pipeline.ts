@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { createMicPipeline, createResampler, floatToPcm16, MicPipelineEvent } from '../services/micPipeline';
+import { runTests, test } from './testHarness';
+
+// Feeds synthetic 48 kHz microphone input through the capture worklet's pipeline in render-quantum
+// blocks: resampling to 16 kHz, PCM encoding, the voice activity gate and push-to-talk. Run with
+// `npm test`.
+
+const INPUT_RATE = 48000;
+const QUANTUM = 128;
+
+const tone = (ms: number, amplitude: number, hz = 220) =>
+  Float32Array.from({ length: (INPUT_RATE * ms) / 1000 }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / INPUT_RATE));
+
+const feed = (push: (block: Float32Array) => MicPipelineEvent[], samples: Float32Array) => {
+  const events: MicPipelineEvent[] = [];
+  for (let i = 0; i < samples.length; i += QUANTUM) events.push(...push(samples.subarray(i, i + QUANTUM)));
+  return events;
+};
+
+// 'chunk' and 'end' as a compact string, e.g. "ccE" for two chunks and the end of the stream.
+const sent = (events: MicPipelineEvent[]) =>
+  events.map(event => (event.type === 'chunk' ? 'c' : event.type === 'end' ? 'E' : '')).join('');
+
+test('48 kHz input is resampled to 16 kHz without losing the voice band', () => {
+  const resample = createResampler(INPUT_RATE);
+  const input = tone(1000, 0.5);
+  let length = 0;
+  let peak = 0;
+  for (let i = 0; i < input.length; i += QUANTUM) {
+    const output = resample(input.subarray(i, i + QUANTUM));
+    length += output.length;
+    // Skip the filter's warm-up.
+    if (i > 1000) output.forEach(sample => (peak = Math.max(peak, Math.abs(sample))));
+  }
+  assert.equal(length, 16000);
+  assert.ok(peak > 0.48 && peak <= 0.5, `peak ${peak}`);
+
+  // 44.1 kHz doesn't divide evenly; the fractional position carries across blocks.
+  const odd = createResampler(44100);
+  let oddLength = 0;
+  for (let i = 0; i < 44100; i += QUANTUM) oddLength += odd(new Float32Array(Math.min(QUANTUM, 44100 - i))).length;
+  assert.ok(Math.abs(oddLength - 16000) <= 1, `length ${oddLength}`);
+
+  assert.deepEqual(Array.from(floatToPcm16(Float32Array.from([0, 1, -1, 2, -0.5]))), [0, 32767, -32768, 32767, -16384]);
+});
+
+test('voice activity streams speech with its first syllable and ends the stream after a pause', () => {
+  const pipeline = createMicPipeline({ inputSampleRate: INPUT_RATE });
+  const push = pipeline.push;
+
+  assert.equal(sent(feed(push, tone(1000, 0.002))), '');
+  const speech = feed(push, tone(500, 0.3));
+  // The chunk before speech was detected goes out first, then 100 ms chunks of 1600 samples.
+  assert.equal(sent(speech), 'cccccc');
+  const chunks = speech.filter(event => event.type === 'chunk') as Array<{ pcm: Int16Array }>;
+  assert.ok(chunks.every(chunk => chunk.pcm.length === 1600));
+  assert.deepEqual(speech[0], { type: 'speech', active: true });
+
+  // A short pause between words stays open; a longer one closes the gate.
+  assert.equal(sent(feed(push, tone(200, 0.002))), 'cc');
+  assert.equal(sent(feed(push, tone(200, 0.3))), 'cc');
+  const after = feed(push, tone(1000, 0.002));
+  assert.equal(sent(after), 'cccE');
+  assert.deepEqual(after.filter(event => event.type === 'speech'), [{ type: 'speech', active: false }]);
+});
+
+test('steady gym noise becomes background while speech over it still opens the gate', () => {
+  const push = createMicPipeline({ inputSampleRate: INPUT_RATE }).push;
+  const noise = feed(push, tone(8000, 0.05, 90));
+  // Sent while the floor catches up, then silenced.
+  assert.ok(sent(noise).endsWith('E'));
+  assert.equal(sent(feed(push, tone(1000, 0.05, 90))), '');
+  assert.match(sent(feed(push, tone(500, 0.4))), /^c+$/);
+});
+
+test('push to talk streams only while the button is held, speech or not', () => {
+  const pipeline = createMicPipeline({ inputSampleRate: INPUT_RATE, mode: 'push-to-talk' });
+  assert.equal(sent(feed(pipeline.push, tone(500, 0.3))), '');
+
+  pipeline.setTalking(true);
+  assert.equal(sent(feed(pipeline.push, tone(300, 0.002))), 'ccc');
+  pipeline.setTalking(false);
+  assert.equal(sent(feed(pipeline.push, tone(300, 0.3))), 'E');
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
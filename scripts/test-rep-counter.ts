@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { createRepCounter, getExerciseMotionProfile } from '../services/repCounter';
+import { PoseLandmark, RepPhase } from '../types';
+import { armsPose, squatPose, sweep } from './syntheticPose';
+import { runTests, test } from './testHarness';
+
+// Moves a synthetic skeleton through push, pull and squat reps at 30 fps and checks the rep
+// counter's counts and phases. Run with `npm test`.
+
+const FRAME_MS = 33;
+
+const hold = (angle: number, frames: number) => Array.from({ length: frames }, () => angle);
+
+// Holds the start position, then goes out to `endAngle` and back `reps` times.
+const reps = (startAngle: number, endAngle: number, count: number) => [
+  ...hold(startAngle, 5),
+  ...Array.from({ length: count }, () => [
+    ...sweep(startAngle, endAngle, 15),
+    ...hold(endAngle, 3),
+    ...sweep(endAngle, startAngle, 15),
+    ...hold(startAngle, 5),
+  ]).flat(),
+];
+
+// Returns the reps counted and the phases the counter went through, without repeats.
+const run = (exercise: string, angles: number[], build: (angle: number) => PoseLandmark[]) => {
+  const counter = createRepCounter(exercise);
+  const phases: RepPhase[] = [counter.getState().phase];
+  const counted: number[] = [];
+  angles.forEach((angle, frame) => {
+    const event = counter.update(build(angle), frame * FRAME_MS);
+    if (event) {
+      counted.push(event.count);
+      assert.ok(event.startedAt < event.turnaroundAt && event.turnaroundAt < event.completedAt);
+    }
+    const { phase } = counter.getState();
+    if (phase !== phases[phases.length - 1]) phases.push(phase);
+  });
+  return { counted, phases };
+};
+
+test('exercise names pick a motion profile by whole words', () => {
+  const profileOf = (exercise: string) => {
+    const { joint, concentric } = getExerciseMotionProfile(exercise);
+    return `${joint}/${concentric}`;
+  };
+  assert.equal(profileOf('Chest Press Machine'), 'elbow/extend');
+  assert.equal(profileOf('Narrow-grip Bench Press'), 'elbow/extend');
+  assert.equal(profileOf('Chin-ups'), 'elbow/flex');
+  assert.equal(profileOf('Bent-over Barbell Rows'), 'elbow/flex');
+  assert.equal(profileOf('Seated Leg Curl'), 'knee/flex');
+  assert.equal(profileOf('Romanian Deadlift'), 'hip/extend');
+  assert.equal(profileOf('Walking Lunges'), 'knee/extend');
+});
+
+test('bench press reps lower first and count on lockout', () => {
+  const { counted, phases } = run('Bench Press', reps(170, 80, 3), armsPose);
+  assert.deepEqual(counted, [1, 2, 3]);
+  assert.deepEqual(phases, ['setup', 'ready', 'eccentric', 'concentric', 'ready', 'eccentric', 'concentric', 'ready', 'eccentric', 'concentric', 'ready']);
+});
+
+test('row reps pull first, and a half rep is not counted', () => {
+  const angles = [...reps(170, 60, 2), ...sweep(170, 120, 10), ...sweep(120, 170, 10), ...hold(170, 5)];
+  const { counted, phases } = run('Barbell Row', angles, armsPose);
+  assert.deepEqual(counted, [1, 2]);
+  assert.deepEqual(phases, ['setup', 'ready', 'concentric', 'eccentric', 'ready', 'concentric', 'eccentric', 'ready', 'concentric', 'ready']);
+});
+
+test('squats need depth before they count', () => {
+  const angles = [...reps(175, 80, 2), ...sweep(175, 130, 10), ...sweep(130, 175, 10), ...hold(175, 5)];
+  const { counted, phases } = run('Back Squat', angles, angle => squatPose(angle));
+  assert.deepEqual(counted, [1, 2]);
+  assert.deepEqual(phases.slice(-3), ['ready', 'eccentric', 'ready']);
+
+  // Nothing is counted until the lifter has been seen standing.
+  assert.deepEqual(run('Back Squat', [...sweep(90, 120, 10), ...hold(120, 5)], angle => squatPose(angle)).phases, ['setup']);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { computeVelocityLoss, createRepMetricsTracker, getTotalTimeUnderTension } from '../services/repMetrics';
+import { RepEvent } from '../types';
+import { pose } from './syntheticPose';
+import { runTests, test } from './testHarness';
+
+// Moves synthetic wrists up and down at known speeds through the rep metrics tracker and checks
+// time under tension, the eccentric/concentric split and velocity loss. Run with `npm test`.
+
+const FRAME_MS = 50;
+// Shoulders to hips is 0.3 of the image, so a 0.3 bar travel is one torso length.
+const TORSO = 0.3;
+const TOP = 0.3;
+const BOTTOM = TOP + TORSO;
+
+const frame = (wristY: number) =>
+  pose({
+    LEFT_SHOULDER: { x: 0.4, y: 0.2 },
+    RIGHT_SHOULDER: { x: 0.6, y: 0.2 },
+    LEFT_HIP: { x: 0.4, y: 0.2 + TORSO },
+    RIGHT_HIP: { x: 0.6, y: 0.2 + TORSO },
+    LEFT_WRIST: { x: 0.4, y: wristY },
+    RIGHT_WRIST: { x: 0.6, y: wristY },
+  });
+
+// Feeds a rep that moves the wrists from TOP to BOTTOM over `downMs` and back over `upMs`.
+const rep = (
+  tracker: ReturnType<typeof createRepMetricsTracker>,
+  count: number,
+  startedAt: number,
+  downMs: number,
+  upMs: number
+): RepEvent => {
+  for (let t = 0; t <= downMs; t += FRAME_MS) tracker.update(frame(TOP + (TORSO * t) / downMs), startedAt + t);
+  for (let t = FRAME_MS; t <= upMs; t += FRAME_MS) tracker.update(frame(BOTTOM - (TORSO * t) / upMs), startedAt + downMs + t);
+  return { count, startedAt, turnaroundAt: startedAt + downMs, completedAt: startedAt + downMs + upMs, minAngle: 80, maxAngle: 170 };
+};
+
+test('a press splits each rep into lowering then pressing and tracks the slowdown', () => {
+  const tracker = createRepMetricsTracker('Bench Press');
+  const metrics = [
+    tracker.summarizeRep(rep(tracker, 1, 0, 1000, 500)),
+    tracker.summarizeRep(rep(tracker, 2, 2000, 1000, 800)),
+    tracker.summarizeRep(rep(tracker, 3, 4000, 1000, 1000)),
+  ];
+
+  assert.deepEqual(metrics[0], {
+    rep: 1,
+    timeUnderTensionMs: 1500,
+    eccentricMs: 1000,
+    concentricMs: 500,
+    meanConcentricVelocity: 2,
+    peakConcentricVelocity: 2,
+  });
+  assert.deepEqual(metrics.map(m => m.meanConcentricVelocity), [2, 1.25, 1]);
+  assert.equal(getTotalTimeUnderTension(metrics), 1500 + 1800 + 2000);
+  assert.equal(computeVelocityLoss(metrics), 50);
+  assert.equal(computeVelocityLoss(metrics.slice(0, 2)), 38);
+  assert.equal(computeVelocityLoss(metrics.slice(0, 1)), null);
+});
+
+test('a pull measures the first half of the rep as the concentric', () => {
+  const tracker = createRepMetricsTracker('Barbell Row');
+  const metrics = tracker.summarizeRep(rep(tracker, 1, 0, 400, 1200));
+  assert.equal(metrics.concentricMs, 400);
+  assert.equal(metrics.eccentricMs, 1200);
+  assert.equal(metrics.meanConcentricVelocity, 2.5);
+});
+
+test('velocity loss is measured from the fastest rep, not the first', () => {
+  const metrics = [1.6, 2, 1.9, 1.4].map((meanConcentricVelocity, i) => ({
+    rep: i + 1,
+    timeUnderTensionMs: 1000,
+    eccentricMs: 600,
+    concentricMs: 400,
+    meanConcentricVelocity,
+    peakConcentricVelocity: meanConcentricVelocity,
+  }));
+  assert.equal(computeVelocityLoss(metrics), 30);
+  // A late rep faster than the rest means no loss yet.
+  assert.equal(computeVelocityLoss([...metrics, { ...metrics[0], rep: 5, meanConcentricVelocity: 2.2 }]), 0);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
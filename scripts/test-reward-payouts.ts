@@ -0,0 +1,520 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, SystemInstruction, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  createMint,
+  decodeInstruction,
+  getAssociatedTokenAddressSync,
+  isMintToCheckedInstruction,
+  isTransferCheckedInstruction,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { createDevTokenVerifier } from '../server/auth';
+import { openSyncDatabase } from '../server/database';
+import { createSolPayoutAsset, createSplPayoutAsset, loadRewardAsset, loadRewardCaps } from '../server/rewardConfig';
+import { createRewardPayoutService, PayoutConnection } from '../server/rewardPayouts';
+import { createSessionReviewService } from '../server/sessionReviews';
+import { createSyncRequestHandler } from '../server/syncServer';
+import { createSyncStore } from '../server/syncStore';
+import { claimRewards, createApiClient, fetchRewardClaims, fetchRewardStatus } from '../services/apiClient';
+import { convertPointsToBaseUnits, SOL_REWARD_ASSET } from '../services/rewards';
+import { assertTestCluster, getExplorerTxUrl, resolveClusterConfig } from '../services/solanaCluster';
+import { WorkoutHistoryEntry } from '../types';
+import { runTests, test } from './testHarness';
+
+// Exercises the server-side reward payout service against a fake cluster. Set
+// SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899 (with solana-test-validator running) to also
+// pay out real lamports on a local validator. Run with `npm test`.
+
+const USER = 'auth0|a';
+
+const DAY = 24 * 60 * 60 * 1000;
+let nextDay = 1;
+
+// Each call is a separate day's session with sets two minutes apart, so verification accepts it.
+const workout = (id: string, sets: number): WorkoutHistoryEntry => {
+  const performedAt = nextDay++ * DAY;
+  return {
+    id,
+    routineId: 'r1',
+    routineName: 'Session',
+    performedAt,
+    exercises: [{
+      id: `${id}-ex`,
+      type: 'Squat',
+      sets: Array.from({ length: sets }, (_, i) => ({ id: `${id}-${i}`, reps: 5, weight: 100, timestamp: performedAt - (sets - i) * 120_000 })),
+    }],
+  };
+};
+
+interface FakeClusterOptions {
+  rejectSend?: boolean;
+  failOnChain?: boolean;
+  // Number of confirmTransaction calls that time out before confirmations come through.
+  confirmTimeouts?: number;
+  // Accept transactions without ever landing them, as when a leader drops them.
+  dropSends?: boolean;
+}
+
+type RecordedTransfer = { kind: 'sol' | 'mint' | 'transfer'; from: string; to: string; amount: bigint; signature: string };
+
+// Reads the payment out of a payout instruction; token account creation is skipped.
+const decodePayment = (instruction: TransactionInstruction): Omit<RecordedTransfer, 'signature'> | null => {
+  if (instruction.programId.equals(SystemProgram.programId)) {
+    const transfer = SystemInstruction.decodeTransfer(instruction);
+    return { kind: 'sol', from: transfer.fromPubkey.toBase58(), to: transfer.toPubkey.toBase58(), amount: BigInt(transfer.lamports) };
+  }
+  if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) return null;
+  const decoded = decodeInstruction(instruction, instruction.programId);
+  if (isMintToCheckedInstruction(decoded)) {
+    return { kind: 'mint', from: decoded.keys.mint.pubkey.toBase58(), to: decoded.keys.destination.pubkey.toBase58(), amount: decoded.data.amount };
+  }
+  if (isTransferCheckedInstruction(decoded)) {
+    return { kind: 'transfer', from: decoded.keys.source.pubkey.toBase58(), to: decoded.keys.destination.pubkey.toBase58(), amount: decoded.data.amount };
+  }
+  throw new Error(`Unexpected instruction for ${instruction.programId.toBase58()}`);
+};
+
+// Accepts transactions only if the treasury signature verifies, and records the payments. Like a real
+// cluster, sending the same signed transaction twice lands it once.
+const createFakeCluster = (options: FakeClusterOptions = {}) => {
+  const transfers: RecordedTransfer[] = [];
+  const instructions: TransactionInstruction[][] = [];
+  const landed = new Map<string, { err: unknown }>();
+  let timeoutsLeft = options.confirmTimeouts ?? 0;
+  let sends = 0;
+  const cluster = { blockHeight: 50 };
+  const connection = {
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+    getBlockHeight: async () => cluster.blockHeight,
+    sendRawTransaction: async (raw: Buffer | Uint8Array | number[]) => {
+      if (options.rejectSend) throw new Error('Transaction simulation failed: insufficient funds');
+      const transaction = Transaction.from(Buffer.from(raw as Uint8Array));
+      assert.equal(transaction.verifySignatures(), true);
+      const signature = `fake-${Buffer.from(transaction.signature!).toString('hex').slice(0, 16)}`;
+      sends += 1;
+      if (!options.dropSends && !landed.has(signature)) {
+        instructions.push(transaction.instructions);
+        transaction.instructions.forEach(instruction => {
+          const payment = decodePayment(instruction);
+          if (payment) transfers.push({ ...payment, signature });
+        });
+        landed.set(signature, { err: options.failOnChain ? { InstructionError: [0, 'Custom'] } : null });
+      }
+      return signature;
+    },
+    confirmTransaction: async ({ signature }: { signature: string }) => {
+      if (timeoutsLeft > 0 || !landed.has(signature)) {
+        timeoutsLeft -= 1;
+        throw new Error('block height exceeded');
+      }
+      return { context: { slot: 1 }, value: { err: landed.get(signature)!.err } };
+    },
+    getSignatureStatuses: async (signatures: string[]) => ({
+      context: { slot: 1 },
+      value: signatures.map(signature => {
+        const status = landed.get(signature);
+        return status ? { slot: 1, confirmations: null, err: status.err, confirmationStatus: 'confirmed' } : null;
+      }),
+    }),
+  };
+  return { connection: connection as unknown as PayoutConnection, transfers, instructions, cluster, sends: () => sends };
+};
+
+type PayoutOptions = Parameters<typeof createRewardPayoutService>[0];
+
+const setup = async (
+  history: WorkoutHistoryEntry[],
+  connection: PayoutConnection,
+  options: Partial<Pick<PayoutOptions, 'asset' | 'caps' | 'cluster' | 'now' | 'treasury'>> = {}
+) => {
+  const db = await openSyncDatabase(':memory:');
+  const store = createSyncStore(db);
+  store.push(USER, 'history', history.map(entry => ({ id: entry.id, updatedAt: 1, data: entry })));
+  const reviews = createSessionReviewService({ db, store });
+  const treasury = options.treasury ?? Keypair.generate();
+  return { db, store, reviews, treasury, payouts: createRewardPayoutService({ db, store, reviews, connection, ...options, treasury }) };
+};
+
+const hasCode = (code: string) => (err: Error & { code?: string }) => err.code === code;
+
+test('claimable points come from synced history, not the client total', async () => {
+  const { payouts, treasury, db } = await setup([workout('w1', 3), workout('w2', 1)], createFakeCluster().connection);
+  // 25 + 3 * 5 and 25 + 1 * 5.
+  assert.deepEqual(payouts.getStatus(USER), {
+    earnedPoints: 70,
+    claimedPoints: 0,
+    pendingPoints: 70,
+    claimablePoints: 70,
+    claimableAmount: 70 * 0.0001,
+    asset: SOL_REWARD_ASSET,
+    treasuryAddress: treasury.publicKey.toBase58(),
+    cluster: 'devnet',
+  });
+  assert.equal(payouts.getStatus('auth0|nobody').pendingPoints, 0);
+  db.close();
+});
+
+test('a claim signs one treasury transfer, debits the points and is recorded in the ledger', async () => {
+  const cluster = createFakeCluster();
+  const { payouts, treasury, store, db } = await setup([workout('w1', 3)], cluster.connection);
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  const result = await payouts.claim(USER, recipient, 'claim-key-1');
+  assert.deepEqual(cluster.transfers, [
+    { kind: 'sol', from: treasury.publicKey.toBase58(), to: recipient, amount: convertPointsToBaseUnits(40, SOL_REWARD_ASSET), signature: result.claim.signature },
+  ]);
+  assert.deepEqual(
+    [result.claim.status, result.claim.points, result.claim.amount, result.claim.symbol, result.claim.idempotencyKey],
+    ['confirmed', 40, 0.004, 'SOL', 'claim-key-1']
+  );
+  assert.equal(result.status.pendingPoints, 0);
+  assert.equal(result.status.claimedPoints, 40);
+
+  await assert.rejects(payouts.claim(USER, recipient, 'claim-key-2'), hasCode('nothing_to_claim'));
+
+  // Only newly synced workouts become claimable.
+  store.push(USER, 'history', [{ id: 'w2', updatedAt: 2, data: workout('w2', 1) }]);
+  assert.equal((await payouts.claim(USER, recipient, 'claim-key-3')).claim.points, 30);
+  assert.equal(cluster.transfers.length, 2);
+  assert.deepEqual((await payouts.listClaims(USER)).map(claim => [claim.points, claim.status]), [[30, 'confirmed'], [40, 'confirmed']]);
+  db.close();
+});
+
+test('repeating a request with the same idempotency key returns the original claim', async () => {
+  const cluster = createFakeCluster();
+  const { payouts, store, db } = await setup([workout('w1', 3)], cluster.connection);
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  const first = await payouts.claim(USER, recipient, 'double-click');
+  // More points arrive in between; the replay still must not pay them out under the old key.
+  store.push(USER, 'history', [{ id: 'w2', updatedAt: 2, data: workout('w2', 1) }]);
+  const replay = await payouts.claim(USER, recipient, 'double-click');
+  assert.deepEqual(replay.claim, first.claim);
+  assert.equal(replay.status.pendingPoints, 30);
+  assert.equal(cluster.transfers.length, 1);
+
+  await assert.rejects(payouts.claim(USER, Keypair.generate().publicKey.toBase58(), 'double-click'), hasCode('idempotency_conflict'));
+  await assert.rejects(payouts.claim(USER, recipient, 'short'), hasCode('invalid_idempotency_key'));
+  db.close();
+});
+
+test('invalid recipients and concurrent claims are refused', async () => {
+  const cluster = createFakeCluster();
+  const { payouts, db } = await setup([workout('w1', 3)], cluster.connection);
+
+  await assert.rejects(payouts.claim(USER, 'not-a-wallet', 'claim-key-1'), hasCode('invalid_recipient'));
+
+  const recipient = Keypair.generate().publicKey.toBase58();
+  const results = await Promise.allSettled([payouts.claim(USER, recipient, 'claim-key-2'), payouts.claim(USER, recipient, 'claim-key-3')]);
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'rejected']);
+  assert.equal(cluster.transfers.length, 1);
+  db.close();
+});
+
+test('rejected or failed transfers are recorded as failed and give the points back', async () => {
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  const rejected = await setup([workout('w1', 3)], createFakeCluster({ rejectSend: true }).connection);
+  await assert.rejects(rejected.payouts.claim(USER, recipient, 'claim-key-1'), hasCode('transfer_failed'));
+  assert.equal(rejected.payouts.getStatus(USER).pendingPoints, 40);
+  const [claim] = await rejected.payouts.listClaims(USER);
+  assert.deepEqual([claim.status, claim.signature], ['failed', undefined]);
+  // The failure is the recorded outcome for that key; a new key starts a new claim.
+  await assert.rejects(rejected.payouts.claim(USER, recipient, 'claim-key-1'), hasCode('transfer_failed'));
+  rejected.db.close();
+
+  const failed = await setup([workout('w1', 3)], createFakeCluster({ failOnChain: true }).connection);
+  await assert.rejects(
+    failed.payouts.claim(USER, recipient, 'claim-key-1'),
+    (err: Error & { code?: string; signature?: string }) => err.code === 'transfer_failed' && !!err.signature
+  );
+  assert.equal(failed.payouts.getStatus(USER).pendingPoints, 40);
+  assert.equal((await failed.payouts.listClaims(USER))[0].error, 'The reward transfer failed on chain.');
+  failed.db.close();
+});
+
+test('confirmation timeouts are retried, and unconfirmed claims stay pending until they land or expire', async () => {
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  // Confirmation times out, but looking the signature up finds it landed.
+  const slow = createFakeCluster({ confirmTimeouts: 1 });
+  const retried = await setup([workout('w1', 3)], slow.connection);
+  assert.equal((await retried.payouts.claim(USER, recipient, 'claim-key-1')).claim.status, 'confirmed');
+  assert.equal(slow.transfers.length, 1);
+  retried.db.close();
+
+  // Never lands: after the retries the claim is left pending with the points still debited.
+  const dropping = createFakeCluster({ dropSends: true });
+  const dropped = await setup([workout('w1', 3)], dropping.connection);
+  const pending = await dropped.payouts.claim(USER, recipient, 'claim-key-1');
+  assert.equal(pending.claim.status, 'pending');
+  assert.equal(pending.status.pendingPoints, 0);
+  // Each timeout re-sent the same signed transaction rather than signing a new one.
+  assert.equal(dropping.sends(), 4);
+  await assert.rejects(dropped.payouts.claim(USER, recipient, 'claim-key-2'), hasCode('nothing_to_claim'));
+
+  // Once the blockhash has expired the transfer can never land, so the points are released.
+  dropping.cluster.blockHeight = 101;
+  assert.deepEqual((await dropped.payouts.listClaims(USER)).map(claim => [claim.status, claim.error]), [
+    ['failed', 'The reward transfer expired before it was confirmed.'],
+  ]);
+  assert.equal(dropped.payouts.getStatus(USER).pendingPoints, 40);
+  dropped.db.close();
+});
+
+test('claims wait for the configured commitment and report the payout cluster', async () => {
+  const recipient = Keypair.generate().publicKey.toBase58();
+  const fake = createFakeCluster({ confirmTimeouts: 3 });
+  const finalized = await setup([workout('w1', 3)], fake.connection, {
+    cluster: resolveClusterConfig({ cluster: 'mainnet', commitment: 'finalized' }),
+  });
+  assert.equal(finalized.payouts.getStatus(USER).cluster, 'mainnet');
+  // The fake cluster only ever reports 'confirmed', which isn't final enough.
+  assert.equal((await finalized.payouts.claim(USER, recipient, 'claim-key-1')).claim.status, 'pending');
+  finalized.db.close();
+
+  const fallback = await setup([workout('w1', 3)], createFakeCluster({ confirmTimeouts: 3 }).connection);
+  assert.equal(fallback.payouts.getStatus(USER).cluster, 'devnet');
+  assert.equal((await fallback.payouts.claim(USER, recipient, 'claim-key-1')).claim.status, 'confirmed');
+  fallback.db.close();
+});
+
+test('cluster settings resolve to an endpoint, and devnet-only operations refuse other clusters', () => {
+  assert.deepEqual(resolveClusterConfig(), { name: 'devnet', rpcUrl: 'https://api.devnet.solana.com', commitment: 'confirmed' });
+  assert.deepEqual(resolveClusterConfig({ cluster: 'Mainnet', commitment: 'finalized' }), {
+    name: 'mainnet',
+    rpcUrl: 'https://api.mainnet-beta.solana.com/',
+    commitment: 'finalized',
+  });
+  // A bare RPC URL is localnet only when it points at this machine; anything else could be mainnet.
+  assert.equal(resolveClusterConfig({ rpcUrl: 'http://127.0.0.1:8899' }).name, 'localnet');
+  assert.equal(resolveClusterConfig({ rpcUrl: 'https://rpc.example.com/?key=1' }).name, 'custom');
+  assert.equal(resolveClusterConfig({ cluster: 'devnet', rpcUrl: 'https://devnet.example.com' }).rpcUrl, 'https://devnet.example.com');
+
+  assert.throws(() => resolveClusterConfig({ cluster: 'testnet' }), /Unknown Solana cluster/);
+  assert.throws(() => resolveClusterConfig({ cluster: 'custom' }), /needs an RPC URL/);
+  assert.throws(() => resolveClusterConfig({ commitment: 'max' }), /Unknown commitment/);
+
+  assert.doesNotThrow(() => assertTestCluster(resolveClusterConfig({ cluster: 'localnet' }), 'Airdrops'));
+  assert.throws(() => assertTestCluster(resolveClusterConfig({ cluster: 'mainnet' }), 'Airdrops'), /Airdrops only runs on Localnet or Devnet, not Mainnet/);
+  assert.throws(() => assertTestCluster(resolveClusterConfig({ rpcUrl: 'https://rpc.example.com' }), 'Airdrops'), /not Custom RPC/);
+
+  assert.equal(getExplorerTxUrl('sig', resolveClusterConfig({ cluster: 'mainnet' })), 'https://explorer.solana.com/tx/sig');
+  assert.equal(
+    getExplorerTxUrl('sig', resolveClusterConfig({ cluster: 'localnet' })),
+    'https://explorer.solana.com/tx/sig?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899'
+  );
+});
+
+test('SPL rewards are minted or sent to the recipient token account at the configured rate', async () => {
+  const mint = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const destination = getAssociatedTokenAddressSync(mint, recipient).toBase58();
+
+  const minting = createFakeCluster();
+  const asset = createSplPayoutAsset({ mint, decimals: 6, symbol: 'GYM', perPoint: 2, distribution: 'mint' });
+  const minted = await setup([workout('w1', 3)], minting.connection, { asset });
+  assert.equal(minted.payouts.getStatus(USER).claimableAmount, 80);
+  const result = await minted.payouts.claim(USER, recipient.toBase58(), 'claim-key-1');
+  assert.deepEqual([result.claim.amount, result.claim.symbol], [80, 'GYM']);
+  assert.deepEqual(result.status.asset, { kind: 'spl', symbol: 'GYM', decimals: 6, perPoint: 2, mint: mint.toBase58() });
+  // The recipient's token account is created (idempotently) in the same transaction.
+  assert.deepEqual(minting.instructions[0].map(ix => ix.programId.toBase58()), [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), TOKEN_PROGRAM_ID.toBase58()]);
+  assert.deepEqual(minting.transfers.map(({ kind, from, to, amount }) => ({ kind, from, to, amount })), [
+    { kind: 'mint', from: mint.toBase58(), to: destination, amount: 80_000_000n },
+  ]);
+  minted.db.close();
+
+  const sending = createFakeCluster();
+  const treasury = Keypair.generate();
+  const transferAsset = createSplPayoutAsset({ mint, decimals: 0, symbol: 'GYM', perPoint: 1, distribution: 'transfer' });
+  const sent = await setup([workout('w1', 3)], sending.connection, { asset: transferAsset, treasury });
+  await sent.payouts.claim(USER, recipient.toBase58(), 'claim-key-1');
+  assert.deepEqual(sending.transfers.map(({ kind, from, to, amount }) => ({ kind, from, to, amount })), [
+    { kind: 'transfer', from: getAssociatedTokenAddressSync(mint, treasury.publicKey).toBase58(), to: destination, amount: 40n },
+  ]);
+  sent.db.close();
+
+  // An 18-decimal token goes past 2^53 base units; the ledger keeps the exact amount that was sent.
+  const wide = createFakeCluster();
+  const wideAsset = createSplPayoutAsset({ mint, decimals: 18, symbol: 'WIDE', perPoint: 0.25, distribution: 'mint' });
+  const widePayouts = await setup([workout('w1', 3)], wide.connection, { asset: wideAsset });
+  assert.equal((await widePayouts.payouts.claim(USER, recipient.toBase58(), 'claim-key-1')).claim.amount, 10);
+  assert.equal(wide.transfers[0].amount, 10_000_000_000_000_000_000n);
+  assert.deepEqual(widePayouts.db.all('SELECT amount FROM reward_payouts'), [{ amount: '10000000000000000000' }]);
+  widePayouts.db.close();
+
+  // SOL keeps working with its own rate.
+  const sol = createFakeCluster();
+  const custom = await setup([workout('w1', 3)], sol.connection, { asset: createSolPayoutAsset(0.001) });
+  assert.equal((await custom.payouts.claim(USER, recipient.toBase58(), 'claim-key-1')).claim.amount, 0.04);
+  assert.equal(sol.transfers[0].amount, 40_000_000n);
+  custom.db.close();
+});
+
+test('caps limit what can be claimed per period and free up in the next one', async () => {
+  // Wednesday; the weekly period runs from Monday 2026-03-09 to Monday 2026-03-16 UTC.
+  let now = Date.UTC(2026, 2, 11, 12);
+  const cluster = createFakeCluster();
+  const { payouts, store, db } = await setup([workout('w1', 3)], cluster.connection, {
+    caps: { period: 'weekly', perUserPoints: 30, totalPoints: 50 },
+    now: () => now,
+  });
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  assert.deepEqual(
+    [payouts.getStatus(USER).pendingPoints, payouts.getStatus(USER).claimablePoints, payouts.getStatus(USER).cap],
+    [40, 30, { period: 'weekly', resetsAt: Date.UTC(2026, 2, 16), perUserPoints: 30, totalPoints: 50 }]
+  );
+  assert.equal((await payouts.claim(USER, recipient, 'claim-key-1')).claim.points, 30);
+  await assert.rejects(payouts.claim(USER, recipient, 'claim-key-2'), (err: Error & { code?: string }) =>
+    err.code === 'cap_reached' && /claim again from 2026-03-16/.test(err.message)
+  );
+
+  // The total cap is shared: another user only gets what is left of it.
+  store.push('auth0|b', 'history', [{ id: 'b1', updatedAt: 1, data: workout('b1', 3) }]);
+  assert.equal(payouts.getStatus('auth0|b').claimablePoints, 20);
+
+  now += 7 * DAY;
+  assert.equal(payouts.getStatus(USER).claimablePoints, 10);
+  assert.equal((await payouts.claim(USER, recipient, 'claim-key-3')).claim.points, 10);
+  db.close();
+});
+
+test('claims from different users at once share the total cap without overpaying', async () => {
+  const cluster = createFakeCluster();
+  const { payouts, store, db } = await setup([workout('w1', 3)], cluster.connection, {
+    caps: { period: 'weekly', totalPoints: 50 },
+  });
+  store.push('auth0|b', 'history', [{ id: 'b1', updatedAt: 1, data: workout('b1', 3) }]);
+  store.push('auth0|c', 'history', [{ id: 'c1', updatedAt: 1, data: workout('c1', 3) }]);
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  // All three read the caps before any of them has its blockhash back.
+  const results = await Promise.allSettled(
+    [USER, 'auth0|b', 'auth0|c'].map(userId => payouts.claim(userId, recipient, 'claim-key-1'))
+  );
+  assert.deepEqual(
+    results.map(result => (result.status === 'fulfilled' ? result.value.claim.points : (result.reason as { code?: string }).code)),
+    [40, 10, 'cap_reached']
+  );
+  assert.equal(cluster.transfers.reduce((total, transfer) => total + transfer.amount, 0n), convertPointsToBaseUnits(50, SOL_REWARD_ASSET));
+  db.close();
+});
+
+test('the reward asset and caps are read from the environment', async () => {
+  const treasury = Keypair.generate();
+  const mint = Keypair.generate().publicKey;
+  const mintAccount = (mintAuthority: PublicKey, owner = TOKEN_PROGRAM_ID) => {
+    const data = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode(
+      { mintAuthorityOption: 1, mintAuthority, supply: 0n, decimals: 6, isInitialized: true, freezeAuthorityOption: 0, freezeAuthority: PublicKey.default },
+      data
+    );
+    return { getAccountInfo: async () => ({ data, owner, lamports: 1, executable: false, rentEpoch: 0 }) };
+  };
+
+  const sol = await loadRewardAsset({ REWARD_SOL_PER_POINT: '0.002' }, mintAccount(treasury.publicKey), treasury);
+  assert.deepEqual(sol.info, { ...SOL_REWARD_ASSET, perPoint: 0.002 });
+
+  const token = await loadRewardAsset(
+    { REWARD_TOKEN_MINT: mint.toBase58(), REWARD_TOKEN_SYMBOL: 'GYM', REWARD_TOKENS_PER_POINT: '10' },
+    mintAccount(treasury.publicKey, TOKEN_2022_PROGRAM_ID),
+    treasury
+  );
+  assert.deepEqual(token.info, { kind: 'spl', symbol: 'GYM', decimals: 6, perPoint: 10, mint: mint.toBase58() });
+  // Token-2022 mints get their token accounts under the Token-2022 program.
+  const recipient = Keypair.generate().publicKey;
+  assert.ok(token.buildInstructions(treasury.publicKey, recipient, 1n)[1].programId.equals(TOKEN_2022_PROGRAM_ID));
+
+  const otherAuthority = mintAccount(Keypair.generate().publicKey);
+  await assert.rejects(loadRewardAsset({ REWARD_TOKEN_MINT: mint.toBase58() }, otherAuthority, treasury), /not the mint authority/);
+  assert.ok(await loadRewardAsset({ REWARD_TOKEN_MINT: mint.toBase58(), REWARD_TOKEN_DISTRIBUTION: 'transfer' }, otherAuthority, treasury));
+  await assert.rejects(loadRewardAsset({ REWARD_TOKEN_MINT: mint.toBase58() }, { getAccountInfo: async () => null }, treasury), /does not exist/);
+
+  assert.equal(loadRewardCaps({}), undefined);
+  assert.deepEqual(loadRewardCaps({ REWARD_CAP_POINTS_PER_USER: '500', REWARD_CAP_PERIOD: 'monthly' }), {
+    period: 'monthly',
+    perUserPoints: 500,
+    totalPoints: undefined,
+  });
+  assert.throws(() => loadRewardCaps({ REWARD_CAP_POINTS_TOTAL: '-1' }), /positive number/);
+});
+
+test('reward routes answer 503 without a treasury and pay out over HTTP with one', async () => {
+  const { store, reviews, payouts, db } = await setup([workout('w1', 3)], createFakeCluster().connection);
+  const startServer = async (withPayouts: boolean) => {
+    const server = http.createServer(
+      createSyncRequestHandler({ store, reviews, verifyToken: createDevTokenVerifier(), payouts: withPayouts ? payouts : undefined })
+    );
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const api = createApiClient({ baseUrl, getAccessToken: async () => USER });
+    return { api, baseUrl, stop: () => new Promise<void>(resolve => server.close(() => resolve())) };
+  };
+
+  const disabled = await startServer(false);
+  await assert.rejects(fetchRewardStatus(disabled.api), /\(503\)/);
+  await disabled.stop();
+
+  const enabled = await startServer(true);
+  assert.equal((await fetchRewardStatus(enabled.api)).pendingPoints, 40);
+  await assert.rejects(claimRewards(enabled.api, 'nope', 'claim-key-1'), /\(400\)/);
+  const missingKey = await fetch(`${enabled.baseUrl}/api/rewards/claim`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${USER}` },
+    body: JSON.stringify({ recipient: Keypair.generate().publicKey.toBase58() }),
+  });
+  assert.equal(missingKey.status, 400);
+
+  const recipient = Keypair.generate().publicKey.toBase58();
+  const claim = await claimRewards(enabled.api, recipient, 'claim-key-2');
+  assert.equal(claim.claim.points, 40);
+  assert.deepEqual(await claimRewards(enabled.api, recipient, 'claim-key-2'), claim);
+  await assert.rejects(claimRewards(enabled.api, recipient, 'claim-key-3'), /\(409\)/);
+  assert.deepEqual((await fetchRewardClaims(enabled.api)).map(c => c.id), [claim.claim.id]);
+  await enabled.stop();
+  db.close();
+});
+
+const validatorUrl = process.env.SOLANA_TEST_VALIDATOR_URL;
+if (validatorUrl) {
+  test('pays out real lamports on solana-test-validator', async () => {
+    const connection = new Connection(validatorUrl, 'confirmed');
+    const { payouts, treasury, db } = await setup([workout('w1', 3)], connection);
+    const airdrop = await connection.requestAirdrop(treasury.publicKey, LAMPORTS_PER_SOL);
+    await connection.confirmTransaction({ signature: airdrop, ...(await connection.getLatestBlockhash()) }, 'confirmed');
+
+    const recipient = Keypair.generate().publicKey;
+    const result = await payouts.claim(USER, recipient.toBase58(), 'validator-claim');
+    assert.equal(await connection.getBalance(recipient, 'confirmed'), Number(convertPointsToBaseUnits(40, SOL_REWARD_ASSET)));
+    assert.equal((await connection.getTransaction(result.claim.signature!, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }))?.meta?.err, null);
+    db.close();
+  });
+  test('mints reward tokens on solana-test-validator', async () => {
+    const connection = new Connection(validatorUrl, 'confirmed');
+    const treasury = Keypair.generate();
+    const airdrop = await connection.requestAirdrop(treasury.publicKey, LAMPORTS_PER_SOL);
+    await connection.confirmTransaction({ signature: airdrop, ...(await connection.getLatestBlockhash()) }, 'confirmed');
+    const mint = await createMint(connection, treasury, treasury.publicKey, null, 6);
+    const asset = await loadRewardAsset({ REWARD_TOKEN_MINT: mint.toBase58(), REWARD_TOKEN_SYMBOL: 'GYM' }, connection, treasury);
+    const { payouts, db } = await setup([workout('w1', 3)], connection, { asset, treasury });
+
+    const recipient = Keypair.generate().publicKey;
+    await payouts.claim(USER, recipient.toBase58(), 'validator-token-claim');
+    const balance = await connection.getTokenAccountBalance(getAssociatedTokenAddressSync(mint, recipient), 'confirmed');
+    assert.equal(balance.value.uiAmount, 40);
+    db.close();
+  });
+}
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { normalizeExerciseType } from '../services/exerciseLibrary';
+import {
+  CURRENT_SCHEMA_VERSION,
+  formatSchemaIssues,
+  migrateAccounts,
+  migrateHistory,
+  migrateRoutines,
+  stampSchemaVersion,
+} from '../services/schemaMigrations';
+import { runTests, test } from './testHarness';
+
+// Upgrades hand-written legacy payloads (no schemaVersion) through the migration pipeline.
+// Run with `npm test`.
+
+const legacySet = { id: 'set-1', reps: 5, weight: 100, timestamp: 1 };
+
+test('normalizeExerciseType maps library names and title-cases lowercase custom names', () => {
+  assert.equal(normalizeExerciseType('bench press'), 'Bench Press');
+  assert.equal(normalizeExerciseType('  ROMANIAN   deadlift '), 'Romanian Deadlift');
+  assert.equal(normalizeExerciseType('t-bar row'), 'T-Bar Row');
+  assert.equal(normalizeExerciseType('zercher squat'), 'Zercher Squat');
+  assert.equal(normalizeExerciseType('RDL'), 'RDL');
+});
+
+test('legacy accounts gain a typed email and a version stamp', () => {
+  const result = migrateAccounts([
+    { id: 'auth0|a', username: 'a', email: ' a@example.com ', password: '', createdAt: 1 },
+    { id: 'auth0|b', username: 'b', email: 42, createdAt: 2 },
+  ]);
+
+  assert.equal(result.issues.length, 0);
+  assert.equal(result.migratedCount, 2);
+  assert.deepEqual(result.records[0], {
+    id: 'auth0|a',
+    username: 'a',
+    email: 'a@example.com',
+    password: '',
+    createdAt: 1,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  });
+  assert.equal('email' in result.records[1], false);
+  assert.equal(result.records[1].password, '');
+});
+
+test('legacy routines get normalized exercise names and back-filled split groups', () => {
+  const result = migrateRoutines([
+    { id: 'r1', name: 'Push', splitName: 'PPL', exercises: [{ id: 'e1', type: 'bench press', sets: [] }] },
+    { id: 'r2', name: 'Pull', splitName: 'PPL', dayIndex: 0, exercises: [{ id: 'e2', type: 'barbell row', sets: [legacySet] }] },
+    { id: 'r3', name: 'Solo', exercises: [] },
+  ]);
+
+  assert.equal(result.issues.length, 0);
+  const [push, pull, solo] = result.records;
+  assert.equal(push.exercises[0].type, 'Bench Press');
+  assert.equal(pull.exercises[0].type, 'Barbell Row');
+  assert.equal(push.splitGroupId, 'legacy-split-ppl-r1');
+  assert.equal(pull.splitGroupId, push.splitGroupId);
+  assert.deepEqual([pull.dayIndex, push.dayIndex], [0, 1]);
+  assert.equal(solo.splitGroupId, undefined);
+  assert.equal(solo.dayIndex, undefined);
+});
+
+test('legacy splits that share a name stay separate', () => {
+  const day = (id: string, name: string, splitName?: string) => ({ id, name, splitName, exercises: [] });
+  const result = migrateRoutines([
+    day('a1', 'Push', 'PPL'),
+    day('a2', 'Pull', 'PPL'),
+    day('a3', 'Legs', 'PPL'),
+    // Saved straight after the first PPL: the repeated "Push" starts a second split.
+    day('b1', 'Push', 'PPL'),
+    day('b2', 'Pull', 'PPL'),
+    day('s1', 'Solo'),
+    day('c1', 'Legs', 'PPL'),
+  ]);
+
+  assert.equal(result.issues.length, 0);
+  assert.deepEqual(
+    result.records.map(routine => [routine.id, routine.splitGroupId, routine.dayIndex]),
+    [
+      ['a1', 'legacy-split-ppl-a1', 0],
+      ['a2', 'legacy-split-ppl-a1', 1],
+      ['a3', 'legacy-split-ppl-a1', 2],
+      ['b1', 'legacy-split-ppl-b1', 0],
+      ['b2', 'legacy-split-ppl-b1', 1],
+      ['s1', undefined, undefined],
+      ['c1', 'legacy-split-ppl-c1', 0],
+    ]
+  );
+});
+
+test('records already on the current version are left alone', () => {
+  const routine = { id: 'r1', name: 'custom', exercises: [{ id: 'e1', type: 'my lift', sets: [] }], schemaVersion: CURRENT_SCHEMA_VERSION };
+  const result = migrateRoutines([routine]);
+  assert.equal(result.migratedCount, 0);
+  assert.deepEqual(result.records, [routine]);
+});
+
+test('invalid entries are rejected with issues instead of throwing', () => {
+  const broken = { id: 'h2', routineId: 'r1', routineName: 'Push', exercises: [] };
+  const result = migrateHistory([
+    { id: 'h1', routineId: 'r1', routineName: 'Push', performedAt: 10, exercises: [{ id: 'e1', type: 'squat', sets: [legacySet] }] },
+    broken,
+    'garbage',
+  ]);
+
+  assert.equal(result.records.length, 1);
+  assert.equal(result.records[0].exercises[0].type, 'Squat');
+  assert.deepEqual(
+    result.issues.map(issue => [issue.index, issue.recordId, issue.message]),
+    [
+      [2, undefined, 'Entry is not an object.'],
+      [1, 'h2', 'missing performedAt'],
+    ]
+  );
+  assert.deepEqual(result.rejected, ['garbage', broken]);
+  assert.match(formatSchemaIssues(result.issues), /^2 saved records in history/);
+});
+
+test('non-list payloads produce a single collection-level issue', () => {
+  const result = migrateAccounts({ id: 'not-a-list' });
+  assert.deepEqual(result.records, []);
+  assert.equal(result.issues[0].index, -1);
+});
+
+test('stampSchemaVersion only touches records below the current version', () => {
+  const records: Array<{ id: string; schemaVersion?: number }> = [{ id: 'a' }, { id: 'x', schemaVersion: CURRENT_SCHEMA_VERSION + 1 }];
+  assert.deepEqual(stampSchemaVersion(records), [{ id: 'a', schemaVersion: CURRENT_SCHEMA_VERSION }, records[1]]);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createDevTokenVerifier } from '../server/auth';
+import { openSyncDatabase } from '../server/database';
+import { createSessionReviewService } from '../server/sessionReviews';
+import { createSyncRequestHandler } from '../server/syncServer';
+import { createSyncStore } from '../server/syncStore';
+import { createApiClient, fetchReviewQueue, fetchSyncProfile, submitSessionReview } from '../services/apiClient';
+import { calculateEarnedPoints } from '../services/rewards';
+import { verifyHistory, verifySession } from '../services/sessionVerification';
+import { SetLog, WorkoutHistoryEntry } from '../types';
+import { runTests, test } from './testHarness';
+
+// Scores hand-built sessions for plausibility and runs the admin review flow. Run with `npm test`.
+
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+interface SetSpec {
+  reps: number;
+  weight: number;
+  // Milliseconds after the session start, an hour before it finished at performedAt; defaults to one
+  // set every three minutes.
+  at?: number;
+  camera?: boolean;
+  formScore?: number;
+}
+
+const session = (id: string, performedAt: number, type: string, sets: SetSpec[]): WorkoutHistoryEntry => ({
+  id,
+  routineId: 'r1',
+  routineName: 'Session',
+  performedAt,
+  exercises: [{
+    id: `${id}-ex`,
+    type,
+    sets: sets.map((set, index): SetLog => ({
+      id: `${id}-${index}`,
+      reps: set.reps,
+      weight: set.weight,
+      timestamp: performedAt - HOUR + (set.at ?? index * 3 * MINUTE),
+      ...(set.camera ? { poseVerifiedReps: set.reps } : {}),
+      ...(set.formScore !== undefined ? { formScore: set.formScore } : {}),
+    })),
+  }],
+});
+
+const fiveByFive = (weight: number, camera = true): SetSpec[] => Array.from({ length: 5 }, () => ({ reps: 5, weight, camera }));
+
+const codes = (entry: WorkoutHistoryEntry, prior: WorkoutHistoryEntry[] = []) =>
+  verifySession(entry, prior).reasons.map(reason => reason.code);
+
+test('ordinary sessions are verified; manual-only logging just costs a few points of score', () => {
+  const camera = verifySession(session('s1', DAY, 'Squat', fiveByFive(100)), []);
+  assert.deepEqual([camera.status, camera.score, camera.reasons], ['verified', 100, []]);
+  assert.equal(camera.awardedPoints, camera.points);
+
+  const manual = verifySession(session('s2', DAY, 'Squat', fiveByFive(100, false)), []);
+  assert.deepEqual([manual.status, manual.score], ['verified', 85]);
+  assert.deepEqual(manual.reasons.map(r => r.code), ['no_pose_verification']);
+});
+
+test('two hundred zero-weight sets in a minute are rejected and earn nothing', () => {
+  const spam = session('spam', DAY, 'Push Up', Array.from({ length: 200 }, (_, i) => ({ reps: 1, weight: 0, at: i * 300 })));
+  const result = verifySession(spam, []);
+  assert.equal(result.status, 'rejected');
+  assert.equal(result.awardedPoints, 0);
+  assert.ok(result.points > 0);
+  assert.deepEqual(result.reasons.map(r => r.code), ['sets_too_close', 'excessive_volume', 'no_pose_verification']);
+});
+
+test('impossible values are rejected outright', () => {
+  assert.deepEqual(codes(session('s', DAY, 'Squat', [{ reps: 5, weight: 900, camera: true }])), ['implausible_values']);
+  assert.equal(verifySession(session('s', DAY, 'Squat', [{ reps: 0, weight: 60, camera: true }]), []).status, 'rejected');
+});
+
+test('big jumps over previous bests are flagged for review', () => {
+  const before = [session('s1', DAY, 'Squat', fiveByFive(100)), session('s2', 2 * DAY, 'Squat', fiveByFive(102.5))];
+
+  // A normal progression passes.
+  assert.deepEqual(codes(session('s3', 3 * DAY, 'squat', fiveByFive(110)), before), []);
+
+  const jump = verifySession(session('s4', 3 * DAY, 'Squat', fiveByFive(200, false)), before);
+  assert.equal(jump.status, 'flagged');
+  assert.equal(jump.awardedPoints, 0);
+  assert.match(jump.reasons[0].message, /Squat 102\.5kg → 200kg/);
+});
+
+test('copied and re-submitted sessions are caught, repeating a routine another day is not', () => {
+  const original = session('s1', DAY, 'Squat', fiveByFive(100));
+
+  // Copied sets keep their old timestamps, days before the copy was finished.
+  const copied = { ...original, id: 's2', performedAt: 5 * DAY };
+  assert.deepEqual(codes(copied, [original]), ['timestamps_outside_session', 'duplicate_session']);
+
+  const resubmitted = session('s3', DAY + 10 * MINUTE, 'Squat', fiveByFive(100));
+  assert.deepEqual(codes(resubmitted, [original]), ['duplicate_session']);
+
+  const nextWeek = session('s4', 8 * DAY, 'Squat', fiveByFive(100));
+  assert.deepEqual(codes(nextWeek, [original]), []);
+});
+
+test('small sessions are spacing-checked, timestamped within the session and limited per day', () => {
+  const quick = (id: string, performedAt: number, gap: number) =>
+    session(id, performedAt, 'Squat', [0, 1, 2].map(i => ({ reps: 5, weight: 100 + i, at: i * gap, camera: true })));
+  assert.deepEqual(codes(quick('s1', DAY, 5_000)), ['sets_too_close']);
+  assert.deepEqual(codes(quick('s1', DAY, 3 * MINUTE)), []);
+
+  // Sets logged after the session finished, long before it started, or a session dated in the future.
+  const late = session('late', DAY, 'Squat', [{ reps: 5, weight: 100, camera: true }, { reps: 5, weight: 100, at: 2 * HOUR, camera: true }]);
+  assert.deepEqual(codes(late), ['timestamps_outside_session']);
+  const stale = session('stale', DAY, 'Squat', [{ reps: 5, weight: 100, at: -8 * HOUR, camera: true }]);
+  assert.deepEqual(codes(stale), ['timestamps_outside_session']);
+  const future = session('future', Date.now() + DAY, 'Squat', fiveByFive(100));
+  assert.equal(verifySession(future, [], Date.now()).status, 'flagged');
+
+  // A script posting a varied three-set session every hour gets three a day through.
+  const hourly = Array.from({ length: 6 }, (_, i) => quick(`h${i}`, DAY + i * HOUR, 3 * MINUTE + i * 1000));
+  const results = verifyHistory(hourly);
+  assert.deepEqual(hourly.map(entry => results.get(entry.id)?.status), ['verified', 'verified', 'verified', 'flagged', 'flagged', 'flagged']);
+  assert.deepEqual(codes(hourly[3], hourly.slice(0, 3)), ['too_many_sessions']);
+  // The next day starts a fresh count.
+  assert.deepEqual(codes(quick('next', 2 * DAY + 3 * HOUR, 3 * MINUTE), hourly), []);
+});
+
+test('the form bonus is only paid for sets the camera counted', () => {
+  const scored = (camera: boolean) =>
+    verifySession(session('s', DAY, 'Squat', [{ reps: 5, weight: 100, camera, formScore: 95 }]), []).points;
+  // 25 base + 5 per set, plus 20 for a 90+ form score.
+  assert.equal(scored(true), 50);
+  assert.equal(scored(false), 30);
+});
+
+test('history is verified in performed order and reviews override the automatic result', () => {
+  const history = [
+    session('late', 3 * DAY, 'Squat', fiveByFive(200, false)),
+    session('early', DAY, 'Squat', fiveByFive(100)),
+  ];
+  const automatic = verifyHistory(history);
+  assert.equal(automatic.get('early')?.status, 'verified');
+  assert.equal(automatic.get('late')?.status, 'flagged');
+
+  const points = automatic.get('early')!.points;
+  assert.equal(calculateEarnedPoints(history), points);
+  const approved = { late: { decision: 'approved' as const, reviewerId: 'admin', reviewedAt: 1 } };
+  assert.equal(calculateEarnedPoints(history, approved), points * 2);
+  assert.equal(verifyHistory(history, approved).get('late')?.review?.decision, 'approved');
+});
+
+test('admins review the queue over HTTP and the decision syncs back to the user', async () => {
+  const db = await openSyncDatabase(':memory:');
+  const store = createSyncStore(db);
+  const reviews = createSessionReviewService({ db, store });
+  store.push('auth0|lifter', 'accounts', [{ id: 'auth0|lifter', updatedAt: 1, data: { id: 'auth0|lifter', username: 'lifter', password: '', createdAt: 1 } }]);
+  store.push('auth0|lifter', 'history', [
+    { id: 'ok', updatedAt: 1, data: session('ok', DAY, 'Squat', fiveByFive(100)) },
+    { id: 'jump', updatedAt: 1, data: session('jump', 2 * DAY, 'Squat', fiveByFive(200, false)) },
+  ]);
+
+  const server = http.createServer(
+    createSyncRequestHandler({ store, reviews, verifyToken: createDevTokenVerifier(), adminUserIds: ['auth0|admin'] })
+  );
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const lifter = createApiClient({ baseUrl, getAccessToken: async () => 'auth0|lifter' });
+  const admin = createApiClient({ baseUrl, getAccessToken: async () => 'auth0|admin' });
+
+  try {
+    assert.deepEqual(await fetchSyncProfile(lifter), { userId: 'auth0|lifter', isAdmin: false });
+    assert.equal((await fetchSyncProfile(admin)).isAdmin, true);
+    await assert.rejects(fetchReviewQueue(lifter), /\(403\)/);
+
+    const queue = await fetchReviewQueue(admin);
+    assert.deepEqual(queue.map(item => [item.username, item.entry.id, item.verification.status]), [['lifter', 'jump', 'flagged']]);
+
+    const reviewed = await submitSessionReview(admin, 'auth0|lifter', 'jump', 'approved', '  Filmed it, legit PR  ');
+    assert.equal(reviewed.verification.awardedPoints, reviewed.verification.points);
+    assert.deepEqual(await fetchReviewQueue(admin), []);
+    assert.equal((await fetchReviewQueue(admin, 'all')).length, 1);
+    await assert.rejects(submitSessionReview(admin, 'auth0|lifter', 'missing', 'approved'), /\(404\)/);
+
+    const synced = store.pull('auth0|lifter', 'history', 0).records.find(record => record.id === 'jump');
+    const verification = (synced?.data as WorkoutHistoryEntry).verification;
+    assert.equal(verification?.review?.decision, 'approved');
+    assert.equal(verification?.review?.note, 'Filmed it, legit PR');
+    assert.equal(verification?.review?.reviewerId, 'auth0|admin');
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    db.close();
+  }
+});
+
+test('an approval stops applying once the reviewed entry is edited', async () => {
+  const db = await openSyncDatabase(':memory:');
+  const store = createSyncStore(db);
+  const reviews = createSessionReviewService({ db, store });
+  const jump = session('jump', 2 * DAY, 'Squat', fiveByFive(200, false));
+  store.push('auth0|lifter', 'history', [
+    { id: 'ok', updatedAt: 1, data: session('ok', DAY, 'Squat', fiveByFive(100)) },
+    { id: 'jump', updatedAt: 1, data: jump },
+  ]);
+
+  try {
+    const unreviewedPoints = calculateEarnedPoints(store.listHistory('auth0|lifter'), {});
+    const reviewed = reviews.review('auth0|lifter', 'jump', 'auth0|admin', 'approved');
+    const approvedPoints = reviewed!.verification.awardedPoints;
+    assert.ok(approvedPoints > 0);
+    assert.equal(calculateEarnedPoints(store.listHistory('auth0|lifter'), reviews.getReviews('auth0|lifter')), unreviewedPoints + approvedPoints);
+
+    // Syncing the reviewed copy back (with its verification) is not an edit.
+    const synced = store.listHistory('auth0|lifter').find(entry => entry.id === 'jump')!;
+    store.push('auth0|lifter', 'history', [{ id: 'jump', updatedAt: Date.now() + 1, data: { ...synced } }]);
+    assert.deepEqual(Object.keys(reviews.getReviews('auth0|lifter')), ['jump']);
+
+    // Rewriting the approved session's sets drops the approval everywhere the server reads it.
+    const edited = { ...synced, exercises: [{ ...synced.exercises[0], sets: synced.exercises[0].sets.map(set => ({ ...set, reps: 100 })) }] };
+    store.push('auth0|lifter', 'history', [{ id: 'jump', updatedAt: Date.now() + 2, data: edited }]);
+    assert.deepEqual(reviews.getReviews('auth0|lifter'), {});
+    assert.deepEqual(reviews.listReviewsByUser(), {});
+    assert.equal(calculateEarnedPoints(store.listHistory('auth0|lifter'), reviews.getReviews('auth0|lifter')), unreviewedPoints);
+    assert.deepEqual(reviews.listQueue('pending').map(item => item.entry.id), ['jump']);
+  } finally {
+    db.close();
+  }
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { createMemoryBackend } from '../services/storageBackends';
+import { CURRENT_SCHEMA_VERSION } from '../services/schemaMigrations';
+import { createStorageRepository, DEFAULT_APP_SETTINGS, migrateLegacyStorage } from '../services/storageRepository';
+import { UserAccount, WorkoutHistoryEntry, WorkoutRoutine } from '../types';
+import { runTests, test } from './testHarness';
+
+// Exercises the storage repository and the localStorage -> IndexedDB migration against in-memory backends.
+// Run with `npm test`.
+
+const account: UserAccount = {
+  id: 'auth0|abc',
+  username: 'lifter',
+  password: '',
+  createdAt: 1_700_000_000_000,
+  points: 40,
+};
+
+const routine: WorkoutRoutine = {
+  id: 'routine-1',
+  name: 'Leg Day',
+  exercises: [{ id: 'ex-1', type: 'Squat', sets: [{ id: 'set-1', reps: 5, weight: 100, timestamp: 1 }] }],
+};
+
+const historyEntry: WorkoutHistoryEntry = {
+  id: 'history-1',
+  routineId: routine.id,
+  routineName: routine.name,
+  performedAt: 1_700_000_100_000,
+  exercises: routine.exercises,
+};
+
+// Everything read back from the repository has been upgraded to the current schema.
+const current = <T extends object>(record: T): T => ({ ...record, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+test('an empty repository returns defaults', async () => {
+  const repo = createStorageRepository(createMemoryBackend());
+  assert.deepEqual((await repo.loadAccounts()).records, []);
+  assert.equal(await repo.loadCurrentUserId(), null);
+  assert.deepEqual((await repo.loadRoutines(account.id)).records, []);
+  assert.deepEqual((await repo.loadHistory(account.id)).records, []);
+  assert.deepEqual(await repo.loadSettings(), DEFAULT_APP_SETTINGS);
+});
+
+test('the repository round-trips accounts, routines, history and settings', async () => {
+  const repo = createStorageRepository(createMemoryBackend());
+  await repo.saveAccounts([account]);
+  await repo.saveCurrentUserId(account.id);
+  await repo.saveRoutines(account.id, [routine]);
+  await repo.saveHistory(account.id, [historyEntry]);
+  await repo.saveSettings({ velocityLossThreshold: 20 });
+
+  assert.deepEqual((await repo.loadAccounts()).records, [current(account)]);
+  assert.equal(await repo.loadCurrentUserId(), account.id);
+  assert.deepEqual((await repo.loadRoutines(account.id)).records, [current(routine)]);
+  assert.deepEqual((await repo.loadRoutines('someone-else')).records, []);
+  assert.deepEqual((await repo.loadHistory(account.id)).records, [current(historyEntry)]);
+  assert.equal((await repo.loadSettings()).velocityLossThreshold, 20);
+
+  await repo.saveCurrentUserId(null);
+  assert.equal(await repo.loadCurrentUserId(), null);
+});
+
+test('unreadable payloads load as empty lists and are quarantined', async () => {
+  const backend = createMemoryBackend({ gymform_accounts: '{"not json' });
+  const repo = createStorageRepository(backend);
+  const result = await repo.loadAccounts();
+  assert.deepEqual(result.records, []);
+  assert.equal(result.issues.length, 1);
+  assert.deepEqual(await backend.get('gymform_accounts_unreadable'), ['{"not json']);
+
+  // Loading again before anything is saved doesn't park the same entries twice.
+  await backend.set('gymform_accounts', [account, 'garbage']);
+  await repo.loadAccounts();
+  await repo.loadAccounts();
+  assert.deepEqual(await backend.get('gymform_accounts_unreadable'), ['{"not json', 'garbage']);
+});
+
+test('saves stamp the current schema version', async () => {
+  const backend = createMemoryBackend();
+  await createStorageRepository(backend).saveRoutines(account.id, [routine]);
+  const [stored] = (await backend.get<WorkoutRoutine[]>(`gymform_routines_${account.id}`))!;
+  assert.equal(stored.schemaVersion, CURRENT_SCHEMA_VERSION);
+});
+
+test('migration copies legacy keys and folds old settings keys together', async () => {
+  const source = createMemoryBackend({
+    gymform_accounts: [account],
+    gymform_current_user: account.id,
+    [`gymform_routines_${account.id}`]: [routine],
+    [`gymform_history_${account.id}`]: [historyEntry],
+    gymform_velocity_loss_threshold: 30,
+    gymform_ai_provider: { providerId: 'openai-compatible', model: 'llava', baseUrl: 'http://localhost:11434/v1', apiKey: '' },
+    unrelated_key: 'ignored',
+  });
+  const target = createMemoryBackend();
+
+  assert.equal(await migrateLegacyStorage(source, target), 5);
+
+  const repo = createStorageRepository(target);
+  assert.deepEqual((await repo.loadAccounts()).records, [current(account)]);
+  assert.equal(await repo.loadCurrentUserId(), account.id);
+  assert.deepEqual((await repo.loadRoutines(account.id)).records, [current(routine)]);
+  assert.deepEqual((await repo.loadHistory(account.id)).records, [current(historyEntry)]);
+  const settings = await repo.loadSettings();
+  assert.equal(settings.velocityLossThreshold, 30);
+  assert.equal(settings.aiProvider?.providerId, 'openai-compatible');
+  assert.equal(await target.get('unrelated_key'), undefined);
+  assert.deepEqual(await source.get('gymform_accounts'), [account], 'source data is left in place');
+});
+
+test('migration runs once and never overwrites newer data', async () => {
+  const source = createMemoryBackend({ gymform_accounts: [account] });
+  const newer = { ...account, points: 500 };
+  const target = createMemoryBackend({ gymform_accounts: [newer] });
+
+  assert.equal(await migrateLegacyStorage(source, target), 0);
+  assert.deepEqual((await createStorageRepository(target).loadAccounts()).records, [current(newer)]);
+
+  await source.set(`gymform_routines_${account.id}`, [routine]);
+  assert.equal(await migrateLegacyStorage(source, target), 0);
+  assert.deepEqual((await createStorageRepository(target).loadRoutines(account.id)).records, []);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
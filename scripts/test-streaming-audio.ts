@@ -0,0 +1,238 @@
+import assert from 'node:assert/strict';
+import { createStreamingAudioPlayer, takeMp3Frames } from '../services/streamingAudioPlayer';
+import { runTests, test } from './testHarness';
+
+// Streams MP3 chunks through fake MediaSource and audio elements and checks playback starts on the
+// first chunk and stops when a newer stream replaces it. Run with `npm test`.
+
+// A silent MPEG-1 Layer III frame header at 128 kbps / 44.1 kHz, padded out to its 417-byte length.
+const mp3Frame = () => {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x64]);
+  return frame;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (joined.set(part, offset), offset + part.length), 0);
+  return joined;
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+class FakeSourceBuffer extends EventTarget {
+  mode = 'segments';
+  appended: Uint8Array[] = [];
+
+  appendBuffer(chunk: Uint8Array) {
+    this.appended.push(chunk);
+    setTimeout(() => this.dispatchEvent(new Event('updateend')), 0);
+  }
+}
+
+class FakeMediaSource extends EventTarget {
+  static created: FakeMediaSource[] = [];
+  buffer = new FakeSourceBuffer();
+  ended = false;
+
+  constructor() {
+    super();
+    FakeMediaSource.created.push(this);
+    setTimeout(() => this.dispatchEvent(new Event('sourceopen')), 0);
+  }
+
+  addSourceBuffer() {
+    return this.buffer;
+  }
+
+  endOfStream() {
+    this.ended = true;
+  }
+}
+
+class FakeAudio extends EventTarget {
+  src = '';
+  ended = false;
+  paused = true;
+  playCalls = 0;
+
+  play() {
+    this.playCalls += 1;
+    this.paused = false;
+    return Promise.resolve();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  finish() {
+    this.ended = true;
+    this.dispatchEvent(new Event('ended'));
+  }
+
+  removeAttribute() {
+    this.src = '';
+  }
+
+  load() {}
+}
+
+// Hands out chunks only when the test releases them, like a socket waiting on the network.
+const createControlledStream = () => {
+  const waiting: Array<(chunk: Uint8Array | null) => void> = [];
+  const ready: Array<Uint8Array | null> = [];
+  let signal: AbortSignal | null = null;
+
+  const next = () =>
+    new Promise<Uint8Array | null>(resolve => {
+      if (ready.length > 0) resolve(ready.shift()!);
+      else waiting.push(resolve);
+    });
+  const push = (chunk: Uint8Array | null) => {
+    const resolve = waiting.shift();
+    if (resolve) resolve(chunk);
+    else ready.push(chunk);
+  };
+
+  return {
+    open: (abortSignal: AbortSignal) => {
+      signal = abortSignal;
+      abortSignal.addEventListener('abort', () => push(null));
+      return (async function* () {
+        while (true) {
+          const chunk = await next();
+          if (!chunk) return;
+          yield chunk;
+        }
+      })();
+    },
+    push,
+    end: () => push(null),
+    isAborted: () => signal?.aborted === true,
+  };
+};
+
+const withObjectUrls = async (run: (revoked: string[]) => Promise<void>) => {
+  const { createObjectURL, revokeObjectURL } = URL;
+  const revoked: string[] = [];
+  let created = 0;
+  URL.createObjectURL = () => `blob:fake-${++created}`;
+  URL.revokeObjectURL = url => void revoked.push(url);
+  try {
+    await run(revoked);
+  } finally {
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = revokeObjectURL;
+  }
+};
+
+const createTestPlayer = () => {
+  const audios: FakeAudio[] = [];
+  FakeMediaSource.created = [];
+  const player = createStreamingAudioPlayer({
+    mediaSource: FakeMediaSource as unknown as typeof MediaSource,
+    createAudioElement: () => {
+      const audio = new FakeAudio();
+      audios.push(audio);
+      return audio as unknown as HTMLAudioElement;
+    },
+  });
+  return { player, audios };
+};
+
+test('MP3 bytes are split after the last complete frame', () => {
+  const frames = concat(mp3Frame(), mp3Frame());
+  const partial = mp3Frame().subarray(0, 100);
+
+  const split = takeMp3Frames(concat(new Uint8Array([0x49, 0x44, 0x33]), frames, partial));
+  assert.equal(split.count, 2);
+  assert.deepEqual(split.frames, frames);
+  assert.deepEqual(split.rest, partial);
+
+  // A header cut off after its first byte is kept for the next chunk.
+  const cut = takeMp3Frames(new Uint8Array([0x00, 0xff]));
+  assert.equal(cut.count, 0);
+  assert.deepEqual(cut.rest, new Uint8Array([0xff]));
+});
+
+test('playback starts on the first chunk and ends after the stream and the audio do', async () => {
+  await withObjectUrls(async revoked => {
+    const { player, audios } = createTestPlayer();
+    const stream = createControlledStream();
+    let finished = false;
+    const playing = player.play(stream.open).then(() => {
+      finished = true;
+    });
+
+    stream.push(mp3Frame());
+    await tick();
+    await tick();
+    const [source] = FakeMediaSource.created;
+    assert.equal(source.buffer.mode, 'sequence');
+    assert.equal(source.buffer.appended.length, 1);
+    assert.equal(audios[0].playCalls, 1);
+    assert.equal(source.ended, false);
+
+    stream.push(mp3Frame());
+    stream.end();
+    await tick();
+    await tick();
+    assert.equal(source.buffer.appended.length, 2);
+    assert.equal(audios[0].playCalls, 1);
+    assert.equal(source.ended, true);
+    assert.equal(finished, false);
+    assert.equal(player.isPlaying(), true);
+
+    audios[0].finish();
+    await playing;
+    assert.equal(player.isPlaying(), false);
+    assert.deepEqual(revoked, ['blob:fake-1']);
+  });
+});
+
+test('a new stream cancels the one still playing and closes its source', async () => {
+  await withObjectUrls(async revoked => {
+    const { player, audios } = createTestPlayer();
+    const first = createControlledStream();
+    const firstPlayback = player.play(first.open);
+    first.push(mp3Frame());
+    await tick();
+    await tick();
+
+    const second = createControlledStream();
+    const secondPlayback = player.play(second.open);
+    await firstPlayback;
+    assert.equal(first.isAborted(), true);
+    assert.equal(audios[0].paused, true);
+    assert.deepEqual(revoked, ['blob:fake-1']);
+    assert.equal(player.isPlaying(), true);
+
+    second.push(mp3Frame());
+    await tick();
+    await tick();
+    player.stop();
+    await secondPlayback;
+    assert.equal(second.isAborted(), true);
+    assert.equal(audios[1].paused, true);
+    assert.equal(FakeMediaSource.created[1].ended, false);
+    assert.equal(player.isPlaying(), false);
+  });
+});
+
+test('a stream that fails before any audio rejects so callers can fall back', async () => {
+  await withObjectUrls(async () => {
+    const { player, audios } = createTestPlayer();
+    const failing = async function* (): AsyncGenerator<Uint8Array> {
+      throw new Error('WebSocket connection failed.');
+    };
+    await assert.rejects(player.play(failing), /WebSocket connection failed/);
+    assert.equal(audios[0].playCalls, 0);
+    assert.equal(player.isPlaying(), false);
+  });
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createDevTokenVerifier } from '../server/auth';
+import { openSyncDatabase } from '../server/database';
+import { createSyncRequestHandler } from '../server/syncServer';
+import { createSessionReviewService } from '../server/sessionReviews';
+import { createSyncStore } from '../server/syncStore';
+import { createApiClient, fetchLeaderboard } from '../services/apiClient';
+import { applyRemoteRecords, createSyncSession, EMPTY_SYNC_STATE, SyncState } from '../services/syncClient';
+import { UserAccount, WorkoutRoutine } from '../types';
+import { runTests, test } from './testHarness';
+
+// Runs the sync server on an ephemeral port with an in-memory SQLite database and drives it with
+// two client sessions standing in for two devices. Run with `npm test`.
+
+const startServer = async () => {
+  const db = await openSyncDatabase(':memory:');
+  const store = createSyncStore(db);
+  const server = http.createServer(
+    createSyncRequestHandler({ store, reviews: createSessionReviewService({ db, store }), verifyToken: createDevTokenVerifier() })
+  );
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const stop = () =>
+    new Promise<void>(resolve =>
+      server.close(() => {
+        db.close();
+        resolve();
+      })
+    );
+  return { baseUrl, stop };
+};
+
+const createDevice = (baseUrl: string, userId: string) => {
+  let saved: SyncState = EMPTY_SYNC_STATE;
+  const session = createSyncSession({
+    api: createApiClient({ baseUrl, getAccessToken: async () => userId }),
+    userId,
+    initialState: EMPTY_SYNC_STATE,
+    saveState: async state => {
+      saved = JSON.parse(JSON.stringify(state));
+    },
+  });
+  return { session, getSavedState: () => saved };
+};
+
+const makeRoutine = (id: string, name: string): WorkoutRoutine => ({ id, name, exercises: [] });
+
+const withServer = (run: (baseUrl: string) => Promise<void>) => async () => {
+  const { baseUrl, stop } = await startServer();
+  try {
+    await run(baseUrl);
+  } finally {
+    await stop();
+  }
+};
+
+test('health is public but sync endpoints need a token', withServer(async baseUrl => {
+  assert.equal((await fetch(`${baseUrl}/api/health`)).status, 200);
+  assert.equal((await fetch(`${baseUrl}/api/sync/routines`)).status, 401);
+  const unknown = await fetch(`${baseUrl}/api/sync/nope`, { headers: { Authorization: 'Bearer auth0|a' } });
+  assert.equal(unknown.status, 404);
+}));
+
+test('pushes reject malformed records and other users\' accounts', withServer(async baseUrl => {
+  const post = (collection: string, body: unknown) =>
+    fetch(`${baseUrl}/api/sync/${collection}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer auth0|a', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  assert.equal((await post('routines', { records: [{ id: 'r1' }] })).status, 400);
+  assert.equal((await post('accounts', { records: [{ id: 'auth0|b', updatedAt: 5, data: {} }] })).status, 403);
+}));
+
+test('changes made on one device reach another, including deletes', withServer(async baseUrl => {
+  const phone = createDevice(baseUrl, 'auth0|a');
+  const laptop = createDevice(baseUrl, 'auth0|a');
+
+  // Both devices start from a first sync so later edits carry real timestamps.
+  await phone.session.synchronize();
+  await laptop.session.synchronize();
+
+  const legDay = makeRoutine('r1', 'Leg Day');
+  await phone.session.recordLocalChanges('routines', [legDay]);
+  assert.equal(phone.session.getPendingCount(), 1);
+  await phone.session.synchronize();
+  assert.equal(phone.session.getPendingCount(), 0);
+
+  const pulled = await laptop.session.synchronize();
+  assert.deepEqual(applyRemoteRecords<WorkoutRoutine>([], pulled.routines), [legDay]);
+
+  await laptop.session.recordLocalChanges('routines', []);
+  await laptop.session.synchronize();
+  const afterDelete = await phone.session.synchronize();
+  assert.deepEqual(applyRemoteRecords([legDay], afterDelete.routines), []);
+
+  // Another user never sees these records.
+  const stranger = createDevice(baseUrl, 'auth0|b');
+  assert.deepEqual((await stranger.session.synchronize()).routines, []);
+}));
+
+test('the newer edit wins and the losing device adopts the server copy', withServer(async baseUrl => {
+  const phone = createDevice(baseUrl, 'auth0|a');
+  const laptop = createDevice(baseUrl, 'auth0|a');
+  await phone.session.synchronize();
+  await laptop.session.synchronize();
+
+  await phone.session.recordLocalChanges('routines', [makeRoutine('r1', 'Push')]);
+  await phone.session.synchronize();
+  await laptop.session.synchronize();
+
+  // Laptop edits offline first, phone edits later and syncs first.
+  await laptop.session.recordLocalChanges('routines', [makeRoutine('r1', 'Push (laptop)')]);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await phone.session.recordLocalChanges('routines', [makeRoutine('r1', 'Push (phone)')]);
+  await phone.session.synchronize();
+
+  const result = await laptop.session.synchronize();
+  assert.deepEqual(applyRemoteRecords([makeRoutine('r1', 'Push (laptop)')], result.routines), [makeRoutine('r1', 'Push (phone)')]);
+  assert.equal(laptop.session.getPendingCount(), 0);
+}));
+
+test('data from before the first sync never overwrites newer server data', withServer(async baseUrl => {
+  const phone = createDevice(baseUrl, 'auth0|a');
+  await phone.session.synchronize();
+  await phone.session.recordLocalChanges('routines', [makeRoutine('r1', 'Current')]);
+  await phone.session.synchronize();
+
+  // An old device comes online with a stale copy and a routine the server has never seen.
+  const oldTablet = createDevice(baseUrl, 'auth0|a');
+  await oldTablet.session.recordLocalChanges('routines', [makeRoutine('r1', 'Stale'), makeRoutine('r2', 'Only here')]);
+  const result = await oldTablet.session.synchronize();
+  const merged = applyRemoteRecords([makeRoutine('r1', 'Stale'), makeRoutine('r2', 'Only here')], result.routines);
+  assert.deepEqual(merged.map(r => r.name), ['Current', 'Only here']);
+
+  const phoneView = await phone.session.synchronize();
+  assert.deepEqual(phoneView.routines.map(r => r.id), ['r2']);
+}));
+
+test('failed pushes stay queued and persisted until the server is reachable', async () => {
+  const { baseUrl, stop } = await startServer();
+  await stop();
+
+  const device = createDevice(baseUrl, 'auth0|a');
+  await device.session.recordLocalChanges('routines', [makeRoutine('r1', 'Queued')]);
+  await assert.rejects(device.session.synchronize());
+  assert.equal(device.session.getPendingCount(), 1);
+  assert.equal(device.getSavedState().outbox[0].record.id, 'r1');
+});
+
+test('public accounts omit passwords and emails', withServer(async baseUrl => {
+  const device = createDevice(baseUrl, 'auth0|a');
+  const accounts: UserAccount[] = [
+    { id: 'auth0|a', username: 'a', email: 'a@example.com', password: 'secret', createdAt: 1, points: 10 },
+    { id: 'auth0|other', username: 'cached', password: '', createdAt: 1 },
+  ];
+  await device.session.recordLocalChanges('accounts', accounts);
+  await device.session.synchronize();
+  assert.deepEqual(await device.session.listPublicAccounts(), [{ id: 'auth0|a', username: 'a', createdAt: 1, points: 10 }]);
+}));
+
+test('the leaderboard ranks synced accounts by division without exposing bodyweight', withServer(async baseUrl => {
+  const joinWith = async (account: UserAccount) => {
+    const device = createDevice(baseUrl, account.id);
+    await device.session.recordLocalChanges('accounts', [account]);
+    await device.session.synchronize();
+    return device;
+  };
+  await joinWith({ id: 'auth0|a', username: 'a', password: '', createdAt: 1, points: 40, bodyweightKg: 80 });
+  const other = await joinWith({ id: 'auth0|b', username: 'b', password: '', createdAt: 1, points: 90, bodyweightKg: 55 });
+
+  const api = createApiClient({ baseUrl, getAccessToken: async () => 'auth0|a' });
+  const board = await fetchLeaderboard(api, { board: 'points', season: 'all-time', division: 'bw-75-90' });
+  assert.deepEqual(board.entries.map(e => [e.userId, e.rank]), [['auth0|a', 1]]);
+  assert.equal(board.viewer?.entry.userId, 'auth0|a');
+  assert.equal(JSON.stringify(board).includes('bodyweight'), false);
+  assert.equal((await other.session.listPublicAccounts()).some(account => 'bodyweightKg' in account), false);
+
+  await assert.rejects(api.request('/api/leaderboard?board=form&season=weekly'), /needs an exercise/);
+}));
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { createMemoryBackend } from '../services/storageBackends';
+import { createMemoryAudioStore, createTtsCache, ttsCacheKey, TtsCacheVoice } from '../services/ttsCache';
+import { runTests, test } from './testHarness';
+
+// Plays cues through the TTS audio cache with a fake synthesizer whose "audio" is the cue's text,
+// checking repeats skip synthesis, eviction order and prewarming. Run with `npm test`.
+
+const VOICE: TtsCacheVoice = { voiceId: 'coach', modelId: 'eleven_turbo_v2_5', voiceSettings: { stability: 0.5, similarityBoost: 0.8 } };
+
+const createFakeSynthesizer = () => {
+  const requests: string[] = [];
+  const synthesize = (text: string) =>
+    (async function* () {
+      requests.push(text);
+      // Two chunks, like a streamed response.
+      yield Buffer.from(text.slice(0, 3));
+      yield Buffer.from(text.slice(3));
+    })();
+  return { requests, synthesize };
+};
+
+const collect = async (stream: AsyncIterable<Uint8Array>) => {
+  let text = '';
+  for await (const chunk of stream) text += Buffer.from(chunk).toString('utf8');
+  return text;
+};
+
+test('a repeated cue plays from the cache and skips synthesis', async () => {
+  const cache = createTtsCache();
+  const { requests, synthesize } = createFakeSynthesizer();
+
+  assert.equal(await collect(cache.stream('Chest up', VOICE, () => synthesize('Chest up'))), 'Chest up');
+  assert.equal(await collect(cache.stream('  Chest   up ', VOICE, () => synthesize('Chest up'))), 'Chest up');
+  assert.deepEqual(requests, ['Chest up']);
+
+  // Another voice, model or voice setting is different audio.
+  await collect(cache.stream('Chest up', { ...VOICE, voiceId: 'other' }, () => synthesize('Chest up')));
+  await collect(cache.stream('Chest up', { ...VOICE, voiceSettings: { stability: 1, similarityBoost: 0.8 } }, () => synthesize('Chest up')));
+  assert.equal(requests.length, 3);
+  assert.notEqual(await ttsCacheKey('Chest up', VOICE), await ttsCacheKey('Chest up', { ...VOICE, modelId: 'eleven_v3' }));
+
+  assert.deepEqual(await cache.getMetrics(), { hits: 1, misses: 3, hitRate: 0.25, entries: 3, bytes: 24, evictions: 0 });
+});
+
+test('cues that fail or are cut off are not cached', async () => {
+  const cache = createTtsCache();
+  const { requests, synthesize } = createFakeSynthesizer();
+
+  const controller = new AbortController();
+  const cutOff = cache.stream('Control the descent', VOICE, () => synthesize('Control the descent'), { signal: controller.signal });
+  await cutOff.next();
+  controller.abort();
+  for await (const _ of cutOff);
+
+  const failing = async function* (): AsyncGenerator<Uint8Array> {
+    yield Buffer.from('Con');
+    throw new Error('socket closed');
+  };
+  await assert.rejects(collect(cache.stream('Control the descent', VOICE, failing)), /socket closed/);
+
+  // Stopping early, as the player does when a newer cue replaces this one, doesn't save it either.
+  for await (const _ of cache.stream('Control the descent', VOICE, () => synthesize('Control the descent'))) break;
+
+  assert.equal((await cache.getMetrics()).entries, 0);
+  await collect(cache.stream('Control the descent', VOICE, () => synthesize('Control the descent')));
+  assert.equal((await cache.getMetrics()).entries, 1);
+  assert.equal(requests.length, 3);
+});
+
+test('the least recently played cues are evicted first', async () => {
+  let clock = 0;
+  const cache = createTtsCache({ maxEntries: 2, maxBytes: 20, now: () => ++clock });
+  const { requests, synthesize } = createFakeSynthesizer();
+  const play = (text: string) => collect(cache.stream(text, VOICE, () => synthesize(text)));
+
+  await play('Brace');
+  await play('Knees out');
+  await play('Brace');
+  // Over the entry limit: "Knees out" was played longest ago.
+  await play('Sit deeper');
+  await play('Brace');
+  await play('Knees out');
+  assert.deepEqual(requests, ['Brace', 'Knees out', 'Sit deeper', 'Knees out']);
+
+  // Over the byte limit: "Brace" (5 bytes) and "Knees out" (9) leave no room for 15 more.
+  await play('Press evenly up');
+  assert.deepEqual(await cache.getMetrics(), { hits: 2, misses: 5, hitRate: 2 / 7, entries: 1, bytes: 15, evictions: 4 });
+
+  // A cue larger than the whole cache is played but never stored.
+  await play('Drive through your heels');
+  assert.equal((await cache.getMetrics()).entries, 1);
+});
+
+test('the index and audio survive a reload and prewarming fills in common cues', async () => {
+  const audioStore = createMemoryAudioStore();
+  const indexBackend = createMemoryBackend();
+  const first = createTtsCache({ audioStore, indexBackend, prewarmLimit: 3 });
+  const { requests, synthesize } = createFakeSynthesizer();
+
+  for (const text of ['Last rep', 'Chest up', 'Last rep']) {
+    await collect(first.stream(text, VOICE, () => synthesize(text), { exercise: 'Squat' }));
+  }
+
+  const reloaded = createTtsCache({ audioStore, indexBackend, prewarmLimit: 3 });
+  assert.equal(await collect(reloaded.stream('Chest up', VOICE, () => synthesize('Chest up'))), 'Chest up');
+  assert.deepEqual(requests, ['Last rep', 'Chest up']);
+
+  // Most spoken first, then the squat's form-rule cues, skipping what is already cached.
+  assert.equal(await reloaded.prewarm(' squat', VOICE, synthesize), 1);
+  assert.deepEqual(requests, ['Last rep', 'Chest up', 'Sit deeper']);
+  assert.equal(await reloaded.prewarm('Squat', VOICE, synthesize), 0);
+
+  // A failed synthesis, e.g. with the network down, stops prewarming and is reported.
+  const failing = (text: string) =>
+    (async function* () {
+      if (text === 'Knees out') throw new Error('quota exceeded');
+      yield Buffer.from(text);
+    })();
+  await assert.rejects(createTtsCache().prewarm('Squat', VOICE, failing), /quota exceeded/);
+
+  await reloaded.clear();
+  assert.deepEqual(await reloaded.getMetrics(), { hits: 0, misses: 0, hitRate: null, entries: 0, bytes: 0, evictions: 0 });
+  assert.equal(await audioStore.get(await ttsCacheKey('Chest up', VOICE)), undefined);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
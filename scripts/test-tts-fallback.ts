@@ -0,0 +1,265 @@
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { createSpeechCueQueue, SpeechSynthesisLike } from '../services/speechCueQueue';
+import { createTtsCache } from '../services/ttsCache';
+import { createTtsSpeaker, formatTtsErrorForUi, normalizeTtsSettings, speakCueWithFallback } from '../services/ttsProvider';
+import { startMockElevenLabsServer } from './mockElevenLabsServer';
+import { runTests, test } from './testHarness';
+
+// Walks a live-coaching cue down the voice fallback chain (ElevenLabs, then Gemini's audio, then the
+// browser's speech synthesis) against the local mock ElevenLabs server, with fake audio elements and
+// a fake speechSynthesis standing in for the browser. Run with `npm test`.
+
+(globalThis as any).WebSocket = WebSocket;
+process.env.ELEVEN_LABS_API_KEY = 'test-key';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+type FakeUtterance = {
+  text: string;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+};
+
+// Speaks each utterance until the test ends it, like a browser reading a cue out loud.
+const createFakeSynth = () => {
+  const spoken: string[] = [];
+  let current: FakeUtterance | null = null;
+  let failWith: string | null = null;
+  const synth: SpeechSynthesisLike = {
+    speak: utterance => {
+      const fake = utterance as unknown as FakeUtterance;
+      if (failWith) {
+        setTimeout(() => fake.onerror?.({ error: failWith! }), 0);
+        return;
+      }
+      current = fake;
+      spoken.push(fake.text);
+    },
+    cancel: () => {
+      const cancelled = current;
+      current = null;
+      cancelled?.onerror?.({ error: 'interrupted' });
+    },
+  };
+  return {
+    synth,
+    spoken,
+    createUtterance: (text: string) => ({ text, onend: null, onerror: null }) as unknown as SpeechSynthesisUtterance,
+    finishCurrent: () => {
+      const finished = current;
+      current = null;
+      finished?.onend?.();
+    },
+    fail: (error: string) => {
+      failWith = error;
+    },
+  };
+};
+
+// Plays streamed "audio" by recording it; the mock server's audio is each cue's own text.
+const createFakePlayerOptions = () => {
+  const heard: string[] = [];
+  class FakeMediaSource extends EventTarget {
+    chunks: string[] = [];
+    constructor() {
+      super();
+      setTimeout(() => this.dispatchEvent(new Event('sourceopen')), 0);
+    }
+    addSourceBuffer() {
+      const buffer = new EventTarget() as EventTarget & { mode: string; appendBuffer: (chunk: Uint8Array) => void };
+      buffer.appendBuffer = chunk => {
+        this.chunks.push(Buffer.from(chunk).toString('utf8'));
+        setTimeout(() => buffer.dispatchEvent(new Event('updateend')), 0);
+      };
+      return buffer;
+    }
+    endOfStream() {
+      heard.push(this.chunks.join(''));
+    }
+  }
+  // Finishes as soon as the stream has; nothing actually plays.
+  const createAudioElement = () =>
+    Object.assign(new EventTarget(), {
+      src: '',
+      ended: true,
+      play: () => Promise.resolve(),
+      pause: () => undefined,
+      removeAttribute: () => undefined,
+      load: () => undefined,
+    }) as unknown as HTMLAudioElement;
+  return { heard, player: { mediaSource: FakeMediaSource as unknown as typeof MediaSource, createAudioElement } };
+};
+
+const withObjectUrls = async (run: () => Promise<void>) => {
+  const { createObjectURL, revokeObjectURL } = URL;
+  URL.createObjectURL = () => 'blob:fake';
+  URL.revokeObjectURL = () => undefined;
+  try {
+    await run();
+  } finally {
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = revokeObjectURL;
+  }
+};
+
+test('a failing ElevenLabs cue falls back to Gemini audio, then to the device voice', async () => {
+  await withObjectUrls(async () => {
+    const server = await startMockElevenLabsServer();
+    const fakeSynth = createFakeSynth();
+    const speechQueue = createSpeechCueQueue({ synth: fakeSynth.synth, createUtterance: fakeSynth.createUtterance });
+    const { heard, player } = createFakePlayerOptions();
+    const speaker = createTtsSpeaker(normalizeTtsSettings({ providerId: 'elevenlabs' }), {
+      player,
+      elevenLabsBaseUrl: server.baseUrl,
+    });
+    let geminiPlays = 0;
+    const playGeminiAudio = async () => {
+      geminiPlays += 1;
+      return false;
+    };
+    try {
+      assert.deepEqual(await speakCueWithFallback(speaker, { text: 'Chest up' }, { playGeminiAudio, speechQueue }), {
+        voicedBy: 'elevenlabs',
+      });
+      assert.deepEqual(heard, ['Chest|up|']);
+      assert.equal(geminiPlays, 0);
+
+      server.failCues('quota_exceeded');
+      const gemini = await speakCueWithFallback(speaker, { text: 'Brace' }, { playGeminiAudio: async () => true, speechQueue });
+      assert.equal(gemini.voicedBy, 'gemini-native');
+      assert.match(formatTtsErrorForUi(speaker.id, gemini.error, gemini.voicedBy), /quota_exceeded\. Using Gemini voice fallback\.$/);
+
+      const device = speakCueWithFallback(speaker, { text: 'Drive through your heels' }, { playGeminiAudio, speechQueue });
+      while (fakeSynth.spoken.length === 0) await tick();
+      fakeSynth.finishCurrent();
+      const delivery = await device;
+      assert.equal(delivery.voicedBy, 'browser');
+      assert.equal(geminiPlays, 1);
+      assert.deepEqual(fakeSynth.spoken, ['Drive through your heels']);
+      assert.match(formatTtsErrorForUi(speaker.id, delivery.error, delivery.voicedBy), /Using the device's voice instead\.$/);
+      assert.deepEqual(heard, ['Chest|up|']);
+    } finally {
+      speaker.close();
+      await server.close();
+    }
+  });
+});
+
+test('stopping a live cue leaves prewarming running on its own socket', async () => {
+  await withObjectUrls(async () => {
+    const server = await startMockElevenLabsServer();
+    const { heard, player } = createFakePlayerOptions();
+    const speaker = createTtsSpeaker(normalizeTtsSettings({ providerId: 'elevenlabs' }), {
+      player,
+      elevenLabsBaseUrl: server.baseUrl,
+      cache: createTtsCache(),
+    });
+    const closedContexts = () => server.received.filter(message => message.close_context).length;
+    try {
+      server.hold();
+      const prewarming = speaker.prewarm('Back Squat');
+      while (closedContexts() < 1) await tick();
+      const live = speaker.speak('Chest up');
+      while (closedContexts() < 2) await tick();
+      speaker.stop();
+      await live;
+      server.release();
+      assert.equal(await prewarming, 3);
+      assert.equal(server.sockets.length, 2);
+      assert.deepEqual(heard, []);
+    } finally {
+      speaker.close();
+      await server.close();
+    }
+  });
+});
+
+test('with no network and no speech synthesis the cue is left on screen', async () => {
+  await withObjectUrls(async () => {
+    const server = await startMockElevenLabsServer();
+    const fakeSynth = createFakeSynth();
+    const speechQueue = createSpeechCueQueue({ synth: fakeSynth.synth, createUtterance: fakeSynth.createUtterance });
+    const { player } = createFakePlayerOptions();
+    const speaker = createTtsSpeaker(normalizeTtsSettings({ providerId: 'elevenlabs' }), {
+      player,
+      elevenLabsBaseUrl: server.baseUrl,
+    });
+    const playGeminiAudio = async () => false;
+    try {
+      server.hold();
+      const dropped = speakCueWithFallback(speaker, { text: 'Last rep' }, { playGeminiAudio, speechQueue });
+      while (!server.received.some(message => message.close_context)) await tick();
+      await server.close();
+      while (fakeSynth.spoken.length === 0) await tick();
+      fakeSynth.finishCurrent();
+      const offline = await dropped;
+      assert.equal(offline.voicedBy, 'browser');
+      assert.equal((offline.error as any).code, 'network_error');
+
+      // A synthesizer that errors, or none at all, leaves nothing to speak with.
+      fakeSynth.fail('synthesis-failed');
+      assert.equal((await speakCueWithFallback(speaker, { text: 'Rack it' }, { playGeminiAudio, speechQueue })).voicedBy, 'none');
+      const noSynth = createSpeechCueQueue({ synth: null });
+      const silent = await speakCueWithFallback(speaker, { text: 'Rack it' }, { playGeminiAudio, speechQueue: noSynth });
+      assert.equal(silent.voicedBy, 'none');
+      assert.match(formatTtsErrorForUi(speaker.id, silent.error, silent.voicedBy), /No voice fallback is available/);
+    } finally {
+      speaker.close();
+    }
+  });
+});
+
+test('device voice cues are spoken by priority and a safety cue cuts in', async () => {
+  const fakeSynth = createFakeSynth();
+  const queue = createSpeechCueQueue({ synth: fakeSynth.synth, createUtterance: fakeSynth.createUtterance, maxPending: 2 });
+
+  const first = queue.enqueue('Nice pace', 'encouragement');
+  const form = queue.enqueue('Knees out', 'form');
+  const cheer = queue.enqueue('Looking strong', 'encouragement');
+  assert.equal(await queue.enqueue('Knees out', 'form'), false);
+  // Two cues already wait, so the older encouragement makes room for the newer form cue.
+  const depth = queue.enqueue('Hit depth', 'form');
+  assert.equal(await cheer, false);
+
+  fakeSynth.finishCurrent();
+  assert.equal(await first, true);
+
+  // "Knees out" is being spoken when the safety cue arrives, so it is cut off rather than finished.
+  const safety = queue.enqueue('Stop, your back is rounding', 'safety');
+  assert.equal(await form, false);
+  fakeSynth.finishCurrent();
+  assert.equal(await safety, true);
+  fakeSynth.finishCurrent();
+  assert.equal(await depth, true);
+  assert.deepEqual(fakeSynth.spoken, ['Nice pace', 'Knees out', 'Stop, your back is rounding', 'Hit depth']);
+
+  const cleared = queue.enqueue('Breathe', 'form');
+  queue.clear();
+  assert.equal(await cleared, false);
+  await assert.rejects(createSpeechCueQueue({ synth: null }).enqueue('Breathe'), /no speech synthesis/);
+});
+
+test('the browser voice speaks each cue over the last one', async () => {
+  const fakeSynth = createFakeSynth();
+  const speechQueue = createSpeechCueQueue({ synth: fakeSynth.synth, createUtterance: fakeSynth.createUtterance });
+  const speaker = createTtsSpeaker(normalizeTtsSettings({ providerId: 'browser' }), { speechQueue });
+
+  const first = speaker.speak('Chest up');
+  const second = speaker.speak('Brace');
+  await first;
+  fakeSynth.finishCurrent();
+  await second;
+  assert.deepEqual(fakeSynth.spoken, ['Chest up', 'Brace']);
+
+  // When the browser voice itself fails, Gemini's audio is the only fallback left.
+  fakeSynth.fail('audio-busy');
+  const delivery = await speakCueWithFallback(speaker, { text: 'Rack it' }, { playGeminiAudio: async () => false, speechQueue });
+  assert.equal(delivery.voicedBy, 'none');
+  assert.match(formatTtsErrorForUi(speaker.id, delivery.error, delivery.voicedBy), /^Browser voice failed\. Detail: Speech synthesis failed: audio-busy\./);
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
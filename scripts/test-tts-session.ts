@@ -0,0 +1,214 @@
+import assert from 'node:assert/strict';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { createElevenLabsSession, ElevenLabsTtsError, resolveElevenLabsVoice } from '../services/elevenLabsService';
+import { createTtsCache } from '../services/ttsCache';
+import { normalizeTtsSettings } from '../services/ttsProvider';
+import { startMockElevenLabsServer } from './mockElevenLabsServer';
+import { runTests, test } from './testHarness';
+
+// Drives the persistent ElevenLabs session against a local multi-context socket server that answers
+// each cue with its own text as "audio". Run with `npm test`.
+
+// Node 20 has no global WebSocket; the session uses the browser API, which `ws` implements.
+(globalThis as any).WebSocket = WebSocket;
+process.env.ELEVEN_LABS_API_KEY = 'test-key';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitFor = async (check: () => boolean, what: string) => {
+  for (let i = 0; i < 200 && !check(); i++) await wait(5);
+  assert.ok(check(), `timed out waiting for ${what}`);
+};
+
+const collect = async (stream: AsyncIterable<Uint8Array>) => {
+  let text = '';
+  for await (const chunk of stream) text += Buffer.from(chunk).toString('utf8');
+  return text;
+};
+
+test('successive cues share one socket and each gets only its own audio', async () => {
+  const server = await startMockElevenLabsServer();
+  const session = createElevenLabsSession({ baseUrl: server.baseUrl });
+  try {
+    assert.equal(await collect(session.speak('Chest up')), 'Chest|up|');
+    const [second, third] = await Promise.all([
+      collect(session.speak('Control the descent')),
+      collect(session.speak('  Drive through your heels ')),
+    ]);
+    assert.equal(second, 'Control the|descent|');
+    assert.equal(third, 'Drive through|your heels|');
+    assert.equal(server.sockets.length, 1);
+    assert.equal(session.isConnected(), true);
+
+    const contextIds = new Set(server.received.map(message => message.context_id));
+    assert.equal(contextIds.size, 3);
+    // The key goes with each context's first message only.
+    assert.equal(server.received.filter(message => message.xi_api_key === 'test-key').length, 3);
+    assert.equal(server.received.filter(message => message.close_context).length, 3);
+  } finally {
+    session.close();
+    await server.close();
+  }
+});
+
+test('interrupting drops audio still on its way and keeps the socket for the next cue', async () => {
+  const server = await startMockElevenLabsServer();
+  const session = createElevenLabsSession({ baseUrl: server.baseUrl });
+  try {
+    server.hold();
+    const interrupted = collect(session.speak('Keep going, two more'));
+    await waitFor(() => server.received.some(message => message.close_context), 'the cue to be sent');
+    session.interrupt();
+    await assert.rejects(interrupted, (err: ElevenLabsTtsError) => err.code === 'interrupted');
+
+    // The old context's audio arriving late is ignored rather than leaking into the next cue.
+    server.release();
+    assert.equal(await collect(session.speak('Rack it')), 'Rack|it|');
+    assert.equal(server.sockets.length, 1);
+
+    // Aborting one cue leaves the others alone.
+    server.hold();
+    const controller = new AbortController();
+    const aborted = collect(session.speak('Breathe', { signal: controller.signal }));
+    const kept = collect(session.speak('Brace'));
+    await waitFor(() => server.received.filter(message => message.close_context).length === 4, 'both cues to be sent');
+    controller.abort();
+    server.release();
+    assert.deepEqual(await Promise.all([aborted, kept]), ['', 'Brace|']);
+  } finally {
+    session.close();
+    await server.close();
+  }
+});
+
+test('a prewarm interrupted halfway through a cue caches none of it', async () => {
+  const server = await startMockElevenLabsServer();
+  const session = createElevenLabsSession({ baseUrl: server.baseUrl });
+  const cache = createTtsCache();
+  const voice = resolveElevenLabsVoice();
+  try {
+    let chunks = 0;
+    const synthesize = async function* (text: string) {
+      for await (const chunk of session.speak(text)) {
+        chunks += 1;
+        yield chunk;
+      }
+    };
+    server.hold();
+    const prewarming = cache.prewarm('Back Squat', voice, synthesize);
+    await waitFor(() => server.received.some(message => message.close_context), 'the first cue to be sent');
+    // Half the cue's audio is in when it is cut off.
+    server.releaseOne();
+    await waitFor(() => chunks === 1, 'the first half of the cue');
+    session.interrupt();
+    await assert.rejects(prewarming, (err: ElevenLabsTtsError) => err.code === 'interrupted');
+    assert.equal((await cache.getMetrics()).entries, 0);
+
+    server.release();
+    assert.equal(await cache.prewarm('Back Squat', voice, synthesize), 3);
+  } finally {
+    session.close();
+    await server.close();
+  }
+});
+
+test('a dropped socket fails the cue in flight and reconnects with backoff', async () => {
+  const server = await startMockElevenLabsServer();
+  const session = createElevenLabsSession({ baseUrl: server.baseUrl, reconnectDelaysMs: [20, 40] });
+  try {
+    assert.equal(await collect(session.speak('Chest up')), 'Chest|up|');
+
+    server.hold();
+    const inFlight = collect(session.speak('Last rep'));
+    await waitFor(() => server.received.some(message => message.text === 'Last rep '), 'the cue to be sent');
+    server.dropConnections();
+    await assert.rejects(inFlight, (err: ElevenLabsTtsError) => err.code === 'network_error');
+    server.release();
+
+    // The session reopens on its own, before the next cue needs it.
+    await waitFor(() => session.isConnected(), 'the session to reconnect');
+    assert.equal(server.sockets.length, 2);
+    assert.equal(await collect(session.speak('Nice set')), 'Nice|set|');
+  } finally {
+    session.close();
+    await server.close();
+  }
+});
+
+test('a failed connect rejects the waiting cue and a closed session refuses new ones', async () => {
+  const unavailable = await startMockElevenLabsServer();
+  const { baseUrl } = unavailable;
+  await unavailable.close();
+  const session = createElevenLabsSession({ baseUrl, reconnectDelaysMs: [20, 40] });
+  try {
+    await assert.rejects(collect(session.speak('Chest up')), (err: ElevenLabsTtsError) => err.code === 'network_error');
+    await wait(100);
+    assert.equal(session.isConnected(), false);
+
+    session.close();
+    await assert.rejects(collect(session.speak('Chest up')), /closed/);
+  } finally {
+    session.close();
+  }
+});
+
+test('failed connects stop retrying after the last backoff delay until the next cue', async () => {
+  // Accepts TCP connections and drops them, like a host that refuses the upgrade.
+  let attempts = 0;
+  const refusing = net.createServer(socket => {
+    attempts += 1;
+    socket.destroy();
+  });
+  await new Promise<void>(resolve => refusing.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `ws://127.0.0.1:${(refusing.address() as AddressInfo).port}`;
+  const session = createElevenLabsSession({ baseUrl, reconnectDelaysMs: [10, 20] });
+  try {
+    await assert.rejects(collect(session.speak('Chest up')), (err: ElevenLabsTtsError) => err.code === 'network_error');
+    await waitFor(() => attempts === 3, 'both reconnect attempts');
+    await wait(100);
+    assert.equal(attempts, 3);
+
+    await assert.rejects(collect(session.speak('Knees out')), (err: ElevenLabsTtsError) => err.code === 'network_error');
+    await waitFor(() => attempts === 6, 'a fresh round of attempts');
+    await wait(100);
+    assert.equal(attempts, 6);
+  } finally {
+    session.close();
+    await new Promise<void>(resolve => refusing.close(() => resolve()));
+  }
+});
+
+test("the user's voice and voice settings are sent with every cue", async () => {
+  const server = await startMockElevenLabsServer();
+  const settings = normalizeTtsSettings({ providerId: 'elevenlabs', voiceId: ' my-voice ', stability: 1.4, similarityBoost: 0.3 });
+  assert.deepEqual(settings, {
+    providerId: 'elevenlabs',
+    voiceId: 'my-voice',
+    stability: 1,
+    similarityBoost: 0.3,
+    cueVerbosity: 'chatty',
+    micMode: 'voice-activity',
+  });
+  assert.equal(normalizeTtsSettings({ providerId: 'robot' as any }).providerId, 'gemini-native');
+
+  const session = createElevenLabsSession({
+    baseUrl: server.baseUrl,
+    voiceId: settings.voiceId,
+    voiceSettings: { stability: settings.stability, similarityBoost: settings.similarityBoost },
+  });
+  try {
+    await collect(session.speak('Chest up'));
+    assert.match(server.paths[0], /^\/v1\/text-to-speech\/my-voice\/multi-stream-input\?/);
+    assert.deepEqual(server.received[0].voice_settings, { stability: 1, similarity_boost: 0.3 });
+  } finally {
+    session.close();
+    await server.close();
+  }
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
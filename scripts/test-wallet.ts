@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { createPrivateKey, sign } from 'node:crypto';
+import { Keypair } from '@solana/web3.js';
+import { getWallets } from '@wallet-standard/app';
+import type { Wallet, WalletAccount } from '@wallet-standard/base';
+import { StandardConnect, StandardDisconnect, StandardEvents, StandardEventsChangeProperties } from '@wallet-standard/features';
+import { SolanaSignMessage } from '@solana/wallet-standard-features';
+import { connectWallet, listWallets, watchWallets } from '../services/walletAdapter';
+import { buildOwnershipMessage, checkOwnershipProof, toOwnershipProof, WALLET_PROOF_MAX_AGE_MS } from '../services/walletProof';
+import { runTests, test } from './testHarness';
+
+// Links wallets through a fake Wallet Standard wallet and checks the signed ownership proofs. Run with `npm test`.
+
+const NOW = Date.UTC(2025, 0, 6, 12);
+
+const signWith = (keypair: Keypair, message: Uint8Array) => {
+  const key = createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+  });
+  return new Uint8Array(sign(null, message, key));
+};
+
+const toAccount = (keypair: Keypair): WalletAccount => ({
+  address: keypair.publicKey.toBase58(),
+  publicKey: keypair.publicKey.toBytes(),
+  chains: ['solana:devnet'],
+  features: [SolanaSignMessage],
+});
+
+// A minimal in-memory wallet holding one keypair at a time; `switchTo` mimics the user changing accounts.
+const createFakeWallet = (name: string, keypair: Keypair) => {
+  let active = keypair;
+  const changeListeners = new Set<(properties: StandardEventsChangeProperties) => void>();
+  const emit = (properties: StandardEventsChangeProperties) => changeListeners.forEach(listener => listener(properties));
+
+  const wallet: Wallet = {
+    version: '1.0.0',
+    name,
+    icon: 'data:image/svg+xml;base64,PHN2Zy8+',
+    chains: ['solana:devnet'],
+    accounts: [],
+    features: {
+      [StandardConnect]: { version: '1.0.0', connect: async () => ({ accounts: [toAccount(active)] }) },
+      [StandardDisconnect]: { version: '1.0.0', disconnect: async () => emit({ accounts: [] }) },
+      [StandardEvents]: {
+        version: '1.0.0',
+        on: (_event: 'change', listener: (properties: StandardEventsChangeProperties) => void) => {
+          changeListeners.add(listener);
+          return () => changeListeners.delete(listener);
+        },
+      },
+      [SolanaSignMessage]: {
+        version: '1.0.0',
+        signMessage: async (...inputs: { account: WalletAccount; message: Uint8Array }[]) =>
+          inputs.map(({ account, message }) => {
+            assert.equal(account.address, active.publicKey.toBase58());
+            return { signedMessage: message, signature: signWith(active, message) };
+          }),
+      },
+    },
+  };
+
+  return {
+    wallet,
+    switchTo: (next: Keypair) => {
+      active = next;
+      emit({ accounts: [toAccount(next)] });
+    },
+  };
+};
+
+const signProof = async (keypair: Keypair, accountId: string, issuedAt = NOW) => {
+  const address = keypair.publicKey.toBase58();
+  const message = new TextEncoder().encode(
+    buildOwnershipMessage({ address, accountId, domain: 'gym.example', nonce: 'n0nce', issuedAt })
+  );
+  return toOwnershipProof(address, 'Test Wallet', { signedMessage: message, signature: signWith(keypair, message) }, issuedAt);
+};
+
+test('a signed ownership message proves the address for that account only', async () => {
+  const keypair = Keypair.generate();
+  const address = keypair.publicKey.toBase58();
+  const proof = await signProof(keypair, 'user-1');
+
+  assert.equal(await checkOwnershipProof(proof, { address, accountId: 'user-1', maxAgeMs: WALLET_PROOF_MAX_AGE_MS, now: NOW }), null);
+  assert.match((await checkOwnershipProof(proof, { address, accountId: 'user-2' }))!, /different account/);
+  assert.match((await checkOwnershipProof(proof, { address: Keypair.generate().publicKey.toBase58(), accountId: 'user-1' }))!, /different address/);
+
+  const tampered = { ...proof, message: proof.message.replace('n0nce', 'other') };
+  assert.match((await checkOwnershipProof(tampered, { address, accountId: 'user-1' }))!, /does not match/);
+
+  // Someone else's key signing a message that names this address proves nothing.
+  const forged = await signProof(Keypair.generate(), 'user-1');
+  const claimed = { ...forged, address, message: forged.message.replace(forged.address, address) };
+  assert.match((await checkOwnershipProof(claimed, { address, accountId: 'user-1' }))!, /does not match/);
+});
+
+test('linking needs a fresh signature, a stored proof stays valid', async () => {
+  const keypair = Keypair.generate();
+  const address = keypair.publicKey.toBase58();
+  const proof = await signProof(keypair, 'user-1', NOW - WALLET_PROOF_MAX_AGE_MS - 1);
+
+  assert.match((await checkOwnershipProof(proof, { address, accountId: 'user-1', maxAgeMs: WALLET_PROOF_MAX_AGE_MS, now: NOW }))!, /expired/);
+  assert.equal(await checkOwnershipProof(proof, { address, accountId: 'user-1', now: NOW }), null);
+});
+
+test('standard wallets are discovered, connected and signed with', async () => {
+  const seen: string[][] = [];
+  const stop = watchWallets(wallets => seen.push(wallets.map(wallet => wallet.name)));
+  const keypair = Keypair.generate();
+  const fake = createFakeWallet('Test Wallet', keypair);
+  const unregister = getWallets().register(fake.wallet);
+
+  try {
+    assert.deepEqual(seen, [[], ['Test Wallet']]);
+    await assert.rejects(connectWallet('Missing Wallet'), /not available/);
+
+    const session = await connectWallet('Test Wallet');
+    assert.equal(session.address, keypair.publicKey.toBase58());
+    const message = buildOwnershipMessage({ address: session.address, accountId: 'user-1', domain: 'gym.example', nonce: 'abc', issuedAt: NOW });
+    const proof = toOwnershipProof(session.address, session.walletName, await session.signMessage(new TextEncoder().encode(message)), NOW);
+    assert.equal(await checkOwnershipProof(proof, { address: session.address, accountId: 'user-1', maxAgeMs: WALLET_PROOF_MAX_AGE_MS, now: NOW }), null);
+
+    const changes: (string | null)[] = [];
+    const unsubscribe = session.onAccountChange(address => changes.push(address));
+    const next = Keypair.generate();
+    fake.switchTo(next);
+    await session.disconnect();
+    await assert.rejects(session.signMessage(new TextEncoder().encode(message)), /was disconnected\. Reconnect it to sign/);
+    unsubscribe();
+    fake.switchTo(keypair);
+    assert.deepEqual(changes, [next.publicKey.toBase58(), null]);
+  } finally {
+    unregister();
+    stop();
+  }
+  assert.deepEqual(seen.at(-1), []);
+});
+
+test('the injected window.solana provider is offered only when no standard wallet is registered', async () => {
+  const keypair = Keypair.generate();
+  const globals = globalThis as { window?: unknown };
+  globals.window = {
+    solana: {
+      isPhantom: true,
+      connect: async () => ({ publicKey: keypair.publicKey }),
+      signMessage: async (message: Uint8Array) => ({ signature: signWith(keypair, message) }),
+    },
+  };
+
+  try {
+    assert.deepEqual(listWallets(), [{ name: 'Phantom' }]);
+    const session = await connectWallet('Phantom');
+    assert.equal(session.address, keypair.publicKey.toBase58());
+    const signed = await session.signMessage(new TextEncoder().encode('hello'));
+    assert.equal(new TextDecoder().decode(signed.signedMessage), 'hello');
+
+    const unregister = getWallets().register(createFakeWallet('Test Wallet', keypair).wallet);
+    assert.deepEqual(listWallets().map(wallet => wallet.name), ['Test Wallet']);
+    unregister();
+  } finally {
+    delete globals.window;
+  }
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,254 @@
+import assert from 'node:assert/strict';
+import { createPrivateKey, sign } from 'node:crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair, Transaction } from '@solana/web3.js';
+import { createDevTokenVerifier } from '../server/auth';
+import { openSyncDatabase } from '../server/database';
+import { createSessionReviewService } from '../server/sessionReviews';
+import { createSyncRequestHandler } from '../server/syncServer';
+import { createSyncStore } from '../server/syncStore';
+import { AnchorConnection, createWorkoutAnchorService } from '../server/workoutAnchors';
+import { anchorWorkout, createApiClient } from '../services/apiClient';
+import { buildOwnershipMessage, toOwnershipProof } from '../services/walletProof';
+import {
+  AnchorLookupConnection,
+  buildWorkoutMemo,
+  hashWorkoutEntry,
+  MEMO_PROGRAM_ID,
+  parseWorkoutMemo,
+  verifyWorkoutAnchor,
+} from '../services/workoutAnchor';
+import { UserAccount, WorkoutHistoryEntry } from '../types';
+import { runTests, test } from './testHarness';
+
+// Anchors workouts through a fake cluster that keeps the memo transactions it receives, then checks
+// entries against them. Run with `npm test`.
+
+const USER = 'auth0|lifter';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// `day` keeps separate workouts apart, or the plausibility check rejects them as duplicates.
+const workout = (id: string, weight = 100, day = 0, reps = 5): WorkoutHistoryEntry => ({
+  id,
+  routineId: 'r1',
+  routineName: 'Leg Day',
+  performedAt: 1_700_000_000_000 + day * DAY,
+  exercises: [{
+    id: `${id}-ex`,
+    type: 'Squat',
+    sets: [1, 2, 3].map(n => ({ id: `${id}-${n}`, reps, weight, timestamp: 1_700_000_000_000 + day * DAY - (4 - n) * 120_000 })),
+  }],
+});
+
+// Lands every transaction it is sent and serves them back through getTransaction.
+const createFakeCluster = (options: { failOnChain?: boolean } = {}) => {
+  const sent = new Map<string, Transaction>();
+  const connection = {
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+    sendRawTransaction: async (raw: Buffer | Uint8Array | number[]) => {
+      const transaction = Transaction.from(Buffer.from(raw as Uint8Array));
+      assert.equal(transaction.verifySignatures(), true);
+      const signature = `fake-${Buffer.from(transaction.signature!).toString('hex').slice(0, 16)}`;
+      sent.set(signature, transaction);
+      return signature;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: options.failOnChain ? { InstructionError: [0, 'Custom'] } : null } }),
+    getTransaction: async (signature: string) => {
+      const transaction = sent.get(signature);
+      return transaction ? { blockTime: 1_700_000_100, meta: { err: null }, transaction: { message: transaction.compileMessage() } } : null;
+    },
+  };
+  return {
+    connection: connection as unknown as AnchorConnection & AnchorLookupConnection,
+    memos: () => [...sent.values()].map(transaction => transaction.instructions.find(ix => ix.programId.equals(MEMO_PROGRAM_ID))?.data.toString('utf8')),
+  };
+};
+
+const setup = async (cluster = createFakeCluster(), options: { maxAnchorsPerDay?: number; now?: () => number } = {}) => {
+  const db = await openSyncDatabase(':memory:');
+  const store = createSyncStore(db);
+  const reviews = createSessionReviewService({ db, store });
+  const treasury = Keypair.generate();
+  const anchors = createWorkoutAnchorService({
+    db,
+    store,
+    reviews,
+    connection: cluster.connection,
+    treasury,
+    now: () => 1_700_000_200_000,
+    ...options,
+  });
+  return { db, store, reviews, treasury, anchors, cluster };
+};
+
+const pushEntry = (store: ReturnType<typeof createSyncStore>, entry: WorkoutHistoryEntry, updatedAt = 1) =>
+  store.push(USER, 'history', [{ id: entry.id, updatedAt, data: entry }]);
+
+const signWith = (keypair: Keypair, message: Uint8Array) => {
+  const key = createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+  });
+  return new Uint8Array(sign(null, message, key));
+};
+
+test('the hash covers what was lifted, not verification results or the anchor', async () => {
+  const entry = workout('w1');
+  const hash = await hashWorkoutEntry(entry);
+  assert.match(hash, /^[0-9a-f]{64}$/);
+
+  const annotated: WorkoutHistoryEntry = {
+    ...entry,
+    verification: { status: 'verified', score: 100, reasons: [], points: 40, awardedPoints: 40 },
+    anchor: { hash, signature: 'sig', cluster: 'devnet', anchoredAt: 1 },
+  };
+  assert.equal(await hashWorkoutEntry(annotated), hash);
+  assert.notEqual(await hashWorkoutEntry(workout('w1', 102.5)), hash);
+  assert.notEqual(await hashWorkoutEntry(entry, Keypair.generate().publicKey.toBase58()), hash);
+
+  assert.equal(parseWorkoutMemo(buildWorkoutMemo(hash)), hash);
+  assert.equal(parseWorkoutMemo('gm'), null);
+  assert.equal(parseWorkoutMemo(buildWorkoutMemo('not-a-hash')), null);
+});
+
+test('anchoring sends one treasury-signed memo per entry and syncs the anchor back', async () => {
+  const { db, store, anchors, cluster } = await setup();
+  pushEntry(store, workout('w1'));
+
+  const anchored = await anchors.anchor(USER, 'w1');
+  assert.equal(anchored.anchor?.cluster, 'devnet');
+  assert.equal(anchored.anchor?.hash, await hashWorkoutEntry(workout('w1')));
+  assert.deepEqual(cluster.memos(), [buildWorkoutMemo(anchored.anchor!.hash)]);
+  assert.deepEqual(store.listHistory(USER)[0].anchor, anchored.anchor);
+
+  // Asking again doesn't pay for a second transaction.
+  assert.deepEqual((await anchors.anchor(USER, 'w1')).anchor, anchored.anchor);
+  assert.equal(cluster.memos().length, 1);
+
+  // Editing and anchoring again in a loop would spend the treasury's SOL, so an edited entry isn't re-anchored.
+  pushEntry(store, workout('w1', 110), 1_800_000_000_000);
+  await assert.rejects(anchors.anchor(USER, 'w1'), (err: Error & { code?: string }) => err.code === 'already_anchored');
+  assert.equal(cluster.memos().length, 1);
+
+  await assert.rejects(anchors.anchor(USER, 'missing'), (err: Error & { code?: string }) => err.code === 'not_found');
+  await assert.rejects(anchors.anchor('auth0|someone-else', 'w1'), (err: Error & { code?: string }) => err.code === 'not_found');
+  db.close();
+});
+
+test('a verified linked wallet is hashed in with the entry', async () => {
+  const { db, store, anchors } = await setup();
+  const wallet = Keypair.generate();
+  const address = wallet.publicKey.toBase58();
+  const message = new TextEncoder().encode(
+    buildOwnershipMessage({ address, accountId: USER, domain: 'gym.example', nonce: 'n0nce', issuedAt: Date.now() })
+  );
+  const account: UserAccount = {
+    id: USER,
+    username: 'lifter',
+    password: '',
+    createdAt: 1,
+    solanaWalletAddress: address,
+    solanaWalletProof: toOwnershipProof(address, 'Test Wallet', { signedMessage: message, signature: signWith(wallet, message) }),
+  };
+  store.push(USER, 'accounts', [{ id: USER, updatedAt: 1, data: account }]);
+  pushEntry(store, workout('w1'));
+
+  const anchored = await anchors.anchor(USER, 'w1');
+  assert.equal(anchored.anchor?.wallet, address);
+  assert.equal(anchored.anchor?.hash, await hashWorkoutEntry(workout('w1'), address));
+
+  // An address without a valid proof is left out.
+  store.push(USER, 'accounts', [{ id: USER, updatedAt: 2, data: { ...account, solanaWalletAddress: Keypair.generate().publicKey.toBase58() } }]);
+  pushEntry(store, workout('w2', 100, 1));
+  assert.equal((await anchors.anchor(USER, 'w2')).anchor?.wallet, undefined);
+  db.close();
+});
+
+test('flagged and rejected sessions are refused and each user has a daily budget', async () => {
+  let time = 1_700_000_200_000;
+  const { db, store, reviews, anchors, cluster } = await setup(createFakeCluster(), { maxAnchorsPerDay: 2, now: () => time });
+  pushEntry(store, workout('w1'));
+  // 50 kg over the previous best is flagged; 500 reps a set is rejected.
+  pushEntry(store, workout('jump', 150, 1));
+  pushEntry(store, workout('fake', 100, 2, 500));
+  const refused = (err: Error & { code?: string }) => err.code === 'not_verified';
+  await assert.rejects(anchors.anchor(USER, 'jump'), refused);
+  await assert.rejects(anchors.anchor(USER, 'fake'), refused);
+  assert.equal(cluster.memos().length, 0);
+
+  // An admin approval makes the session count, and so anchorable.
+  reviews.review(USER, 'jump', 'auth0|admin', 'approved');
+  await anchors.anchor(USER, 'w1');
+  await anchors.anchor(USER, 'jump');
+
+  pushEntry(store, workout('w3', 100, 3));
+  const limited = (err: Error & { code?: string }) => err.code === 'rate_limited';
+  await assert.rejects(anchors.anchor(USER, 'w3'), limited);
+  assert.equal(cluster.memos().length, 2);
+  time += DAY;
+  assert.ok((await anchors.anchor(USER, 'w3')).anchor?.signature);
+  db.close();
+});
+
+test('entries are verified against the memo in their anchoring transaction', async () => {
+  const { db, store, anchors, cluster, treasury } = await setup();
+  pushEntry(store, workout('w1'));
+  const anchored = await anchors.anchor(USER, 'w1');
+  const treasuryAddress = treasury.publicKey.toBase58();
+
+  const match = await verifyWorkoutAnchor(anchored, cluster.connection, treasuryAddress);
+  assert.deepEqual([match.status, match.signer, match.blockTime], ['match', treasuryAddress, 1_700_000_100_000]);
+
+  const edited = { ...workout('w1', 140), anchor: anchored.anchor };
+  assert.equal((await verifyWorkoutAnchor(edited, cluster.connection)).status, 'mismatch');
+  assert.match((await verifyWorkoutAnchor(anchored, cluster.connection, Keypair.generate().publicKey.toBase58())).message, /treasury/);
+
+  const forged = { ...anchored, anchor: { ...anchored.anchor!, signature: 'fake-unknown' } };
+  assert.equal((await verifyWorkoutAnchor(forged, cluster.connection)).status, 'not_found');
+  assert.equal((await verifyWorkoutAnchor(workout('w2'), cluster.connection)).status, 'not_found');
+  db.close();
+});
+
+test('the anchor route answers 503 without a treasury and anchors over HTTP with one', async () => {
+  const failing = await setup(createFakeCluster({ failOnChain: true }));
+  pushEntry(failing.store, workout('w1'));
+  await assert.rejects(failing.anchors.anchor(USER, 'w1'), (err: Error & { code?: string }) => err.code === 'anchor_failed');
+  assert.equal(failing.store.listHistory(USER)[0].anchor, undefined);
+  failing.db.close();
+
+  const { db, store, reviews, anchors } = await setup();
+  pushEntry(store, workout('w1'));
+  const servers = [
+    http.createServer(createSyncRequestHandler({ store, reviews, verifyToken: createDevTokenVerifier() })),
+    http.createServer(createSyncRequestHandler({ store, reviews, anchors, verifyToken: createDevTokenVerifier() })),
+  ];
+  const apis = await Promise.all(
+    servers.map(async server => {
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      return createApiClient({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, getAccessToken: async () => USER });
+    })
+  );
+
+  try {
+    await assert.rejects(anchorWorkout(apis[0], 'w1'), /\(503\)/);
+    assert.ok((await anchorWorkout(apis[1], 'w1')).anchor?.signature);
+    await assert.rejects(anchorWorkout(apis[1], 'missing'), /\(404\)/);
+    pushEntry(store, workout('fake', 100, 1, 500));
+    await assert.rejects(anchorWorkout(apis[1], 'fake'), /\(422\)/);
+  } finally {
+    await Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+    db.close();
+  }
+});
+
+runTests().catch(err => {
+  console.error("Unhandled top-level error:", err);
+  process.exitCode = 1;
+});
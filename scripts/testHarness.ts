@@ -0,0 +1,32 @@
+// Minimal runner shared by the scripts/test-*.ts files; each file registers tests and calls runTests().
+
+const tests: Array<{ name: string; run: () => Promise<void> | void }> = [];
+
+export const test = (name: string, run: () => Promise<void> | void) => {
+  tests.push({ name, run });
+};
+
+export async function runTests() {
+  let failures = 0;
+  const originalConsoleError = console.error;
+
+  for (const { name, run } of tests) {
+    const logged: unknown[][] = [];
+    // Services log raw payloads on failure; keep that noise out unless the test itself fails.
+    console.error = (...args: unknown[]) => logged.push(args);
+    try {
+      await run();
+      console.log(`ok - ${name}`);
+    } catch (err) {
+      failures += 1;
+      console.log(`not ok - ${name}`);
+      console.log(err);
+      logged.forEach(args => originalConsoleError(...args));
+    } finally {
+      console.error = originalConsoleError;
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} passed`);
+  if (failures > 0) process.exitCode = 1;
+}
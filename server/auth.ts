@@ -0,0 +1,29 @@
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+
+/** Resolves a bearer token to the Auth0 `sub` it was issued for, or throws. */
+export type TokenVerifier = (token: string) => Promise<string>;
+
+export interface Auth0VerifierOptions {
+  domain: string;
+  audience: string;
+}
+
+export const createAuth0TokenVerifier = ({ domain, audience }: Auth0VerifierOptions): TokenVerifier => {
+  const issuer = `https://${domain.replace(/^https?:\/\//, '').replace(/\/$/, '')}/`;
+  const jwks = createRemoteJWKSet(new URL('.well-known/jwks.json', issuer));
+
+  return async token => {
+    const { payload } = await jwtVerify(token, jwks, { issuer, audience });
+    if (!payload.sub) throw new Error('Token has no subject.');
+    return payload.sub;
+  };
+};
+
+/**
+ * Local development only: the bearer token *is* the user id (e.g. `Bearer auth0|abc`).
+ * Enabled with SYNC_ALLOW_DEV_TOKENS=1 so the server can run without an Auth0 API configured.
+ */
+export const createDevTokenVerifier = (): TokenVerifier => async token => {
+  if (!token.trim()) throw new Error('Empty token.');
+  return token.trim();
+};
@@ -0,0 +1,30 @@
+import { Connection } from '@solana/web3.js';
+import { createMint } from '@solana/spl-token';
+import { CLUSTER_LABELS, resolveClusterConfig } from '../services/solanaCluster';
+import { loadTreasuryKeypair } from './rewardPayouts';
+
+// Creates an SPL mint for reward tokens with the treasury as mint authority, paid for by the treasury.
+// Run with `npm run reward-mint` using the same TREASURY_* and SOLANA_* settings as the server.
+
+const cluster = resolveClusterConfig({
+  cluster: process.env.SOLANA_CLUSTER,
+  rpcUrl: process.env.SOLANA_RPC_URL,
+  commitment: process.env.SOLANA_COMMITMENT,
+});
+const decimals = Number(process.env.REWARD_TOKEN_DECIMALS ?? 6);
+
+async function main() {
+  const treasury = loadTreasuryKeypair();
+  if (!treasury) throw new Error('Set TREASURY_SECRET_KEY or TREASURY_KEYPAIR_PATH first.');
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 9) throw new Error('REWARD_TOKEN_DECIMALS must be an integer from 0 to 9.');
+
+  const connection = new Connection(cluster.rpcUrl, cluster.commitment);
+  const mint = await createMint(connection, treasury, treasury.publicKey, null, decimals);
+  console.log(`Created reward token mint with ${decimals} decimals on ${CLUSTER_LABELS[cluster.name]} (${cluster.rpcUrl}).`);
+  console.log(`Start the server with REWARD_TOKEN_MINT=${mint.toBase58()}`);
+}
+
+main().catch(err => {
+  console.error('Could not create the reward mint:', err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+export interface SyncDatabase {
+  run: (sql: string, params?: SqlValue[]) => void;
+  all: <T extends Record<string, SqlValue>>(sql: string, params?: SqlValue[]) => T[];
+  // Runs `work` in a transaction and writes the file once afterwards.
+  transaction: <T>(work: () => T) => T;
+  close: () => void;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    user_id TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    server_updated_at INTEGER NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    data TEXT,
+    PRIMARY KEY (user_id, collection, id)
+  );
+  CREATE INDEX IF NOT EXISTS records_by_server_time ON records (user_id, collection, server_updated_at);
+  CREATE TABLE IF NOT EXISTS reward_payouts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    points INTEGER NOT NULL,
+    -- In base units of the paid asset: lamports, or token base units when mint is set. A decimal string,
+    -- since high-decimal tokens go past what an INTEGER column reads back into a JS number exactly.
+    amount TEXT NOT NULL,
+    mint TEXT,
+    decimals INTEGER NOT NULL,
+    symbol TEXT NOT NULL,
+    status TEXT NOT NULL,
+    signature TEXT,
+    raw_transaction TEXT,
+    blockhash TEXT,
+    last_valid_block_height INTEGER,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reward_payouts_by_user ON reward_payouts (user_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS reward_payouts_by_key ON reward_payouts (user_id, idempotency_key);
+  CREATE TABLE IF NOT EXISTS session_reviews (
+    user_id TEXT NOT NULL,
+    entry_id TEXT NOT NULL,
+    decision TEXT NOT NULL,
+    reviewer_id TEXT NOT NULL,
+    note TEXT,
+    reviewed_at INTEGER NOT NULL,
+    -- hashWorkoutEntry of the entry as reviewed; the decision stops applying once the entry changes.
+    entry_hash TEXT NOT NULL,
+    PRIMARY KEY (user_id, entry_id)
+  );
+  CREATE TABLE IF NOT EXISTS workout_anchors (
+    user_id TEXT NOT NULL,
+    entry_id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    cluster TEXT NOT NULL,
+    wallet TEXT,
+    anchored_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, entry_id)
+  );
+`;
+
+/**
+ * Opens the SQLite file with sql.js (WASM, no native build). The whole database lives in memory
+ * and is flushed to disk after every write transaction, which is plenty for a single sync node.
+ * Pass ':memory:' to skip the file entirely.
+ */
+export const openSyncDatabase = async (filePath: string): Promise<SyncDatabase> => {
+  const SQL = await initSqlJs();
+  const inMemory = filePath === ':memory:';
+  const db: Database = !inMemory && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.exec(SCHEMA);
+
+  const persist = () => {
+    if (inMemory) return;
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated database behind.
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, Buffer.from(db.export()));
+    fs.renameSync(tmpPath, filePath);
+  };
+  persist();
+
+  const all = <T extends Record<string, SqlValue>>(sql: string, params: SqlValue[] = []): T[] => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    run: (sql, params = []) => db.run(sql, params),
+    all,
+    transaction: work => {
+      db.exec('BEGIN');
+      try {
+        const result = work();
+        db.exec('COMMIT');
+        persist();
+        return result;
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+    },
+    close: () => db.close(),
+  };
+};
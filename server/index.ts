@@ -0,0 +1,98 @@
+import http from 'http';
+import { Connection } from '@solana/web3.js';
+import { CLUSTER_LABELS, isTestCluster, resolveClusterConfig } from '../services/solanaCluster';
+import { createAuth0TokenVerifier, createDevTokenVerifier, TokenVerifier } from './auth';
+import { openSyncDatabase } from './database';
+import { loadRewardAsset, loadRewardCaps } from './rewardConfig';
+import { createRewardPayoutService, loadTreasuryKeypair, RewardPayoutService } from './rewardPayouts';
+import { createSessionReviewService } from './sessionReviews';
+import { createSyncRequestHandler } from './syncServer';
+import { createSyncStore } from './syncStore';
+import { createWorkoutAnchorService, WorkoutAnchorService } from './workoutAnchors';
+
+// Sync server entry point. Run with `npm run server`; configuration comes from the environment.
+
+const port = Number(process.env.SYNC_PORT ?? 8787);
+const dbPath = process.env.SYNC_DB_PATH ?? 'data/gymform-sync.sqlite';
+const auth0Domain = process.env.AUTH0_DOMAIN ?? process.env.VITE_AUTH0_DOMAIN;
+const auth0Audience = process.env.AUTH0_AUDIENCE ?? process.env.VITE_AUTH0_AUDIENCE;
+const allowDevTokens = process.env.SYNC_ALLOW_DEV_TOKENS === '1';
+const adminUserIds = (process.env.SYNC_ADMIN_USER_IDS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+const cluster = resolveClusterConfig({
+  cluster: process.env.SOLANA_CLUSTER,
+  rpcUrl: process.env.SOLANA_RPC_URL,
+  commitment: process.env.SOLANA_COMMITMENT,
+});
+
+const resolveTokenVerifier = (): TokenVerifier => {
+  if (auth0Domain && auth0Audience) {
+    return createAuth0TokenVerifier({ domain: auth0Domain, audience: auth0Audience });
+  }
+  if (allowDevTokens) {
+    console.warn('SYNC_ALLOW_DEV_TOKENS=1: bearer tokens are trusted as user ids. Never use this outside local development.');
+    return createDevTokenVerifier();
+  }
+  throw new Error('Set AUTH0_DOMAIN and AUTH0_AUDIENCE (or SYNC_ALLOW_DEV_TOKENS=1 for local development).');
+};
+
+async function main() {
+  const verifyToken = resolveTokenVerifier();
+  const db = await openSyncDatabase(dbPath);
+  const store = createSyncStore(db);
+  const reviews = createSessionReviewService({ db, store });
+
+  const treasury = loadTreasuryKeypair();
+  let payouts: RewardPayoutService | undefined;
+  let anchors: WorkoutAnchorService | undefined;
+  if (treasury) {
+    // Dev tokens let any caller claim as any user, which must never happen with real funds.
+    if (allowDevTokens && !isTestCluster(cluster)) {
+      throw new Error(`SYNC_ALLOW_DEV_TOKENS=1 cannot be combined with reward payouts on ${CLUSTER_LABELS[cluster.name]}.`);
+    }
+    const connection = new Connection(cluster.rpcUrl, cluster.commitment);
+    const asset = await loadRewardAsset(process.env, connection, treasury);
+    const caps = loadRewardCaps(process.env);
+    payouts = createRewardPayoutService({ db, store, reviews, connection, treasury, asset, caps, cluster });
+    anchors = createWorkoutAnchorService({ db, store, reviews, connection, treasury, cluster });
+    console.log(
+      `Reward payouts enabled from treasury ${treasury.publicKey.toBase58()} on ${CLUSTER_LABELS[cluster.name]} via ${cluster.rpcUrl} (${cluster.commitment})`
+    );
+    console.log(`Paying ${asset.info.perPoint} ${asset.info.symbol} per point${asset.info.mint ? ` (mint ${asset.info.mint})` : ''}`);
+    if (caps) {
+      console.log(`Payout caps per ${caps.period} period: ${caps.perUserPoints ?? 'no limit'} points per user, ${caps.totalPoints ?? 'no limit'} in total`);
+    }
+  } else {
+    console.warn('No TREASURY_SECRET_KEY or TREASURY_KEYPAIR_PATH set: reward claims and workout anchoring are disabled.');
+  }
+
+  const handler = createSyncRequestHandler({
+    store,
+    reviews,
+    verifyToken,
+    adminUserIds,
+    payouts,
+    anchors,
+    allowedOrigin: process.env.SYNC_ALLOWED_ORIGIN ?? '*',
+  });
+
+  const server = http.createServer((req, res) => {
+    handler(req, res);
+  });
+  server.listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port} (database: ${dbPath})`);
+  });
+
+  const shutdown = () => {
+    server.close(() => {
+      db.close();
+      process.exit(0);
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(err => {
+  console.error('Sync server failed to start:', err);
+  process.exitCode = 1;
+});
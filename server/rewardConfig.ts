@@ -0,0 +1,125 @@
+import { Connection, Keypair, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToCheckedInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  TOKEN_PROGRAM_ID,
+  unpackMint,
+} from '@solana/spl-token';
+import { RewardAsset, RewardCapPeriod } from '../types';
+import { POINTS_TO_SOL_RATE, SOL_REWARD_ASSET } from '../services/rewards';
+
+// 'mint' issues new tokens with the treasury as mint authority; 'transfer' pays from the treasury's token account.
+export type TokenDistribution = 'mint' | 'transfer';
+
+/** A reward asset plus the instructions that pay `amount` base units of it from the treasury to a wallet. */
+export interface PayoutAsset {
+  info: RewardAsset;
+  buildInstructions: (treasury: PublicKey, recipient: PublicKey, amount: bigint) => TransactionInstruction[];
+}
+
+export interface RewardCaps {
+  period: RewardCapPeriod;
+  // Points one user may claim per period.
+  perUserPoints?: number;
+  // Points all users together may claim per period, to bound what the treasury pays out.
+  totalPoints?: number;
+}
+
+export const createSolPayoutAsset = (perPoint = POINTS_TO_SOL_RATE): PayoutAsset => ({
+  info: { ...SOL_REWARD_ASSET, perPoint },
+  buildInstructions: (treasury, recipient, amount) => [
+    SystemProgram.transfer({ fromPubkey: treasury, toPubkey: recipient, lamports: amount }),
+  ],
+});
+
+interface SplPayoutAssetOptions {
+  mint: PublicKey;
+  decimals: number;
+  symbol: string;
+  perPoint: number;
+  distribution: TokenDistribution;
+  // TOKEN_PROGRAM_ID, or TOKEN_2022_PROGRAM_ID for Token-2022 mints.
+  programId?: PublicKey;
+}
+
+export const createSplPayoutAsset = ({
+  mint,
+  decimals,
+  symbol,
+  perPoint,
+  distribution,
+  programId = TOKEN_PROGRAM_ID,
+}: SplPayoutAssetOptions): PayoutAsset => ({
+  info: { kind: 'spl', symbol, decimals, perPoint, mint: mint.toBase58() },
+  buildInstructions: (treasury, recipient, amount) => {
+    const destination = getAssociatedTokenAddressSync(mint, recipient, false, programId);
+    // A no-op when the recipient already has a token account; otherwise the treasury pays its rent.
+    const createDestination = createAssociatedTokenAccountIdempotentInstruction(treasury, destination, recipient, mint, programId);
+    if (distribution === 'mint') {
+      return [createDestination, createMintToCheckedInstruction(mint, destination, treasury, amount, decimals, [], programId)];
+    }
+    const source = getAssociatedTokenAddressSync(mint, treasury, false, programId);
+    return [
+      createDestination,
+      createTransferCheckedInstruction(source, mint, destination, treasury, amount, decimals, [], programId),
+    ];
+  },
+});
+
+const parsePositiveNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new Error(`${name} must be a positive number.`);
+  return parsed;
+};
+
+/**
+ * Picks the reward asset from the environment. With REWARD_TOKEN_MINT set, claims pay out that SPL
+ * token at REWARD_TOKENS_PER_POINT (default 1); otherwise SOL at REWARD_SOL_PER_POINT. The mint is
+ * read from the cluster for its decimals and token program, and to check the treasury can mint it.
+ */
+export const loadRewardAsset = async (
+  env: NodeJS.ProcessEnv,
+  connection: Pick<Connection, 'getAccountInfo'>,
+  treasury: Keypair
+): Promise<PayoutAsset> => {
+  const mintAddress = env.REWARD_TOKEN_MINT?.trim();
+  if (!mintAddress) return createSolPayoutAsset(parsePositiveNumber(env.REWARD_SOL_PER_POINT, 'REWARD_SOL_PER_POINT'));
+
+  const distribution = env.REWARD_TOKEN_DISTRIBUTION ?? 'mint';
+  if (distribution !== 'mint' && distribution !== 'transfer') {
+    throw new Error('REWARD_TOKEN_DISTRIBUTION must be "mint" or "transfer".');
+  }
+
+  const mint = new PublicKey(mintAddress);
+  const account = await connection.getAccountInfo(mint, 'confirmed');
+  if (!account) throw new Error(`Reward token mint ${mintAddress} does not exist on this cluster.`);
+  const mintInfo = unpackMint(mint, account, account.owner);
+  if (distribution === 'mint' && !mintInfo.mintAuthority?.equals(treasury.publicKey)) {
+    throw new Error(
+      `The treasury is not the mint authority of ${mintAddress}. Set REWARD_TOKEN_DISTRIBUTION=transfer to pay from its token account instead.`
+    );
+  }
+
+  return createSplPayoutAsset({
+    mint,
+    decimals: mintInfo.decimals,
+    symbol: env.REWARD_TOKEN_SYMBOL?.trim() || 'PTS',
+    perPoint: parsePositiveNumber(env.REWARD_TOKENS_PER_POINT, 'REWARD_TOKENS_PER_POINT') ?? 1,
+    distribution,
+    programId: account.owner,
+  });
+};
+
+/** Payout caps from REWARD_CAP_POINTS_PER_USER / REWARD_CAP_POINTS_TOTAL per REWARD_CAP_PERIOD (weekly or monthly). */
+export const loadRewardCaps = (env: NodeJS.ProcessEnv): RewardCaps | undefined => {
+  const perUserPoints = parsePositiveNumber(env.REWARD_CAP_POINTS_PER_USER, 'REWARD_CAP_POINTS_PER_USER');
+  const totalPoints = parsePositiveNumber(env.REWARD_CAP_POINTS_TOTAL, 'REWARD_CAP_POINTS_TOTAL');
+  if (perUserPoints === undefined && totalPoints === undefined) return undefined;
+
+  const period = env.REWARD_CAP_PERIOD ?? 'weekly';
+  if (period !== 'weekly' && period !== 'monthly') throw new Error('REWARD_CAP_PERIOD must be "weekly" or "monthly".');
+  return { period, perUserPoints, totalPoints };
+};
@@ -0,0 +1,389 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { RewardClaim, RewardClaimResponse, RewardClaimStatus, RewardStatus } from '../types';
+import { calculateEarnedPoints, convertPointsToAmount, convertPointsToBaseUnits } from '../services/rewards';
+import { getSeasonWindow } from '../services/leaderboard';
+import { ClusterCommitment, resolveClusterConfig, SolanaClusterConfig } from '../services/solanaCluster';
+import type { SyncDatabase } from './database';
+import { createSolPayoutAsset, PayoutAsset, RewardCaps } from './rewardConfig';
+import type { SessionReviewService } from './sessionReviews';
+import type { SyncStore } from './syncStore';
+
+export interface RewardPayoutError extends Error {
+  code:
+    | 'invalid_recipient'
+    | 'invalid_idempotency_key'
+    | 'idempotency_conflict'
+    | 'nothing_to_claim'
+    | 'cap_reached'
+    | 'claim_in_progress'
+    | 'transfer_failed';
+  claimId?: string;
+  signature?: string;
+}
+
+const createRewardPayoutError = (
+  message: string,
+  code: RewardPayoutError['code'],
+  details: Pick<RewardPayoutError, 'claimId' | 'signature'> = {}
+): RewardPayoutError => {
+  const err = new Error(message) as RewardPayoutError;
+  err.name = 'RewardPayoutError';
+  err.code = code;
+  err.claimId = details.claimId;
+  err.signature = details.signature;
+  return err;
+};
+
+export const isRewardPayoutError = (err: unknown): err is RewardPayoutError =>
+  err instanceof Error && err.name === 'RewardPayoutError';
+
+// The subset of Connection the payout service uses; tests substitute a fake.
+export type PayoutConnection = Pick<
+  Connection,
+  'getLatestBlockhash' | 'sendRawTransaction' | 'confirmTransaction' | 'getSignatureStatuses' | 'getBlockHeight'
+>;
+
+export interface RewardPayoutService {
+  getStatus: (userId: string) => RewardStatus;
+  /** The user's claims, newest first. Pending ones are checked against the cluster again first. */
+  listClaims: (userId: string) => Promise<RewardClaim[]>;
+  /**
+   * Pays out everything the user has earned but not yet claimed to `recipient`, up to the caps. Repeating
+   * the call with the same idempotency key returns the recorded claim instead, re-checking it if still pending.
+   */
+  claim: (userId: string, recipient: string, idempotencyKey: string) => Promise<RewardClaimResponse>;
+}
+
+interface RewardPayoutOptions {
+  db: SyncDatabase;
+  store: SyncStore;
+  reviews: Pick<SessionReviewService, 'getReviews'>;
+  connection: PayoutConnection;
+  treasury: Keypair;
+  // What claims pay out in; SOL at the default rate unless configured.
+  asset?: PayoutAsset;
+  caps?: RewardCaps;
+  // Reported in the status and sets the commitment payouts wait for. Devnet at 'confirmed' by default.
+  cluster?: SolanaClusterConfig;
+  // How many confirmation timeouts a claim rides out before it is left pending. Defaults to 3.
+  confirmAttempts?: number;
+  now?: () => number;
+}
+
+type ClaimRow = {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  recipient: string;
+  points: number;
+  amount: string;
+  mint: string | null;
+  decimals: number;
+  symbol: string;
+  status: string;
+  signature: string | null;
+  raw_transaction: string | null;
+  blockhash: string | null;
+  last_valid_block_height: number | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const REJECTED_MESSAGE = 'The reward transfer was rejected by the cluster.';
+const FAILED_ON_CHAIN_MESSAGE = 'The reward transfer failed on chain.';
+const EXPIRED_MESSAGE = 'The reward transfer expired before it was confirmed.';
+const COMMITMENT_RANK: Record<ClusterCommitment, number> = { processed: 0, confirmed: 1, finalized: 2 };
+
+// Whole and fractional parts separately, so only precision beyond what a number can show is lost.
+const toDisplayAmount = (baseUnits: bigint, decimals: number) => {
+  const scale = 10n ** BigInt(decimals);
+  return Number(baseUnits / scale) + Number(baseUnits % scale) / 10 ** decimals;
+};
+
+const toClaim = (row: ClaimRow): RewardClaim => ({
+  id: row.id,
+  idempotencyKey: row.idempotency_key,
+  recipient: row.recipient,
+  points: row.points,
+  amount: toDisplayAmount(BigInt(row.amount), row.decimals),
+  symbol: row.symbol,
+  status: row.status as RewardClaimStatus,
+  ...(row.signature ? { signature: row.signature } : {}),
+  ...(row.error ? { error: row.error } : {}),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Reads the treasury keypair from TREASURY_SECRET_KEY (a JSON byte array, as printed by
+ * solana-keygen) or from the keypair file at TREASURY_KEYPAIR_PATH. Returns null when neither is set.
+ */
+export const loadTreasuryKeypair = (env: NodeJS.ProcessEnv = process.env): Keypair | null => {
+  const raw = env.TREASURY_SECRET_KEY ?? (env.TREASURY_KEYPAIR_PATH ? fs.readFileSync(env.TREASURY_KEYPAIR_PATH, 'utf8') : undefined);
+  if (!raw) return null;
+  const bytes = JSON.parse(raw);
+  if (!Array.isArray(bytes)) throw new Error('Treasury secret key must be a JSON array of bytes.');
+  return Keypair.fromSecretKey(Uint8Array.from(bytes));
+};
+
+export const createRewardPayoutService = ({
+  db,
+  store,
+  reviews,
+  connection,
+  treasury,
+  asset = createSolPayoutAsset(),
+  caps,
+  cluster = resolveClusterConfig(),
+  confirmAttempts = 3,
+  now = Date.now,
+}: RewardPayoutOptions): RewardPayoutService => {
+  const { commitment } = cluster;
+  // One claim per user at a time, so two requests can't both see the same points as unclaimed.
+  const claimsInFlight = new Set<string>();
+
+  const getClaimedPoints = (userId: string) =>
+    Number(
+      db.all<{ total: number | null }>(
+        "SELECT SUM(points) AS total FROM reward_payouts WHERE user_id = ? AND status != 'failed'",
+        [userId]
+      )[0]?.total ?? 0
+    );
+
+  const getClaimedPointsSince = (startsAt: number, userId?: string) =>
+    Number(
+      db.all<{ total: number | null }>(
+        `SELECT SUM(points) AS total FROM reward_payouts WHERE status != 'failed' AND created_at >= ?${userId ? ' AND user_id = ?' : ''}`,
+        userId ? [startsAt, userId] : [startsAt]
+      )[0]?.total ?? 0
+    );
+
+  // Caps count every claim not known to have failed since the period started, across all assets.
+  const applyCaps = (userId: string, pendingPoints: number) => {
+    if (!caps) return { claimablePoints: pendingPoints };
+    const window = getSeasonWindow(caps.period, now());
+    const startsAt = window.startsAt ?? 0;
+    const limits = [pendingPoints];
+    if (caps.perUserPoints !== undefined) limits.push(caps.perUserPoints - getClaimedPointsSince(startsAt, userId));
+    if (caps.totalPoints !== undefined) limits.push(caps.totalPoints - getClaimedPointsSince(startsAt));
+    return {
+      claimablePoints: Math.max(0, Math.floor(Math.min(...limits))),
+      cap: {
+        period: caps.period,
+        resetsAt: window.endsAt ?? 0,
+        ...(caps.perUserPoints !== undefined ? { perUserPoints: caps.perUserPoints } : {}),
+        ...(caps.totalPoints !== undefined ? { totalPoints: caps.totalPoints } : {}),
+      },
+    };
+  };
+
+  const getStatus = (userId: string): RewardStatus => {
+    const earnedPoints = calculateEarnedPoints(store.listHistory(userId), reviews.getReviews(userId));
+    const claimedPoints = getClaimedPoints(userId);
+    const pendingPoints = Math.max(0, earnedPoints - claimedPoints);
+    const { claimablePoints, cap } = applyCaps(userId, pendingPoints);
+    return {
+      earnedPoints,
+      claimedPoints,
+      pendingPoints,
+      claimablePoints,
+      claimableAmount: convertPointsToAmount(claimablePoints, asset.info),
+      asset: asset.info,
+      ...(cap ? { cap } : {}),
+      treasuryAddress: treasury.publicKey.toBase58(),
+      cluster: cluster.name,
+    };
+  };
+
+  const getClaimRow = (id: string) => db.all<ClaimRow>('SELECT * FROM reward_payouts WHERE id = ?', [id])[0];
+
+  const findClaimRow = (userId: string, idempotencyKey: string): ClaimRow | undefined =>
+    db.all<ClaimRow>('SELECT * FROM reward_payouts WHERE user_id = ? AND idempotency_key = ?', [userId, idempotencyKey])[0];
+
+  const settle = (row: ClaimRow, status: 'confirmed' | 'failed', error?: string): ClaimRow => {
+    db.transaction(() =>
+      db.run('UPDATE reward_payouts SET status = ?, error = ?, updated_at = ? WHERE id = ?', [status, error ?? null, now(), row.id])
+    );
+    return getClaimRow(row.id);
+  };
+
+  // Sending the same signed transaction again is safe: it has one signature and can land at most once.
+  const broadcast = async (row: ClaimRow): Promise<ClaimRow> => {
+    const signature = await connection.sendRawTransaction(Buffer.from(row.raw_transaction ?? '', 'base64'));
+    if (signature === row.signature) return row;
+    db.transaction(() =>
+      db.run('UPDATE reward_payouts SET signature = ?, updated_at = ? WHERE id = ?', [signature, now(), row.id])
+    );
+    return getClaimRow(row.id);
+  };
+
+  /** Looks a pending claim up on the cluster and settles it, or re-sends it while its blockhash is still valid. */
+  const recheck = async (row: ClaimRow): Promise<ClaimRow> => {
+    if (row.status !== 'pending' || !row.raw_transaction) return row;
+    if (row.signature) {
+      const { value: [status] } = await connection.getSignatureStatuses([row.signature], { searchTransactionHistory: true });
+      if (status?.confirmationStatus && COMMITMENT_RANK[status.confirmationStatus] >= COMMITMENT_RANK[commitment]) {
+        return status.err ? settle(row, 'failed', FAILED_ON_CHAIN_MESSAGE) : settle(row, 'confirmed');
+      }
+      // Seen but not confirmed yet: leave it for the next check.
+      if (status) return row;
+    }
+    if (row.last_valid_block_height !== null && (await connection.getBlockHeight(commitment)) > row.last_valid_block_height) {
+      // Past its last valid block height the transaction can never land, so the points go back.
+      return settle(row, 'failed', EXPIRED_MESSAGE);
+    }
+    try {
+      return await broadcast(row);
+    } catch (err) {
+      console.error('Re-sending reward transfer failed:', err);
+      return row;
+    }
+  };
+
+  const recheckQuietly = (row: ClaimRow) =>
+    recheck(row).catch(err => {
+      console.error(`Could not check reward claim ${row.id}:`, err);
+      return row;
+    });
+
+  const confirm = async (row: ClaimRow): Promise<ClaimRow> => {
+    let current = row;
+    for (let attempt = 1; current.status === 'pending' && attempt <= confirmAttempts; attempt += 1) {
+      try {
+        const confirmation = await connection.confirmTransaction(
+          { signature: current.signature ?? '', blockhash: current.blockhash ?? '', lastValidBlockHeight: current.last_valid_block_height ?? 0 },
+          commitment
+        );
+        current = confirmation.value.err ? settle(current, 'failed', FAILED_ON_CHAIN_MESSAGE) : settle(current, 'confirmed');
+      } catch (err) {
+        // Timeouts don't mean the transfer failed; look it up directly before waiting again.
+        console.error(`Reward claim ${current.id} not confirmed (attempt ${attempt}):`, err);
+        current = await recheckQuietly(current);
+      }
+    }
+    return current;
+  };
+
+  const respond = (userId: string, row: ClaimRow): RewardClaimResponse => {
+    if (row.status === 'failed') {
+      throw createRewardPayoutError(row.error ?? FAILED_ON_CHAIN_MESSAGE, 'transfer_failed', {
+        claimId: row.id,
+        signature: row.signature ?? undefined,
+      });
+    }
+    return { claim: toClaim(row), status: getStatus(userId) };
+  };
+
+  const parseRecipient = (recipient: string) => {
+    try {
+      const key = new PublicKey(recipient);
+      if (PublicKey.isOnCurve(key.toBytes())) return key;
+    } catch {
+      // Fall through to the error below.
+    }
+    throw createRewardPayoutError('Recipient is not a valid Solana wallet address.', 'invalid_recipient');
+  };
+
+  const getClaimable = (userId: string) => {
+    const { pendingPoints, claimablePoints, cap } = getStatus(userId);
+    if (pendingPoints > 0 && claimablePoints <= 0 && cap) {
+      const resetsOn = new Date(cap.resetsAt).toISOString().slice(0, 10);
+      throw createRewardPayoutError(`The ${cap.period} payout cap has been reached; claim again from ${resetsOn}.`, 'cap_reached');
+    }
+    const amount = convertPointsToBaseUnits(claimablePoints, asset.info);
+    if (amount <= 0n) throw createRewardPayoutError('No rewards to claim.', 'nothing_to_claim');
+    return { claimablePoints, amount };
+  };
+
+  const startClaim = async (userId: string, recipientKey: PublicKey, idempotencyKey: string): Promise<ClaimRow> => {
+    // Checked up front so an empty claim costs no RPC call.
+    getClaimable(userId);
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+
+    // Other users' claims may have been recorded during the await, and the total cap is shared. From
+    // here to the insert nothing awaits, so the caps this claim is sized by are still the current ones.
+    const { claimablePoints, amount } = getClaimable(userId);
+    const transaction = new Transaction({ feePayer: treasury.publicKey, blockhash, lastValidBlockHeight }).add(
+      ...asset.buildInstructions(treasury.publicKey, recipientKey, amount)
+    );
+    transaction.sign(treasury);
+
+    // Debit before sending: the points count as claimed while the transfer is in flight. The signed
+    // transaction is kept so a pending claim can be re-sent without signing a second transfer.
+    const id = randomUUID();
+    const createdAt = now();
+    db.transaction(() =>
+      db.run(
+        `INSERT INTO reward_payouts
+           (id, user_id, idempotency_key, recipient, points, amount, mint, decimals, symbol, status,
+            raw_transaction, blockhash, last_valid_block_height, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?)`,
+        [
+          id,
+          userId,
+          idempotencyKey,
+          recipientKey.toBase58(),
+          claimablePoints,
+          amount.toString(),
+          asset.info.mint ?? null,
+          asset.info.decimals,
+          asset.info.symbol,
+          transaction.serialize().toString('base64'),
+          blockhash,
+          lastValidBlockHeight,
+          createdAt,
+          createdAt,
+        ]
+      )
+    );
+
+    let row = getClaimRow(id);
+    try {
+      row = await broadcast(row);
+    } catch (err) {
+      // Rejected in preflight, so nothing moved: give the points back.
+      console.error('Reward transfer rejected:', err);
+      return settle(row, 'failed', REJECTED_MESSAGE);
+    }
+    return confirm(row);
+  };
+
+  const claim = async (userId: string, recipient: string, idempotencyKey: string): Promise<RewardClaimResponse> => {
+    const recipientKey = parseRecipient(recipient);
+    if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      throw createRewardPayoutError('Idempotency key must be 8-128 letters, digits, dashes or underscores.', 'invalid_idempotency_key');
+    }
+    if (claimsInFlight.has(userId)) {
+      throw createRewardPayoutError('A claim is already being processed.', 'claim_in_progress');
+    }
+    claimsInFlight.add(userId);
+
+    try {
+      const existing = findClaimRow(userId, idempotencyKey);
+      if (existing && existing.recipient !== recipientKey.toBase58()) {
+        throw createRewardPayoutError('This idempotency key was already used for another recipient.', 'idempotency_conflict');
+      }
+      const row = existing ? await recheckQuietly(existing) : await startClaim(userId, recipientKey, idempotencyKey);
+      return respond(userId, row);
+    } finally {
+      claimsInFlight.delete(userId);
+    }
+  };
+
+  const listClaims = async (userId: string): Promise<RewardClaim[]> => {
+    // A claim in flight is being confirmed right now; don't re-send it from here as well.
+    if (!claimsInFlight.has(userId)) {
+      const pending = db.all<ClaimRow>("SELECT * FROM reward_payouts WHERE user_id = ? AND status = 'pending'", [userId]);
+      for (const row of pending) await recheckQuietly(row);
+    }
+    return db
+      .all<ClaimRow>('SELECT * FROM reward_payouts WHERE user_id = ? ORDER BY created_at DESC, id', [userId])
+      .map(toClaim);
+  };
+
+  return { getStatus, listClaims, claim };
+};
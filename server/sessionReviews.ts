@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { ReviewableSession, SessionReview, SessionReviewDecision, WorkoutHistoryEntry } from '../types';
+import { verifyHistory } from '../services/sessionVerification';
+import { serializeWorkoutForHash } from '../services/workoutAnchor';
+import type { SyncDatabase } from './database';
+import type { SyncStore } from './syncStore';
+
+export type ReviewQueueFilter = 'pending' | 'all';
+
+export interface SessionReviewService {
+  /**
+   * Admin decisions for one user, keyed by history entry id. Only decisions about the entry as it
+   * is now: once the user edits a reviewed entry, its review no longer applies.
+   */
+  getReviews: (userId: string) => Record<string, SessionReview>;
+  listReviewsByUser: () => Record<string, Record<string, SessionReview>>;
+  /** Flagged and rejected sessions across all users, newest first. 'pending' leaves out reviewed ones. */
+  listQueue: (filter: ReviewQueueFilter) => ReviewableSession[];
+  /** Records a decision and syncs it back onto the user's history entry. Null if the entry doesn't exist. */
+  review: (
+    userId: string,
+    entryId: string,
+    reviewerId: string,
+    decision: SessionReviewDecision,
+    note?: string
+  ) => ReviewableSession | null;
+}
+
+type ReviewRow = {
+  user_id: string;
+  entry_id: string;
+  decision: string;
+  reviewer_id: string;
+  note: string | null;
+  reviewed_at: number;
+  entry_hash: string;
+};
+
+// Same value as hashWorkoutEntry(entry) without a wallet, computed synchronously.
+const hashEntry = (entry: WorkoutHistoryEntry) => createHash('sha256').update(serializeWorkoutForHash(entry)).digest('hex');
+
+const REVIEW_COLUMNS = 'user_id, entry_id, decision, reviewer_id, note, reviewed_at, entry_hash';
+
+const toReview = (row: ReviewRow): SessionReview => ({
+  decision: row.decision as SessionReviewDecision,
+  reviewerId: row.reviewer_id,
+  reviewedAt: row.reviewed_at,
+  ...(row.note ? { note: row.note } : {}),
+});
+
+export const createSessionReviewService = ({ db, store }: { db: SyncDatabase; store: SyncStore }): SessionReviewService => {
+  // Keeps the rows whose entry still has the content that was reviewed.
+  const currentReviews = (rows: ReviewRow[], history: WorkoutHistoryEntry[]) => {
+    const entries = new Map(history.map(entry => [entry.id, entry]));
+    return rows.filter(row => {
+      const entry = entries.get(row.entry_id);
+      return !!entry && hashEntry(entry) === row.entry_hash;
+    });
+  };
+
+  const listReviewsByUser = () => {
+    const historyByUser = store.listHistoryByUser();
+    const rowsByUser = new Map<string, ReviewRow[]>();
+    db.all<ReviewRow>(`SELECT ${REVIEW_COLUMNS} FROM session_reviews`).forEach(row => {
+      rowsByUser.set(row.user_id, [...(rowsByUser.get(row.user_id) ?? []), row]);
+    });
+    const byUser: Record<string, Record<string, SessionReview>> = {};
+    rowsByUser.forEach((rows, userId) => {
+      currentReviews(rows, historyByUser[userId] ?? []).forEach(row => {
+        (byUser[userId] ??= {})[row.entry_id] = toReview(row);
+      });
+    });
+    return byUser;
+  };
+
+  const getReviews = (userId: string) =>
+    Object.fromEntries(
+      currentReviews(
+        db.all<ReviewRow>(`SELECT ${REVIEW_COLUMNS} FROM session_reviews WHERE user_id = ?`, [userId]),
+        store.listHistory(userId)
+      ).map(row => [row.entry_id, toReview(row)])
+    );
+
+  const usernames = () => new Map(store.listAccounts().map(account => [account.id, account.username]));
+
+  const toSession = (userId: string, username: string | undefined, history: WorkoutHistoryEntry[], reviews: Record<string, SessionReview>) => {
+    const verifications = verifyHistory(history, reviews);
+    return history.flatMap(entry => {
+      const verification = verifications.get(entry.id);
+      return verification ? [{ userId, username: username ?? userId, entry, verification }] : [];
+    });
+  };
+
+  const listQueue = (filter: ReviewQueueFilter) => {
+    const names = usernames();
+    const reviewsByUser = listReviewsByUser();
+    return Object.entries(store.listHistoryByUser())
+      .flatMap(([userId, history]) => toSession(userId, names.get(userId), history, reviewsByUser[userId] ?? {}))
+      .filter(({ verification }) =>
+        verification.status !== 'verified' && (filter === 'all' || !verification.review)
+      )
+      .sort((a, b) => b.entry.performedAt - a.entry.performedAt);
+  };
+
+  const review = (
+    userId: string,
+    entryId: string,
+    reviewerId: string,
+    decision: SessionReviewDecision,
+    note?: string
+  ): ReviewableSession | null => {
+    const synced = store.pull(userId, 'history', 0).records.find(record => record.id === entryId && !record.deleted);
+    const entry = store.listHistory(userId).find(candidate => candidate.id === entryId);
+    if (!synced || !entry) return null;
+
+    const reviewedAt = Date.now();
+    db.transaction(() =>
+      db.run(
+        `INSERT INTO session_reviews (${REVIEW_COLUMNS})
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, entry_id) DO UPDATE SET
+           decision = excluded.decision,
+           reviewer_id = excluded.reviewer_id,
+           note = excluded.note,
+           reviewed_at = excluded.reviewed_at,
+           entry_hash = excluded.entry_hash`,
+        [userId, entryId, decision, reviewerId, note?.trim() || null, reviewedAt, hashEntry(entry)]
+      )
+    );
+
+    const session = toSession(userId, usernames().get(userId), store.listHistory(userId), getReviews(userId))
+      .find(candidate => candidate.entry.id === entryId);
+    if (!session) return null;
+
+    // Write the decision onto the user's copy so their history view shows it after the next pull.
+    // The server never reads this field back; the session_reviews row is what counts.
+    store.push(userId, 'history', [
+      {
+        id: entryId,
+        updatedAt: Math.max(reviewedAt, synced.updatedAt + 1),
+        data: { ...session.entry, verification: session.verification },
+      },
+    ]);
+    return { ...session, entry: { ...session.entry, verification: session.verification } };
+  };
+
+  return { getReviews, listReviewsByUser, listQueue, review };
+};
@@ -0,0 +1,325 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { LeaderboardBoard, LeaderboardQuery, LeaderboardSeason, SessionReviewDecision, SyncCollection, SyncRecord } from '../types';
+import { buildLeaderboard } from '../services/leaderboard';
+import type { TokenVerifier } from './auth';
+import { isRewardPayoutError, RewardPayoutError, RewardPayoutService } from './rewardPayouts';
+import type { SessionReviewService } from './sessionReviews';
+import { SYNC_COLLECTIONS, SyncStore } from './syncStore';
+import { isWorkoutAnchorError, WorkoutAnchorError, WorkoutAnchorService } from './workoutAnchors';
+
+interface SyncHandlerOptions {
+  store: SyncStore;
+  reviews: SessionReviewService;
+  verifyToken: TokenVerifier;
+  // User ids (token subjects) allowed to use the /api/admin routes.
+  adminUserIds?: string[];
+  // Omitted when no treasury key is configured; the reward routes then answer 503.
+  payouts?: RewardPayoutService;
+  // Also needs the treasury; without it the anchor route answers 503.
+  anchors?: WorkoutAnchorService;
+  // Value for Access-Control-Allow-Origin; the Vite dev server runs on another port.
+  allowedOrigin?: string;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_RECORDS_PER_PUSH = 500;
+const LEADERBOARD_BOARDS: LeaderboardBoard[] = ['points', 'form', 'volume'];
+const LEADERBOARD_SEASONS: LeaderboardSeason[] = ['weekly', 'monthly', 'all-time'];
+
+interface HttpError extends Error {
+  status: number;
+}
+
+const createHttpError = (status: number, message: string): HttpError => {
+  const err = new Error(message) as HttpError;
+  err.name = 'HttpError';
+  err.status = status;
+  return err;
+};
+
+const isHttpError = (err: unknown): err is HttpError =>
+  err instanceof Error && err.name === 'HttpError' && typeof (err as HttpError).status === 'number';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw createHttpError(413, 'Request body too large.');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null');
+  } catch {
+    throw createHttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const parseCollection = (value: string): SyncCollection => {
+  if (!(SYNC_COLLECTIONS as string[]).includes(value)) throw createHttpError(404, `Unknown collection "${value}".`);
+  return value as SyncCollection;
+};
+
+const parseRecords = (body: unknown): SyncRecord[] => {
+  const records = (body as { records?: unknown } | null)?.records;
+  if (!Array.isArray(records)) throw createHttpError(400, 'Expected { records: [...] }.');
+  if (records.length > MAX_RECORDS_PER_PUSH) throw createHttpError(413, `Push at most ${MAX_RECORDS_PER_PUSH} records at a time.`);
+  records.forEach((record, index) => {
+    if (
+      typeof record !== 'object' || record === null ||
+      typeof record.id !== 'string' || !record.id ||
+      typeof record.updatedAt !== 'number' || !Number.isFinite(record.updatedAt)
+    ) {
+      throw createHttpError(400, `Record ${index} needs a string id and a numeric updatedAt.`);
+    }
+    if (!record.deleted && (typeof record.data !== 'object' || record.data === null)) {
+      throw createHttpError(400, `Record ${index} has no data.`);
+    }
+  });
+  return records as SyncRecord[];
+};
+
+const parseIntegerParam = (params: URLSearchParams, name: string): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value)) throw createHttpError(400, `"${name}" must be an integer.`);
+  return value;
+};
+
+const parseLeaderboardQuery = (params: URLSearchParams): LeaderboardQuery => {
+  const board = (params.get('board') ?? 'points') as LeaderboardBoard;
+  const season = (params.get('season') ?? 'weekly') as LeaderboardSeason;
+  if (!LEADERBOARD_BOARDS.includes(board)) throw createHttpError(400, `Unknown board "${board}".`);
+  if (!LEADERBOARD_SEASONS.includes(season)) throw createHttpError(400, `Unknown season "${season}".`);
+  const seasonOffset = parseIntegerParam(params, 'seasonOffset');
+  if (seasonOffset !== undefined && seasonOffset > 0) throw createHttpError(400, 'Future seasons have no standings yet.');
+
+  return {
+    board,
+    season,
+    seasonOffset,
+    exercise: params.get('exercise') ?? undefined,
+    division: params.get('division') ?? undefined,
+    page: parseIntegerParam(params, 'page'),
+    pageSize: parseIntegerParam(params, 'pageSize'),
+  };
+};
+
+const PAYOUT_ERROR_STATUS: Record<RewardPayoutError['code'], number> = {
+  invalid_recipient: 400,
+  invalid_idempotency_key: 400,
+  idempotency_conflict: 422,
+  nothing_to_claim: 409,
+  cap_reached: 429,
+  claim_in_progress: 409,
+  transfer_failed: 502,
+};
+
+const ANCHOR_ERROR_STATUS: Record<WorkoutAnchorError['code'], number> = {
+  not_found: 404,
+  not_verified: 422,
+  already_anchored: 409,
+  rate_limited: 429,
+  anchor_in_progress: 409,
+  anchor_failed: 502,
+};
+
+const parseClaimRecipient = (body: unknown): string => {
+  const recipient = (body as { recipient?: unknown } | null)?.recipient;
+  if (typeof recipient !== 'string' || !recipient) throw createHttpError(400, 'Expected { recipient: "<wallet address>" }.');
+  return recipient;
+};
+
+const parseIdempotencyKey = (req: IncomingMessage): string => {
+  const key = req.headers['idempotency-key'];
+  if (typeof key !== 'string' || !key.trim()) throw createHttpError(400, 'Missing Idempotency-Key header.');
+  return key.trim();
+};
+
+const parseReview = (body: unknown): { decision: SessionReviewDecision; note?: string } => {
+  const { decision, note } = (body ?? {}) as { decision?: unknown; note?: unknown };
+  if (decision !== 'approved' && decision !== 'rejected') throw createHttpError(400, 'decision must be "approved" or "rejected".');
+  if (note !== undefined && typeof note !== 'string') throw createHttpError(400, 'note must be a string.');
+  return { decision, note: typeof note === 'string' ? note : undefined };
+};
+
+const authenticate = async (req: IncomingMessage, verifyToken: TokenVerifier): Promise<string> => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) throw createHttpError(401, 'Missing bearer token.');
+  try {
+    return await verifyToken(match[1]);
+  } catch (err) {
+    console.warn('Rejected sync token:', err instanceof Error ? err.message : err);
+    throw createHttpError(401, 'Invalid or expired token.');
+  }
+};
+
+/**
+ * REST surface:
+ *   GET  /api/health
+ *   GET  /api/me                           { userId, isAdmin }
+ *   GET  /api/accounts                     public account fields for every user
+ *   GET  /api/leaderboard?board&season&seasonOffset&exercise&division&page&pageSize
+ *   GET  /api/rewards                      the caller's earned, claimed and claimable points
+ *   GET  /api/rewards/claims               the caller's claim ledger, newest first
+ *   POST /api/rewards/claim                { recipient } + Idempotency-Key header pays out claimable points
+ *                                          from the treasury; 200 once confirmed, 202 while still pending
+ *   POST /api/history/:entryId/anchor      writes the synced entry's hash on-chain; { entry } with its anchor
+ *   GET  /api/admin/sessions?filter=pending|all              flagged/rejected sessions (admins only)
+ *   POST /api/admin/sessions/:userId/:entryId/review         { decision, note } approves or rejects one
+ *   GET  /api/sync/:collection?since=<ts>  the caller's records changed after a server timestamp
+ *   POST /api/sync/:collection             { records } upserts/tombstones, newer updatedAt wins
+ */
+export const createSyncRequestHandler = ({
+  store,
+  reviews,
+  verifyToken,
+  adminUserIds = [],
+  payouts,
+  anchors,
+  allowedOrigin = '*',
+}: SyncHandlerOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Idempotency-Key');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean);
+
+      if (req.method === 'GET' && url.pathname === '/api/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      const userId = await authenticate(req, verifyToken);
+
+      const isAdmin = adminUserIds.includes(userId);
+
+      if (req.method === 'GET' && url.pathname === '/api/me') {
+        sendJson(res, 200, { userId, isAdmin });
+        return;
+      }
+
+      if (segments[0] === 'api' && segments[1] === 'admin') {
+        if (!isAdmin) throw createHttpError(403, 'Admins only.');
+
+        if (req.method === 'GET' && segments.length === 3 && segments[2] === 'sessions') {
+          const filter = url.searchParams.get('filter') === 'all' ? 'all' : 'pending';
+          sendJson(res, 200, { sessions: reviews.listQueue(filter) });
+          return;
+        }
+
+        if (req.method === 'POST' && segments.length === 6 && segments[2] === 'sessions' && segments[5] === 'review') {
+          const { decision, note } = parseReview(await readJsonBody(req));
+          const session = reviews.review(decodeURIComponent(segments[3]), decodeURIComponent(segments[4]), userId, decision, note);
+          if (!session) throw createHttpError(404, 'No such synced session.');
+          sendJson(res, 200, { session });
+          return;
+        }
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/accounts') {
+        sendJson(res, 200, { accounts: store.listPublicAccounts() });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/leaderboard') {
+        const query = parseLeaderboardQuery(url.searchParams);
+        let leaderboard;
+        try {
+          leaderboard = buildLeaderboard({
+            accounts: store.listAccounts(),
+            historyByUser: store.listHistoryByUser(),
+            reviewsByUser: reviews.listReviewsByUser(),
+            query,
+            viewerId: userId,
+            now: Date.now(),
+          });
+        } catch (err) {
+          // Only query problems (unknown division, form board without exercise) land here.
+          throw createHttpError(400, err instanceof Error ? err.message : 'Invalid leaderboard query.');
+        }
+        sendJson(res, 200, leaderboard);
+        return;
+      }
+
+      if (segments[0] === 'api' && segments[1] === 'rewards') {
+        if (!payouts) throw createHttpError(503, 'Reward payouts are not configured on this server.');
+
+        if (req.method === 'GET' && segments.length === 2) {
+          sendJson(res, 200, payouts.getStatus(userId));
+          return;
+        }
+
+        if (req.method === 'GET' && segments.length === 3 && segments[2] === 'claims') {
+          sendJson(res, 200, { claims: await payouts.listClaims(userId) });
+          return;
+        }
+
+        if (req.method === 'POST' && segments.length === 3 && segments[2] === 'claim') {
+          const idempotencyKey = parseIdempotencyKey(req);
+          const recipient = parseClaimRecipient(await readJsonBody(req));
+          try {
+            const result = await payouts.claim(userId, recipient, idempotencyKey);
+            sendJson(res, result.claim.status === 'pending' ? 202 : 200, result);
+          } catch (err) {
+            if (isRewardPayoutError(err)) throw createHttpError(PAYOUT_ERROR_STATUS[err.code], err.message);
+            throw err;
+          }
+          return;
+        }
+      }
+
+      if (req.method === 'POST' && segments.length === 4 && segments[0] === 'api' && segments[1] === 'history' && segments[3] === 'anchor') {
+        if (!anchors) throw createHttpError(503, 'Workout anchoring is not configured on this server.');
+        try {
+          sendJson(res, 200, { entry: await anchors.anchor(userId, decodeURIComponent(segments[2])) });
+        } catch (err) {
+          if (isWorkoutAnchorError(err)) throw createHttpError(ANCHOR_ERROR_STATUS[err.code], err.message);
+          throw err;
+        }
+        return;
+      }
+
+      if (segments.length === 3 && segments[0] === 'api' && segments[1] === 'sync') {
+        const collection = parseCollection(segments[2]);
+
+        if (req.method === 'GET') {
+          const since = Number(url.searchParams.get('since') ?? 0);
+          sendJson(res, 200, store.pull(userId, collection, Number.isFinite(since) ? since : 0));
+          return;
+        }
+
+        if (req.method === 'POST') {
+          const records = parseRecords(await readJsonBody(req));
+          if (collection === 'accounts' && records.some(record => record.id !== userId)) {
+            throw createHttpError(403, 'You can only sync your own account.');
+          }
+          sendJson(res, 200, store.push(userId, collection, records));
+          return;
+        }
+      }
+
+      throw createHttpError(404, 'Not found.');
+    } catch (err) {
+      if (isHttpError(err)) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
+      console.error('Sync request failed:', err);
+      sendJson(res, 500, { error: 'Internal server error.' });
+    }
+  };
@@ -0,0 +1,134 @@
+import {
+  PublicUserAccount,
+  SyncCollection,
+  SyncPullResponse,
+  SyncPushResponse,
+  SyncRecord,
+  UserAccount,
+  WorkoutHistoryEntry,
+} from '../types';
+import type { SyncDatabase } from './database';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['accounts', 'routines', 'history'];
+
+export interface SyncStore {
+  pull: (userId: string, collection: SyncCollection, since: number) => SyncPullResponse;
+  push: (userId: string, collection: SyncCollection, records: SyncRecord[]) => SyncPushResponse;
+  listPublicAccounts: () => PublicUserAccount[];
+  // Server-side only: includes division fields (bodyweight) that are never sent to other users.
+  listAccounts: () => Omit<UserAccount, 'password'>[];
+  listHistoryByUser: () => Record<string, WorkoutHistoryEntry[]>;
+  listHistory: (userId: string) => WorkoutHistoryEntry[];
+}
+
+type RecordRow = {
+  id: string;
+  updated_at: number;
+  server_updated_at: number;
+  deleted: number;
+  data: string | null;
+};
+
+const toSyncRecord = (row: RecordRow): SyncRecord => ({
+  id: row.id,
+  updatedAt: row.updated_at,
+  ...(row.deleted ? { deleted: true } : { data: row.data ? JSON.parse(row.data) : undefined }),
+});
+
+export const createSyncStore = (db: SyncDatabase): SyncStore => {
+  // Pull cursors use the server's own clock so client clock skew can't hide writes. Stamps are
+  // strictly increasing, so a cursor equal to the last stamp never skips a later write.
+  let lastStamp = Number(db.all<{ stamp: number | null }>('SELECT MAX(server_updated_at) AS stamp FROM records')[0]?.stamp ?? 0);
+  const nextStamp = () => {
+    lastStamp = Math.max(Date.now(), lastStamp + 1);
+    return lastStamp;
+  };
+
+  const getRow = (userId: string, collection: SyncCollection, id: string) =>
+    db.all<RecordRow>(
+      'SELECT id, updated_at, server_updated_at, deleted, data FROM records WHERE user_id = ? AND collection = ? AND id = ?',
+      [userId, collection, id]
+    )[0];
+
+  const pull = (userId: string, collection: SyncCollection, since: number): SyncPullResponse => {
+    const rows = db.all<RecordRow>(
+      `SELECT id, updated_at, server_updated_at, deleted, data FROM records
+       WHERE user_id = ? AND collection = ? AND server_updated_at > ?
+       ORDER BY server_updated_at`,
+      [userId, collection, since]
+    );
+    return { records: rows.map(toSyncRecord), serverTime: lastStamp };
+  };
+
+  const push = (userId: string, collection: SyncCollection, records: SyncRecord[]): SyncPushResponse =>
+    db.transaction(() => {
+      const applied: string[] = [];
+      const conflicts: SyncRecord[] = [];
+
+      records.forEach(record => {
+        const existing = getRow(userId, collection, record.id);
+        // Last writer wins by client timestamp; ties keep the server copy so retries are idempotent.
+        if (existing && existing.updated_at >= record.updatedAt) {
+          if (existing.updated_at > record.updatedAt) conflicts.push(toSyncRecord(existing));
+          else applied.push(record.id);
+          return;
+        }
+        db.run(
+          `INSERT INTO records (user_id, collection, id, updated_at, server_updated_at, deleted, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (user_id, collection, id) DO UPDATE SET
+             updated_at = excluded.updated_at,
+             server_updated_at = excluded.server_updated_at,
+             deleted = excluded.deleted,
+             data = excluded.data`,
+          [
+            userId,
+            collection,
+            record.id,
+            record.updatedAt,
+            nextStamp(),
+            record.deleted ? 1 : 0,
+            record.deleted ? null : JSON.stringify(record.data ?? null),
+          ]
+        );
+        applied.push(record.id);
+      });
+
+      return { applied, conflicts, serverTime: lastStamp };
+    });
+
+  const listLiveData = <T>(collection: SyncCollection) =>
+    db
+      .all<{ user_id: string; data: string }>(
+        'SELECT user_id, data FROM records WHERE collection = ? AND deleted = 0 AND data IS NOT NULL',
+        [collection]
+      )
+      .map(row => ({ userId: row.user_id, data: JSON.parse(row.data) as T }));
+
+  const listAccounts = () =>
+    listLiveData<UserAccount>('accounts').map(({ data }) => {
+      const { password: _password, ...account } = data;
+      return account;
+    });
+
+  const listPublicAccounts = (): PublicUserAccount[] =>
+    listAccounts().map(
+      ({ email: _email, bodyweightKg: _bodyweightKg, solanaWalletProof: _solanaWalletProof, ttsSettings: _ttsSettings, ...account }) => account
+    );
+
+  const listHistoryByUser = () =>
+    listLiveData<WorkoutHistoryEntry>('history').reduce<Record<string, WorkoutHistoryEntry[]>>((acc, { userId, data }) => {
+      (acc[userId] ??= []).push(data);
+      return acc;
+    }, {});
+
+  const listHistory = (userId: string) =>
+    db
+      .all<{ data: string }>(
+        "SELECT data FROM records WHERE user_id = ? AND collection = 'history' AND deleted = 0 AND data IS NOT NULL",
+        [userId]
+      )
+      .map(row => JSON.parse(row.data) as WorkoutHistoryEntry);
+
+  return { pull, push, listPublicAccounts, listAccounts, listHistoryByUser, listHistory };
+};
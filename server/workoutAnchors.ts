@@ -0,0 +1,178 @@
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { WorkoutAnchor, WorkoutHistoryEntry } from '../types';
+import { isSessionAccepted, verifyHistory } from '../services/sessionVerification';
+import { resolveClusterConfig, SolanaClusterConfig } from '../services/solanaCluster';
+import { checkOwnershipProof } from '../services/walletProof';
+import { createWorkoutMemoInstruction, hashWorkoutEntry } from '../services/workoutAnchor';
+import type { SyncDatabase } from './database';
+import type { SessionReviewService } from './sessionReviews';
+import type { SyncStore } from './syncStore';
+
+export type WorkoutAnchorErrorCode =
+  | 'not_found'
+  | 'not_verified'
+  | 'already_anchored'
+  | 'rate_limited'
+  | 'anchor_in_progress'
+  | 'anchor_failed';
+
+export interface WorkoutAnchorError extends Error {
+  code: WorkoutAnchorErrorCode;
+}
+
+const createWorkoutAnchorError = (message: string, code: WorkoutAnchorErrorCode): WorkoutAnchorError => {
+  const err = new Error(message) as WorkoutAnchorError;
+  err.name = 'WorkoutAnchorError';
+  err.code = code;
+  return err;
+};
+
+export const isWorkoutAnchorError = (err: unknown): err is WorkoutAnchorError =>
+  err instanceof Error && err.name === 'WorkoutAnchorError';
+
+// The subset of Connection anchoring uses; tests substitute a fake.
+export type AnchorConnection = Pick<Connection, 'getLatestBlockhash' | 'sendRawTransaction' | 'confirmTransaction'>;
+
+export interface WorkoutAnchorService {
+  /**
+   * Writes the hash of a synced history entry to the cluster in a memo signed by the treasury and
+   * syncs the anchor back onto the entry. The treasury pays for every memo, so only verified or
+   * approved sessions are anchored, each entry once per cluster, and a user only gets
+   * `maxAnchorsPerDay` of them.
+   */
+  anchor: (userId: string, entryId: string) => Promise<WorkoutHistoryEntry>;
+}
+
+interface WorkoutAnchorOptions {
+  db: SyncDatabase;
+  store: SyncStore;
+  reviews: Pick<SessionReviewService, 'getReviews'>;
+  connection: AnchorConnection;
+  // Pays the transaction fee and signs the memo, so anchors can be told apart from self-made ones.
+  treasury: Keypair;
+  cluster?: SolanaClusterConfig;
+  // New anchors per user in any 24 hours.
+  maxAnchorsPerDay?: number;
+  now?: () => number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ANCHORS_PER_DAY = 20;
+
+type AnchorRow = {
+  hash: string;
+  signature: string;
+  cluster: string;
+  wallet: string | null;
+  anchored_at: number;
+};
+
+const toAnchor = (row: AnchorRow): WorkoutAnchor => ({
+  hash: row.hash,
+  signature: row.signature,
+  cluster: row.cluster as WorkoutAnchor['cluster'],
+  ...(row.wallet ? { wallet: row.wallet } : {}),
+  anchoredAt: row.anchored_at,
+});
+
+export const createWorkoutAnchorService = ({
+  db,
+  store,
+  reviews,
+  connection,
+  treasury,
+  cluster = resolveClusterConfig(),
+  maxAnchorsPerDay = DEFAULT_MAX_ANCHORS_PER_DAY,
+  now = Date.now,
+}: WorkoutAnchorOptions): WorkoutAnchorService => {
+  const anchorsInFlight = new Set<string>();
+
+  // Only a wallet the user proved they own is hashed in; anyone can type an address into their account.
+  const getVerifiedWallet = async (userId: string) => {
+    const account = store.listAccounts().find(candidate => candidate.id === userId);
+    const { solanaWalletAddress: address, solanaWalletProof: proof } = account ?? {};
+    if (!address || !proof) return undefined;
+    return (await checkOwnershipProof(proof, { address, accountId: userId })) === null ? address : undefined;
+  };
+
+  const sendMemo = async (hash: string): Promise<string> => {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(cluster.commitment);
+    const transaction = new Transaction({ feePayer: treasury.publicKey, blockhash, lastValidBlockHeight }).add(
+      createWorkoutMemoInstruction(hash, treasury.publicKey)
+    );
+    transaction.sign(treasury);
+    try {
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, cluster.commitment);
+      if (confirmation.value.err) throw new Error(JSON.stringify(confirmation.value.err));
+      return signature;
+    } catch (err) {
+      console.error('Workout anchor transaction failed:', err);
+      throw createWorkoutAnchorError('The anchoring transaction did not confirm. Try again.', 'anchor_failed');
+    }
+  };
+
+  const anchor = async (userId: string, entryId: string): Promise<WorkoutHistoryEntry> => {
+    const synced = store.pull(userId, 'history', 0).records.find(record => record.id === entryId && !record.deleted);
+    if (!synced) throw createWorkoutAnchorError('No such synced workout.', 'not_found');
+    const key = `${userId}:${entryId}`;
+    if (anchorsInFlight.has(key)) throw createWorkoutAnchorError('This workout is already being anchored.', 'anchor_in_progress');
+    anchorsInFlight.add(key);
+
+    try {
+      const entry = synced.data as WorkoutHistoryEntry;
+      // The server's own verification: the client's copy on the entry is not trusted.
+      const verification = verifyHistory(store.listHistory(userId), reviews.getReviews(userId)).get(entryId);
+      if (!verification || !isSessionAccepted(verification)) {
+        throw createWorkoutAnchorError('Only verified or admin-approved workouts can be anchored.', 'not_verified');
+      }
+      const wallet = await getVerifiedWallet(userId);
+      const hash = await hashWorkoutEntry(entry, wallet);
+
+      const [existing] = db.all<AnchorRow>(
+        'SELECT hash, signature, cluster, wallet, anchored_at FROM workout_anchors WHERE user_id = ? AND entry_id = ?',
+        [userId, entryId]
+      );
+      let anchored: WorkoutAnchor;
+      if (existing?.hash === hash && existing.cluster === cluster.name) {
+        anchored = toAnchor(existing);
+      } else {
+        if (existing?.cluster === cluster.name) {
+          throw createWorkoutAnchorError('This workout was changed after it was anchored; each workout is anchored once.', 'already_anchored');
+        }
+        const [{ count }] = db.all<{ count: number }>(
+          'SELECT COUNT(*) AS count FROM workout_anchors WHERE user_id = ? AND anchored_at > ?',
+          [userId, now() - DAY_MS]
+        );
+        if (count >= maxAnchorsPerDay) {
+          throw createWorkoutAnchorError(`At most ${maxAnchorsPerDay} workouts can be anchored a day. Try again tomorrow.`, 'rate_limited');
+        }
+        const signature = await sendMemo(hash);
+        anchored = { hash, signature, cluster: cluster.name, ...(wallet ? { wallet } : {}), anchoredAt: now() };
+        db.transaction(() =>
+          db.run(
+            `INSERT INTO workout_anchors (user_id, entry_id, hash, signature, cluster, wallet, anchored_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (user_id, entry_id) DO UPDATE SET
+               hash = excluded.hash,
+               signature = excluded.signature,
+               cluster = excluded.cluster,
+               wallet = excluded.wallet,
+               anchored_at = excluded.anchored_at`,
+            [userId, entryId, hash, signature, cluster.name, wallet ?? null, anchored.anchoredAt]
+          )
+        );
+      }
+
+      if (entry.anchor?.signature === anchored.signature) return entry;
+      // Like review decisions, the anchor reaches the user's devices on their next pull.
+      const updated: WorkoutHistoryEntry = { ...entry, anchor: anchored };
+      store.push(userId, 'history', [{ id: entryId, updatedAt: Math.max(now(), synced.updatedAt + 1), data: updated }]);
+      return updated;
+    } finally {
+      anchorsInFlight.delete(key);
+    }
+  };
+
+  return { anchor };
+};
@@ -0,0 +1,84 @@
+import type { LiveCallbacks, Session } from "@google/genai";
+import { AnalysisFeedback, FrameData, WorkoutRoutine, WorkoutSplitSuggestion } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAiCompatibleProvider, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL } from "./localModelService";
+
+export type AiProviderId = 'gemini' | 'openai-compatible';
+
+export type LiveCoachingSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  analyzeForm: (frames: FrameData[], selectedExercise: string) => Promise<AnalysisFeedback>;
+  suggestWorkout: (goal: string, history: WorkoutRoutine[]) => Promise<WorkoutSplitSuggestion>;
+  // Only providers with a realtime audio/video API implement live coaching. `resumeHandle` continues a
+  // session that dropped, from the handle its last resumption update carried.
+  connectLiveCoaching?: (
+    exercise: string,
+    callbacks: LiveCallbacks,
+    options?: { resumeHandle?: string }
+  ) => Promise<LiveCoachingSession>;
+}
+
+export interface AiProviderSettings {
+  providerId: AiProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export const AI_PROVIDER_OPTIONS: Array<{ id: AiProviderId; label: string; description: string }> = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Cloud form analysis, split generation and live voice coaching.' },
+  {
+    id: 'openai-compatible',
+    label: 'Local / OpenAI-compatible',
+    description: 'Any /chat/completions endpoint (Ollama, LM Studio, vLLM). No live voice coaching.',
+  },
+];
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AiProviderSettings = {
+  providerId: 'gemini',
+  model: DEFAULT_GEMINI_MODEL,
+  baseUrl: DEFAULT_LOCAL_BASE_URL,
+  apiKey: '',
+};
+
+export const getDefaultModelForProvider = (providerId: AiProviderId): string =>
+  providerId === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_LOCAL_MODEL;
+
+let activeProvider: AiProvider | null = null;
+
+export const createAiProvider = (settings: AiProviderSettings): AiProvider => {
+  if (settings.providerId === 'openai-compatible') {
+    return createOpenAiCompatibleProvider({
+      baseUrl: settings.baseUrl,
+      model: settings.model,
+      apiKey: settings.apiKey || undefined,
+    });
+  }
+  return createGeminiProvider({ model: settings.model });
+};
+
+/** Rebuilds the active provider from persisted settings; the storage repository owns saving them. */
+export const configureAiProvider = (settings: Partial<AiProviderSettings> | undefined) => {
+  activeProvider = createAiProvider({ ...DEFAULT_AI_PROVIDER_SETTINGS, ...settings });
+};
+
+/** Replaces the active provider outright, e.g. with a fake in tests or offline demos. */
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
+
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = createAiProvider(DEFAULT_AI_PROVIDER_SETTINGS);
+  }
+  return activeProvider;
+};
+
+export const analyzeForm = (frames: FrameData[], selectedExercise: string): Promise<AnalysisFeedback> =>
+  getAiProvider().analyzeForm(frames, selectedExercise);
+
+export const suggestWorkout = (goal: string, history: WorkoutRoutine[]): Promise<WorkoutSplitSuggestion> =>
+  getAiProvider().suggestWorkout(goal, history);
@@ -0,0 +1,104 @@
+import {
+  LeaderboardQuery,
+  LeaderboardResponse,
+  ReviewableSession,
+  RewardClaim,
+  RewardClaimResponse,
+  RewardStatus,
+  SessionReviewDecision,
+  WorkoutHistoryEntry,
+} from "../types";
+
+export interface ApiClient {
+  request: <T>(path: string, init?: RequestInit) => Promise<T>;
+}
+
+interface ApiClientOptions {
+  baseUrl: string;
+  getAccessToken: () => Promise<string>;
+  fetchImpl?: typeof fetch;
+}
+
+/** Base URL of the optional sync server (VITE_SYNC_URL), or null when the app runs local-only. */
+export const getSyncBaseUrl = (): string | null => {
+  const url = import.meta.env.VITE_SYNC_URL;
+  return typeof url === 'string' && url.trim() ? url.trim().replace(/\/$/, '') : null;
+};
+
+/**
+ * Token for the sync server. With VITE_SYNC_DEV_TOKENS=1 (server started with SYNC_ALLOW_DEV_TOKENS)
+ * the raw user id is sent instead of an Auth0 access token.
+ */
+export const resolveSyncAccessToken = (userId: string, getAuth0Token: () => Promise<string>): Promise<string> =>
+  import.meta.env.VITE_SYNC_DEV_TOKENS === '1' ? Promise.resolve(userId) : getAuth0Token();
+
+export const createApiClient = ({ baseUrl, getAccessToken, fetchImpl }: ApiClientOptions): ApiClient => {
+  const doFetch = fetchImpl ?? fetch.bind(globalThis);
+
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const token = await getAccessToken();
+    const response = await doFetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init.headers },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Request ${path} failed (${response.status}): ${body?.error ?? response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return { request };
+};
+
+export const fetchLeaderboard = (api: ApiClient, query: LeaderboardQuery): Promise<LeaderboardResponse> => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return api.request<LeaderboardResponse>(`/api/leaderboard?${params.toString()}`);
+};
+
+export const fetchRewardStatus = (api: ApiClient): Promise<RewardStatus> => api.request<RewardStatus>('/api/rewards');
+
+/**
+ * Asks the server to pay out everything claimable; the treasury key never leaves the server. Retrying
+ * with the same idempotency key returns the original claim, so a lost response can't pay out twice.
+ */
+export const claimRewards = (api: ApiClient, recipient: string, idempotencyKey: string): Promise<RewardClaimResponse> =>
+  api.request<RewardClaimResponse>('/api/rewards/claim', {
+    method: 'POST',
+    headers: { 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify({ recipient }),
+  });
+
+export const fetchRewardClaims = async (api: ApiClient): Promise<RewardClaim[]> =>
+  (await api.request<{ claims: RewardClaim[] }>('/api/rewards/claims')).claims;
+
+/** Anchors an already-synced history entry on-chain and returns it with its anchor. */
+export const anchorWorkout = async (api: ApiClient, entryId: string): Promise<WorkoutHistoryEntry> =>
+  (await api.request<{ entry: WorkoutHistoryEntry }>(`/api/history/${encodeURIComponent(entryId)}/anchor`, { method: 'POST' })).entry;
+
+export interface SyncProfile {
+  userId: string;
+  isAdmin: boolean;
+}
+
+export const fetchSyncProfile = (api: ApiClient): Promise<SyncProfile> => api.request<SyncProfile>('/api/me');
+
+export const fetchReviewQueue = async (api: ApiClient, filter: 'pending' | 'all' = 'pending'): Promise<ReviewableSession[]> =>
+  (await api.request<{ sessions: ReviewableSession[] }>(`/api/admin/sessions?filter=${filter}`)).sessions;
+
+export const submitSessionReview = async (
+  api: ApiClient,
+  userId: string,
+  entryId: string,
+  decision: SessionReviewDecision,
+  note?: string
+): Promise<ReviewableSession> =>
+  (
+    await api.request<{ session: ReviewableSession }>(
+      `/api/admin/sessions/${encodeURIComponent(userId)}/${encodeURIComponent(entryId)}/review`,
+      { method: 'POST', body: JSON.stringify({ decision, note }) }
+    )
+  ).session;
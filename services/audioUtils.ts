@@ -36,12 +36,3 @@ export async function decodeAudioData(
   }
   return buffer;
 }
-
-export function createPcmBlob(data: Float32Array): string {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return encodeBase64(new Uint8Array(int16.buffer));
-}
@@ -0,0 +1,229 @@
+import { CueVerbosity } from '../types';
+import { CUE_PRIORITY_RANK, CuePriority } from './speechCueQueue';
+
+// Decides which live-coaching cues get spoken and when. Safety warnings are spoken at once and are
+// never talked over; form and encouragement cues wait for the next rep boundary so they land
+// between reps instead of mid-lift, one per boundary, and repeats inside a window are dropped.
+
+export interface ScheduledCue {
+  text: string;
+  priority: CuePriority;
+  // Gemini's audio for the cue, for the voice fallback chain.
+  fallbackAudio?: string[];
+}
+
+export type CueDecision = 'speaking' | 'queued' | 'suppressed';
+
+export interface CueScheduler {
+  /** Classifies `text` unless a priority is given, then speaks, queues or drops it. */
+  submit: (text: string, options?: { priority?: CuePriority; fallbackAudio?: string[] }) => CueDecision;
+  /** A rep just finished: the most important waiting cue may be spoken. */
+  onRepBoundary: () => void;
+  /** Drops waiting cues and forgets the one speaking, e.g. after the coach was interrupted. */
+  clear: () => void;
+}
+
+export interface CueSchedulerProfile {
+  // The same cue isn't repeated within this long of being spoken.
+  repeatWindowMs: number;
+  // Quiet time after a form or encouragement cue before the next one.
+  minGapMs: number;
+  speakEncouragement: boolean;
+  // How long a cue waits for a rep boundary before it is spoken anyway, e.g. during setup or rest.
+  maxHoldMs: number;
+  // Waiting cues older than this are about a rep long gone and are dropped.
+  staleAfterMs: number;
+}
+
+export const CUE_SCHEDULER_PROFILES: Record<CueVerbosity, CueSchedulerProfile> = {
+  chatty: { repeatWindowMs: 8000, minGapMs: 1500, speakEncouragement: true, maxHoldMs: 3000, staleAfterMs: 8000 },
+  minimal: { repeatWindowMs: 30000, minGapMs: 8000, speakEncouragement: false, maxHoldMs: 5000, staleAfterMs: 6000 },
+};
+
+// A warning the lifter is still ignoring is worth repeating sooner than a form tip.
+const SAFETY_REPEAT_WINDOW_MS = 4000;
+const MAX_PENDING = 3;
+// How long after a rep ends a waiting cue may still start, before the next rep is underway.
+const REP_BOUNDARY_WINDOW_MS = 1200;
+
+const SAFETY_PATTERN =
+  /\b(stop|rack it|drop it|let go|danger\w*|unsafe|careful|injur\w*|pain|hurt\w*|round\w* (your |the )?(lower )?back|back is round\w*|lock(ing)? out your knees|knees? cav\w*)\b/i;
+const ENCOURAGEMENT_PATTERN =
+  /\b(nice|great|good (job|rep|work)|well done|awesome|excellent|perfect|keep (it )?(up|going)|strong|you('ve)? got (this|it)|crush\w*|one more|last (one|rep)|almost there|way to go)\b/i;
+
+/** Sorts a coaching line into safety, form or encouragement from its wording. */
+export const classifyCue = (text: string): CuePriority => {
+  if (SAFETY_PATTERN.test(text)) return 'safety';
+  if (ENCOURAGEMENT_PATTERN.test(text)) return 'encouragement';
+  return 'form';
+};
+
+const normalizeCue = (text: string) => text.trim().replace(/\s+/g, ' ');
+const cueKey = (text: string) => normalizeCue(text).toLowerCase().replace(/[.!?,;:]+$/, '');
+
+interface CueSchedulerOptions {
+  /** Speaks a cue, cutting off the one speaking; resolves once it has been spoken or cut off. */
+  speak: (cue: ScheduledCue) => Promise<void>;
+  verbosity?: CueVerbosity;
+  // Overrides for the verbosity's profile; tests shorten the timings.
+  profile?: Partial<CueSchedulerProfile>;
+  now?: () => number;
+}
+
+type PendingCue = ScheduledCue & { queuedAt: number };
+
+export const createCueScheduler = ({ speak, verbosity = 'chatty', profile: overrides, now = Date.now }: CueSchedulerOptions): CueScheduler => {
+  const profile = { ...CUE_SCHEDULER_PROFILES[verbosity], ...overrides };
+  const pending: PendingCue[] = [];
+  const lastSpokenAt = new Map<string, number>();
+  let speaking: ScheduledCue | null = null;
+  let lastTipAt = -Infinity;
+  // Until when a waiting cue may start: shortly after a rep boundary, or until the next cue is
+  // spoken once a cue has waited long enough.
+  let readyUntil = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (ms: number, run: () => void) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      run();
+    }, ms);
+  };
+
+  const speakNow = (cue: ScheduledCue) => {
+    speaking = cue;
+    lastSpokenAt.set(cueKey(cue.text), now());
+    if (cue.priority !== 'safety') lastTipAt = now();
+    speak(cue)
+      .catch(err => console.error('Failed to speak coaching cue:', err))
+      .then(() => {
+        if (speaking !== cue) return;
+        speaking = null;
+        drain();
+      });
+  };
+
+  const drain = () => {
+    const time = now();
+    for (let i = pending.length - 1; i >= 0; i--) {
+      if (time - pending[i].queuedAt > profile.staleAfterMs) pending.splice(i, 1);
+    }
+    if (pending.length === 0) {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      return;
+    }
+
+    // Waits for the next rep boundary, or gives up waiting after maxHoldMs.
+    if (time > readyUntil) {
+      if (!timer) {
+        schedule(Math.max(0, pending[0].queuedAt + profile.maxHoldMs - time), () => {
+          readyUntil = Infinity;
+          drain();
+        });
+      }
+      return;
+    }
+    // Whatever is speaking finishes first; drain() runs again when it does.
+    if (speaking) return;
+    const gap = pending[0].priority === 'safety' ? 0 : lastTipAt + profile.minGapMs - time;
+    if (gap > 0) {
+      schedule(gap, drain);
+      return;
+    }
+
+    readyUntil = -Infinity;
+    speakNow(pending.shift()!);
+  };
+
+  const submit: CueScheduler['submit'] = (text, { priority = classifyCue(text), fallbackAudio } = {}) => {
+    const normalized = normalizeCue(text);
+    if (!normalized) return 'suppressed';
+    if (priority === 'encouragement' && !profile.speakEncouragement) return 'suppressed';
+
+    const key = cueKey(normalized);
+    const window = priority === 'safety' ? Math.min(SAFETY_REPEAT_WINDOW_MS, profile.repeatWindowMs) : profile.repeatWindowMs;
+    const spokenAt = lastSpokenAt.get(key);
+    if (spokenAt !== undefined && now() - spokenAt < window) return 'suppressed';
+    if ((speaking && cueKey(speaking.text) === key) || pending.some(cue => cueKey(cue.text) === key)) return 'suppressed';
+
+    const cue: PendingCue = { text: normalized, priority, fallbackAudio, queuedAt: now() };
+    // A safety cue cuts off a tip, but waits its turn behind another warning.
+    if (priority === 'safety' && speaking?.priority !== 'safety') {
+      speakNow(cue);
+      return 'speaking';
+    }
+
+    const index = pending.findIndex(queued => CUE_PRIORITY_RANK[queued.priority] < CUE_PRIORITY_RANK[priority]);
+    pending.splice(index === -1 ? pending.length : index, 0, cue);
+    if (pending.length > MAX_PENDING) {
+      const lowestRank = Math.min(...pending.map(queued => CUE_PRIORITY_RANK[queued.priority]));
+      pending.splice(pending.findIndex(queued => CUE_PRIORITY_RANK[queued.priority] === lowestRank), 1);
+    }
+    // Queued warnings go as soon as the current one ends, without waiting for a rep.
+    if (priority === 'safety') readyUntil = Infinity;
+    drain();
+    return pending.includes(cue) ? 'queued' : 'suppressed';
+  };
+
+  const onRepBoundary = () => {
+    readyUntil = now() + REP_BOUNDARY_WINDOW_MS;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    drain();
+  };
+
+  const clear = () => {
+    pending.length = 0;
+    speaking = null;
+    readyUntil = -Infinity;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { submit, onRepBoundary, clear };
+};
+
+/**
+ * Gemini's transcription arrives a few words at a time; this joins the fragments into whole
+ * sentences so each cue is classified and spoken once, with the audio that came alongside it.
+ */
+export const createTranscriptCueBuffer = () => {
+  let text = '';
+  let audio: string[] = [];
+
+  const take = (sentence: string) => {
+    const cue = { text: sentence.trim(), fallbackAudio: audio };
+    audio = [];
+    return cue;
+  };
+
+  return {
+    push: (fragment: string, audioChunk?: string | null) => {
+      text += fragment;
+      if (audioChunk) audio.push(audioChunk);
+      const cues: Array<{ text: string; fallbackAudio: string[] }> = [];
+      let match: RegExpMatchArray | null;
+      while ((match = text.match(/^(.*?[.!?])(\s+|$)/s))) {
+        text = text.slice(match[0].length);
+        if (match[1].trim()) cues.push(take(match[1]));
+      }
+      return cues;
+    },
+    /** Ends the turn: whatever is left is a cue even without closing punctuation. */
+    flush: () => {
+      const rest = text.trim();
+      text = '';
+      if (!rest) {
+        audio = [];
+        return null;
+      }
+      return take(rest);
+    },
+    clear: () => {
+      text = '';
+      audio = [];
+    },
+  };
+};
@@ -6,7 +6,8 @@ export interface ElevenLabsTtsError extends Error {
     | 'invalid_response'
     | 'http_error'
     | 'network_error'
-    | 'api_error';
+    | 'api_error'
+    | 'interrupted';
   status?: number;
   statusText?: string;
   requestId?: string;
@@ -14,13 +15,32 @@ export interface ElevenLabsTtsError extends Error {
   details?: string;
 }
 
+export interface ElevenLabsVoiceSettings {
+  // 0-1: lower is more expressive, higher is steadier.
+  stability: number;
+  // 0-1: how closely the output sticks to the original voice.
+  similarityBoost: number;
+}
+
 interface SynthesizeSpeechOptions {
   voiceId?: string;
   modelId?: string;
+  voiceSettings?: ElevenLabsVoiceSettings;
+  // Closes the socket and ends the stream early, e.g. when a newer cue replaces this one.
+  signal?: AbortSignal;
 }
 
 const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
 const DEFAULT_MODEL_ID = 'eleven_turbo_v2_5';
+const ELEVEN_LABS_WS_URL = 'wss://api.elevenlabs.io';
+export const DEFAULT_ELEVEN_LABS_VOICE_SETTINGS: ElevenLabsVoiceSettings = { stability: 0.5, similarityBoost: 0.8 };
+const GENERATION_CONFIG = { chunk_length_schedule: [50, 50, 90, 120] };
+
+/** The voice and model a request with these options is spoken in, after environment and built-in defaults. */
+export const resolveElevenLabsVoice = (voiceId?: string, modelId?: string) => ({
+  voiceId: voiceId || process.env.ELEVEN_LABS_VOICE_ID || DEFAULT_VOICE_ID,
+  modelId: modelId || DEFAULT_MODEL_ID,
+});
 
 const createElevenLabsError = (
   message: string,
@@ -38,6 +58,11 @@ const createElevenLabsError = (
   return err;
 };
 
+const toVoiceSettingsPayload = ({ stability, similarityBoost }: ElevenLabsVoiceSettings = DEFAULT_ELEVEN_LABS_VOICE_SETTINGS) => ({
+  stability,
+  similarity_boost: similarityBoost,
+});
+
 const base64ToBytes = (base64: string): Uint8Array => {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
@@ -51,7 +76,7 @@ const parseWsPayload = async (data: string | Blob | ArrayBuffer | ArrayBufferVie
   if (typeof data === 'string') return JSON.parse(data);
   if (data instanceof Blob) return JSON.parse(await data.text());
   if (data instanceof ArrayBuffer) return JSON.parse(new TextDecoder().decode(data));
-  return JSON.parse(new TextDecoder().decode(data.buffer));
+  return JSON.parse(new TextDecoder().decode(data));
 };
 
 export const synthesizeSpeech = async function* (
@@ -71,12 +96,12 @@ export const synthesizeSpeech = async function* (
     throw createElevenLabsError('Cannot synthesize empty text.', 'missing_text');
   }
 
-  const voiceId = options.voiceId || process.env.ELEVEN_LABS_VOICE_ID || DEFAULT_VOICE_ID;
-  const modelId = options.modelId || DEFAULT_MODEL_ID;
-  const wsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=${encodeURIComponent(
+  const { voiceId, modelId } = resolveElevenLabsVoice(options.voiceId, options.modelId);
+  const wsUrl = `${ELEVEN_LABS_WS_URL}/v1/text-to-speech/${voiceId}/stream-input?model_id=${encodeURIComponent(
     modelId
   )}&output_format=mp3_44100_128`;
 
+  if (options.signal?.aborted) return;
   const ws = new WebSocket(wsUrl);
 
   const queue: Uint8Array[] = [];
@@ -94,6 +119,7 @@ export const synthesizeSpeech = async function* (
   const opened = new Promise<void>((resolve, reject) => {
     ws.onopen = () => resolve();
     ws.onerror = () => reject(createElevenLabsError('WebSocket connection failed.', 'network_error'));
+    options.signal?.addEventListener('abort', () => resolve(), { once: true });
   });
 
   ws.onmessage = (event: MessageEvent) => {
@@ -135,48 +161,306 @@ export const synthesizeSpeech = async function* (
     notify();
   };
 
+  const abort = () => {
+    isDone = true;
+    ws.close();
+    notify();
+  };
+  options.signal?.addEventListener('abort', abort, { once: true });
+
   try {
     await opened;
   } catch (err) {
+    options.signal?.removeEventListener('abort', abort);
     throw (err instanceof Error
       ? err
       : createElevenLabsError('WebSocket connection failed.', 'network_error'));
   }
+  if (options.signal?.aborted) return;
 
   ws.send(
     JSON.stringify({
       text: ' ',
       xi_api_key: apiKey,
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.8,
-      },
-      generation_config: {
-        chunk_length_schedule: [50, 50, 90, 120],
-      },
+      voice_settings: toVoiceSettingsPayload(options.voiceSettings),
+      generation_config: GENERATION_CONFIG,
     })
   );
 
   ws.send(JSON.stringify({ text: trimmed, try_trigger_generation: true }));
   ws.send(JSON.stringify({ text: '' }));
 
-  while (true) {
-    if (queue.length > 0) {
-      yield queue.shift()!;
-      continue;
+  try {
+    while (true) {
+      if (options.signal?.aborted) break;
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (error) throw error;
+      if (isDone) break;
+      await new Promise<void>(resolve => {
+        wakeup = resolve;
+      });
     }
-    if (error) throw error;
-    if (isDone) break;
-    await new Promise<void>(resolve => {
-      wakeup = resolve;
-    });
+  } finally {
+    // Also runs when the consumer stops iterating early, so an abandoned stream doesn't keep its socket.
+    options.signal?.removeEventListener('abort', abort);
+    if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) ws.close();
   }
 };
 
-export const formatElevenLabsErrorForUi = (error: unknown): string => {
+export interface ElevenLabsSession {
+  /**
+   * Speaks `text` over the session's socket, yielding MP3 chunks as they are generated. Aborting
+   * `signal` drops just this cue and ends it quietly; a cue cut off by interrupt() or close() fails
+   * with `interrupted` instead, so its partial audio isn't taken for the whole cue. Cues sent back
+   * to back are generated independently.
+   */
+  speak: (text: string, options?: { signal?: AbortSignal }) => AsyncGenerator<Uint8Array>;
+  /** Ends every cue still generating and ignores the rest of its audio, e.g. when Gemini is interrupted. */
+  interrupt: () => void;
+  /** Closes the socket and stops reconnecting; later cues fail. */
+  close: () => void;
+  isConnected: () => boolean;
+}
+
+interface ElevenLabsSessionOptions {
+  voiceId?: string;
+  modelId?: string;
+  voiceSettings?: ElevenLabsVoiceSettings;
+  // Waits between reconnect attempts after a network error, one attempt each. If they all fail (a bad
+  // key, an unreachable host), the session stops retrying and the next cue connects again.
+  reconnectDelaysMs?: number[];
+  // Host for the TTS socket; tests point this at a local mock server.
+  baseUrl?: string;
+}
+
+const DEFAULT_RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+// Longest idle time ElevenLabs allows; an idle socket that closes anyway is reopened by the next cue.
+const SESSION_INACTIVITY_TIMEOUT_S = 180;
+
+type SessionCue = {
+  queue: Uint8Array[];
+  error: ElevenLabsTtsError | null;
+  isDone: boolean;
+  wakeup: (() => void) | null;
+};
+
+/**
+ * One long-lived multi-context socket for live coaching, so frequent cues skip the connection setup
+ * synthesizeSpeech pays for each time. Every cue gets its own context that is flushed and closed as
+ * soon as its text is sent. A dropped socket fails the cues in flight with `network_error` and is
+ * reopened in the background with a bounded backoff.
+ */
+export const createElevenLabsSession = ({
+  voiceId,
+  modelId,
+  voiceSettings,
+  reconnectDelaysMs = DEFAULT_RECONNECT_DELAYS_MS,
+  baseUrl = ELEVEN_LABS_WS_URL,
+}: ElevenLabsSessionOptions = {}): ElevenLabsSession => {
+  const voice = resolveElevenLabsVoice(voiceId, modelId);
+  const wsUrl = `${baseUrl}/v1/text-to-speech/${voice.voiceId}/multi-stream-input?model_id=${encodeURIComponent(
+    voice.modelId
+  )}&output_format=mp3_44100_128&inactivity_timeout=${SESSION_INACTIVITY_TIMEOUT_S}`;
+
+  const cues = new Map<string, SessionCue>();
+  let socket: WebSocket | null = null;
+  let connecting: Promise<WebSocket> | null = null;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let nextCueId = 0;
+  // Bumped by interrupt() so cues still waiting for the socket are dropped too.
+  let interruptCount = 0;
+  let isClosed = false;
+
+  const notify = (cue: SessionCue) => {
+    if (cue.wakeup) {
+      cue.wakeup();
+      cue.wakeup = null;
+    }
+  };
+
+  // Dropping discards audio that arrived but hasn't been read yet, so a cancelled cue stops at once.
+  const finishCue = (contextId: string, { error = null, drop = false }: { error?: ElevenLabsTtsError | null; drop?: boolean } = {}) => {
+    const cue = cues.get(contextId);
+    if (!cue) return;
+    cues.delete(contextId);
+    if (drop) cue.queue.length = 0;
+    cue.error = error;
+    cue.isDone = true;
+    notify(cue);
+  };
+
+  const failAllCues = (error: ElevenLabsTtsError) => [...cues.keys()].forEach(contextId => finishCue(contextId, { error }));
+
+  const interruptedError = () => createElevenLabsError('The cue was interrupted before it finished.', 'interrupted');
+
+  const handleMessage = async (event: MessageEvent) => {
+    let message: any;
+    try {
+      message = await parseWsPayload(event.data as any);
+    } catch {
+      failAllCues(createElevenLabsError('Failed to parse incoming WebSocket payload.', 'invalid_response'));
+      return;
+    }
+
+    const contextId: string | undefined = message.contextId ?? message.context_id;
+    if (message.error) {
+      const error = createElevenLabsError(`ElevenLabs WebSocket error: ${message.error?.message || message.error}`, 'api_error', {
+        requestId: message.request_id,
+        details: typeof message.error === 'string' ? message.error : JSON.stringify(message.error),
+      });
+      if (contextId) finishCue(contextId, { error });
+      else failAllCues(error);
+      return;
+    }
+
+    // Audio for a cue that was interrupted or abandoned has no reader left and is dropped here.
+    const cue = contextId ? cues.get(contextId) : undefined;
+    if (!cue || !contextId) return;
+    if (message.audio) {
+      cue.queue.push(base64ToBytes(message.audio));
+      notify(cue);
+    }
+    if (message.isFinal) finishCue(contextId);
+  };
+
+  const scheduleReconnect = () => {
+    if (isClosed || reconnectTimer || reconnectAttempt >= reconnectDelaysMs.length) return;
+    const delay = reconnectDelaysMs[reconnectAttempt];
+    reconnectAttempt += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect().catch(() => undefined);
+    }, delay);
+  };
+
+  const connect = (): Promise<WebSocket> => {
+    if (socket) return Promise.resolve(socket);
+    if (connecting) return connecting;
+
+    connecting = new Promise<WebSocket>((resolve, reject) => {
+      const ws = new WebSocket(wsUrl);
+      let isOpen = false;
+      let hadError = false;
+
+      ws.onopen = () => {
+        isOpen = true;
+        connecting = null;
+        if (isClosed) {
+          ws.close();
+          reject(createElevenLabsError('The ElevenLabs session is closed.', 'network_error'));
+          return;
+        }
+        socket = ws;
+        reconnectAttempt = 0;
+        resolve(ws);
+      };
+      ws.onmessage = event => void handleMessage(event);
+      ws.onerror = () => {
+        hadError = true;
+      };
+      ws.onclose = event => {
+        const error = createElevenLabsError(
+          isOpen ? 'ElevenLabs WebSocket connection was lost.' : 'WebSocket connection failed.',
+          'network_error',
+          { status: event.code, details: event.reason || undefined }
+        );
+        if (!isOpen) {
+          connecting = null;
+          reject(error);
+          scheduleReconnect();
+          return;
+        }
+        if (socket === ws) socket = null;
+        failAllCues(error);
+        // 1006 is a dropped connection. Closes the server chose (such as its idle timeout) are
+        // reopened by the next cue instead.
+        if (hadError || event.code === 1006) scheduleReconnect();
+      };
+    });
+    return connecting;
+  };
+
+  const speak = async function* (text: string, { signal }: { signal?: AbortSignal } = {}): AsyncGenerator<Uint8Array> {
+    const apiKey = process.env.ELEVEN_LABS_API_KEY;
+    if (!apiKey) {
+      throw createElevenLabsError('ElevenLabs API key is missing. Set VITE_ELEVEN_LABS_API_KEY.', 'missing_api_key');
+    }
+    const trimmed = text.trim();
+    if (!trimmed) throw createElevenLabsError('Cannot synthesize empty text.', 'missing_text');
+    if (isClosed) throw createElevenLabsError('The ElevenLabs session is closed.', 'network_error');
+
+    const interruptsBefore = interruptCount;
+    // A cue after the retries gave up gets a fresh round of them.
+    if (!socket && !connecting && !reconnectTimer) reconnectAttempt = 0;
+    const ws = await connect();
+    if (signal?.aborted) return;
+    if (interruptCount !== interruptsBefore) throw interruptedError();
+
+    const contextId = `cue-${++nextCueId}`;
+    const cue: SessionCue = { queue: [], error: null, isDone: false, wakeup: null };
+    cues.set(contextId, cue);
+    const abort = () => finishCue(contextId, { drop: true });
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      ws.send(
+        JSON.stringify({
+          text: ' ',
+          context_id: contextId,
+          xi_api_key: apiKey,
+          voice_settings: toVoiceSettingsPayload(voiceSettings),
+          generation_config: GENERATION_CONFIG,
+        })
+      );
+      ws.send(JSON.stringify({ text: `${trimmed} `, context_id: contextId, flush: true }));
+      // Closing right after the flush still generates the flushed text, then ends with isFinal.
+      ws.send(JSON.stringify({ context_id: contextId, close_context: true }));
+
+      while (true) {
+        if (cue.queue.length > 0) {
+          yield cue.queue.shift()!;
+          continue;
+        }
+        // A cue its own caller cancelled ends quietly, whatever cut the socket meanwhile.
+        if (signal?.aborted) break;
+        if (cue.error) throw cue.error;
+        if (cue.isDone) break;
+        await new Promise<void>(resolve => {
+          cue.wakeup = resolve;
+        });
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      cues.delete(contextId);
+    }
+  };
+
+  const interrupt = () => {
+    interruptCount += 1;
+    [...cues.keys()].forEach(contextId => finishCue(contextId, { error: interruptedError(), drop: true }));
+  };
+
+  const close = () => {
+    isClosed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    interrupt();
+    socket?.close();
+    socket = null;
+  };
+
+  return { speak, interrupt, close, isConnected: () => socket !== null };
+};
+
+// `fallbackNote` says what the user hears instead.
+export const formatElevenLabsErrorForUi = (error: unknown, fallbackNote = 'Using Gemini voice fallback.'): string => {
   if (!error || typeof error !== 'object' || (error as any).name !== 'ElevenLabsTtsError') {
     const fallback = error instanceof Error ? error.message : 'Unknown ElevenLabs error.';
-    return `ElevenLabs TTS failed. Detail: ${fallback}. Using Gemini voice fallback.`;
+    return `ElevenLabs TTS failed. Detail: ${fallback}. ${fallbackNote}`;
   }
 
   const typedError = error as ElevenLabsTtsError;
@@ -186,5 +470,5 @@ export const formatElevenLabsErrorForUi = (error: unknown): string => {
   const requestIdPart = typedError.requestId ? ` Request ID: ${typedError.requestId}.` : '';
   const detail = typedError.providerMessage || typedError.details || typedError.message;
 
-  return `ElevenLabs TTS failed${statusPart}.${requestIdPart} Detail: ${detail}. Using Gemini voice fallback.`;
+  return `ElevenLabs TTS failed${statusPart}.${requestIdPart} Detail: ${detail}. ${fallbackNote}`;
 };
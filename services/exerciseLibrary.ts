@@ -0,0 +1,24 @@
+export const EXERCISE_LIBRARY: Record<string, string[]> = {
+  Legs: ['Squat', 'Deadlift', 'Leg Press', 'Lunge', 'Leg Curl', 'Leg Extension', 'Calf Raise', 'Romanian Deadlift'],
+  Chest: ['Bench Press', 'Incline Bench', 'Chest Fly', 'Push Up', 'Dips'],
+  Back: ['Barbell Row', 'Lat Pulldown', 'Pull Up', 'Face Pull', 'T-Bar Row', 'Deadlift'],
+  Shoulders: ['Overhead Press', 'Lateral Raise', 'Front Raise', 'Rear Delt Fly', 'Arnold Press'],
+  Arms: ['Bicep Curl', 'Tricep Extension', 'Hammer Curl', 'Skullcrusher', 'Preacher Curl'],
+  Core: ['Plank', 'Leg Raise', 'Russian Twist', 'Crunch', 'Hanging Leg Raise']
+};
+
+const CANONICAL_NAMES = new Map(
+  Object.values(EXERCISE_LIBRARY).flat().map(name => [name.toLowerCase(), name])
+);
+
+/**
+ * Maps "bench press" / "BENCH  PRESS" onto the library spelling. Unknown custom names are only
+ * title-cased when typed entirely in lowercase, so deliberate casing like "RDL" survives.
+ */
+export const normalizeExerciseType = (type: string): string => {
+  const collapsed = type.trim().replace(/\s+/g, ' ');
+  const canonical = CANONICAL_NAMES.get(collapsed.toLowerCase());
+  if (canonical) return canonical;
+  if (collapsed !== collapsed.toLowerCase()) return collapsed;
+  return collapsed.replace(/(^|[\s-])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase());
+};
@@ -0,0 +1,45 @@
+import type { GenerateContentParameters } from "@google/genai";
+import type { GeminiClient } from "./geminiService";
+
+/** A recorded `generateContent` response, stored as JSON under fixtures/gemini. */
+export interface GeminiFixture {
+  name: string;
+  description?: string;
+  response: unknown;
+}
+
+export interface FixtureGeminiClient {
+  client: GeminiClient;
+  // Every request the fake received, in order, so tests can assert on prompts and payloads.
+  requests: GenerateContentParameters[];
+  remaining: () => number;
+}
+
+/**
+ * Stands in for the Gemini SDK client and replays recorded responses in order.
+ * Pass it to createGeminiProvider({ client }) to exercise the real parsing path offline.
+ */
+export const createFixtureGeminiClient = (fixtures: GeminiFixture[]): FixtureGeminiClient => {
+  const queue = [...fixtures];
+  const requests: GenerateContentParameters[] = [];
+
+  const generateContent = async (params: GenerateContentParameters) => {
+    requests.push(params);
+    const next = queue.shift();
+    if (!next) {
+      throw new Error('Fixture replay exhausted: no recorded Gemini response left for this request.');
+    }
+    // Deep copy so a test mutating the parsed result can't leak into the next replay.
+    return JSON.parse(JSON.stringify(next.response));
+  };
+
+  const connect = async () => {
+    throw new Error('Live coaching is not available in fixture replay mode.');
+  };
+
+  return {
+    client: { models: { generateContent }, live: { connect } } as unknown as GeminiClient,
+    requests,
+    remaining: () => queue.length,
+  };
+};
@@ -0,0 +1,264 @@
+import { AnalysisFeedback, FormViolation, FormViolationSeverity, PoseLandmark, RepPhase } from '../types';
+import { getJointAngle, isLandmarkVisible, POSE_LANDMARKS } from './poseUtils';
+import { matchesExerciseKeyword } from './repCounter';
+
+interface FormRuleContext {
+  landmarks: PoseLandmark[];
+  // Average shoulder-to-hip distance while braced in the start position, before the latest rep.
+  baselineTorsoLength: number | null;
+}
+
+/**
+ * A rule measures one number per frame, reduces it across the rep with `aggregate`,
+ * and flags the rep when the reduced value fails `violates`.
+ */
+export interface FormRule {
+  id: string;
+  severity: FormViolationSeverity;
+  message: string;
+  cue: string;
+  measure: (context: FormRuleContext) => number | null;
+  aggregate: 'min' | 'max';
+  violates: (value: number) => boolean;
+}
+
+export interface FormChecker {
+  rules: FormRule[];
+  /** `phase` is the rep counter's phase after this frame; only eccentric and concentric frames are checked. */
+  update: (landmarks: PoseLandmark[], phase: RepPhase) => void;
+  completeRep: (repNumber: number) => FormViolation[];
+  getViolations: () => FormViolation[];
+  reset: () => void;
+}
+
+const {
+  LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_WRIST, RIGHT_WRIST,
+  LEFT_HIP, RIGHT_HIP, LEFT_KNEE, RIGHT_KNEE, LEFT_ANKLE, RIGHT_ANKLE,
+} = POSE_LANDMARKS;
+
+const getVisible = (landmarks: PoseLandmark[], indices: number[]): PoseLandmark[] | null => {
+  const points = indices.map(index => landmarks[index]);
+  return points.every(isLandmarkVisible) ? points : null;
+};
+
+// Uses depth when the pose model provides it, so leaning towards the camera in a front-view hinge
+// doesn't read as a shorter torso.
+const getTorsoLength = (landmarks: PoseLandmark[]): number | null => {
+  const points = getVisible(landmarks, [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP]);
+  if (!points) return null;
+  const [ls, rs, lh, rh] = points;
+  const depth = points.every(point => typeof point.z === 'number')
+    ? (ls.z! + rs.z!) / 2 - (lh.z! + rh.z!) / 2
+    : 0;
+  return Math.hypot((ls.x + rs.x) / 2 - (lh.x + rh.x) / 2, (ls.y + rs.y) / 2 - (lh.y + rh.y) / 2, depth);
+};
+
+const squatDepthRule: FormRule = {
+  id: 'squat-depth',
+  severity: 'form',
+  message: 'Squat depth stayed above parallel (hip crease never dropped below the knee).',
+  cue: 'Sit deeper',
+  // Positive once the hips sit lower than the knees (image y grows downward), scaled by thigh length.
+  measure: ({ landmarks }) => {
+    const points = getVisible(landmarks, [LEFT_HIP, RIGHT_HIP, LEFT_KNEE, RIGHT_KNEE]);
+    if (!points) return null;
+    const [lh, rh, lk, rk] = points;
+    const hipY = (lh.y + rh.y) / 2;
+    const kneeY = (lk.y + rk.y) / 2;
+    const thighLength = Math.hypot((lh.x + rh.x) / 2 - (lk.x + rk.x) / 2, hipY - kneeY);
+    return thighLength > 0 ? (hipY - kneeY) / thighLength : null;
+  },
+  aggregate: 'max',
+  violates: value => value < 0,
+};
+
+const kneeValgusRule: FormRule = {
+  id: 'knee-valgus',
+  severity: 'safety',
+  message: 'Knees caved inward (valgus) under load.',
+  cue: 'Knees out',
+  // Knee width relative to ankle width, only while the knees are meaningfully bent.
+  measure: ({ landmarks }) => {
+    const points = getVisible(landmarks, [LEFT_KNEE, RIGHT_KNEE, LEFT_ANKLE, RIGHT_ANKLE]);
+    const kneeAngle = getJointAngle(landmarks, 'knee');
+    if (!points || kneeAngle === null || kneeAngle > 140) return null;
+    const [lk, rk, la, ra] = points;
+    const ankleWidth = Math.abs(la.x - ra.x);
+    return ankleWidth > 0.02 ? Math.abs(lk.x - rk.x) / ankleWidth : null;
+  },
+  aggregate: 'min',
+  violates: value => value < 0.8,
+};
+
+const lumbarRoundingRule: FormRule = {
+  id: 'lumbar-rounding',
+  severity: 'safety',
+  message: 'Torso length shortened noticeably mid-rep, a sign of lower-back rounding.',
+  cue: 'Brace and keep a neutral spine',
+  // A rounding spine shortens the projected shoulder-to-hip distance compared with the braced baseline.
+  measure: ({ landmarks, baselineTorsoLength }) => {
+    const torsoLength = getTorsoLength(landmarks);
+    if (torsoLength === null || !baselineTorsoLength) return null;
+    return torsoLength / baselineTorsoLength;
+  },
+  aggregate: 'min',
+  violates: value => value < 0.85,
+};
+
+const barPathSymmetryRule: FormRule = {
+  id: 'bar-path-symmetry',
+  severity: 'form',
+  message: 'Bar path was uneven: one hand travelled noticeably higher than the other.',
+  cue: 'Press evenly with both arms',
+  // Wrist height difference relative to shoulder width.
+  measure: ({ landmarks }) => {
+    const points = getVisible(landmarks, [LEFT_WRIST, RIGHT_WRIST, LEFT_SHOULDER, RIGHT_SHOULDER]);
+    if (!points) return null;
+    const [lw, rw, ls, rs] = points;
+    const shoulderWidth = Math.hypot(ls.x - rs.x, ls.y - rs.y);
+    return shoulderWidth > 0 ? Math.abs(lw.y - rw.y) / shoulderWidth : null;
+  },
+  aggregate: 'max',
+  violates: value => value > 0.15,
+};
+
+// Ordered most-specific first, mirroring the motion profiles in repCounter.
+const EXERCISE_RULES: Array<{ keywords: string[]; rules: FormRule[] }> = [
+  { keywords: ['leg curl', 'leg extension', 'leg press'], rules: [kneeValgusRule] },
+  { keywords: ['squat'], rules: [squatDepthRule, kneeValgusRule, lumbarRoundingRule] },
+  { keywords: ['lunge'], rules: [kneeValgusRule] },
+  { keywords: ['deadlift', 'romanian', 'rdl', 'row'], rules: [lumbarRoundingRule] },
+  { keywords: ['bench', 'overhead', 'press', 'push up', 'push-up'], rules: [barPathSymmetryRule] },
+];
+
+export const getFormRules = (exercise: string): FormRule[] => {
+  return EXERCISE_RULES.find(entry => entry.keywords.some(keyword => matchesExerciseKeyword(exercise, keyword)))?.rules ?? [];
+};
+
+export const createFormChecker = (exercise: string): FormChecker => {
+  const rules = getFormRules(exercise);
+  let baselineTorsoLength: number | null = null;
+  // Torso lengths from the current stretch in the start position; the next rep is measured against their average.
+  let bracedLengths: number[] = [];
+  let wasReady = false;
+  let repValues = new Map<string, number>();
+  let violationsByRule = new Map<string, FormViolation>();
+
+  const update = (landmarks: PoseLandmark[], phase: RepPhase) => {
+    // Setup, walk-out and rest between reps only feed the baseline.
+    if (phase === 'setup') return;
+    if (phase === 'ready') {
+      const torsoLength = getTorsoLength(landmarks);
+      if (!wasReady) bracedLengths = [];
+      wasReady = true;
+      if (torsoLength !== null) {
+        bracedLengths.push(torsoLength);
+        baselineTorsoLength = bracedLengths.reduce((sum, length) => sum + length, 0) / bracedLengths.length;
+      }
+      return;
+    }
+    wasReady = false;
+
+    const context: FormRuleContext = { landmarks, baselineTorsoLength };
+    rules.forEach(rule => {
+      const value = rule.measure(context);
+      if (value === null || !Number.isFinite(value)) return;
+      const current = repValues.get(rule.id);
+      if (current === undefined) {
+        repValues.set(rule.id, value);
+      } else {
+        repValues.set(rule.id, rule.aggregate === 'min' ? Math.min(current, value) : Math.max(current, value));
+      }
+    });
+  };
+
+  const completeRep = (repNumber: number): FormViolation[] => {
+    const repViolations = rules
+      .filter(rule => {
+        const value = repValues.get(rule.id);
+        return value !== undefined && rule.violates(value);
+      })
+      .map(rule => {
+        const existing = violationsByRule.get(rule.id);
+        const violation: FormViolation = existing
+          ? { ...existing, reps: [...existing.reps, repNumber] }
+          : { ruleId: rule.id, severity: rule.severity, message: rule.message, cue: rule.cue, reps: [repNumber] };
+        violationsByRule.set(rule.id, violation);
+        return violation;
+      });
+
+    repValues = new Map();
+    return repViolations;
+  };
+
+  const reset = () => {
+    baselineTorsoLength = null;
+    bracedLengths = [];
+    wasReady = false;
+    repValues = new Map();
+    violationsByRule = new Map();
+  };
+
+  return {
+    rules,
+    update,
+    completeRep,
+    getViolations: () => Array.from(violationsByRule.values()),
+    reset,
+  };
+};
+
+const describeViolation = (violation: FormViolation) =>
+  `${violation.message} (rep${violation.reps.length > 1 ? 's' : ''} ${violation.reps.join(', ')})`;
+
+const appendUnique = (existing: string[], additions: string[]) =>
+  [...existing, ...additions.filter(item => !existing.includes(item))];
+
+/** Folds on-device rule violations into Gemini's feedback so both sources show up in the report. */
+export const mergeFormViolations = (
+  feedback: AnalysisFeedback,
+  violations: FormViolation[]
+): AnalysisFeedback => {
+  if (violations.length === 0) return feedback;
+  const formIssues = violations.filter(v => v.severity === 'form').map(describeViolation);
+  const safetyIssues = violations.filter(v => v.severity === 'safety').map(describeViolation);
+
+  return {
+    ...feedback,
+    cons: appendUnique(feedback.cons, formIssues),
+    safetyWarnings: appendUnique(feedback.safetyWarnings, safetyIssues),
+    suggestions: appendUnique(feedback.suggestions, violations.map(v => v.cue)),
+  };
+};
+
+/** Feedback built purely from the local rules, used when Gemini analysis is unavailable. */
+export const buildLocalAnalysisFeedback = (
+  exercise: string,
+  violations: FormViolation[],
+  repCount: number
+): AnalysisFeedback => {
+  const penalty = violations.reduce((acc, v) => {
+    const perRule = v.severity === 'safety' ? 15 : 8;
+    const share = repCount > 0 ? v.reps.length / repCount : 1;
+    return acc + Math.round(perRule * (0.5 + share));
+  }, 0);
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  const checkedRules = getFormRules(exercise);
+
+  return mergeFormViolations(
+    {
+      exerciseName: exercise,
+      score,
+      pros: violations.length === 0 && checkedRules.length > 0
+        ? ['No issues detected by the on-device joint-angle checks.']
+        : [],
+      cons: [],
+      suggestions: [],
+      safetyWarnings: [],
+      overallSummary: checkedRules.length === 0
+        ? `AI analysis was unavailable and there are no on-device form checks for ${exercise} yet.`
+        : `AI analysis was unavailable, so this report comes from on-device joint-angle checks across ${repCount} rep${repCount === 1 ? '' : 's'}.`,
+    },
+    violations
+  );
+};
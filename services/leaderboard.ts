@@ -0,0 +1,179 @@
+import {
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardResponse,
+  LeaderboardSeason,
+  LeaderboardSeasonWindow,
+  SessionReview,
+  UserAccount,
+  WorkoutHistoryEntry,
+} from "../types";
+import { normalizeExerciseType } from "./exerciseLibrary";
+import { isSessionAccepted, verifyHistory } from "./sessionVerification";
+
+// Pure leaderboard ranking, shared by the sync server and the offline fallback in the app.
+
+export const LEADERBOARD_PAGE_SIZE = 8;
+const MAX_PAGE_SIZE = 50;
+const VIEWER_WINDOW_RADIUS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The account's own `points` and `workoutsCompleted` are written by the client, so ranking only
+// uses what the history verifies.
+export type LeaderboardAccount = Pick<UserAccount, 'id' | 'username' | 'bodyweightKg' | 'experienceLevel'>;
+
+export interface LeaderboardDivision {
+  id: string;
+  label: string;
+  group: 'bodyweight' | 'experience';
+  matches: (account: LeaderboardAccount) => boolean;
+}
+
+const inBodyweightRange = (min: number, max: number) => (account: LeaderboardAccount) =>
+  typeof account.bodyweightKg === 'number' && account.bodyweightKg >= min && account.bodyweightKg < max;
+
+export const LEADERBOARD_DIVISIONS: LeaderboardDivision[] = [
+  { id: 'bw-u60', label: 'Under 60 kg', group: 'bodyweight', matches: inBodyweightRange(0, 60) },
+  { id: 'bw-60-75', label: '60-75 kg', group: 'bodyweight', matches: inBodyweightRange(60, 75) },
+  { id: 'bw-75-90', label: '75-90 kg', group: 'bodyweight', matches: inBodyweightRange(75, 90) },
+  { id: 'bw-90-plus', label: '90 kg+', group: 'bodyweight', matches: inBodyweightRange(90, Infinity) },
+  { id: 'exp-beginner', label: 'Beginner', group: 'experience', matches: a => a.experienceLevel === 'beginner' },
+  { id: 'exp-intermediate', label: 'Intermediate', group: 'experience', matches: a => a.experienceLevel === 'intermediate' },
+  { id: 'exp-advanced', label: 'Advanced', group: 'experience', matches: a => a.experienceLevel === 'advanced' },
+];
+
+export const getLeaderboardDivision = (id: string | undefined) =>
+  id ? LEADERBOARD_DIVISIONS.find(division => division.id === id) : undefined;
+
+/** Season boundaries in UTC: weeks start Monday 00:00, months on the 1st. Seasons reset by rolling over. */
+export const getSeasonWindow = (season: LeaderboardSeason, now: number, offset = 0): LeaderboardSeasonWindow => {
+  const date = new Date(now);
+
+  if (season === 'weekly') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    const startsAt = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday) + offset * 7 * DAY_MS;
+    return {
+      season,
+      label: `Week of ${new Date(startsAt).toISOString().slice(0, 10)}`,
+      startsAt,
+      endsAt: startsAt + 7 * DAY_MS,
+    };
+  }
+
+  if (season === 'monthly') {
+    const startsAt = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1);
+    const endsAt = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset + 1, 1);
+    return {
+      season,
+      label: new Date(startsAt).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+      startsAt,
+      endsAt,
+    };
+  }
+
+  return { season, label: 'All time', startsAt: null, endsAt: null };
+};
+
+const isInWindow = (entry: WorkoutHistoryEntry, seasonWindow: LeaderboardSeasonWindow) =>
+  (seasonWindow.startsAt === null || entry.performedAt >= seasonWindow.startsAt) &&
+  (seasonWindow.endsAt === null || entry.performedAt < seasonWindow.endsAt);
+
+const matchingSets = (entries: WorkoutHistoryEntry[], exercise: string | undefined) =>
+  entries.flatMap(entry =>
+    entry.exercises
+      .filter(ex => !exercise || normalizeExerciseType(ex.type) === exercise)
+      .flatMap(ex => ex.sets)
+  );
+
+interface BuildLeaderboardInput {
+  accounts: LeaderboardAccount[];
+  historyByUser: Record<string, WorkoutHistoryEntry[]>;
+  // Admin decisions per user and entry id; sessions that failed verification only count once approved.
+  reviewsByUser?: Record<string, Record<string, SessionReview>>;
+  query: LeaderboardQuery;
+  viewerId?: string;
+  now: number;
+}
+
+export const buildLeaderboard = ({ accounts, historyByUser, reviewsByUser = {}, query, viewerId, now }: BuildLeaderboardInput): LeaderboardResponse => {
+  const seasonWindow = getSeasonWindow(query.season, now, query.seasonOffset ?? 0);
+  const division = getLeaderboardDivision(query.division);
+  if (query.division && !division) throw new Error(`Unknown division "${query.division}".`);
+  const exercise = query.exercise?.trim() ? normalizeExerciseType(query.exercise) : undefined;
+  if (query.board === 'form' && !exercise) throw new Error('The form board needs an exercise.');
+
+  const pageSize = Math.min(Math.max(Math.floor(query.pageSize ?? LEADERBOARD_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const isAllTimePoints = query.board === 'points' && query.season === 'all-time';
+
+  const scored = accounts
+    .filter(account => !division || division.matches(account))
+    .map(account => {
+      const history = historyByUser[account.id] ?? [];
+      const verifications = verifyHistory(history, reviewsByUser[account.id], now);
+      const entries = history.filter(entry => {
+        const verification = verifications.get(entry.id);
+        return isInWindow(entry, seasonWindow) && !!verification && isSessionAccepted(verification);
+      });
+      let value = 0;
+      if (query.board === 'points') {
+        value = entries.reduce((sum, entry) => sum + (verifications.get(entry.id)?.awardedPoints ?? 0), 0);
+      } else if (query.board === 'form') {
+        const scores = matchingSets(entries, exercise).flatMap(set => (typeof set.formScore === 'number' ? [set.formScore] : []));
+        value = scores.length ? Math.max(...scores) : 0;
+      } else {
+        value = Math.round(matchingSets(entries, exercise).reduce((sum, set) => sum + set.weight * set.reps, 0));
+      }
+      return {
+        account,
+        value,
+        workoutsCompleted: entries.length,
+      };
+    })
+    // The all-time points board lists everyone; season and exercise boards only list people who competed.
+    .filter(row => isAllTimePoints || row.value > 0)
+    .sort((a, b) => {
+      if (b.value !== a.value) return b.value - a.value;
+      if (b.workoutsCompleted !== a.workoutsCompleted) return b.workoutsCompleted - a.workoutsCompleted;
+      return a.account.username.localeCompare(b.account.username);
+    });
+
+  // Competition ranking: equal values share a rank (1, 2, 2, 4).
+  const ranked: LeaderboardEntry[] = [];
+  scored.forEach((row, index) => {
+    const previous = ranked[index - 1];
+    ranked.push({
+      rank: previous && scored[index - 1].value === row.value ? previous.rank : index + 1,
+      userId: row.account.id,
+      username: row.account.username,
+      value: row.value,
+      workoutsCompleted: row.workoutsCompleted,
+    });
+  });
+
+  const totalPages = Math.max(1, Math.ceil(ranked.length / pageSize));
+  const page = Math.min(Math.max(Math.floor(query.page ?? 1), 1), totalPages);
+  const pageStart = (page - 1) * pageSize;
+
+  const viewerIndex = viewerId ? ranked.findIndex(entry => entry.userId === viewerId) : -1;
+  const viewerOnPage = viewerIndex >= pageStart && viewerIndex < pageStart + pageSize;
+
+  return {
+    board: query.board,
+    exercise,
+    division: division?.id,
+    window: seasonWindow,
+    entries: ranked.slice(pageStart, pageStart + pageSize),
+    total: ranked.length,
+    page,
+    pageSize,
+    viewer:
+      viewerIndex < 0
+        ? undefined
+        : {
+            entry: ranked[viewerIndex],
+            window: viewerOnPage
+              ? []
+              : ranked.slice(Math.max(0, viewerIndex - VIEWER_WINDOW_RADIUS), viewerIndex + VIEWER_WINDOW_RADIUS + 1),
+          },
+  };
+};
@@ -0,0 +1,123 @@
+import {
+  Behavior,
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  FunctionResponseScheduling,
+  LiveServerToolCall,
+  Type,
+} from "@google/genai";
+import { CoachJoint, FormViolationSeverity, LiveCoachEvent } from "../types";
+
+// Function declarations for the Gemini live session, so the coach reports issues, reps and the end
+// of the set as structured events the HUD can log, draw and save, besides what it says out loud.
+
+export const COACH_JOINTS: CoachJoint[] = ['neck', 'shoulders', 'elbows', 'wrists', 'back', 'hips', 'knees', 'ankles'];
+const SEVERITIES: FormViolationSeverity[] = ['form', 'safety'];
+
+// Non-blocking so the coach keeps talking while the app handles the call.
+export const LIVE_COACH_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'reportIssue',
+    description: 'Report a form or safety problem you can see, at the same time as you say the cue.',
+    behavior: Behavior.NON_BLOCKING,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        joint: { type: Type.STRING, enum: COACH_JOINTS, description: 'The body part the problem is at.' },
+        severity: {
+          type: Type.STRING,
+          enum: SEVERITIES,
+          description: "'safety' when the lifter risks injury, otherwise 'form'.",
+        },
+        cue: { type: Type.STRING, description: 'The short cue that fixes it, e.g. "Knees out".' },
+      },
+      required: ['joint', 'severity', 'cue'],
+    },
+  },
+  {
+    name: 'countRep',
+    description: 'Call once each time the lifter completes a full repetition.',
+    behavior: Behavior.NON_BLOCKING,
+  },
+  {
+    name: 'setComplete',
+    description: 'Call when the lifter has clearly finished or abandoned the set.',
+    behavior: Behavior.NON_BLOCKING,
+    parameters: {
+      type: Type.OBJECT,
+      properties: { reason: { type: Type.STRING, description: 'Why the set ended, e.g. "racked the bar".' } },
+    },
+  },
+];
+
+export const LIVE_COACH_TOOL_INSTRUCTIONS = `Whenever you correct the lifter's form, also call reportIssue with the joint, severity and cue.
+            Call countRep after every completed rep and setComplete when the set is over. Don't mention these calls out loud.`;
+
+// MediaPipe pose landmark indices to highlight for each joint.
+export const JOINT_LANDMARKS: Record<CoachJoint, number[]> = {
+  neck: [0, 11, 12],
+  shoulders: [11, 12],
+  elbows: [13, 14],
+  wrists: [15, 16],
+  back: [11, 12, 23, 24],
+  hips: [23, 24],
+  knees: [25, 26],
+  ankles: [27, 28],
+};
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+/**
+ * Turns one function call into an event, or an error message for the model when the call is
+ * unknown or its arguments are invalid. `coachRepCount` is the coach's count before this call.
+ */
+export const parseLiveCoachToolCall = (
+  call: FunctionCall,
+  at: number,
+  coachRepCount: number
+): { event: LiveCoachEvent } | { error: string } => {
+  const args = call.args ?? {};
+  if (call.name === 'reportIssue') {
+    const joint = typeof args.joint === 'string' ? args.joint.toLowerCase() : args.joint;
+    const cue = typeof args.cue === 'string' ? args.cue.trim() : '';
+    if (!isOneOf(COACH_JOINTS, joint)) return { error: `joint must be one of ${COACH_JOINTS.join(', ')}.` };
+    if (!isOneOf(SEVERITIES, args.severity)) return { error: "severity must be 'form' or 'safety'." };
+    if (!cue) return { error: 'cue must be a non-empty string.' };
+    return { event: { type: 'issue', at, joint, severity: args.severity, cue } };
+  }
+  if (call.name === 'countRep') return { event: { type: 'rep', at, count: coachRepCount + 1 } };
+  if (call.name === 'setComplete') {
+    const reason = typeof args.reason === 'string' && args.reason.trim() ? args.reason.trim() : undefined;
+    return { event: { type: 'set-complete', at, ...(reason ? { reason } : {}) } };
+  }
+  return { error: `Unknown function ${call.name ?? '(unnamed)'}.` };
+};
+
+/**
+ * Handles a tool call message: the events it carries, and one response per call for
+ * sendToolResponse. Responses are silent so the model doesn't talk about them.
+ */
+export const handleLiveCoachToolCall = (
+  toolCall: LiveServerToolCall,
+  { at, coachRepCount }: { at: number; coachRepCount: number }
+): { events: LiveCoachEvent[]; responses: FunctionResponse[] } => {
+  const events: LiveCoachEvent[] = [];
+  const responses: FunctionResponse[] = [];
+  let count = coachRepCount;
+  for (const call of toolCall.functionCalls ?? []) {
+    const result = parseLiveCoachToolCall(call, at, count);
+    if ('event' in result) {
+      events.push(result.event);
+      if (result.event.type === 'rep') count = result.event.count;
+    }
+    responses.push({
+      id: call.id,
+      name: call.name,
+      scheduling: FunctionResponseScheduling.SILENT,
+      response: 'event' in result ? { output: 'ok' } : { error: result.error },
+    });
+  }
+  return { events, responses };
+};
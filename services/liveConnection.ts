@@ -0,0 +1,140 @@
+import type { LiveCallbacks, LiveSendRealtimeInputParameters, LiveServerMessage } from "@google/genai";
+import type { LiveCoachingSession } from "./aiProvider";
+
+// Keeps a live coaching session alive across dropped sockets. A closed or failed connection is
+// reopened with backoff, resuming the server-side session from its latest resumption handle so the
+// coach keeps the context of the set. Camera frames sent while reconnecting are buffered and
+// replayed; microphone audio is dropped, since it would be stale by then.
+
+export type LiveConnectionState = 'connecting' | 'live' | 'reconnecting' | 'closed';
+
+export interface LiveConnection extends LiveCoachingSession {
+  getState: () => LiveConnectionState;
+}
+
+interface LiveConnectionOptions {
+  /** Opens one session; `resumeHandle` continues an earlier one. */
+  connect: (callbacks: LiveCallbacks, resumeHandle?: string) => Promise<LiveCoachingSession>;
+  onMessage: (message: LiveServerMessage) => void;
+  onStateChange?: (state: LiveConnectionState) => void;
+  // Waits between reconnect attempts; the last one repeats until a connect succeeds.
+  reconnectDelaysMs?: number[];
+  // Most recent camera frames kept while disconnected, about three seconds at the HUD's frame rate.
+  maxBufferedFrames?: number;
+}
+
+const DEFAULT_RECONNECT_DELAYS_MS = [250, 1000, 2000, 4000, 8000];
+const DEFAULT_MAX_BUFFERED_FRAMES = 8;
+
+const isFrame = (input: LiveSendRealtimeInputParameters) =>
+  !!input.video || !!(input.media as { mimeType?: string } | undefined)?.mimeType?.startsWith('image/');
+
+export const createLiveConnection = ({
+  connect,
+  onMessage,
+  onStateChange,
+  reconnectDelaysMs = DEFAULT_RECONNECT_DELAYS_MS,
+  maxBufferedFrames = DEFAULT_MAX_BUFFERED_FRAMES,
+}: LiveConnectionOptions): LiveConnection => {
+  let state: LiveConnectionState = 'connecting';
+  let session: LiveCoachingSession | null = null;
+  let resumeHandle: string | undefined;
+  let failedAttempts = 0;
+  // Bumped per attempt so callbacks from an abandoned socket are ignored.
+  let attemptId = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const bufferedFrames: LiveSendRealtimeInputParameters[] = [];
+
+  const setState = (next: LiveConnectionState) => {
+    if (state === next) return;
+    state = next;
+    onStateChange?.(next);
+  };
+
+  const scheduleReconnect = () => {
+    if (state === 'closed') return;
+    session = null;
+    setState('reconnecting');
+    const delay = reconnectDelaysMs[Math.min(failedAttempts, reconnectDelaysMs.length - 1)] ?? 0;
+    failedAttempts += 1;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void open();
+    }, delay);
+  };
+
+  const open = async () => {
+    const id = ++attemptId;
+    const usedHandle = resumeHandle;
+    let hasFailed = false;
+    const isCurrent = () => id === attemptId && state !== 'closed';
+    // A socket can both reject the connect and report a close; either one schedules a single retry.
+    const fail = () => {
+      if (!isCurrent() || hasFailed) return;
+      hasFailed = true;
+      // The server may refuse to resume from a handle it no longer has; the next attempt starts fresh.
+      if (!session && usedHandle !== undefined && resumeHandle === usedHandle) resumeHandle = undefined;
+      scheduleReconnect();
+    };
+
+    try {
+      const opened = await connect(
+        {
+          onopen: () => undefined,
+          onmessage: message => {
+            if (!isCurrent()) return;
+            const update = message.sessionResumptionUpdate;
+            if (update?.resumable && update.newHandle) resumeHandle = update.newHandle;
+            onMessage(message);
+          },
+          onerror: event => {
+            if (isCurrent()) console.error('Live coaching connection error:', event);
+          },
+          onclose: fail,
+        },
+        usedHandle
+      );
+      if (!isCurrent() || hasFailed) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      failedAttempts = 0;
+      setState('live');
+      bufferedFrames.splice(0).forEach(frame => opened.sendRealtimeInput(frame));
+    } catch (err) {
+      console.error('Failed to connect live coaching:', err);
+      fail();
+    }
+  };
+
+  void open();
+
+  return {
+    getState: () => state,
+    sendRealtimeInput: input => {
+      if (state === 'closed') return;
+      if (session && state === 'live') {
+        session.sendRealtimeInput(input);
+        return;
+      }
+      if (!isFrame(input)) return;
+      bufferedFrames.push(input);
+      if (bufferedFrames.length > maxBufferedFrames) bufferedFrames.splice(0, bufferedFrames.length - maxBufferedFrames);
+    },
+    // Answers belong to the socket that asked; a resumed session doesn't expect them.
+    sendToolResponse: params => {
+      if (session && state === 'live') session.sendToolResponse(params);
+    },
+    close: () => {
+      if (state === 'closed') return;
+      setState('closed');
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      bufferedFrames.length = 0;
+      session?.close();
+      session = null;
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import { AnalysisFeedback, FrameData, WorkoutRoutine, WorkoutSplitSuggestion } from "../types";
+import type { AiProvider } from "./aiProvider";
+import {
+  buildFormAnalysisPrompt,
+  buildSplitPrompt,
+  parseAnalysisResponse,
+  parseSplitResponse,
+  sampleFramesForAnalysis,
+} from "./aiCommon";
+
+// Works against any server exposing the OpenAI `/chat/completions` API,
+// e.g. Ollama (`ollama serve` → http://localhost:11434/v1), LM Studio or vLLM.
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llava';
+
+interface OpenAiCompatibleProviderOptions {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleProviderOptions = {}): AiProvider => {
+  const baseUrl = (options.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+  const model = options.model || DEFAULT_LOCAL_MODEL;
+  const fetchImpl = options.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  const createChatCompletion = async (content: string | ChatContentPart[]): Promise<string | undefined> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content }],
+          response_format: { type: 'json_object' },
+          stream: false,
+        }),
+      });
+    } catch (err) {
+      console.error('Local model request failed:', err);
+      throw new Error(`Could not reach local model at ${baseUrl}. Is the server running?`);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      console.error('Local model returned an error:', response.status, body.slice(0, 1000));
+      throw new Error(`Local model request failed (${response.status}${response.statusText ? ` ${response.statusText}` : ''}).`);
+    }
+
+    const payload = await response.json().catch(() => null);
+    const message = payload?.choices?.[0]?.message?.content;
+    return typeof message === 'string' ? message : undefined;
+  };
+
+  const analyzeForm = async (
+    frames: FrameData[],
+    selectedExercise: string
+  ): Promise<AnalysisFeedback> => {
+    const sampledFrames = sampleFramesForAnalysis(frames);
+    const text = await createChatCompletion([
+      { type: 'text', text: buildFormAnalysisPrompt(sampledFrames.length, selectedExercise) },
+      ...sampledFrames.map((frame): ChatContentPart => ({ type: 'image_url', image_url: { url: frame.dataUrl } })),
+    ]);
+    return parseAnalysisResponse(text, selectedExercise);
+  };
+
+  const suggestWorkout = async (
+    goal: string,
+    history: WorkoutRoutine[]
+  ): Promise<WorkoutSplitSuggestion> => {
+    const text = await createChatCompletion(buildSplitPrompt(goal, history));
+    return parseSplitResponse(text);
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: `Local model (${model})`,
+    analyzeForm,
+    suggestWorkout,
+  };
+};
@@ -0,0 +1,55 @@
+import micCaptureWorkletUrl from './micCaptureWorklet.ts?worker&url';
+import { encodeBase64 } from './audioUtils';
+import type { MicMode } from '../types';
+import type { MicCaptureCommand } from './micCaptureWorklet';
+import type { MicPipelineEvent } from './micPipeline';
+
+// Streams the microphone to the live coach through the capture AudioWorklet (see micPipeline.ts
+// for the resampling and gating it does off the main thread).
+
+export interface MicCapture {
+  setTalking: (talking: boolean) => void;
+  close: () => void;
+}
+
+interface MicCaptureOptions {
+  // Runs at the device's own rate; the worklet resamples to 16 kHz.
+  context: AudioContext;
+  stream: MediaStream;
+  mode: MicMode;
+  /** Base64 16 kHz 16-bit PCM. */
+  onAudio: (pcmBase64: string) => void;
+  // The gate closed after sending audio.
+  onAudioEnd: () => void;
+  onSpeechChange?: (active: boolean) => void;
+}
+
+export const createMicCapture = async ({ context, stream, mode, onAudio, onAudioEnd, onSpeechChange }: MicCaptureOptions): Promise<MicCapture> => {
+  await context.audioWorklet.addModule(micCaptureWorkletUrl);
+  const source = context.createMediaStreamSource(stream);
+  // No outputs: the node only listens, and is still processed without reaching the destination.
+  const node = new AudioWorkletNode(context, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { mode },
+  });
+  node.port.onmessage = (event: MessageEvent<MicPipelineEvent>) => {
+    const message = event.data;
+    if (message.type === 'chunk') onAudio(encodeBase64(new Uint8Array(message.pcm.buffer)));
+    else if (message.type === 'end') onAudioEnd();
+    else onSpeechChange?.(message.active);
+  };
+  source.connect(node);
+
+  const send = (command: MicCaptureCommand) => node.port.postMessage(command);
+  return {
+    setTalking: talking => send({ type: 'talking', talking }),
+    close: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+};
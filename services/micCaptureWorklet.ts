@@ -0,0 +1,37 @@
+import type { MicMode } from '../types';
+import { createMicPipeline, MicPipeline } from './micPipeline';
+
+// AudioWorklet processor for the live coaching microphone; loaded by services/micCapture.ts.
+// Chunks are posted as transferred buffers so the main thread only base64-encodes and sends them.
+
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new (options: { processorOptions?: { mode?: MicMode } }) => AudioWorkletProcessor): void;
+
+export type MicCaptureCommand = { type: 'talking'; talking: boolean };
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  private readonly pipeline: MicPipeline;
+
+  constructor(options: { processorOptions?: { mode?: MicMode } }) {
+    super();
+    this.pipeline = createMicPipeline({ inputSampleRate: sampleRate, mode: options.processorOptions?.mode });
+    this.port.onmessage = (event: MessageEvent<MicCaptureCommand>) => {
+      if (event.data.type === 'talking') this.pipeline.setTalking(event.data.talking);
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+    for (const event of this.pipeline.push(channel)) {
+      if (event.type === 'chunk') this.port.postMessage(event, [event.pcm.buffer]);
+      else this.port.postMessage(event);
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
@@ -0,0 +1,151 @@
+// Microphone processing for live coaching, run inside the capture AudioWorklet so none of it shares
+// the main thread with pose tracking: resampling to the 16 kHz Gemini expects, 16-bit PCM encoding,
+// and a gate that only lets speech through (voice activity) or only while the talk button is held.
+// Kept free of worklet globals so it can be tested directly.
+
+import type { MicMode } from '../types';
+
+export const MIC_SAMPLE_RATE = 16000;
+
+export type MicPipelineEvent =
+  | { type: 'chunk'; pcm: Int16Array }
+  // The gate closed: the coach should stop waiting for more audio.
+  | { type: 'end' }
+  | { type: 'speech'; active: boolean };
+
+export interface MicPipeline {
+  /** Feeds one block at the input rate; returns what to send, in order. */
+  push: (block: Float32Array) => MicPipelineEvent[];
+  /** Push-to-talk button state. */
+  setTalking: (talking: boolean) => void;
+}
+
+/**
+ * Streaming resampler: a moving average as the anti-aliasing filter, then linear interpolation.
+ * Enough for speech going to a recognizer, and cheap enough for every render quantum.
+ */
+export const createResampler = (inputRate: number, outputRate = MIC_SAMPLE_RATE) => {
+  const ratio = inputRate / outputRate;
+  if (ratio === 1) return (block: Float32Array) => Float32Array.from(block);
+
+  const taps = Math.max(1, Math.round(ratio));
+  const history = new Float32Array(taps);
+  let historyIndex = 0;
+  let historySum = 0;
+  // Where the next output sample falls, counted from the last filtered sample of the previous block.
+  let position = 0;
+  let previous = 0;
+
+  return (block: Float32Array) => {
+    const filtered = new Float32Array(block.length);
+    for (let i = 0; i < block.length; i++) {
+      historySum += block[i] - history[historyIndex];
+      history[historyIndex] = block[i];
+      historyIndex = (historyIndex + 1) % taps;
+      filtered[i] = historySum / taps;
+    }
+
+    const output: number[] = [];
+    for (; position < block.length; position += ratio) {
+      const index = Math.floor(position);
+      const from = index === 0 ? previous : filtered[index - 1];
+      output.push(from + (filtered[index] - from) * (position - index));
+    }
+    position -= block.length;
+    if (block.length > 0) previous = filtered[block.length - 1];
+    return Float32Array.from(output);
+  };
+};
+
+export const floatToPcm16 = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+};
+
+interface VoiceActivityOptions {
+  // RMS below this is never speech, however quiet the room.
+  minRms?: number;
+  // Speech has to be this many times louder than the tracked background noise.
+  noiseRatio?: number;
+  // How long the gate stays open after the last loud chunk, so pauses between words aren't cut.
+  hangoverMs?: number;
+}
+
+/** Energy-based detector over whole chunks, with a noise floor that follows a loud gym. */
+export const createVoiceActivityDetector = (
+  chunkMs: number,
+  { minRms = 0.015, noiseRatio = 2.5, hangoverMs = 400 }: VoiceActivityOptions = {}
+) => {
+  let noiseFloor = minRms / noiseRatio;
+  let quietFor = Infinity;
+
+  return (chunk: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < chunk.length; i++) sum += chunk[i] * chunk[i];
+    const rms = Math.sqrt(sum / Math.max(1, chunk.length));
+    const loud = rms > Math.max(minRms, noiseFloor * noiseRatio);
+    // The floor falls quickly and rises slowly; it barely moves during speech, but music that
+    // starts up still becomes background after a few seconds.
+    noiseFloor += (rms - noiseFloor) * (rms < noiseFloor ? 0.3 : loud ? 0.01 : 0.05);
+    quietFor = loud ? 0 : quietFor + chunkMs;
+    return quietFor < hangoverMs;
+  };
+};
+
+interface MicPipelineOptions extends VoiceActivityOptions {
+  inputSampleRate: number;
+  mode?: MicMode;
+  // Audio is sent in chunks this long.
+  chunkMs?: number;
+}
+
+export const createMicPipeline = ({ inputSampleRate, mode = 'voice-activity', chunkMs = 100, ...vad }: MicPipelineOptions): MicPipeline => {
+  const resample = createResampler(inputSampleRate);
+  const isSpeech = createVoiceActivityDetector(chunkMs, vad);
+  const chunkSize = Math.round((MIC_SAMPLE_RATE * chunkMs) / 1000);
+  const chunk = new Float32Array(chunkSize);
+  let filled = 0;
+  let talking = false;
+  let speaking = false;
+  let open = false;
+  // The chunk before speech was detected holds its first syllable.
+  let preRoll: Int16Array | null = null;
+
+  const completeChunk = (events: MicPipelineEvent[]) => {
+    const pcm = floatToPcm16(chunk);
+    const speech = isSpeech(chunk);
+    if (speech !== speaking) {
+      speaking = speech;
+      events.push({ type: 'speech', active: speech });
+    }
+
+    const shouldSend = mode === 'push-to-talk' ? talking : speech;
+    if (shouldSend && !open && preRoll && mode === 'voice-activity') events.push({ type: 'chunk', pcm: preRoll });
+    if (shouldSend) events.push({ type: 'chunk', pcm });
+    else if (open) events.push({ type: 'end' });
+    open = shouldSend;
+    preRoll = shouldSend ? null : pcm;
+  };
+
+  return {
+    push: block => {
+      const events: MicPipelineEvent[] = [];
+      const samples = resample(block);
+      for (let i = 0; i < samples.length; i++) {
+        chunk[filled++] = samples[i];
+        if (filled === chunkSize) {
+          completeChunk(events);
+          filled = 0;
+        }
+      }
+      return events;
+    },
+    setTalking: next => {
+      talking = next;
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import { PoseLandmark } from '../types';
+
+// MediaPipe BlazePose landmark indices used by the on-device analysis.
+export const POSE_LANDMARKS = {
+  NOSE: 0,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+} as const;
+
+export type TrackedJoint = 'knee' | 'hip' | 'elbow';
+export type BodySide = 'left' | 'right';
+
+const MIN_VISIBILITY = 0.5;
+
+// Each joint angle is measured at the middle landmark of the triplet.
+const JOINT_TRIPLETS: Record<TrackedJoint, Record<BodySide, [number, number, number]>> = {
+  knee: {
+    left: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+    right: [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  },
+  hip: {
+    left: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+    right: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+  },
+  elbow: {
+    left: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+    right: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  },
+};
+
+export const isLandmarkVisible = (landmark?: PoseLandmark): landmark is PoseLandmark =>
+  !!landmark && (landmark.visibility ?? 1) >= MIN_VISIBILITY;
+
+/** Angle ABC in degrees (0-180), measured at vertex B. */
+export const computeAngle = (a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number => {
+  const abX = a.x - b.x;
+  const abY = a.y - b.y;
+  const cbX = c.x - b.x;
+  const cbY = c.y - b.y;
+  const dot = abX * cbX + abY * cbY;
+  const magnitude = Math.hypot(abX, abY) * Math.hypot(cbX, cbY);
+  if (magnitude === 0) return 0;
+  const cosine = Math.max(-1, Math.min(1, dot / magnitude));
+  return (Math.acos(cosine) * 180) / Math.PI;
+};
+
+export const getSideJointAngle = (
+  landmarks: PoseLandmark[],
+  joint: TrackedJoint,
+  side: BodySide
+): number | null => {
+  const [a, b, c] = JOINT_TRIPLETS[joint][side].map(index => landmarks[index]);
+  if (!isLandmarkVisible(a) || !isLandmarkVisible(b) || !isLandmarkVisible(c)) return null;
+  return computeAngle(a, b, c);
+};
+
+/** Averages both sides when visible, otherwise uses whichever side the camera can see. */
+export const getJointAngle = (landmarks: PoseLandmark[], joint: TrackedJoint): number | null => {
+  const left = getSideJointAngle(landmarks, joint, 'left');
+  const right = getSideJointAngle(landmarks, joint, 'right');
+  if (left !== null && right !== null) return (left + right) / 2;
+  return left ?? right;
+};
@@ -0,0 +1,199 @@
+import { PoseLandmark, RepEvent, RepPhase } from '../types';
+import { getJointAngle, TrackedJoint } from './poseUtils';
+
+type JointDirection = 'flex' | 'extend';
+
+export interface ExerciseMotionProfile {
+  joint: TrackedJoint;
+  // Joint angle (degrees) at or above which the joint counts as locked out.
+  extendedAngle: number;
+  // Joint angle (degrees) at or below which the joint counts as fully flexed.
+  flexedAngle: number;
+  startPosition: 'extended' | 'flexed';
+  concentric: JointDirection;
+}
+
+export interface RepCounterState {
+  count: number;
+  phase: RepPhase;
+  angle: number | null;
+}
+
+export interface RepCounter {
+  profile: ExerciseMotionProfile;
+  update: (landmarks: PoseLandmark[], timestamp: number) => RepEvent | null;
+  getState: () => RepCounterState;
+  reset: () => void;
+}
+
+// Ordered most-specific first: "Leg Curl" must win over "Curl", "Romanian Deadlift" over "Deadlift".
+const MOTION_PROFILES: Array<{ keywords: string[]; profile: ExerciseMotionProfile }> = [
+  {
+    keywords: ['leg curl'],
+    profile: { joint: 'knee', extendedAngle: 155, flexedAngle: 95, startPosition: 'extended', concentric: 'flex' },
+  },
+  {
+    keywords: ['leg extension'],
+    profile: { joint: 'knee', extendedAngle: 155, flexedAngle: 100, startPosition: 'flexed', concentric: 'extend' },
+  },
+  {
+    keywords: ['romanian', 'rdl'],
+    profile: { joint: 'hip', extendedAngle: 160, flexedAngle: 120, startPosition: 'extended', concentric: 'extend' },
+  },
+  {
+    keywords: ['deadlift'],
+    profile: { joint: 'hip', extendedAngle: 160, flexedAngle: 110, startPosition: 'extended', concentric: 'extend' },
+  },
+  {
+    keywords: ['squat', 'lunge', 'leg press'],
+    profile: { joint: 'knee', extendedAngle: 160, flexedAngle: 100, startPosition: 'extended', concentric: 'extend' },
+  },
+  {
+    keywords: ['overhead', 'arnold', 'military', 'shoulder press'],
+    profile: { joint: 'elbow', extendedAngle: 150, flexedAngle: 95, startPosition: 'flexed', concentric: 'extend' },
+  },
+  {
+    keywords: ['curl', 'row', 'pulldown', 'pull up', 'pull-up', 'chin', 'face pull'],
+    profile: { joint: 'elbow', extendedAngle: 145, flexedAngle: 85, startPosition: 'extended', concentric: 'flex' },
+  },
+  {
+    keywords: ['bench', 'push up', 'push-up', 'dip', 'press', 'skullcrusher', 'tricep'],
+    profile: { joint: 'elbow', extendedAngle: 150, flexedAngle: 95, startPosition: 'extended', concentric: 'extend' },
+  },
+];
+
+// Unknown/custom movements fall back to an elbow press pattern, which covers most accessory lifts.
+const DEFAULT_MOTION_PROFILE: ExerciseMotionProfile = {
+  joint: 'elbow',
+  extendedAngle: 150,
+  flexedAngle: 95,
+  startPosition: 'extended',
+  concentric: 'extend',
+};
+
+// Exponential smoothing factor for the joint angle; MediaPipe landmarks jitter a few degrees per frame.
+const ANGLE_SMOOTHING = 0.4;
+// Degrees the angle must move back from its extreme before we treat the rep as turning around.
+const TURNAROUND_HYSTERESIS = 8;
+
+/**
+ * Whole-word match so "Chest Press Machine" doesn't read as a chin-up or "Narrow-grip Bench" as a
+ * row; a trailing plural ("Rows", "Presses") still matches.
+ */
+export const matchesExerciseKeyword = (exercise: string, keyword: string) =>
+  new RegExp(`(^|[^a-z])${keyword}(e?s)?([^a-z]|$)`).test(exercise.trim().toLowerCase());
+
+export const getExerciseMotionProfile = (exercise: string): ExerciseMotionProfile => {
+  const match = MOTION_PROFILES.find(entry => entry.keywords.some(keyword => matchesExerciseKeyword(exercise, keyword)));
+  return match?.profile ?? DEFAULT_MOTION_PROFILE;
+};
+
+export const createRepCounter = (exercise: string): RepCounter => {
+  const profile = getExerciseMotionProfile(exercise);
+  const startsExtended = profile.startPosition === 'extended';
+  // Leaving the start position moves the joint in this direction; returning moves it the other way.
+  const outboundDirection: JointDirection = startsExtended ? 'flex' : 'extend';
+  const outboundPhase: RepPhase = outboundDirection === profile.concentric ? 'concentric' : 'eccentric';
+  const returnPhase: RepPhase = outboundPhase === 'concentric' ? 'eccentric' : 'concentric';
+
+  const isAtStart = (angle: number) =>
+    startsExtended ? angle >= profile.extendedAngle : angle <= profile.flexedAngle;
+  const isAtEnd = (angle: number) =>
+    startsExtended ? angle <= profile.flexedAngle : angle >= profile.extendedAngle;
+  // True when `candidate` is further from the start position than `current`.
+  const isFurtherFromStart = (candidate: number, current: number) =>
+    startsExtended ? candidate < current : candidate > current;
+
+  let count = 0;
+  let phase: RepPhase = 'setup';
+  let smoothedAngle: number | null = null;
+  let repStartedAt = 0;
+  let extremeAngle = 0;
+  let extremeAt = 0;
+  let reachedEnd = false;
+  let turnaroundAt = 0;
+  let minAngle = 180;
+  let maxAngle = 0;
+
+  const beginRep = (angle: number, timestamp: number) => {
+    phase = outboundPhase;
+    repStartedAt = timestamp;
+    extremeAngle = angle;
+    extremeAt = timestamp;
+    reachedEnd = false;
+    minAngle = angle;
+    maxAngle = angle;
+  };
+
+  const update = (landmarks: PoseLandmark[], timestamp: number): RepEvent | null => {
+    const rawAngle = getJointAngle(landmarks, profile.joint);
+    if (rawAngle === null) return null;
+
+    smoothedAngle = smoothedAngle === null
+      ? rawAngle
+      : smoothedAngle + ANGLE_SMOOTHING * (rawAngle - smoothedAngle);
+    const angle = smoothedAngle;
+    minAngle = Math.min(minAngle, angle);
+    maxAngle = Math.max(maxAngle, angle);
+
+    switch (phase) {
+      case 'setup':
+        // Don't count anything until the lifter has been seen in the start position once.
+        if (isAtStart(angle)) phase = 'ready';
+        return null;
+
+      case 'ready':
+        if (!isAtStart(angle)) beginRep(angle, timestamp);
+        return null;
+
+      case 'eccentric':
+      case 'concentric':
+        if (phase === outboundPhase) {
+          if (isFurtherFromStart(angle, extremeAngle)) {
+            extremeAngle = angle;
+            extremeAt = timestamp;
+          }
+          if (isAtEnd(angle)) reachedEnd = true;
+
+          if (isAtStart(angle)) {
+            // Came back without hitting the required range: a partial rep, don't count it.
+            phase = 'ready';
+            return null;
+          }
+
+          if (reachedEnd && Math.abs(angle - extremeAngle) >= TURNAROUND_HYSTERESIS) {
+            phase = returnPhase;
+            turnaroundAt = extremeAt;
+          }
+          return null;
+        }
+
+        if (!isAtStart(angle)) return null;
+
+        count += 1;
+        phase = 'ready';
+        return {
+          count,
+          startedAt: repStartedAt,
+          turnaroundAt,
+          completedAt: timestamp,
+          minAngle: Math.round(minAngle),
+          maxAngle: Math.round(maxAngle),
+        };
+    }
+  };
+
+  const reset = () => {
+    count = 0;
+    phase = 'setup';
+    smoothedAngle = null;
+    reachedEnd = false;
+  };
+
+  return {
+    profile,
+    update,
+    getState: () => ({ count, phase, angle: smoothedAngle }),
+    reset,
+  };
+};
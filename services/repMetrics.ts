@@ -0,0 +1,123 @@
+import { PoseLandmark, RepEvent, RepMetrics } from '../types';
+import { getExerciseMotionProfile, matchesExerciseKeyword } from './repCounter';
+import { isLandmarkVisible, POSE_LANDMARKS } from './poseUtils';
+
+type TrackedPoint = 'wrists' | 'shoulders' | 'ankles';
+
+interface PositionSample {
+  timestamp: number;
+  // Vertical position of the tracked point, in torso lengths.
+  position: number;
+}
+
+export interface RepMetricsTracker {
+  update: (landmarks: PoseLandmark[], timestamp: number) => void;
+  summarizeRep: (rep: RepEvent) => RepMetrics;
+  reset: () => void;
+}
+
+const TRACKED_POINT_LANDMARKS: Record<TrackedPoint, [number, number]> = {
+  wrists: [POSE_LANDMARKS.LEFT_WRIST, POSE_LANDMARKS.RIGHT_WRIST],
+  shoulders: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER],
+  ankles: [POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.RIGHT_ANKLE],
+};
+
+// The hands are the best bar proxy except where the bar sits on the back or the load moves with the feet.
+const TRACKED_POINTS: Array<{ keywords: string[]; point: TrackedPoint }> = [
+  { keywords: ['leg press', 'leg curl', 'leg extension'], point: 'ankles' },
+  { keywords: ['squat', 'lunge'], point: 'shoulders' },
+];
+
+// Keep a little more than one slow rep of history.
+const SAMPLE_WINDOW_MS = 15000;
+// Instantaneous speed is measured over at least this span to smooth landmark jitter.
+const MIN_VELOCITY_SPAN_MS = 80;
+
+const getTrackedPoint = (exercise: string): TrackedPoint => {
+  return TRACKED_POINTS.find(entry => entry.keywords.some(keyword => matchesExerciseKeyword(exercise, keyword)))?.point ?? 'wrists';
+};
+
+export const createRepMetricsTracker = (exercise: string): RepMetricsTracker => {
+  const profile = getExerciseMotionProfile(exercise);
+  const [leftIndex, rightIndex] = TRACKED_POINT_LANDMARKS[getTrackedPoint(exercise)];
+  // Mirrors createRepCounter: the half of the rep that leaves the start position.
+  const outboundIsConcentric = (profile.startPosition === 'extended' ? 'flex' : 'extend') === profile.concentric;
+  let samples: PositionSample[] = [];
+  let torsoLength = 0;
+
+  const update = (landmarks: PoseLandmark[], timestamp: number) => {
+    const ls = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+    const rs = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+    const lh = landmarks[POSE_LANDMARKS.LEFT_HIP];
+    const rh = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+    if ([ls, rs, lh, rh].every(isLandmarkVisible)) {
+      torsoLength = Math.max(torsoLength, Math.abs((ls.y + rs.y) / 2 - (lh.y + rh.y) / 2));
+    }
+
+    const visiblePoints = [landmarks[leftIndex], landmarks[rightIndex]].filter(isLandmarkVisible);
+    if (visiblePoints.length === 0 || torsoLength === 0) return;
+
+    const y = visiblePoints.reduce((acc, point) => acc + point.y, 0) / visiblePoints.length;
+    samples.push({ timestamp, position: y / torsoLength });
+    samples = samples.filter(sample => timestamp - sample.timestamp <= SAMPLE_WINDOW_MS);
+  };
+
+  const measureVelocity = (from: number, to: number) => {
+    const window = samples.filter(sample => sample.timestamp >= from && sample.timestamp <= to);
+    if (window.length < 2 || to <= from) return { mean: 0, peak: 0 };
+
+    const first = window[0];
+    const last = window[window.length - 1];
+    const elapsedSeconds = (last.timestamp - first.timestamp) / 1000;
+    const mean = elapsedSeconds > 0 ? Math.abs(last.position - first.position) / elapsedSeconds : 0;
+
+    let peak = 0;
+    let anchor = 0;
+    for (let i = 1; i < window.length; i++) {
+      while (anchor < i - 1 && window[i].timestamp - window[anchor + 1].timestamp >= MIN_VELOCITY_SPAN_MS) {
+        anchor += 1;
+      }
+      const span = window[i].timestamp - window[anchor].timestamp;
+      if (span < MIN_VELOCITY_SPAN_MS) continue;
+      peak = Math.max(peak, Math.abs(window[i].position - window[anchor].position) / (span / 1000));
+    }
+
+    return { mean, peak: Math.max(peak, mean) };
+  };
+
+  const summarizeRep = (rep: RepEvent): RepMetrics => {
+    const outboundMs = Math.max(0, rep.turnaroundAt - rep.startedAt);
+    const returnMs = Math.max(0, rep.completedAt - rep.turnaroundAt);
+    const velocity = outboundIsConcentric
+      ? measureVelocity(rep.startedAt, rep.turnaroundAt)
+      : measureVelocity(rep.turnaroundAt, rep.completedAt);
+
+    return {
+      rep: rep.count,
+      timeUnderTensionMs: Math.round(rep.completedAt - rep.startedAt),
+      eccentricMs: Math.round(outboundIsConcentric ? returnMs : outboundMs),
+      concentricMs: Math.round(outboundIsConcentric ? outboundMs : returnMs),
+      meanConcentricVelocity: Number(velocity.mean.toFixed(3)),
+      peakConcentricVelocity: Number(velocity.peak.toFixed(3)),
+    };
+  };
+
+  const reset = () => {
+    samples = [];
+    torsoLength = 0;
+  };
+
+  return { update, summarizeRep, reset };
+};
+
+/** Drop from the fastest rep to the latest one, as a percentage (standard velocity-based training measure). */
+export const computeVelocityLoss = (metrics: RepMetrics[]): number | null => {
+  const velocities = metrics.map(m => m.meanConcentricVelocity).filter(v => v > 0);
+  if (velocities.length < 2) return null;
+  const best = Math.max(...velocities);
+  const latest = velocities[velocities.length - 1];
+  return Math.max(0, Math.round(((best - latest) / best) * 100));
+};
+
+export const getTotalTimeUnderTension = (metrics: RepMetrics[]): number =>
+  metrics.reduce((acc, m) => acc + m.timeUnderTensionMs, 0);
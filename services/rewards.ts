@@ -0,0 +1,24 @@
+import { RewardAsset, SessionReview, WorkoutHistoryEntry } from "../types";
+import { verifyHistory } from "./sessionVerification";
+
+export const POINTS_TO_SOL_RATE = 0.0001; // 1 point = 0.0001 SOL (1000 pts = 0.1 SOL)
+
+// The default payout when the server has no reward token configured.
+export const SOL_REWARD_ASSET: RewardAsset = { kind: 'sol', symbol: 'SOL', decimals: 9, perPoint: POINTS_TO_SOL_RATE };
+
+/** Points in whole SOL or tokens of `asset`. */
+export const convertPointsToAmount = (points: number, asset: RewardAsset): number => points * asset.perPoint;
+
+/** Points in the asset's smallest unit (lamports, or token base units), as sent on chain. */
+export const convertPointsToBaseUnits = (points: number, asset: RewardAsset): bigint =>
+  BigInt(Math.round(points * asset.perPoint * 10 ** asset.decimals));
+
+export const formatRewardAmount = (amount: number, symbol: string): string =>
+  `${amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${symbol}`;
+
+/**
+ * Points earned from logged workouts that passed verification (or were approved on review). The
+ * payout service recomputes this from synced history rather than trusting the account's running total.
+ */
+export const calculateEarnedPoints = (history: WorkoutHistoryEntry[], reviews: Record<string, SessionReview> = {}): number =>
+  [...verifyHistory(history, reviews).values()].reduce((sum, verification) => sum + verification.awardedPoints, 0);
@@ -0,0 +1,224 @@
+import { UserAccount, WorkoutHistoryEntry, WorkoutRoutine } from "../types";
+import { normalizeExerciseType } from "./exerciseLibrary";
+
+// Records saved before versioning existed carry no stamp and are treated as version 1.
+export const CURRENT_SCHEMA_VERSION = 2;
+const LEGACY_SCHEMA_VERSION = 1;
+
+export type StoredCollection = 'accounts' | 'routines' | 'history';
+
+export interface SchemaIssue {
+  collection: StoredCollection;
+  // Position in the stored list, or -1 when the payload as a whole is unreadable.
+  index: number;
+  recordId?: string;
+  message: string;
+}
+
+export interface MigrationResult<T> {
+  records: T[];
+  issues: SchemaIssue[];
+  // Raw values that failed validation, so callers can keep a copy instead of overwriting them.
+  rejected: unknown[];
+  migratedCount: number;
+}
+
+type StoredRecord = Record<string, any>;
+
+interface SchemaMigration {
+  toVersion: number;
+  description: string;
+  // Collection-wide so a step can look across records (e.g. grouping split days).
+  migrate: (records: StoredRecord[]) => StoredRecord[];
+}
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const getRecordVersion = (record: StoredRecord): number =>
+  isFiniteNumber(record.schemaVersion) ? record.schemaVersion : LEGACY_SCHEMA_VERSION;
+
+const normalizeExercises = (exercises: unknown) =>
+  Array.isArray(exercises)
+    ? exercises.map(ex => (isRecord(ex) && typeof ex.type === 'string' ? { ...ex, type: normalizeExerciseType(ex.type) } : ex))
+    : exercises;
+
+const slugify = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'split';
+
+const ACCOUNT_MIGRATIONS: SchemaMigration[] = [
+  {
+    toVersion: 2,
+    description: 'Type the email that Auth0 sign-in patched onto accounts; default a missing password.',
+    migrate: records =>
+      records.map(({ email, ...account }) => ({
+        ...account,
+        ...(isNonEmptyString(email) ? { email: email.trim() } : {}),
+        password: typeof account.password === 'string' ? account.password : '',
+      })),
+  },
+];
+
+const ROUTINE_MIGRATIONS: SchemaMigration[] = [
+  {
+    toVersion: 2,
+    description: 'Normalize exercise casing and back-fill splitGroupId/dayIndex for split days.',
+    migrate: records => {
+      const migrated: StoredRecord[] = records.map(routine => ({ ...routine, exercises: normalizeExercises(routine.exercises) }));
+
+      // Older split days were saved with only a splitName, all days of a split next to each other.
+      // Separate splits can share a name, so a group is a run of adjacent days with that name, and a
+      // day name coming round again starts the next split. The first day's id keeps the group unique.
+      let run: { splitName: string; groupId: string; dayNames: Set<string> } | null = null;
+      migrated.forEach(routine => {
+        if (routine.splitGroupId || !isNonEmptyString(routine.splitName)) {
+          run = null;
+          return;
+        }
+        const splitName = routine.splitName.trim();
+        const dayName = typeof routine.name === 'string' ? routine.name.trim().toLowerCase() : '';
+        if (!run || run.splitName !== splitName || run.dayNames.has(dayName)) {
+          run = { splitName, groupId: `legacy-split-${slugify(splitName)}-${routine.id}`, dayNames: new Set() };
+        }
+        run.dayNames.add(dayName);
+        routine.splitGroupId = run.groupId;
+      });
+
+      const groups = new Map<string, StoredRecord[]>();
+      migrated.forEach(routine => {
+        if (!isNonEmptyString(routine.splitGroupId)) return;
+        groups.set(routine.splitGroupId, [...(groups.get(routine.splitGroupId) ?? []), routine]);
+      });
+      groups.forEach(days => {
+        if (days.every(day => isFiniteNumber(day.dayIndex))) return;
+        // Keep days that already have an index in front, then append the rest in stored order.
+        const ordered = [...days].sort((a, b) => (a.dayIndex ?? Infinity) - (b.dayIndex ?? Infinity));
+        ordered.forEach((day, index) => {
+          day.dayIndex = index;
+        });
+      });
+
+      return migrated;
+    },
+  },
+];
+
+const HISTORY_MIGRATIONS: SchemaMigration[] = [
+  {
+    toVersion: 2,
+    description: 'Normalize exercise casing so history lines up with routines.',
+    migrate: records => records.map(entry => ({ ...entry, exercises: normalizeExercises(entry.exercises) })),
+  },
+];
+
+const validateExercises = (exercises: unknown): string | null => {
+  if (!Array.isArray(exercises)) return 'exercises must be a list';
+  for (const ex of exercises) {
+    if (!isRecord(ex) || !isNonEmptyString(ex.id) || !isNonEmptyString(ex.type)) {
+      return 'every exercise needs an id and a type';
+    }
+    if (!Array.isArray(ex.sets)) return `exercise "${ex.type}" has no sets list`;
+    if (ex.sets.some((set: unknown) => !isRecord(set) || !isNonEmptyString(set.id) || !isFiniteNumber(set.reps))) {
+      return `exercise "${ex.type}" has a set without an id or rep count`;
+    }
+  }
+  return null;
+};
+
+const VALIDATORS: Record<StoredCollection, (record: StoredRecord) => string | null> = {
+  accounts: account => {
+    if (!isNonEmptyString(account.id)) return 'missing id';
+    if (typeof account.username !== 'string') return 'missing username';
+    if (!isFiniteNumber(account.createdAt)) return 'missing createdAt';
+    return null;
+  },
+  routines: routine => {
+    if (!isNonEmptyString(routine.id)) return 'missing id';
+    if (typeof routine.name !== 'string') return 'missing name';
+    return validateExercises(routine.exercises);
+  },
+  history: entry => {
+    if (!isNonEmptyString(entry.id)) return 'missing id';
+    if (typeof entry.routineId !== 'string' || typeof entry.routineName !== 'string') return 'missing routine reference';
+    if (!isFiniteNumber(entry.performedAt)) return 'missing performedAt';
+    return validateExercises(entry.exercises);
+  },
+};
+
+const MIGRATIONS: Record<StoredCollection, SchemaMigration[]> = {
+  accounts: ACCOUNT_MIGRATIONS,
+  routines: ROUTINE_MIGRATIONS,
+  history: HISTORY_MIGRATIONS,
+};
+
+const migrateCollection = <T>(collection: StoredCollection, payload: unknown): MigrationResult<T> => {
+  if (payload === undefined || payload === null) {
+    return { records: [], issues: [], rejected: [], migratedCount: 0 };
+  }
+  if (!Array.isArray(payload)) {
+    return {
+      records: [],
+      issues: [{ collection, index: -1, message: `Stored ${collection} are not a list (got ${typeof payload}).` }],
+      rejected: [payload],
+      migratedCount: 0,
+    };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const rejected: unknown[] = [];
+  const entries: Array<{ index: number; record: StoredRecord }> = [];
+
+  payload.forEach((value, index) => {
+    if (!isRecord(value)) {
+      issues.push({ collection, index, message: 'Entry is not an object.' });
+      rejected.push(value);
+      return;
+    }
+    entries.push({ index, record: value });
+  });
+
+  // Records from a newer build skip every step below and are only validated.
+  const migratedCount = entries.filter(entry => getRecordVersion(entry.record) < CURRENT_SCHEMA_VERSION).length;
+  let working = entries;
+  for (const migration of MIGRATIONS[collection]) {
+    const pending = working.filter(entry => getRecordVersion(entry.record) < migration.toVersion);
+    if (pending.length === 0) continue;
+
+    const upgraded = migration.migrate(pending.map(entry => entry.record));
+    const byIndex = new Map(pending.map((entry, i) => [entry.index, { ...upgraded[i], schemaVersion: migration.toVersion }]));
+    working = working.map(entry => (byIndex.has(entry.index) ? { index: entry.index, record: byIndex.get(entry.index)! } : entry));
+  }
+  const records: T[] = [];
+  working.forEach(({ index, record }) => {
+    const problem = VALIDATORS[collection](record);
+    if (problem) {
+      issues.push({ collection, index, recordId: typeof record.id === 'string' ? record.id : undefined, message: problem });
+      rejected.push(payload[index]);
+      return;
+    }
+    records.push(record as T);
+  });
+
+  return { records, issues, rejected, migratedCount };
+};
+
+export const migrateAccounts = (payload: unknown) => migrateCollection<UserAccount>('accounts', payload);
+export const migrateRoutines = (payload: unknown) => migrateCollection<WorkoutRoutine>('routines', payload);
+export const migrateHistory = (payload: unknown) => migrateCollection<WorkoutHistoryEntry>('history', payload);
+
+/** Stamps records on save so the next load knows which migrations they already went through. */
+export const stampSchemaVersion = <T extends { schemaVersion?: number }>(records: T[]): T[] =>
+  records.map(record =>
+    (record.schemaVersion ?? LEGACY_SCHEMA_VERSION) >= CURRENT_SCHEMA_VERSION ? record : { ...record, schemaVersion: CURRENT_SCHEMA_VERSION }
+  );
+
+export const formatSchemaIssues = (issues: SchemaIssue[]): string => {
+  const collections = Array.from(new Set(issues.map(issue => issue.collection)));
+  return `${issues.length} saved ${issues.length === 1 ? 'record' : 'records'} in ${collections.join(', ')} could not be read and ${
+    issues.length === 1 ? 'was' : 'were'
+  } set aside.`;
+};
@@ -0,0 +1,241 @@
+import {
+  SessionReview,
+  SessionVerification,
+  SessionVerificationStatus,
+  SetLog,
+  VerificationReason,
+  WorkoutHistoryEntry,
+} from "../types";
+import { normalizeExerciseType } from "./exerciseLibrary";
+import { calculateWorkoutPoints } from "./workoutPoints";
+
+// Plausibility scoring for logged sessions, shared by the app (award time) and the sync server
+// (payouts, leaderboards, admin review). Every check is a penalty against a score of 100.
+
+const VERIFIED_MIN_SCORE = 70;
+const FLAGGED_MIN_SCORE = 40;
+
+const MAX_REPS_PER_SET = 100;
+const MAX_WEIGHT_KG = 500;
+// Logging a set plus the shortest sensible rest.
+const MIN_SET_GAP_MS = 15_000;
+const MAX_SETS_PER_SESSION = 60;
+const DUPLICATE_WINDOW_MS = 60 * 60 * 1000;
+// performedAt is when the session was finished; every set falls within this long before it.
+const MAX_SESSION_MS = 6 * 60 * 60 * 1000;
+// Client clocks run a little ahead of the server's.
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MAX_SESSIONS_PER_DAY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PENALTIES = {
+  implausibleValues: 100,
+  setsTooCloseSome: 30,
+  setsTooCloseMost: 70,
+  excessiveVolume: 40,
+  historyOutlier: 20,
+  noPoseVerification: 15,
+  duplicateSession: 100,
+  timestampsOutsideSession: 50,
+  tooManySessions: 50,
+};
+
+const describe = (names: string[]) => names.join(', ');
+
+const sessionSets = (entry: WorkoutHistoryEntry) => entry.exercises.flatMap(ex => ex.sets);
+
+const isImplausibleSet = (set: SetLog) =>
+  !Number.isInteger(set.reps) || set.reps < 1 || set.reps > MAX_REPS_PER_SET ||
+  !Number.isFinite(set.weight) || set.weight < 0 || set.weight > MAX_WEIGHT_KG;
+
+// Same exercises, reps and weights; ids and timestamps left out.
+const contentFingerprint = (entry: WorkoutHistoryEntry) =>
+  JSON.stringify(
+    entry.exercises
+      .filter(ex => ex.sets.length > 0)
+      .map(ex => [normalizeExerciseType(ex.type), ex.sets.map(set => [set.reps, set.weight])])
+  );
+
+const bestByExercise = (entries: WorkoutHistoryEntry[]) => {
+  const best = new Map<string, { weight: number; reps: number }>();
+  entries.forEach(entry =>
+    entry.exercises.forEach(ex => {
+      const key = normalizeExerciseType(ex.type);
+      ex.sets.forEach(set => {
+        const current = best.get(key) ?? { weight: 0, reps: 0 };
+        best.set(key, { weight: Math.max(current.weight, set.weight), reps: Math.max(current.reps, set.reps) });
+      });
+    })
+  );
+  return best;
+};
+
+const checkSpacing = (sets: SetLog[]): VerificationReason | null => {
+  if (sets.length < 2) return null;
+  const times = sets.map(set => set.timestamp).sort((a, b) => a - b);
+  let tooClose = 0;
+  for (let i = 1; i < times.length; i += 1) {
+    if (times[i] - times[i - 1] < MIN_SET_GAP_MS) tooClose += 1;
+  }
+  const ratio = tooClose / (times.length - 1);
+  if (ratio < 0.25) return null;
+  return {
+    code: 'sets_too_close',
+    message: `${tooClose} of ${times.length} sets were logged less than ${MIN_SET_GAP_MS / 1000}s after the previous one.`,
+    penalty: ratio >= 0.5 ? PENALTIES.setsTooCloseMost : PENALTIES.setsTooCloseSome,
+  };
+};
+
+const checkTimestamps = (entry: WorkoutHistoryEntry, sets: SetLog[], now: number): VerificationReason | null => {
+  if (entry.performedAt > now + CLOCK_SKEW_MS) {
+    return { code: 'timestamps_outside_session', message: 'The session is dated in the future.', penalty: PENALTIES.timestampsOutsideSession };
+  }
+  const outside = sets.filter(
+    set => !Number.isFinite(set.timestamp) || set.timestamp > entry.performedAt || set.timestamp < entry.performedAt - MAX_SESSION_MS
+  ).length;
+  if (outside === 0) return null;
+  return {
+    code: 'timestamps_outside_session',
+    message: `${outside} set(s) timestamped after the session finished or more than ${MAX_SESSION_MS / 3_600_000}h before it.`,
+    penalty: PENALTIES.timestampsOutsideSession,
+  };
+};
+
+const checkSessionsPerDay = (entry: WorkoutHistoryEntry, prior: WorkoutHistoryEntry[]): VerificationReason | null => {
+  const sameDay = prior.filter(
+    other => other.id !== entry.id && other.performedAt <= entry.performedAt && entry.performedAt - other.performedAt < DAY_MS
+  ).length;
+  if (sameDay < MAX_SESSIONS_PER_DAY) return null;
+  return {
+    code: 'too_many_sessions',
+    message: `${sameDay + 1} sessions logged within 24 hours (more than ${MAX_SESSIONS_PER_DAY}).`,
+    penalty: PENALTIES.tooManySessions,
+  };
+};
+
+const checkAgainstHistory = (entry: WorkoutHistoryEntry, prior: WorkoutHistoryEntry[]): VerificationReason[] => {
+  const previousBest = bestByExercise(prior);
+  const current = bestByExercise([entry]);
+  const weightJumps: string[] = [];
+  const repJumps: string[] = [];
+
+  current.forEach((best, exercise) => {
+    const before = previousBest.get(exercise);
+    if (!before) return;
+    if (before.weight > 0 && best.weight > before.weight * 1.25 + 10) {
+      weightJumps.push(`${exercise} ${before.weight}kg → ${best.weight}kg`);
+    }
+    if (before.reps > 0 && best.reps > before.reps * 2 + 5) {
+      repJumps.push(`${exercise} ${before.reps} → ${best.reps} reps`);
+    }
+  });
+
+  const reasons: VerificationReason[] = [];
+  if (weightJumps.length > 0) {
+    reasons.push({ code: 'history_outlier', message: `Weight far above previous bests: ${describe(weightJumps)}.`, penalty: PENALTIES.historyOutlier });
+  }
+  if (repJumps.length > 0) {
+    reasons.push({ code: 'history_outlier', message: `Reps far above previous bests: ${describe(repJumps)}.`, penalty: PENALTIES.historyOutlier });
+  }
+  return reasons;
+};
+
+const findDuplicate = (entry: WorkoutHistoryEntry, prior: WorkoutHistoryEntry[]) => {
+  const setKeys = new Set(sessionSets(entry).flatMap(set => [`id:${set.id}`, `at:${set.timestamp}`]));
+  const fingerprint = contentFingerprint(entry);
+  return prior.find(
+    other =>
+      other.id !== entry.id &&
+      (sessionSets(other).some(set => setKeys.has(`id:${set.id}`) || setKeys.has(`at:${set.timestamp}`)) ||
+        (Math.abs(other.performedAt - entry.performedAt) < DUPLICATE_WINDOW_MS && contentFingerprint(other) === fingerprint))
+  );
+};
+
+const statusForScore = (score: number): SessionVerificationStatus => {
+  if (score >= VERIFIED_MIN_SCORE) return 'verified';
+  if (score >= FLAGGED_MIN_SCORE) return 'flagged';
+  return 'rejected';
+};
+
+/** Whether a session counts: an admin decision wins, otherwise only verified sessions do. */
+export const isSessionAccepted = (verification: SessionVerification) =>
+  verification.review ? verification.review.decision === 'approved' : verification.status === 'verified';
+
+export const applySessionReview = (verification: SessionVerification, review?: SessionReview): SessionVerification => {
+  const { review: _previous, ...unreviewed } = verification;
+  const reviewed: SessionVerification = review ? { ...unreviewed, review } : unreviewed;
+  return { ...reviewed, awardedPoints: isSessionAccepted(reviewed) ? verification.points : 0 };
+};
+
+/** Scores one session against the sessions logged before it, as of `now`. */
+export const verifySession = (entry: WorkoutHistoryEntry, prior: WorkoutHistoryEntry[], now = Date.now()): SessionVerification => {
+  const sets = sessionSets(entry);
+  const reasons: VerificationReason[] = [];
+
+  const implausible = sets.filter(isImplausibleSet).length;
+  if (implausible > 0) {
+    reasons.push({
+      code: 'implausible_values',
+      message: `${implausible} set(s) outside 1-${MAX_REPS_PER_SET} reps or 0-${MAX_WEIGHT_KG}kg.`,
+      penalty: PENALTIES.implausibleValues,
+    });
+  }
+
+  const spacing = checkSpacing(sets);
+  if (spacing) reasons.push(spacing);
+
+  const timestamps = checkTimestamps(entry, sets, now);
+  if (timestamps) reasons.push(timestamps);
+
+  if (sets.length > MAX_SETS_PER_SESSION) {
+    reasons.push({
+      code: 'excessive_volume',
+      message: `${sets.length} sets in one session (more than ${MAX_SETS_PER_SESSION}).`,
+      penalty: PENALTIES.excessiveVolume,
+    });
+  }
+
+  reasons.push(...checkAgainstHistory(entry, prior));
+
+  if (sets.length > 0 && !sets.some(set => (set.poseVerifiedReps ?? 0) > 0)) {
+    reasons.push({
+      code: 'no_pose_verification',
+      message: 'No reps were counted by the camera in this session.',
+      penalty: PENALTIES.noPoseVerification,
+    });
+  }
+
+  const sessionsPerDay = checkSessionsPerDay(entry, prior);
+  if (sessionsPerDay) reasons.push(sessionsPerDay);
+
+  const duplicate = findDuplicate(entry, prior);
+  if (duplicate) {
+    reasons.push({
+      code: 'duplicate_session',
+      message: `Repeats the session logged ${new Date(duplicate.performedAt).toISOString()}.`,
+      penalty: PENALTIES.duplicateSession,
+    });
+  }
+
+  const score = Math.max(0, 100 - reasons.reduce((sum, reason) => sum + reason.penalty, 0));
+  const status = statusForScore(score);
+  return applySessionReview({ status, score, reasons, points: calculateWorkoutPoints(entry.exercises).total, awardedPoints: 0 });
+};
+
+/**
+ * Verifies a user's whole history in the order it was performed. `reviews` are admin decisions
+ * keyed by entry id, and must be about each entry as it is now: the server only passes reviews
+ * whose stored hash still matches. The client's copy on each entry is not trusted.
+ */
+export const verifyHistory = (
+  history: WorkoutHistoryEntry[],
+  reviews: Record<string, SessionReview> = {},
+  now = Date.now()
+): Map<string, SessionVerification> => {
+  const ordered = [...history].sort((a, b) => a.performedAt - b.performedAt);
+  const results = new Map<string, SessionVerification>();
+  ordered.forEach((entry, index) => {
+    results.set(entry.id, applySessionReview(verifySession(entry, ordered.slice(0, index), now), reviews[entry.id]));
+  });
+  return results;
+};
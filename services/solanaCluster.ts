@@ -0,0 +1,84 @@
+import { clusterApiUrl, Commitment } from '@solana/web3.js';
+import { SolanaClusterName } from '../types';
+
+// Cluster settings shared by the app (VITE_SOLANA_*) and the sync server (SOLANA_*).
+
+export type ClusterCommitment = Extract<Commitment, 'processed' | 'confirmed' | 'finalized'>;
+
+export interface SolanaClusterConfig {
+  name: SolanaClusterName;
+  rpcUrl: string;
+  commitment: ClusterCommitment;
+}
+
+interface ClusterSettings {
+  cluster?: string;
+  rpcUrl?: string;
+  commitment?: string;
+}
+
+const CLUSTER_NAMES: SolanaClusterName[] = ['localnet', 'devnet', 'mainnet', 'custom'];
+const COMMITMENTS: ClusterCommitment[] = ['processed', 'confirmed', 'finalized'];
+
+// solana-test-validator's default RPC port.
+export const LOCALNET_RPC_URL = 'http://127.0.0.1:8899';
+
+const DEFAULT_RPC_URLS: Record<Exclude<SolanaClusterName, 'custom'>, string> = {
+  localnet: LOCALNET_RPC_URL,
+  devnet: clusterApiUrl('devnet'),
+  mainnet: clusterApiUrl('mainnet-beta'),
+};
+
+export const CLUSTER_LABELS: Record<SolanaClusterName, string> = {
+  localnet: 'Localnet',
+  devnet: 'Devnet',
+  mainnet: 'Mainnet',
+  custom: 'Custom RPC',
+};
+
+const isLocalUrl = (url: string) => /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/.test(url);
+
+/**
+ * Resolves cluster settings, defaulting to Devnet with 'confirmed' commitment. An RPC URL without a
+ * cluster name counts as localnet when it points at this machine and as custom otherwise, so it is
+ * never mistaken for a test cluster. Throws on unknown names or a custom cluster without a URL.
+ */
+export const resolveClusterConfig = ({ cluster, rpcUrl, commitment }: ClusterSettings = {}): SolanaClusterConfig => {
+  const url = rpcUrl?.trim() || undefined;
+  const requested = cluster?.trim().toLowerCase() || undefined;
+  const name = requested ?? (url ? (isLocalUrl(url) ? 'localnet' : 'custom') : 'devnet');
+  if (!CLUSTER_NAMES.includes(name as SolanaClusterName)) {
+    throw new Error(`Unknown Solana cluster "${cluster}". Use ${CLUSTER_NAMES.join(', ')}.`);
+  }
+
+  const level = commitment?.trim() || 'confirmed';
+  if (!COMMITMENTS.includes(level as ClusterCommitment)) {
+    throw new Error(`Unknown commitment "${commitment}". Use ${COMMITMENTS.join(', ')}.`);
+  }
+
+  if (name === 'custom' && !url) throw new Error('A custom Solana cluster needs an RPC URL.');
+  return {
+    name: name as SolanaClusterName,
+    rpcUrl: url ?? DEFAULT_RPC_URLS[name as Exclude<SolanaClusterName, 'custom'>],
+    commitment: level as ClusterCommitment,
+  };
+};
+
+/** Localnet and Devnet, where SOL is free. Custom RPCs may be mainnet, so they don't count. */
+export const isTestCluster = (config: Pick<SolanaClusterConfig, 'name'>) =>
+  config.name === 'localnet' || config.name === 'devnet';
+
+/** Throws unless `config` is a test cluster. Call before anything that only makes sense with free SOL. */
+export const assertTestCluster = (config: Pick<SolanaClusterConfig, 'name'>, operation: string) => {
+  if (!isTestCluster(config)) {
+    throw new Error(`${operation} only runs on Localnet or Devnet, not ${CLUSTER_LABELS[config.name]}.`);
+  }
+};
+
+/** Solana Explorer link for a transaction on the given cluster. */
+export const getExplorerTxUrl = (signature: string, config: Pick<SolanaClusterConfig, 'name' | 'rpcUrl'>) => {
+  const base = `https://explorer.solana.com/tx/${signature}`;
+  if (config.name === 'mainnet') return base;
+  if (config.name === 'devnet') return `${base}?cluster=devnet`;
+  return `${base}?cluster=custom&customUrl=${encodeURIComponent(config.rpcUrl)}`;
+};
@@ -0,0 +1,112 @@
+// Speaks coaching cues through the browser's speech synthesis, which works with no network at all.
+// speechSynthesis plays utterances strictly in order, so cues are queued here instead: the most
+// important cue goes first, a safety warning cuts off anything less urgent, and old low-priority
+// cues are dropped rather than read out long after the rep they were about.
+
+export type CuePriority = 'safety' | 'form' | 'encouragement';
+
+export const CUE_PRIORITY_RANK: Record<CuePriority, number> = { safety: 2, form: 1, encouragement: 0 };
+
+export interface SpeechCueQueue {
+  /**
+   * Queues `text`. Resolves true once it has been spoken, or false if it was cut off, dropped or is
+   * already queued. Rejects when the browser can't speak at all.
+   */
+  enqueue: (text: string, priority?: CuePriority) => Promise<boolean>;
+  /** Cuts off the cue being spoken and drops everything queued. */
+  clear: () => void;
+  isSupported: () => boolean;
+}
+
+// The parts of the Web Speech API the queue uses; tests substitute a fake.
+export type SpeechSynthesisLike = Pick<SpeechSynthesis, 'speak' | 'cancel'>;
+
+interface SpeechCueQueueOptions {
+  synth?: SpeechSynthesisLike | null;
+  createUtterance?: (text: string) => SpeechSynthesisUtterance;
+  // Cues waiting behind the one being spoken; past this the least important, oldest one is dropped.
+  maxPending?: number;
+}
+
+type QueuedCue = {
+  text: string;
+  priority: CuePriority;
+  settle: (spoken: boolean) => void;
+  fail: (err: Error) => void;
+};
+
+export const createSpeechCueQueue = ({
+  synth = typeof speechSynthesis !== 'undefined' ? speechSynthesis : null,
+  createUtterance = text => new SpeechSynthesisUtterance(text),
+  maxPending = 3,
+}: SpeechCueQueueOptions = {}): SpeechCueQueue => {
+  const pending: QueuedCue[] = [];
+  let speaking: QueuedCue | null = null;
+
+  const speakNext = () => {
+    if (speaking || !synth) return;
+    const cue = pending.shift();
+    if (!cue) return;
+    speaking = cue;
+
+    const utterance = createUtterance(cue.text);
+    const finish = (outcome: () => void) => {
+      if (speaking !== cue) return;
+      speaking = null;
+      outcome();
+      speakNext();
+    };
+    utterance.onend = () => finish(() => cue.settle(true));
+    utterance.onerror = event =>
+      // Cancelled by a more urgent cue or clear(); anything else is the synthesizer failing.
+      finish(() =>
+        event.error === 'interrupted' || event.error === 'canceled'
+          ? cue.settle(false)
+          : cue.fail(new Error(`Speech synthesis failed: ${event.error}`))
+      );
+    synth.speak(utterance);
+  };
+
+  // Ends the current cue without waiting for the synthesizer's error event, which some browsers skip.
+  const cutOff = () => {
+    const cue = speaking;
+    if (!cue) return;
+    speaking = null;
+    synth?.cancel();
+    cue.settle(false);
+  };
+
+  const enqueue = (text: string, priority: CuePriority = 'form') =>
+    new Promise<boolean>((resolve, reject) => {
+      const trimmed = text.trim();
+      if (!synth) {
+        reject(new Error('This browser has no speech synthesis.'));
+        return;
+      }
+      if (!trimmed || speaking?.text === trimmed || pending.some(cue => cue.text === trimmed)) {
+        resolve(false);
+        return;
+      }
+
+      const cue: QueuedCue = { text: trimmed, priority, settle: resolve, fail: reject };
+      // Behind every cue at least as important, ahead of the rest.
+      const index = pending.findIndex(queued => CUE_PRIORITY_RANK[queued.priority] < CUE_PRIORITY_RANK[priority]);
+      pending.splice(index === -1 ? pending.length : index, 0, cue);
+
+      if (pending.length > maxPending) {
+        const lowestRank = Math.min(...pending.map(queued => CUE_PRIORITY_RANK[queued.priority]));
+        const dropped = pending.splice(pending.findIndex(queued => CUE_PRIORITY_RANK[queued.priority] === lowestRank), 1)[0];
+        dropped.settle(false);
+      }
+
+      if (priority === 'safety' && speaking && speaking.priority !== 'safety') cutOff();
+      speakNext();
+    });
+
+  const clear = () => {
+    pending.splice(0).forEach(cue => cue.settle(false));
+    cutOff();
+  };
+
+  return { enqueue, clear, isSupported: () => synth !== null };
+};
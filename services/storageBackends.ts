@@ -0,0 +1,102 @@
+// Key/value backends behind the storage repository. Values are plain JSON-compatible data.
+
+export interface StorageBackend {
+  name: 'indexeddb' | 'localstorage' | 'memory';
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+const DEFAULT_DB_NAME = 'gymform';
+const STORE_NAME = 'keyval';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && indexedDB !== null;
+
+export const createIndexedDbBackend = (dbName: string = DEFAULT_DB_NAME): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab.'));
+      });
+      // Allow a retry on the next call instead of caching the failure forever.
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return promisifyRequest(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    name: 'indexeddb',
+    get: async <T>(key: string) => (await withStore('readonly', store => store.get(key))) as T | undefined,
+    set: async <T>(key: string, value: T) => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+    remove: async (key: string) => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+    keys: async () => (await withStore('readonly', store => store.getAllKeys())).map(String),
+  };
+};
+
+export const createLocalStorageBackend = (storage: Storage = localStorage): StorageBackend => ({
+  name: 'localstorage',
+  get: async <T>(key: string) => {
+    const raw = storage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      // Older builds stored some values (e.g. the current user id) as bare strings.
+      return raw as unknown as T;
+    }
+  },
+  set: async <T>(key: string, value: T) => {
+    storage.setItem(key, JSON.stringify(value));
+  },
+  remove: async (key: string) => {
+    storage.removeItem(key);
+  },
+  keys: async () => Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter((key): key is string => key !== null),
+});
+
+export const createMemoryBackend = (initial: Record<string, unknown> = {}): StorageBackend => {
+  const data = new Map<string, unknown>(Object.entries(initial));
+  // Clone on the way in and out so callers can't mutate stored state by reference, like a real store.
+  const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+  return {
+    name: 'memory',
+    get: async <T>(key: string) => clone(data.get(key)) as T | undefined,
+    set: async <T>(key: string, value: T) => {
+      data.set(key, clone(value));
+    },
+    remove: async (key: string) => {
+      data.delete(key);
+    },
+    keys: async () => Array.from(data.keys()),
+  };
+};
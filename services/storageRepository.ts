@@ -0,0 +1,171 @@
+import { UserAccount, WorkoutHistoryEntry, WorkoutRoutine } from "../types";
+import type { AiProviderSettings } from "./aiProvider";
+import {
+  migrateAccounts,
+  migrateHistory,
+  migrateRoutines,
+  MigrationResult,
+  stampSchemaVersion,
+} from "./schemaMigrations";
+import {
+  createIndexedDbBackend,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  isIndexedDbAvailable,
+  StorageBackend,
+} from "./storageBackends";
+import { EMPTY_SYNC_STATE, SyncState } from "./syncClient";
+
+export interface AppSettings {
+  velocityLossThreshold: number | null;
+  aiProvider?: AiProviderSettings;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  velocityLossThreshold: null,
+};
+
+export interface StorageRepository {
+  backend: StorageBackend['name'];
+  loadAccounts: () => Promise<MigrationResult<UserAccount>>;
+  saveAccounts: (accounts: UserAccount[]) => Promise<void>;
+  loadCurrentUserId: () => Promise<string | null>;
+  saveCurrentUserId: (userId: string | null) => Promise<void>;
+  loadRoutines: (userId: string) => Promise<MigrationResult<WorkoutRoutine>>;
+  saveRoutines: (userId: string, routines: WorkoutRoutine[]) => Promise<void>;
+  loadHistory: (userId: string) => Promise<MigrationResult<WorkoutHistoryEntry>>;
+  saveHistory: (userId: string, history: WorkoutHistoryEntry[]) => Promise<void>;
+  loadSettings: () => Promise<AppSettings>;
+  saveSettings: (settings: AppSettings) => Promise<void>;
+  loadSyncState: (userId: string) => Promise<SyncState>;
+  saveSyncState: (userId: string, state: SyncState) => Promise<void>;
+}
+
+// Key names predate the repository and are shared with the localStorage migration, so don't rename them.
+const STORAGE_KEYS = {
+  accounts: 'gymform_accounts',
+  currentUser: 'gymform_current_user',
+  settings: 'gymform_settings',
+  routines: (userId: string) => `gymform_routines_${userId}`,
+  history: (userId: string) => `gymform_history_${userId}`,
+  sync: (userId: string) => `gymform_sync_${userId}`,
+};
+
+// Settings that used to live under their own localStorage keys before `gymform_settings` existed.
+const LEGACY_VELOCITY_LOSS_KEY = 'gymform_velocity_loss_threshold';
+const LEGACY_AI_PROVIDER_KEY = 'gymform_ai_provider';
+const MIGRATION_MARKER_KEY = 'gymform_migrated_from_localstorage';
+const QUARANTINE_SUFFIX = '_unreadable';
+
+export const createStorageRepository = (backend: StorageBackend): StorageRepository => {
+  const loadList = async <T>(key: string, migrate: (payload: unknown) => MigrationResult<T>) => {
+    const result = migrate(await backend.get<unknown>(key));
+    if (result.rejected.length > 0) {
+      // The next save drops unreadable entries from `key`, so park the originals next to it first.
+      const quarantineKey = `${key}${QUARANTINE_SUFFIX}`;
+      const stored = (await backend.get<unknown[]>(quarantineKey)) ?? [];
+      const quarantined = Array.isArray(stored) ? stored : [stored];
+      // Every load until that save sees the same entries again; park each one once.
+      const parked = new Set(quarantined.map(value => JSON.stringify(value)));
+      const fresh = result.rejected.filter(value => !parked.has(JSON.stringify(value)));
+      if (fresh.length > 0) await backend.set(quarantineKey, [...quarantined, ...fresh]);
+    }
+    return result;
+  };
+
+  return {
+    backend: backend.name,
+    loadAccounts: () => loadList(STORAGE_KEYS.accounts, migrateAccounts),
+    saveAccounts: accounts => backend.set(STORAGE_KEYS.accounts, stampSchemaVersion(accounts)),
+    loadCurrentUserId: async () => {
+      const value = await backend.get<string>(STORAGE_KEYS.currentUser);
+      return typeof value === 'string' && value ? value : null;
+    },
+    saveCurrentUserId: userId =>
+      userId ? backend.set(STORAGE_KEYS.currentUser, userId) : backend.remove(STORAGE_KEYS.currentUser),
+    loadRoutines: userId => loadList(STORAGE_KEYS.routines(userId), migrateRoutines),
+    saveRoutines: (userId, routines) => backend.set(STORAGE_KEYS.routines(userId), stampSchemaVersion(routines)),
+    loadHistory: userId => loadList(STORAGE_KEYS.history(userId), migrateHistory),
+    saveHistory: (userId, history) => backend.set(STORAGE_KEYS.history(userId), stampSchemaVersion(history)),
+    loadSettings: async () => ({
+      ...DEFAULT_APP_SETTINGS,
+      ...(await backend.get<Partial<AppSettings>>(STORAGE_KEYS.settings)),
+    }),
+    saveSettings: settings => backend.set(STORAGE_KEYS.settings, settings),
+    loadSyncState: async userId => ({
+      ...EMPTY_SYNC_STATE,
+      ...(await backend.get<Partial<SyncState>>(STORAGE_KEYS.sync(userId))),
+    }),
+    saveSyncState: (userId, state) => backend.set(STORAGE_KEYS.sync(userId), state),
+  };
+};
+
+/**
+ * Copies data written by older builds (straight to localStorage) into the target backend.
+ * Runs once per target; existing keys in the target win, and localStorage is left intact
+ * so rolling back to an older build still finds its data.
+ */
+export const migrateLegacyStorage = async (source: StorageBackend, target: StorageBackend): Promise<number> => {
+  if (await target.get<boolean>(MIGRATION_MARKER_KEY)) return 0;
+
+  const targetKeys = new Set(await target.keys());
+  const legacyKeys = (await source.keys()).filter(
+    key =>
+      key === STORAGE_KEYS.accounts ||
+      key === STORAGE_KEYS.currentUser ||
+      key.startsWith('gymform_routines_') ||
+      key.startsWith('gymform_history_')
+  );
+
+  let migrated = 0;
+  for (const key of legacyKeys) {
+    if (targetKeys.has(key)) continue;
+    await target.set(key, await source.get(key));
+    migrated += 1;
+  }
+
+  if (!targetKeys.has(STORAGE_KEYS.settings)) {
+    const velocityLossThreshold = await source.get<number>(LEGACY_VELOCITY_LOSS_KEY);
+    const aiProvider = await source.get<AiProviderSettings>(LEGACY_AI_PROVIDER_KEY);
+    if (velocityLossThreshold !== undefined || aiProvider !== undefined) {
+      await target.set<AppSettings>(STORAGE_KEYS.settings, {
+        velocityLossThreshold: typeof velocityLossThreshold === 'number' ? velocityLossThreshold : null,
+        ...(aiProvider && typeof aiProvider === 'object' ? { aiProvider } : {}),
+      });
+      migrated += 1;
+    }
+  }
+
+  await target.set(MIGRATION_MARKER_KEY, true);
+  return migrated;
+};
+
+let defaultRepository: Promise<StorageRepository> | null = null;
+
+const openDefaultRepository = async (): Promise<StorageRepository> => {
+  const hasLocalStorage = typeof localStorage !== 'undefined';
+  if (!isIndexedDbAvailable()) {
+    return createStorageRepository(hasLocalStorage ? createLocalStorageBackend() : createMemoryBackend());
+  }
+
+  const backend = createIndexedDbBackend();
+  try {
+    if (hasLocalStorage) {
+      const migrated = await migrateLegacyStorage(createLocalStorageBackend(), backend);
+      if (migrated > 0) console.info(`Migrated ${migrated} localStorage entries to IndexedDB.`);
+    }
+    return createStorageRepository(backend);
+  } catch (err) {
+    // Private browsing modes can expose indexedDB but refuse to open it.
+    console.error("IndexedDB unavailable, falling back to localStorage:", err);
+    return createStorageRepository(hasLocalStorage ? createLocalStorageBackend() : createMemoryBackend());
+  }
+};
+
+/** Shared repository for the app: IndexedDB when the browser allows it, localStorage otherwise. */
+export const getStorageRepository = (): Promise<StorageRepository> => {
+  if (!defaultRepository) {
+    defaultRepository = openDefaultRepository();
+  }
+  return defaultRepository;
+};
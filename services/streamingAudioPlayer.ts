@@ -0,0 +1,247 @@
+// Plays MP3 audio while it is still streaming in, so a TTS cue starts speaking on its first chunk
+// instead of after the whole response has been buffered. Uses MediaSource where the browser can
+// append MPEG audio, and otherwise decodes whole MP3 frames in small batches through Web Audio.
+
+export interface StreamingAudioPlayer {
+  /**
+   * Plays the chunks from `openStream` as they arrive, cancelling whatever was playing. The stream
+   * gets a signal that aborts on cancel so it can close its connection. Resolves once the audio has
+   * finished or was cancelled; rejects if the stream fails or the browser refuses to play.
+   */
+  play: (openStream: (signal: AbortSignal) => AsyncIterable<Uint8Array>) => Promise<void>;
+  /** Cancels the current playback, if any. */
+  stop: () => void;
+  isPlaying: () => boolean;
+  /** Stops playback and releases the audio context the player created for itself. */
+  close: () => void;
+}
+
+export interface StreamingAudioPlayerOptions {
+  // Context for the decode fallback; the player creates its own on first use when this returns null.
+  getAudioContext?: () => AudioContext | null;
+  // Browser globals by default; pass null to force the decode fallback.
+  mediaSource?: typeof MediaSource | null;
+  createAudioElement?: () => HTMLAudioElement;
+}
+
+const MP3_MIME_TYPE = 'audio/mpeg';
+// Frames per decode in the fallback: a short first batch so speech starts quickly, then larger ones
+// so the seams between decoded buffers are rarer. An MP3 frame is about 26 ms at 44.1 kHz.
+const FIRST_BATCH_FRAMES = 8;
+const BATCH_FRAMES = 32;
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+
+// Byte length of the Layer III frame whose header starts at `offset`, or null if there isn't one.
+const readMp3FrameLength = (bytes: Uint8Array, offset: number): number | null => {
+  if (offset + 4 > bytes.length) return null;
+  const [b0, b1, b2] = [bytes[offset], bytes[offset + 1], bytes[offset + 2]];
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = (b1 >> 3) & 0x03; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  const layer = (b1 >> 1) & 0x03; // 1 = Layer III
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (isMpeg1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 0x01;
+  return Math.floor(((isMpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+};
+
+/**
+ * Splits `bytes` after the last complete MP3 frame, skipping anything before the first frame header.
+ * `frames` can be decoded on its own; `rest` is the start of a frame still arriving.
+ */
+export const takeMp3Frames = (bytes: Uint8Array): { frames: Uint8Array; rest: Uint8Array; count: number } => {
+  let start = 0;
+  while (start < bytes.length && readMp3FrameLength(bytes, start) === null) {
+    // Keep a possible header split across chunks for the next call.
+    if (bytes.length - start < 4 && bytes[start] === 0xff) break;
+    start += 1;
+  }
+
+  let end = start;
+  let count = 0;
+  while (true) {
+    const length = readMp3FrameLength(bytes, end);
+    if (length === null || end + length > bytes.length) break;
+    end += length;
+    count += 1;
+  }
+  return { frames: bytes.subarray(start, end), rest: bytes.subarray(end), count };
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+// Resolves on the first of `events` (rejecting for 'error'), or when `signal` aborts.
+const waitForEvent = (target: EventTarget, events: string[], signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      events.forEach(event => target.removeEventListener(event, onEvent));
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onEvent = (event: Event) => {
+      cleanup();
+      if (event.type === 'error') reject(new Error('Audio playback failed.'));
+      else resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      resolve();
+    };
+    if (signal.aborted) return resolve();
+    events.forEach(event => target.addEventListener(event, onEvent));
+    signal.addEventListener('abort', onAbort);
+  });
+
+const whenAborted = (signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+export const createStreamingAudioPlayer = ({
+  getAudioContext = () => null,
+  mediaSource = typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(MP3_MIME_TYPE) ? MediaSource : null,
+  createAudioElement = () => new Audio(),
+}: StreamingAudioPlayerOptions = {}): StreamingAudioPlayer => {
+  let current: AbortController | null = null;
+  let ownAudioContext: AudioContext | null = null;
+
+  const resolveAudioContext = () => {
+    const shared = getAudioContext();
+    if (shared && shared.state !== 'closed') return shared;
+    if (!ownAudioContext || ownAudioContext.state === 'closed') ownAudioContext = new AudioContext();
+    return ownAudioContext;
+  };
+
+  const playWithMediaSource = async (MediaSourceType: typeof MediaSource, chunks: AsyncIterable<Uint8Array>, signal: AbortSignal) => {
+    const source = new MediaSourceType();
+    const audio = createAudioElement();
+    const url = URL.createObjectURL(source);
+    audio.src = url;
+    let playFailure: unknown = null;
+
+    try {
+      await waitForEvent(source, ['sourceopen'], signal);
+      if (signal.aborted) return;
+      const buffer = source.addSourceBuffer(MP3_MIME_TYPE);
+      // Lets MP3 frames run back to back instead of being placed by their (absent) timestamps.
+      buffer.mode = 'sequence';
+
+      let playing: Promise<void> | null = null;
+      for await (const chunk of chunks) {
+        if (signal.aborted) return;
+        // A SourceBuffer takes one append at a time.
+        const appended = waitForEvent(buffer, ['updateend', 'error'], signal);
+        buffer.appendBuffer(chunk as Uint8Array<ArrayBuffer>);
+        await appended;
+        if (signal.aborted) return;
+        // Not awaited: play() only settles once enough audio is buffered, which may take more chunks.
+        playing ??= audio.play().catch(err => {
+          playFailure = err;
+        });
+      }
+      if (signal.aborted || !playing) return;
+
+      source.endOfStream();
+      await Promise.race([playing, whenAborted(signal)]);
+      if (playFailure) throw playFailure;
+      if (!audio.ended) await waitForEvent(audio, ['ended', 'error'], signal);
+    } finally {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const playWithDecoder = async (chunks: AsyncIterable<Uint8Array>, signal: AbortSignal) => {
+    const context = resolveAudioContext();
+    if (context.state === 'suspended') await context.resume().catch(() => undefined);
+    const sources = new Set<AudioBufferSourceNode>();
+    let nextStartTime = 0;
+    let pending: Uint8Array = new Uint8Array(0);
+    let isFirstBatch = true;
+
+    const schedule = async (frames: Uint8Array) => {
+      const decoded = await context.decodeAudioData(frames.slice().buffer);
+      if (signal.aborted) return;
+      const node = context.createBufferSource();
+      node.buffer = decoded;
+      node.connect(context.destination);
+      nextStartTime = Math.max(nextStartTime, context.currentTime);
+      node.start(nextStartTime);
+      nextStartTime += decoded.duration;
+      sources.add(node);
+      node.onended = () => sources.delete(node);
+    };
+
+    const stopSources = () => {
+      sources.forEach(node => node.stop());
+      sources.clear();
+    };
+    signal.addEventListener('abort', stopSources);
+
+    try {
+      for await (const chunk of chunks) {
+        if (signal.aborted) return;
+        pending = concatBytes(pending, chunk);
+        const { frames, rest, count } = takeMp3Frames(pending);
+        if (count < (isFirstBatch ? FIRST_BATCH_FRAMES : BATCH_FRAMES)) continue;
+        pending = rest;
+        isFirstBatch = false;
+        await schedule(frames);
+      }
+      if (signal.aborted) return;
+      const { frames, count } = takeMp3Frames(pending);
+      if (count > 0) await schedule(frames);
+
+      const remaining = nextStartTime - context.currentTime;
+      if (remaining > 0) {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        await Promise.race([new Promise<void>(resolve => (timer = setTimeout(resolve, remaining * 1000))), whenAborted(signal)]);
+        clearTimeout(timer);
+      }
+    } finally {
+      signal.removeEventListener('abort', stopSources);
+      stopSources();
+    }
+  };
+
+  const stop = () => {
+    current?.abort();
+    current = null;
+  };
+
+  const play = async (openStream: (signal: AbortSignal) => AsyncIterable<Uint8Array>) => {
+    stop();
+    const controller = new AbortController();
+    current = controller;
+    try {
+      const chunks = openStream(controller.signal);
+      if (mediaSource) await playWithMediaSource(mediaSource, chunks, controller.signal);
+      else await playWithDecoder(chunks, controller.signal);
+    } finally {
+      if (current === controller) current = null;
+    }
+  };
+
+  const close = () => {
+    stop();
+    if (ownAudioContext && ownAudioContext.state !== 'closed') ownAudioContext.close().catch(() => undefined);
+    ownAudioContext = null;
+  };
+
+  return { play, stop, isPlaying: () => current !== null, close };
+};
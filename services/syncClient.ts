@@ -0,0 +1,203 @@
+import { PublicUserAccount, SyncCollection, SyncPullResponse, SyncPushResponse, SyncRecord, UserAccount } from "../types";
+import type { ApiClient } from "./apiClient";
+
+export interface PendingSyncChange {
+  collection: SyncCollection;
+  record: SyncRecord;
+}
+
+/** Per-user sync bookkeeping, persisted through the storage repository so it survives reloads. */
+export interface SyncState {
+  // Local changes not yet acknowledged by the server, oldest first.
+  outbox: PendingSyncChange[];
+  // Server timestamp of the last successful pull per collection.
+  cursors: Partial<Record<SyncCollection, number>>;
+  // Last synced fingerprint and timestamp per `${collection}:${id}`; how local edits get detected.
+  known: Record<string, { hash: string; updatedAt: number }>;
+}
+
+export const EMPTY_SYNC_STATE: SyncState = { outbox: [], cursors: {}, known: {} };
+
+export type RemoteChanges = Record<SyncCollection, SyncRecord[]>;
+
+export interface SyncSessionOptions {
+  api: ApiClient;
+  userId: string;
+  initialState: SyncState;
+  saveState: (state: SyncState) => Promise<void>;
+}
+
+export interface SyncSession {
+  /** Diffs a collection against what was last synced and queues the differences. */
+  recordLocalChanges: (collection: SyncCollection, records: Array<{ id: string }>) => Promise<void>;
+  /** Pushes the outbox, then pulls. Resolves with the remote changes the caller should apply. */
+  synchronize: () => Promise<RemoteChanges>;
+  listPublicAccounts: () => Promise<PublicUserAccount[]>;
+  getPendingCount: () => number;
+}
+
+const SYNC_COLLECTIONS: SyncCollection[] = ['accounts', 'routines', 'history'];
+const MAX_PUSH_BATCH = 500;
+// Records a device held before it ever synced are stamped as ancient, so the first push only
+// fills gaps on the server and never overwrites data another device changed since.
+const PRE_SYNC_UPDATED_AT = 1;
+
+const knownKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+const fingerprint = (record: unknown) => JSON.stringify(record);
+
+/** Applies pulled records to a local list: tombstones remove, everything else upserts in place. */
+export const applyRemoteRecords = <T extends { id: string }>(records: T[], remote: SyncRecord[]): T[] => {
+  if (remote.length === 0) return records;
+  const next = [...records];
+  remote.forEach(change => {
+    const index = next.findIndex(record => record.id === change.id);
+    if (change.deleted) {
+      if (index >= 0) next.splice(index, 1);
+    } else if (index >= 0) {
+      next[index] = change.data as T;
+    } else {
+      next.push(change.data as T);
+    }
+  });
+  return next;
+};
+
+export const createSyncSession = (options: SyncSessionOptions): SyncSession => {
+  const { api, userId, saveState } = options;
+  const { request } = api;
+  const state: SyncState = {
+    outbox: [...options.initialState.outbox],
+    cursors: { ...options.initialState.cursors },
+    known: { ...options.initialState.known },
+  };
+  // Serializes synchronize() calls and local diffs so the outbox is never edited mid-push.
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const enqueue = (change: PendingSyncChange) => {
+    // Only the latest pending write per record matters.
+    state.outbox = [
+      ...state.outbox.filter(pending => !(pending.collection === change.collection && pending.record.id === change.record.id)),
+      change,
+    ];
+  };
+
+  const recordLocalChanges = (collection: SyncCollection, records: Array<{ id: string }>) =>
+    serialize(async () => {
+      // Other users' accounts are cached locally for the leaderboard but never pushed.
+      const owned = collection === 'accounts' ? records.filter(record => record.id === userId) : records;
+      const prefix = `${collection}:`;
+      const neverSynced = state.cursors[collection] === undefined && !Object.keys(state.known).some(key => key.startsWith(prefix));
+      const now = Date.now();
+      let changed = false;
+
+      const seen = new Set<string>();
+      owned.forEach(record => {
+        const key = knownKey(collection, record.id);
+        seen.add(key);
+        const hash = fingerprint(record);
+        if (state.known[key]?.hash === hash) return;
+        const updatedAt = neverSynced ? PRE_SYNC_UPDATED_AT : Math.max(now, (state.known[key]?.updatedAt ?? 0) + 1);
+        state.known[key] = { hash, updatedAt };
+        enqueue({ collection, record: { id: record.id, updatedAt, data: record } });
+        changed = true;
+      });
+
+      if (collection !== 'accounts') {
+        Object.keys(state.known)
+          .filter(key => key.startsWith(prefix) && !seen.has(key))
+          .forEach(key => {
+            const id = key.slice(prefix.length);
+            const updatedAt = Math.max(now, state.known[key].updatedAt + 1);
+            delete state.known[key];
+            enqueue({ collection, record: { id, updatedAt, deleted: true } });
+            changed = true;
+          });
+      }
+
+      if (changed) await saveState(state);
+    });
+
+  const adoptRemote = (collection: SyncCollection, record: SyncRecord) => {
+    const key = knownKey(collection, record.id);
+    if (record.deleted) delete state.known[key];
+    else state.known[key] = { hash: fingerprint(record.data), updatedAt: record.updatedAt };
+  };
+
+  const pushOutbox = async (remote: RemoteChanges) => {
+    for (const collection of SYNC_COLLECTIONS) {
+      const pending = state.outbox.filter(change => change.collection === collection).slice(0, MAX_PUSH_BATCH);
+      if (pending.length === 0) continue;
+
+      const result = await request<SyncPushResponse>(`/api/sync/${collection}`, {
+        method: 'POST',
+        body: JSON.stringify({ records: pending.map(change => change.record) }),
+      });
+      const settled = new Set([...result.applied, ...result.conflicts.map(record => record.id)]);
+      state.outbox = state.outbox.filter(change => !(change.collection === collection && settled.has(change.record.id)));
+      // The server held something newer: take its copy instead of ours.
+      result.conflicts.forEach(record => {
+        adoptRemote(collection, record);
+        remote[collection].push(record);
+      });
+      await saveState(state);
+    }
+  };
+
+  const pullChanges = async (remote: RemoteChanges) => {
+    for (const collection of SYNC_COLLECTIONS) {
+      const since = state.cursors[collection] ?? 0;
+      const result = await request<SyncPullResponse>(`/api/sync/${collection}?since=${since}`);
+      result.records.forEach(record => {
+        const pending = state.outbox.find(change => change.collection === collection && change.record.id === record.id);
+        // A newer local edit is still queued; it will win on the next push.
+        if (pending && pending.record.updatedAt > record.updatedAt) return;
+        if (pending) state.outbox = state.outbox.filter(change => change !== pending);
+        // Our own pushes come back on the next pull; nothing to apply if the content matches.
+        const known = state.known[knownKey(collection, record.id)];
+        if (!record.deleted && known?.hash === fingerprint(record.data)) {
+          known.updatedAt = record.updatedAt;
+          return;
+        }
+        adoptRemote(collection, record);
+        remote[collection].push(record);
+      });
+      state.cursors[collection] = result.serverTime;
+    }
+    await saveState(state);
+  };
+
+  const synchronize = () =>
+    serialize(async () => {
+      const remote: RemoteChanges = { accounts: [], routines: [], history: [] };
+      await pushOutbox(remote);
+      await pullChanges(remote);
+      return remote;
+    });
+
+  const listPublicAccounts = async () =>
+    (await request<{ accounts: PublicUserAccount[] }>('/api/accounts')).accounts;
+
+  return {
+    recordLocalChanges,
+    synchronize,
+    listPublicAccounts,
+    getPendingCount: () => state.outbox.length,
+  };
+};
+
+/** Refreshes other users' cached accounts from the server; the signed-in account stays local-first. */
+export const mergePublicAccounts = (
+  local: UserAccount[],
+  remote: PublicUserAccount[],
+  userId: string
+): UserAccount[] => {
+  const others = remote.filter(account => account.id !== userId).map(account => ({ ...account, password: '' }));
+  const otherIds = new Set(others.map(account => account.id));
+  return [...local.filter(account => !otherIds.has(account.id)), ...others];
+};
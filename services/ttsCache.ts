@@ -0,0 +1,293 @@
+import { getFormRules } from './formRules';
+import { createIndexedDbBackend, createMemoryBackend, isIndexedDbAvailable, StorageBackend } from './storageBackends';
+
+// Keeps synthesized cue audio so cues the coach repeats all session ("Chest up", "Knees out") play
+// straight from disk instead of being generated and paid for again. Audio is addressed by a hash
+// of what determines it; the least recently played cues are evicted once the cache is full.
+
+export interface TtsCacheVoice {
+  voiceId: string;
+  modelId: string;
+  // Part of the address too: the same text in different voice settings sounds different.
+  voiceSettings?: { stability: number; similarityBoost: number };
+}
+
+export interface TtsAudioStore {
+  name: 'cache-storage' | 'memory';
+  get: (key: string) => Promise<Uint8Array | undefined>;
+  put: (key: string, audio: Uint8Array) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+export interface TtsCacheMetrics {
+  hits: number;
+  misses: number;
+  // Share of cues played from the cache, 0-1; null before any cue was looked up.
+  hitRate: number | null;
+  entries: number;
+  bytes: number;
+  evictions: number;
+}
+
+export interface TtsCache {
+  /**
+   * Yields the cached audio for `text`, or streams it from `synthesize` and saves it once the whole
+   * cue has arrived. Audio from a stream that fails or is aborted through `signal` isn't saved.
+   */
+  stream: (
+    text: string,
+    voice: TtsCacheVoice,
+    synthesize: () => AsyncIterable<Uint8Array>,
+    options?: { signal?: AbortSignal; exercise?: string }
+  ) => AsyncGenerator<Uint8Array>;
+  /**
+   * Synthesizes the cues most often spoken for `exercise` (and its form-rule cues) that aren't
+   * cached yet, one at a time. Resolves with how many were added; stops at the first failure.
+   */
+  prewarm: (exercise: string, voice: TtsCacheVoice, synthesize: (text: string) => AsyncIterable<Uint8Array>) => Promise<number>;
+  getMetrics: () => Promise<TtsCacheMetrics>;
+  clear: () => Promise<void>;
+}
+
+interface TtsCacheOptions {
+  audioStore?: TtsAudioStore;
+  // Holds the LRU index, cue counts and metrics, which are small JSON unlike the audio.
+  indexBackend?: StorageBackend;
+  maxBytes?: number;
+  maxEntries?: number;
+  // How many cues prewarm() synthesizes at most.
+  prewarmLimit?: number;
+  now?: () => number;
+}
+
+type CacheEntry = { text: string; bytes: number; lastUsedAt: number };
+
+type CacheIndex = {
+  entries: Record<string, CacheEntry>;
+  // Times each cue was requested, by exercise, to pick what prewarm() synthesizes.
+  cueCounts: Record<string, Record<string, number>>;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+const INDEX_KEY = 'ttsCache:index';
+// About 3 minutes of 128 kbps MP3, or a few hundred short cues.
+const DEFAULT_MAX_BYTES = 3 * 1024 * 1024;
+const DEFAULT_MAX_ENTRIES = 300;
+const DEFAULT_PREWARM_LIMIT = 6;
+// Cue counts kept per exercise, so free-form Gemini cues can't grow the index without bound.
+const MAX_COUNTED_CUES = 50;
+
+const emptyIndex = (): CacheIndex => ({ entries: {}, cueCounts: {}, hits: 0, misses: 0, evictions: 0 });
+
+const normalizeCueText = (text: string) => text.trim().replace(/\s+/g, ' ');
+const normalizeExercise = (exercise: string) => exercise.trim().toLowerCase();
+
+const concatChunks = (chunks: Uint8Array[]) => {
+  const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  chunks.reduce((offset, chunk) => (joined.set(chunk, offset), offset + chunk.length), 0);
+  return joined;
+};
+
+/** Content address for a cue: SHA-256 over its normalized text, voice, model and voice settings. */
+export const ttsCacheKey = async (text: string, { voiceId, modelId, voiceSettings }: TtsCacheVoice): Promise<string> => {
+  const content = JSON.stringify([normalizeCueText(text), voiceId, modelId, voiceSettings?.stability ?? null, voiceSettings?.similarityBoost ?? null]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isCacheStorageAvailable = (): boolean => typeof caches !== 'undefined' && caches !== null;
+
+export const createCacheStorageAudioStore = (cacheName = 'gymform-tts'): TtsAudioStore => {
+  // The Cache API is keyed by request URL; these never hit the network.
+  const toUrl = (key: string) => new URL(`/tts-cache/${key}.mp3`, location.origin).toString();
+  return {
+    name: 'cache-storage',
+    get: async key => {
+      const response = await (await caches.open(cacheName)).match(toUrl(key));
+      return response ? new Uint8Array(await response.arrayBuffer()) : undefined;
+    },
+    put: async (key, audio) => {
+      const response = new Response(audio as Uint8Array<ArrayBuffer>, { headers: { 'Content-Type': 'audio/mpeg' } });
+      await (await caches.open(cacheName)).put(toUrl(key), response);
+    },
+    delete: async key => {
+      await (await caches.open(cacheName)).delete(toUrl(key));
+    },
+  };
+};
+
+export const createMemoryAudioStore = (): TtsAudioStore => {
+  const audio = new Map<string, Uint8Array>();
+  return {
+    name: 'memory',
+    get: async key => audio.get(key)?.slice(),
+    put: async (key, bytes) => {
+      audio.set(key, bytes.slice());
+    },
+    delete: async key => {
+      audio.delete(key);
+    },
+  };
+};
+
+export const createTtsCache = ({
+  audioStore = createMemoryAudioStore(),
+  indexBackend = createMemoryBackend(),
+  maxBytes = DEFAULT_MAX_BYTES,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  prewarmLimit = DEFAULT_PREWARM_LIMIT,
+  now = Date.now,
+}: TtsCacheOptions = {}): TtsCache => {
+  let indexPromise: Promise<CacheIndex> | null = null;
+  // Index updates run one after another so concurrent cues don't overwrite each other's changes.
+  let lastUpdate: Promise<unknown> = Promise.resolve();
+
+  const loadIndex = () =>
+    (indexPromise ??= indexBackend
+      .get<CacheIndex>(INDEX_KEY)
+      .then(saved => ({ ...emptyIndex(), ...saved }))
+      .catch(err => {
+        console.error('Failed to load the TTS cache index, starting empty:', err);
+        return emptyIndex();
+      }));
+
+  const updateIndex = <T>(change: (index: CacheIndex) => Promise<T> | T): Promise<T> => {
+    const run = lastUpdate.then(async () => {
+      const index = await loadIndex();
+      const result = await change(index);
+      await indexBackend.set(INDEX_KEY, index);
+      return result;
+    });
+    lastUpdate = run.catch(() => undefined);
+    return run;
+  };
+
+  const countCue = (index: CacheIndex, exercise: string | undefined, text: string) => {
+    if (!exercise) return;
+    const counts = (index.cueCounts[normalizeExercise(exercise)] ??= {});
+    counts[text] = (counts[text] ?? 0) + 1;
+    const texts = Object.keys(counts);
+    if (texts.length > MAX_COUNTED_CUES) {
+      const rarest = texts.reduce((a, b) => (counts[b] < counts[a] ? b : a));
+      delete counts[rarest];
+    }
+  };
+
+  // Least recently played first, until both limits hold.
+  const evict = async (index: CacheIndex) => {
+    const byAge = Object.entries(index.entries).sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+    let bytes = byAge.reduce((sum, [, entry]) => sum + entry.bytes, 0);
+    let count = byAge.length;
+    for (const [key, entry] of byAge) {
+      if (bytes <= maxBytes && count <= maxEntries) break;
+      delete index.entries[key];
+      await audioStore.delete(key);
+      bytes -= entry.bytes;
+      count -= 1;
+      index.evictions += 1;
+    }
+  };
+
+  // Looks a cue up and marks it played; an entry whose audio went missing is forgotten.
+  const lookUp = (key: string, text: string, exercise: string | undefined) =>
+    updateIndex(async index => {
+      countCue(index, exercise, text);
+      const entry = index.entries[key];
+      const audio = entry ? await audioStore.get(key) : undefined;
+      if (entry && audio) {
+        entry.lastUsedAt = now();
+        index.hits += 1;
+        return audio;
+      }
+      delete index.entries[key];
+      index.misses += 1;
+      return undefined;
+    });
+
+  const save = (key: string, text: string, audio: Uint8Array) =>
+    updateIndex(async index => {
+      // A single cue larger than the whole cache would only evict everything else.
+      if (audio.length === 0 || audio.length > maxBytes) return;
+      await audioStore.put(key, audio);
+      index.entries[key] = { text, bytes: audio.length, lastUsedAt: now() };
+      await evict(index);
+    });
+
+  const stream: TtsCache['stream'] = async function* (text, voice, synthesize, { signal, exercise } = {}) {
+    const normalized = normalizeCueText(text);
+    const key = await ttsCacheKey(normalized, voice);
+    // A broken cache must never cost the cue itself.
+    const cached = await lookUp(key, normalized, exercise).catch(err => {
+      console.error('TTS cache lookup failed:', err);
+      return undefined;
+    });
+    if (cached) {
+      yield cached;
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of synthesize()) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    if (!signal?.aborted) {
+      await save(key, normalized, concatChunks(chunks)).catch(err => console.error('Failed to cache TTS audio:', err));
+    }
+  };
+
+  const prewarm: TtsCache['prewarm'] = async (exercise, voice, synthesize) => {
+    const index = await loadIndex();
+    const counts = index.cueCounts[normalizeExercise(exercise)] ?? {};
+    const frequent = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+    const candidates = [...new Set([...frequent, ...getFormRules(exercise).map(rule => normalizeCueText(rule.cue))])];
+
+    let added = 0;
+    for (const text of candidates.slice(0, prewarmLimit)) {
+      const key = await ttsCacheKey(text, voice);
+      if (index.entries[key]) continue;
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of synthesize(text)) chunks.push(chunk);
+      await save(key, text, concatChunks(chunks));
+      added += 1;
+    }
+    return added;
+  };
+
+  const getMetrics = async (): Promise<TtsCacheMetrics> => {
+    await lastUpdate;
+    const { entries, hits, misses, evictions } = await loadIndex();
+    const values = Object.values(entries);
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      entries: values.length,
+      bytes: values.reduce((sum, entry) => sum + entry.bytes, 0),
+      evictions,
+    };
+  };
+
+  const clear = () =>
+    updateIndex(async index => {
+      await Promise.all(Object.keys(index.entries).map(key => audioStore.delete(key)));
+      Object.assign(index, emptyIndex());
+    });
+
+  return { stream, prewarm, getMetrics, clear };
+};
+
+let defaultCache: TtsCache | null = null;
+
+/** Shared cache for the app: Cache Storage with an IndexedDB index where the browser has both, memory otherwise. */
+export const getTtsCache = (): TtsCache => {
+  if (!defaultCache) {
+    const persistent = isCacheStorageAvailable() && isIndexedDbAvailable();
+    defaultCache = persistent
+      ? createTtsCache({ audioStore: createCacheStorageAudioStore(), indexBackend: createIndexedDbBackend('gymform-tts') })
+      : createTtsCache();
+  }
+  return defaultCache;
+};
@@ -0,0 +1,211 @@
+import { TtsProviderId, TtsSettings } from "../types";
+import {
+  createElevenLabsSession,
+  DEFAULT_ELEVEN_LABS_VOICE_SETTINGS,
+  ElevenLabsSession,
+  formatElevenLabsErrorForUi,
+  resolveElevenLabsVoice,
+} from "./elevenLabsService";
+import { createSpeechCueQueue, CuePriority, SpeechCueQueue } from "./speechCueQueue";
+import { createStreamingAudioPlayer, StreamingAudioPlayerOptions } from "./streamingAudioPlayer";
+import { TtsCache, TtsCacheVoice } from "./ttsCache";
+
+// Registry of the voices the coach can speak with, chosen per user in Settings.
+
+export interface TtsSpeaker {
+  id: TtsProviderId;
+  /**
+   * Speaks `text`, cutting off whatever this speaker was still saying. Resolves when it has been
+   * spoken or cut off; rejects when the provider fails so the caller can fall back.
+   */
+  speak: (text: string) => Promise<void>;
+  /** Cuts off the current utterance, e.g. when Gemini signals an interruption. */
+  stop: () => void;
+  /** Stops speaking and releases sockets and audio contexts. */
+  close: () => void;
+  /** Caches the exercise's common cues ahead of time; resolves with how many were added. */
+  prewarm: (exercise: string) => Promise<number>;
+}
+
+interface TtsSpeakerOptions {
+  // How streamed audio is played, e.g. through the HUD's output context.
+  player?: StreamingAudioPlayerOptions;
+  // ElevenLabs socket host; tests point this at a local mock server.
+  elevenLabsBaseUrl?: string;
+  speechQueue?: SpeechCueQueue;
+  // Replays repeated ElevenLabs cues from disk instead of synthesizing them again.
+  cache?: TtsCache;
+  // Exercise the cues are about, counted so the cache knows what to prewarm.
+  exercise?: string;
+}
+
+export const TTS_PROVIDER_OPTIONS: Array<{ id: TtsProviderId; label: string; description: string }> = [
+  { id: 'gemini-native', label: 'Gemini voice', description: "Plays the live coach's own audio. Needs Gemini live coaching." },
+  { id: 'elevenlabs', label: 'ElevenLabs', description: 'Streams each cue in a chosen ElevenLabs voice. Needs an ElevenLabs API key.' },
+  { id: 'browser', label: 'Browser voice', description: "Your device's built-in speech synthesis. Works offline." },
+  { id: 'silent', label: 'Text only', description: 'Cues appear on screen without being spoken.' },
+];
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  providerId: 'gemini-native',
+  voiceId: '',
+  stability: DEFAULT_ELEVEN_LABS_VOICE_SETTINGS.stability,
+  similarityBoost: DEFAULT_ELEVEN_LABS_VOICE_SETTINGS.similarityBoost,
+  cueVerbosity: 'chatty',
+  micMode: 'voice-activity',
+};
+
+export const TEST_VOICE_PHRASE = 'Chest up, brace, and drive through your heels.';
+
+const clampUnit = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+/** Fills in defaults and drops out-of-range values from settings saved by older or other clients. */
+export const normalizeTtsSettings = (settings: Partial<TtsSettings> | undefined): TtsSettings => ({
+  providerId: TTS_PROVIDER_OPTIONS.some(option => option.id === settings?.providerId)
+    ? settings!.providerId!
+    : DEFAULT_TTS_SETTINGS.providerId,
+  voiceId: settings?.voiceId?.trim() ?? '',
+  stability: clampUnit(settings?.stability, DEFAULT_TTS_SETTINGS.stability),
+  similarityBoost: clampUnit(settings?.similarityBoost, DEFAULT_TTS_SETTINGS.similarityBoost),
+  cueVerbosity: settings?.cueVerbosity === 'minimal' ? 'minimal' : DEFAULT_TTS_SETTINGS.cueVerbosity,
+  micMode: settings?.micMode === 'push-to-talk' ? 'push-to-talk' : DEFAULT_TTS_SETTINGS.micMode,
+});
+
+/** Whether the provider can speak arbitrary text; Gemini's voice only exists inside a live session. */
+export const canSpeakText = (providerId: TtsProviderId) => providerId === 'elevenlabs' || providerId === 'browser';
+
+const createElevenLabsSpeaker = (settings: TtsSettings, options: TtsSpeakerOptions): TtsSpeaker => {
+  const player = createStreamingAudioPlayer(options.player);
+  const { cache, exercise } = options;
+  const voiceSettings = { stability: settings.stability, similarityBoost: settings.similarityBoost };
+  const voice: TtsCacheVoice = { ...resolveElevenLabsVoice(settings.voiceId || undefined), voiceSettings };
+  const openSession = () =>
+    createElevenLabsSession({ baseUrl: options.elevenLabsBaseUrl, voiceId: settings.voiceId || undefined, voiceSettings });
+  let session: ElevenLabsSession | null = null;
+  const getSession = () => (session ??= openSession());
+  // Prewarming gets a socket of its own, so stopping a live cue doesn't cut off the cue being cached.
+  let prewarmSession: ElevenLabsSession | null = null;
+
+  return {
+    id: 'elevenlabs',
+    speak: text =>
+      player.play(signal =>
+        cache
+          ? cache.stream(text, voice, () => getSession().speak(text, { signal }), { signal, exercise })
+          : getSession().speak(text, { signal })
+      ),
+    stop: () => {
+      session?.interrupt();
+      player.stop();
+    },
+    close: () => {
+      player.close();
+      session?.close();
+      session = null;
+      prewarmSession?.close();
+      prewarmSession = null;
+    },
+    prewarm: async exerciseName => {
+      if (!cache) return 0;
+      // A newer prewarm, e.g. for the next exercise, replaces one still running.
+      prewarmSession?.close();
+      const own = (prewarmSession = openSession());
+      try {
+        return await cache.prewarm(exerciseName, voice, text => own.speak(text));
+      } finally {
+        own.close();
+        if (prewarmSession === own) prewarmSession = null;
+      }
+    },
+  };
+};
+
+// Each cue replaces the last, like the other providers; the queue's priorities are for fallback cues.
+const createBrowserSpeaker = (queue: SpeechCueQueue = createSpeechCueQueue()): TtsSpeaker => ({
+  id: 'browser',
+  speak: async text => {
+    queue.clear();
+    await queue.enqueue(text);
+  },
+  stop: queue.clear,
+  close: queue.clear,
+  prewarm: async () => 0,
+});
+
+// Gemini's voice is played by the HUD from the live session's audio, and text-only shows cues on
+// screen; neither speaks text on its own.
+const createQuietSpeaker = (id: TtsProviderId): TtsSpeaker => ({
+  id,
+  speak: async () => undefined,
+  stop: () => undefined,
+  close: () => undefined,
+  prewarm: async () => 0,
+});
+
+export const createTtsSpeaker = (settings: TtsSettings, options: TtsSpeakerOptions = {}): TtsSpeaker => {
+  if (settings.providerId === 'elevenlabs') return createElevenLabsSpeaker(settings, options);
+  if (settings.providerId === 'browser') return createBrowserSpeaker(options.speechQueue);
+  return createQuietSpeaker(settings.providerId);
+};
+
+// Who ended up voicing a cue: the chosen provider, a fallback, or nobody (the cue is only on screen).
+export type CueVoice = TtsProviderId | 'none';
+
+export interface CueDelivery {
+  voicedBy: CueVoice;
+  // Why the chosen provider didn't speak the cue, when it failed.
+  error?: unknown;
+}
+
+interface CueFallbacks {
+  // Plays the audio Gemini sent with the cue; false when there was none.
+  playGeminiAudio: () => Promise<boolean>;
+  // Speaks through the browser when both the chosen voice and Gemini's are unavailable.
+  speechQueue: SpeechCueQueue;
+}
+
+/**
+ * Speaks a live-coaching cue with the user's voice, then Gemini's audio for the cue, then the
+ * browser's offline speech synthesis, stopping at the first that works.
+ */
+export const speakCueWithFallback = async (
+  speaker: TtsSpeaker,
+  cue: { text: string; priority?: CuePriority },
+  { playGeminiAudio, speechQueue }: CueFallbacks
+): Promise<CueDelivery> => {
+  // Gemini's own voice arrives across many messages, so a message without audio isn't a failure.
+  if (speaker.id === 'gemini-native') return { voicedBy: (await playGeminiAudio()) ? 'gemini-native' : 'none' };
+  if (speaker.id === 'silent') return { voicedBy: 'none' };
+
+  try {
+    await speaker.speak(cue.text);
+    return { voicedBy: speaker.id };
+  } catch (error) {
+    if (await playGeminiAudio().catch(() => false)) return { voicedBy: 'gemini-native', error };
+    if (speaker.id !== 'browser' && speechQueue.isSupported()) {
+      try {
+        await speechQueue.enqueue(cue.text, cue.priority);
+        return { voicedBy: 'browser', error };
+      } catch (speechError) {
+        console.error('Speech synthesis fallback failed:', speechError);
+      }
+    }
+    return { voicedBy: 'none', error };
+  }
+};
+
+const FALLBACK_NOTES: Record<CueVoice, string> = {
+  'gemini-native': 'Using Gemini voice fallback.',
+  elevenlabs: 'Using ElevenLabs instead.',
+  browser: "Using the device's voice instead.",
+  silent: 'Cues are shown on screen only.',
+  none: 'No voice fallback is available; cues are shown on screen only.',
+};
+
+export const formatTtsErrorForUi = (providerId: TtsProviderId, error: unknown, voicedBy: CueVoice = 'gemini-native'): string => {
+  const note = FALLBACK_NOTES[voicedBy];
+  if (providerId === 'elevenlabs') return formatElevenLabsErrorForUi(error, note);
+  const label = TTS_PROVIDER_OPTIONS.find(option => option.id === providerId)?.label ?? providerId;
+  return `${label} failed. Detail: ${error instanceof Error ? error.message : 'Unknown error.'}. ${note}`;
+};
@@ -0,0 +1,151 @@
+import { getWallets } from '@wallet-standard/app';
+import type { Wallet, WalletAccount } from '@wallet-standard/base';
+import {
+  StandardConnect,
+  StandardConnectFeature,
+  StandardDisconnect,
+  StandardDisconnectFeature,
+  StandardEvents,
+  StandardEventsFeature,
+} from '@wallet-standard/features';
+import { SolanaSignMessage, SolanaSignMessageFeature } from '@solana/wallet-standard-features';
+
+// Wallets that register through the Wallet Standard (Phantom, Solflare, Backpack, ...) plus the older
+// injected `window.solana` provider, behind one small interface for linking a payout address.
+
+declare global {
+  interface Window {
+    solana?: LegacyInjectedProvider;
+  }
+}
+
+interface LegacyInjectedProvider {
+  isPhantom?: boolean;
+  connect: () => Promise<{ publicKey: { toString: () => string } }>;
+  disconnect?: () => Promise<void>;
+  signMessage?: (message: Uint8Array, display?: 'utf8') => Promise<{ signature: Uint8Array }>;
+  on?: (event: 'accountChanged' | 'disconnect', listener: (publicKey?: { toString: () => string } | null) => void) => void;
+  removeListener?: (event: 'accountChanged' | 'disconnect', listener: (...args: unknown[]) => void) => void;
+}
+
+export interface WalletOption {
+  name: string;
+  icon?: string;
+}
+
+export interface SignedMessage {
+  // What the wallet actually signed; verify against this rather than the requested bytes.
+  signedMessage: Uint8Array;
+  signature: Uint8Array;
+}
+
+export interface WalletSession {
+  walletName: string;
+  address: string;
+  signMessage: (message: Uint8Array) => Promise<SignedMessage>;
+  disconnect: () => Promise<void>;
+  /** Called with the new address when the user switches accounts in the wallet, or null when it disconnects. */
+  onAccountChange: (listener: (address: string | null) => void) => () => void;
+}
+
+const LEGACY_WALLET_NAME = 'Injected wallet';
+
+type SolanaWallet = Wallet & {
+  features: StandardConnectFeature & SolanaSignMessageFeature & Partial<StandardDisconnectFeature & StandardEventsFeature>;
+};
+
+const isSolanaAccount = (account: WalletAccount) => account.chains.some(chain => chain.startsWith('solana:'));
+
+const isSolanaWallet = (wallet: Wallet): wallet is SolanaWallet =>
+  wallet.chains.some(chain => chain.startsWith('solana:')) &&
+  StandardConnect in wallet.features &&
+  SolanaSignMessage in wallet.features;
+
+const standardWallets = () => getWallets().get().filter(isSolanaWallet);
+
+const getLegacyProvider = (): LegacyInjectedProvider | null => {
+  const provider = typeof window !== 'undefined' ? window.solana : undefined;
+  return provider?.signMessage ? provider : null;
+};
+
+/** Solana wallets that can sign messages. The legacy provider is only listed when no standard wallet is. */
+export const listWallets = (): WalletOption[] => {
+  const wallets: WalletOption[] = standardWallets().map(wallet => ({ name: wallet.name, icon: wallet.icon }));
+  if (wallets.length === 0 && getLegacyProvider()) {
+    wallets.push({ name: getLegacyProvider()?.isPhantom ? 'Phantom' : LEGACY_WALLET_NAME });
+  }
+  return wallets;
+};
+
+/** Calls `listener` with the wallet list now and whenever a wallet extension registers or goes away. */
+export const watchWallets = (listener: (wallets: WalletOption[]) => void): (() => void) => {
+  const registry = getWallets();
+  const emit = () => listener(listWallets());
+  const unsubscribe = [registry.on('register', emit), registry.on('unregister', emit)];
+  emit();
+  return () => unsubscribe.forEach(off => off());
+};
+
+const connectStandardWallet = async (wallet: SolanaWallet): Promise<WalletSession> => {
+  const { accounts } = await wallet.features[StandardConnect].connect();
+  let account = accounts.find(isSolanaAccount);
+  if (!account) throw new Error(`${wallet.name} did not share a Solana account.`);
+
+  return {
+    walletName: wallet.name,
+    address: account.address,
+    signMessage: async message => {
+      // Set when the wallet reports it no longer shares a Solana account.
+      if (!account) throw new Error(`${wallet.name} was disconnected. Reconnect it to sign.`);
+      const [output] = await wallet.features[SolanaSignMessage].signMessage({ account, message });
+      return { signedMessage: output.signedMessage, signature: output.signature };
+    },
+    disconnect: async () => {
+      await wallet.features[StandardDisconnect]?.disconnect();
+    },
+    onAccountChange: listener => {
+      const events = wallet.features[StandardEvents];
+      if (!events) return () => {};
+      return events.on('change', ({ accounts: changed }) => {
+        if (!changed) return;
+        account = changed.find(isSolanaAccount);
+        listener(account?.address ?? null);
+      });
+    },
+  };
+};
+
+const connectLegacyProvider = async (provider: LegacyInjectedProvider, walletName: string): Promise<WalletSession> => {
+  const { publicKey } = await provider.connect();
+  return {
+    walletName,
+    address: publicKey.toString(),
+    signMessage: async message => {
+      const { signature } = await provider.signMessage!(message, 'utf8');
+      return { signedMessage: message, signature };
+    },
+    disconnect: async () => {
+      await provider.disconnect?.();
+    },
+    onAccountChange: listener => {
+      const onChanged = (next?: { toString: () => string } | null) => listener(next ? next.toString() : null);
+      const onDisconnect = () => listener(null);
+      provider.on?.('accountChanged', onChanged);
+      provider.on?.('disconnect', onDisconnect);
+      return () => {
+        provider.removeListener?.('accountChanged', onChanged as (...args: unknown[]) => void);
+        provider.removeListener?.('disconnect', onDisconnect);
+      };
+    },
+  };
+};
+
+/** Asks the named wallet to connect. Rejects if the user declines or the wallet has gone away. */
+export const connectWallet = async (name: string): Promise<WalletSession> => {
+  const wallet = standardWallets().find(candidate => candidate.name === name);
+  if (wallet) return connectStandardWallet(wallet);
+
+  const legacy = getLegacyProvider();
+  if (legacy && listWallets().some(option => option.name === name)) return connectLegacyProvider(legacy, name);
+  throw new Error(`${name} is not available.`);
+};
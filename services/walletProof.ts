@@ -0,0 +1,78 @@
+import { PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { SolanaWalletProof } from '../types';
+
+// How long a freshly signed message stays acceptable when a wallet is linked.
+export const WALLET_PROOF_MAX_AGE_MS = 10 * 60 * 1000;
+
+const STATEMENT = 'Signing proves you own this wallet. It does not send a transaction or cost anything.';
+
+interface OwnershipMessageFields {
+  address: string;
+  accountId: string;
+  domain: string;
+  nonce: string;
+  issuedAt: number;
+}
+
+/** The plain-text message a wallet signs to link `address` to an account, in the style of Sign-In With Solana. */
+export const buildOwnershipMessage = ({ address, accountId, domain, nonce, issuedAt }: OwnershipMessageFields): string =>
+  [
+    `${domain} wants you to link this Solana wallet to your Gym Buddy account:`,
+    address,
+    '',
+    STATEMENT,
+    '',
+    `Account: ${accountId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+
+const readField = (message: string, name: string) => new RegExp(`^${name}: (.+)$`, 'm').exec(message)?.[1];
+
+const verifyEd25519 = async (address: string, message: string, signature: Uint8Array) => {
+  const key = await crypto.subtle.importKey('raw', new PublicKey(address).toBytes(), { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, signature, new TextEncoder().encode(message));
+};
+
+interface ProofExpectations {
+  address: string;
+  accountId: string;
+  // Only checked when given: linking requires a fresh signature, a stored proof stays valid.
+  maxAgeMs?: number;
+  now?: number;
+}
+
+/** Returns why the proof doesn't show `accountId` controls `address`, or null if it does. */
+export const checkOwnershipProof = async (
+  proof: SolanaWalletProof,
+  { address, accountId, maxAgeMs, now = Date.now() }: ProofExpectations
+): Promise<string | null> => {
+  if (proof.address !== address || proof.message.split('\n')[1] !== address) return 'The signed message is for a different address.';
+  if (readField(proof.message, 'Account') !== accountId) return 'The signed message is for a different account.';
+  const issuedAt = Date.parse(readField(proof.message, 'Issued At') ?? '');
+  if (!Number.isFinite(issuedAt)) return 'The signed message has no issue time.';
+  if (maxAgeMs !== undefined && (now - issuedAt > maxAgeMs || issuedAt - now > maxAgeMs)) return 'The signed message has expired.';
+
+  try {
+    const valid = await verifyEd25519(address, proof.message, Buffer.from(proof.signature, 'base64'));
+    return valid ? null : 'The wallet signature does not match the address.';
+  } catch (err) {
+    console.error('Could not verify wallet signature:', err);
+    return 'The wallet signature could not be verified.';
+  }
+};
+
+/** Packages what a wallet returned from signing the ownership message as a storable proof. */
+export const toOwnershipProof = (
+  address: string,
+  walletName: string,
+  { signedMessage, signature }: { signedMessage: Uint8Array; signature: Uint8Array },
+  signedAt = Date.now()
+): SolanaWalletProof => ({
+  address,
+  message: new TextDecoder().decode(signedMessage),
+  signature: Buffer.from(signature).toString('base64'),
+  walletName,
+  signedAt,
+});
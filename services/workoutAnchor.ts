@@ -0,0 +1,92 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { WorkoutAnchorCheck, WorkoutHistoryEntry } from '../types';
+
+// Hashing and memo format for anchoring finished workouts on-chain, shared by the sync server
+// (which sends the memo) and the app (which checks an entry against it).
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const MEMO_PREFIX = 'gym-buddy:workout:v1:';
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+// Only what was lifted and when: verification results, AI scores and the anchor itself can change
+// after the fact and must not change the hash.
+const toCanonicalWorkout = (entry: WorkoutHistoryEntry, wallet: string | null) => ({
+  v: 1,
+  id: entry.id,
+  routineName: entry.routineName,
+  performedAt: entry.performedAt,
+  wallet,
+  exercises: entry.exercises.map(exercise => ({
+    type: exercise.type,
+    sets: exercise.sets.map(set => ({ reps: set.reps, weight: set.weight, timestamp: set.timestamp })),
+  })),
+});
+
+/** The exact text hashWorkoutEntry hashes, for callers that hash synchronously. */
+export const serializeWorkoutForHash = (entry: WorkoutHistoryEntry, wallet?: string) =>
+  JSON.stringify(toCanonicalWorkout(entry, wallet ?? null));
+
+/** Hex SHA-256 of the entry's canonical form, with the owner's wallet when there is one. */
+export const hashWorkoutEntry = async (entry: WorkoutHistoryEntry, wallet?: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(serializeWorkoutForHash(entry, wallet));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Buffer.from(digest).toString('hex');
+};
+
+export const buildWorkoutMemo = (hash: string) => `${MEMO_PREFIX}${hash}`;
+
+/** The hash in a workout memo, or null for any other memo. */
+export const parseWorkoutMemo = (memo: string): string | null => {
+  if (!memo.startsWith(MEMO_PREFIX)) return null;
+  const hash = memo.slice(MEMO_PREFIX.length);
+  return HASH_PATTERN.test(hash) ? hash : null;
+};
+
+export const createWorkoutMemoInstruction = (hash: string, signer: PublicKey) =>
+  new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(buildWorkoutMemo(hash), 'utf8'),
+  });
+
+export type AnchorLookupConnection = Pick<Connection, 'getTransaction'>;
+
+/**
+ * Looks up the anchoring transaction and compares its memo with a fresh hash of `entry`. A mismatch
+ * means the entry was changed after it was anchored, or, with `expectedSigner` (the sync server's
+ * treasury), that someone else wrote the memo.
+ */
+export const verifyWorkoutAnchor = async (
+  entry: WorkoutHistoryEntry,
+  connection: AnchorLookupConnection,
+  expectedSigner?: string
+): Promise<WorkoutAnchorCheck> => {
+  const { anchor } = entry;
+  if (!anchor) return { status: 'not_found', message: 'This workout has not been anchored.' };
+
+  const transaction = await connection.getTransaction(anchor.signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  if (!transaction || transaction.meta?.err) {
+    return { status: 'not_found', message: `No successful anchoring transaction found on ${anchor.cluster}.` };
+  }
+
+  const { message } = transaction.transaction;
+  const keys = message.staticAccountKeys;
+  const memos = message.compiledInstructions
+    .filter(instruction => keys[instruction.programIdIndex]?.equals(MEMO_PROGRAM_ID))
+    .map(instruction => parseWorkoutMemo(Buffer.from(instruction.data).toString('utf8')));
+  const onChainHash = memos.find((hash): hash is string => hash !== null);
+  const details = { signer: keys[0]?.toBase58(), ...(transaction.blockTime ? { blockTime: transaction.blockTime * 1000 } : {}) };
+  if (!onChainHash) {
+    return { status: 'not_found', message: 'The transaction has no workout memo.', ...details };
+  }
+  if (expectedSigner && details.signer !== expectedSigner) {
+    return { status: 'mismatch', message: "The anchor wasn't signed by this server's treasury.", onChainHash, ...details };
+  }
+
+  const hash = await hashWorkoutEntry(entry, anchor.wallet);
+  return hash === onChainHash
+    ? { status: 'match', message: 'This workout matches the hash recorded on-chain.', onChainHash, ...details }
+    : { status: 'mismatch', message: 'This workout was changed after it was anchored.', onChainHash, ...details };
+};
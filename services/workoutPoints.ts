@@ -0,0 +1,44 @@
+import { WorkoutExercise } from "../types";
+
+export interface WorkoutPoints {
+  total: number;
+  totalSets: number;
+  highFormBonus: number;
+  consistencyBonus: number;
+  bestFormScore?: number;
+}
+
+const BASE_POINTS = 25;
+const POINTS_PER_SET = 5;
+
+const getFormBonus = (score: number) => {
+  if (score >= 90) return 20;
+  if (score >= 80) return 12;
+  if (score >= 70) return 6;
+  return 0;
+};
+
+/** Points for one completed session. Shared by the client award flow and the server leaderboards. */
+export const calculateWorkoutPoints = (exercises: WorkoutExercise[]): WorkoutPoints => {
+  const sets = exercises.flatMap(ex => ex.sets);
+  const totalSets = sets.length;
+  if (totalSets === 0) {
+    return { total: 0, totalSets: 0, highFormBonus: 0, consistencyBonus: 0 };
+  }
+
+  // The form score comes with the set from the client; it only earns a bonus when the camera saw the reps.
+  const formScores = sets
+    .filter(set => typeof set.formScore === 'number' && (set.poseVerifiedReps ?? 0) > 0)
+    .map(set => set.formScore as number);
+
+  const highFormBonus = formScores.reduce((acc, score) => acc + getFormBonus(score), 0);
+  const consistencyBonus = totalSets >= 10 ? 20 : totalSets >= 6 ? 10 : 0;
+
+  return {
+    total: BASE_POINTS + totalSets * POINTS_PER_SET + highFormBonus + consistencyBonus,
+    totalSets,
+    highFormBonus,
+    consistencyBonus,
+    bestFormScore: formScores.length ? Math.max(...formScores) : undefined,
+  };
+};
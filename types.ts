@@ -16,12 +16,76 @@ export interface FrameData {
   timestamp: number;
 }
 
+export interface PoseLandmark {
+  x: number;
+  y: number;
+  z?: number;
+  visibility?: number;
+}
+
+export type RepPhase = 'setup' | 'ready' | 'eccentric' | 'concentric';
+
+export interface RepEvent {
+  count: number;
+  startedAt: number;
+  turnaroundAt: number;
+  completedAt: number;
+  minAngle: number;
+  maxAngle: number;
+}
+
+export type FormViolationSeverity = 'form' | 'safety';
+
+export interface FormViolation {
+  ruleId: string;
+  severity: FormViolationSeverity;
+  message: string;
+  cue: string;
+  reps: number[];
+}
+
+export interface RepMetrics {
+  rep: number;
+  timeUnderTensionMs: number;
+  eccentricMs: number;
+  concentricMs: number;
+  // Bar/hand speed during the concentric, in torso lengths per second so camera distance cancels out.
+  meanConcentricVelocity: number;
+  peakConcentricVelocity: number;
+}
+
+export type CoachJoint = 'neck' | 'shoulders' | 'elbows' | 'wrists' | 'back' | 'hips' | 'knees' | 'ankles';
+
+// Structured events the live coach reports through tool calls, alongside what it says.
+export type LiveCoachEvent =
+  | { type: 'issue'; at: number; joint: CoachJoint; severity: FormViolationSeverity; cue: string }
+  // The coach's own running count, kept next to the on-device count rather than replacing it.
+  | { type: 'rep'; at: number; count: number }
+  | { type: 'set-complete'; at: number; reason?: string };
+
+export interface LiveSetSummary {
+  reps: RepEvent[];
+  formViolations: FormViolation[];
+  repMetrics: RepMetrics[];
+  autoStopped?: boolean;
+  coachEvents?: LiveCoachEvent[];
+}
+
 export interface SetLog {
   id: string;
   reps: number;
   weight: number;
   formScore?: number;
   timestamp: number;
+  repMetrics?: RepMetrics[];
+  timeUnderTensionMs?: number;
+  velocityLossPercent?: number;
+  // The live session ended the set itself once velocity loss crossed the user's threshold.
+  autoStopped?: boolean;
+  // Reps counted from pose landmarks when the set was logged from camera analysis.
+  poseVerifiedReps?: number;
+  // What the live coach reported during the set.
+  coachEvents?: LiveCoachEvent[];
 }
 
 export interface WorkoutExercise {
@@ -40,6 +104,13 @@ export interface WorkoutRoutine {
   splitName?: string;
   dayIndex?: number;
   generatedByAI?: boolean;
+  schemaVersion?: number;
+}
+
+export interface WorkoutSplitSuggestion {
+  routines: WorkoutRoutine[];
+  reasoning: string;
+  splitName: string;
 }
 
 export interface WorkoutHistoryEntry {
@@ -49,11 +120,78 @@ export interface WorkoutHistoryEntry {
   performedAt: number;
   splitName?: string;
   exercises: WorkoutExercise[];
+  // Plausibility check run when the session was logged; the sync server recomputes its own.
+  verification?: SessionVerification;
+  // Set by the sync server once the session's hash is written on-chain.
+  anchor?: WorkoutAnchor;
+  schemaVersion?: number;
+}
+
+// A memo transaction from the payout treasury carrying the hash of a history entry.
+export interface WorkoutAnchor {
+  // Hex SHA-256 of the entry's sets (see services/workoutAnchor.ts).
+  hash: string;
+  signature: string;
+  cluster: SolanaClusterName;
+  // The verified wallet hashed in with the entry, tying the proof to its owner.
+  wallet?: string;
+  anchoredAt: number;
+}
+
+export type WorkoutAnchorCheckStatus = 'match' | 'mismatch' | 'not_found';
+
+// Result of comparing a history entry with the hash in its anchoring transaction.
+export interface WorkoutAnchorCheck {
+  status: WorkoutAnchorCheckStatus;
+  message: string;
+  onChainHash?: string;
+  // Fee payer of the memo transaction; the sync server's treasury for genuine anchors.
+  signer?: string;
+  blockTime?: number;
+}
+
+export type SessionVerificationStatus = 'verified' | 'flagged' | 'rejected';
+
+export type VerificationReasonCode =
+  | 'implausible_values'
+  | 'sets_too_close'
+  | 'excessive_volume'
+  | 'history_outlier'
+  | 'no_pose_verification'
+  | 'duplicate_session'
+  | 'timestamps_outside_session'
+  | 'too_many_sessions';
+
+export interface VerificationReason {
+  code: VerificationReasonCode;
+  message: string;
+  // Deducted from the plausibility score of 100.
+  penalty: number;
+}
+
+export type SessionReviewDecision = 'approved' | 'rejected';
+
+export interface SessionReview {
+  decision: SessionReviewDecision;
+  reviewerId: string;
+  reviewedAt: number;
+  note?: string;
+}
+
+export interface SessionVerification {
+  status: SessionVerificationStatus;
+  score: number;
+  reasons: VerificationReason[];
+  // Points the session is worth, and the part actually awarded (withheld unless verified or approved).
+  points: number;
+  awardedPoints: number;
+  review?: SessionReview;
 }
 
 export interface UserAccount {
   id: string;
   username: string;
+  email?: string;
   password: string;
   createdAt: number;
   points?: number;
@@ -61,5 +199,189 @@ export interface UserAccount {
   totalSetsCompleted?: number;
   bestFormScore?: number;
   solanaWalletAddress?: string;
+  solanaWalletProof?: SolanaWalletProof;
   pendingSolanaRewards?: number;
+  // Anchor each finished workout on-chain through the sync server.
+  anchorWorkouts?: boolean;
+  // Optional, self-reported; only used to place the user in a leaderboard division.
+  bodyweightKg?: number;
+  experienceLevel?: ExperienceLevel;
+  // How the live coach speaks; follows the account to every device.
+  ttsSettings?: TtsSettings;
+  schemaVersion?: number;
+}
+
+export type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export type TtsProviderId = 'gemini-native' | 'elevenlabs' | 'browser' | 'silent';
+
+// How much the live coach talks: every useful cue, or safety and form only, spaced further apart.
+export type CueVerbosity = 'chatty' | 'minimal';
+
+// When the live coach hears the mic: whenever the lifter talks, or only while the talk button is held.
+export type MicMode = 'voice-activity' | 'push-to-talk';
+
+export interface TtsSettings {
+  providerId: TtsProviderId;
+  // ElevenLabs voice; empty uses VITE_ELEVEN_LABS_VOICE_ID or the built-in voice.
+  voiceId: string;
+  // ElevenLabs voice settings, 0-1.
+  stability: number;
+  similarityBoost: number;
+  cueVerbosity: CueVerbosity;
+  micMode: MicMode;
+}
+
+// Signed proof that the user controls solanaWalletAddress, made when the wallet was linked.
+export interface SolanaWalletProof {
+  address: string;
+  message: string;
+  // Base64 ed25519 signature of `message` by `address`.
+  signature: string;
+  walletName: string;
+  signedAt: number;
+}
+
+// What other users may see about an account (leaderboards, sync server account list).
+export type PublicUserAccount = Omit<UserAccount, 'password' | 'email' | 'bodyweightKg' | 'solanaWalletProof' | 'ttsSettings'>;
+
+export type SyncCollection = 'accounts' | 'routines' | 'history';
+
+// One record as exchanged with the sync server. `updatedAt` decides conflicts: the newer write wins.
+export interface SyncRecord<T = unknown> {
+  id: string;
+  updatedAt: number;
+  deleted?: boolean;
+  data?: T;
+}
+
+export interface SyncPushResponse {
+  applied: string[];
+  // Server copies that were newer than the pushed change; the client should adopt them.
+  conflicts: SyncRecord[];
+  serverTime: number;
+}
+
+export interface SyncPullResponse {
+  records: SyncRecord[];
+  serverTime: number;
+}
+
+export type LeaderboardBoard = 'points' | 'form' | 'volume';
+
+export type LeaderboardSeason = 'weekly' | 'monthly' | 'all-time';
+
+export interface LeaderboardQuery {
+  board: LeaderboardBoard;
+  season: LeaderboardSeason;
+  // 0 is the running season, -1 the one before it (final standings), and so on.
+  seasonOffset?: number;
+  // Per-exercise boards ('form' requires it, 'volume' falls back to all exercises).
+  exercise?: string;
+  division?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface LeaderboardSeasonWindow {
+  season: LeaderboardSeason;
+  label: string;
+  startsAt: number | null;
+  endsAt: number | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  value: number;
+  workoutsCompleted: number;
+}
+
+export interface LeaderboardResponse {
+  board: LeaderboardBoard;
+  exercise?: string;
+  division?: string;
+  window: LeaderboardSeasonWindow;
+  entries: LeaderboardEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  viewer?: {
+    entry: LeaderboardEntry;
+    // Neighbours around the viewer, only filled when they are not on the requested page.
+    window: LeaderboardEntry[];
+  };
+}
+
+// Which Solana cluster the app or the payout treasury talks to; 'custom' is any other RPC endpoint.
+export type SolanaClusterName = 'localnet' | 'devnet' | 'mainnet' | 'custom';
+
+// What claims pay out in, as configured on the server: SOL, or an SPL token minted or sent by the treasury.
+export interface RewardAsset {
+  kind: 'sol' | 'spl';
+  symbol: string;
+  decimals: number;
+  // Whole SOL or tokens paid per point.
+  perPoint: number;
+  // SPL only.
+  mint?: string;
+}
+
+export type RewardCapPeriod = 'weekly' | 'monthly';
+
+// Payout limits for the current period. Points over a cap stay pending until the next period.
+export interface RewardCapStatus {
+  period: RewardCapPeriod;
+  resetsAt: number;
+  perUserPoints?: number;
+  totalPoints?: number;
+}
+
+// Claimable rewards as computed by the payout service from the user's synced history.
+export interface RewardStatus {
+  earnedPoints: number;
+  claimedPoints: number;
+  // Earned but not yet claimed.
+  pendingPoints: number;
+  // The part of pendingPoints the caps allow claiming right now, and what it pays out.
+  claimablePoints: number;
+  claimableAmount: number;
+  asset: RewardAsset;
+  cap?: RewardCapStatus;
+  treasuryAddress: string;
+  // The cluster payouts are sent on.
+  cluster: SolanaClusterName;
+}
+
+export type RewardClaimStatus = 'pending' | 'confirmed' | 'failed';
+
+// One row of the server's claim ledger. Pending and confirmed claims count as claimed points.
+export interface RewardClaim {
+  id: string;
+  // Chosen by the client; sending the same key again returns this claim instead of paying twice.
+  idempotencyKey: string;
+  recipient: string;
+  points: number;
+  // In whole units of `symbol`; the asset is the one configured when the claim was made.
+  amount: number;
+  symbol: string;
+  status: RewardClaimStatus;
+  signature?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RewardClaimResponse {
+  claim: RewardClaim;
+  status: RewardStatus;
+}
+
+// A session in the admin review queue.
+export interface ReviewableSession {
+  userId: string;
+  username: string;
+  entry: WorkoutHistoryEntry;
+  verification: SessionVerification;
 }